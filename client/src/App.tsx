@@ -5,36 +5,99 @@ import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { trpc } from '@/utils/trpc';
-import type { User, Listing, Category, Order } from '../../server/src/schema';
+import { trpc, getAuthToken, setAuthTokens } from '@/utils/trpc';
+import type {
+  User,
+  Listing,
+  ListingSearchResult,
+  ListingSort,
+  ListingFilters,
+  SearchFacetsResponse,
+  Category,
+  Order,
+  WatchlistItem,
+  SavedSearchQuery
+} from '../../server/src/schema';
 import { AuthDialog } from '@/components/AuthDialog';
 import { CreateListingDialog } from '@/components/CreateListingDialog';
 import { ListingCard } from '@/components/ListingCard';
 import { OrderCard } from '@/components/OrderCard';
+import { EncryptionKeyCard } from '@/components/EncryptionKeyCard';
+import { SellerHandoffsCard } from '@/components/SellerHandoffsCard';
 import { DashboardStats } from '@/components/DashboardStats';
+import { ResetPasswordDialog } from '@/components/ResetPasswordDialog';
+import { TwoFactorSetupDialog } from '@/components/TwoFactorSetupDialog';
+import { SellerApplicationCard } from '@/components/SellerApplicationCard';
+import { SellerApplicationsQueue } from '@/components/SellerApplicationsQueue';
+import { SellerVerificationCard } from '@/components/SellerVerificationCard';
+import { KycReviewQueue } from '@/components/KycReviewQueue';
+import { CategoryManager } from '@/components/CategoryManager';
+import { KeyRotationCard } from '@/components/KeyRotationCard';
+import { ApiKeysCard } from '@/components/ApiKeysCard';
+import { SaveSearchDialog } from '@/components/SaveSearchDialog';
+import { SavedSearchesCard } from '@/components/SavedSearchesCard';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+// Emailed links land on the home page with a token in the query string
+const takeUrlParam = (name: string): string | null => {
+  const url = new URL(window.location.href);
+  const value = url.searchParams.get(name);
+  if (value) {
+    url.searchParams.delete(name);
+    window.history.replaceState(null, '', url.toString());
+  }
+  return value;
+};
+
+const formatPriceBucket = (bucket: SearchFacetsResponse['price_buckets'][number]): string => {
+  const dollars = (cents: number) => `$${Math.round(cents / 100)}`;
+  if (bucket.max_price === null) return `${dollars(bucket.min_price)}+`;
+  if (bucket.min_price === 0) return `Under ${dollars(bucket.max_price + 1)}`;
+  return `${dollars(bucket.min_price)}–${dollars(bucket.max_price + 1)}`;
+};
+
+const sellerVerificationLabels: Record<SearchFacetsResponse['seller_verification'][number]['status'], string> = {
+  verified: 'Verified sellers',
+  pending: 'Verification pending',
+  none: 'Unverified sellers'
+};
 
 function App() {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [listings, setListings] = useState<Listing[]>([]);
+  const [listings, setListings] = useState<ListingSearchResult[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [sort, setSort] = useState<ListingSort>('relevance');
+  const [priceBucket, setPriceBucket] = useState<number | null>(null);
+  const [sellerVerification, setSellerVerification] = useState<ListingFilters['seller_verification'] | null>(null);
+  const [facets, setFacets] = useState<SearchFacetsResponse | null>(null);
+  // Filters and sort behind the current results, reused when loading more
+  const [activeSearch, setActiveSearch] = useState<ListingFilters & { sort: ListingSort }>({ sort: 'relevance' });
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [currentView, setCurrentView] = useState<'home' | 'dashboard'>('home');
   const [myOrders, setMyOrders] = useState<Order[]>([]);
   const [myListings, setMyListings] = useState<Listing[]>([]);
+  const [watchlist, setWatchlist] = useState<WatchlistItem[]>([]);
+  const [resetToken, setResetToken] = useState<string | null>(() => takeUrlParam('reset_password'));
+  const [verifyToken] = useState<string | null>(() => takeUrlParam('verify_email'));
+  const [emailNotice, setEmailNotice] = useState<string | null>(null);
 
   // Load initial data
   const loadInitialData = useCallback(async () => {
     try {
       setIsLoading(true);
-      const [categoriesResult, listingsResult] = await Promise.all([
+      const [categoriesResult, listingsResult, facetsResult] = await Promise.all([
         trpc.catalog.listCategories.query(),
-        trpc.catalog.searchListings.query({ page: 1, page_size: 20 })
+        trpc.catalog.searchListings.query({ page: 1, page_size: 20 }),
+        trpc.catalog.searchFacets.query({})
       ]);
       
       setCategories(categoriesResult);
       setListings(listingsResult.items);
+      setNextCursor(listingsResult.next_cursor);
+      setFacets(facetsResult);
     } catch (error) {
       console.error('Failed to load initial data:', error);
     } finally {
@@ -42,6 +105,24 @@ function App() {
     }
   }, []);
 
+  const loadCategories = useCallback(async () => {
+    try {
+      setCategories(await trpc.catalog.listCategories.query());
+    } catch (error) {
+      console.error('Failed to load categories:', error);
+    }
+  }, []);
+
+  const loadWatchlist = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setWatchlist(await trpc.watchlist.list.query());
+    } catch (error) {
+      console.error('Failed to load watchlist:', error);
+    }
+  }, [user]);
+
   const loadUserData = useCallback(async () => {
     if (!user) return;
     
@@ -57,15 +138,62 @@ function App() {
       if ('items' in userListingsResult) {
         setMyListings(userListingsResult.items);
       }
+      await loadWatchlist();
     } catch (error) {
       console.error('Failed to load user data:', error);
     }
-  }, [user]);
+  }, [user, loadWatchlist]);
+
+  // Restore the signed-in user from a stored token
+  const restoreSession = useCallback(async () => {
+    if (!getAuthToken()) return;
+
+    try {
+      const currentUser = await trpc.auth.me.query();
+      setUser(currentUser);
+    } catch (error) {
+      console.error('Failed to restore session:', error);
+      setAuthTokens(null);
+    }
+  }, []);
+
+  const confirmEmail = useCallback(async () => {
+    if (!verifyToken) return;
+
+    try {
+      await trpc.auth.verifyEmail.mutate({ token: verifyToken });
+      setEmailNotice('✅ Your email address is verified. You can now buy and sell.');
+      if (getAuthToken()) {
+        setUser(await trpc.auth.me.query());
+      }
+    } catch (error) {
+      console.error('Email verification failed:', error);
+      setEmailNotice('This verification link is invalid or has expired.');
+    }
+  }, [verifyToken]);
+
+  const handleResendVerification = async () => {
+    try {
+      await trpc.auth.resendVerificationEmail.mutate();
+      setEmailNotice('📧 We sent a new verification link to your inbox.');
+    } catch (error) {
+      console.error('Failed to resend verification email:', error);
+      setEmailNotice('Could not send a verification email. Please try again later.');
+    }
+  };
 
   useEffect(() => {
     loadInitialData();
   }, [loadInitialData]);
 
+  useEffect(() => {
+    confirmEmail();
+  }, [confirmEmail]);
+
+  useEffect(() => {
+    restoreSession();
+  }, [restoreSession]);
+
   useEffect(() => {
     loadUserData();
   }, [loadUserData]);
@@ -75,23 +203,46 @@ function App() {
     loadUserData();
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      await trpc.auth.logout.mutate();
+    } catch (error) {
+      console.error('Failed to end session:', error);
+    }
+    setAuthTokens(null);
     setUser(null);
     setCurrentView('home');
     setMyOrders([]);
     setMyListings([]);
+    setWatchlist([]);
   };
 
+  const watchedIds = new Set(watchlist.map((item: WatchlistItem) => item.listing.id));
+
   const handleSearch = async () => {
+    const bucket = priceBucket === null ? null : facets?.price_buckets[priceBucket];
+    const filters: ListingFilters = {
+      q: searchQuery || undefined,
+      category_slug: selectedCategory || undefined,
+      min_price: bucket?.min_price,
+      max_price: bucket?.max_price ?? undefined,
+      seller_verification: sellerVerification || undefined
+    };
+
+    await runSearch(filters, sort);
+  };
+
+  const runSearch = async (filters: ListingFilters, sortOrder: ListingSort) => {
     try {
       setIsLoading(true);
-      const result = await trpc.catalog.searchListings.query({
-        q: searchQuery || undefined,
-        category_slug: selectedCategory || undefined,
-        page: 1,
-        page_size: 20
-      });
+      const [result, facetsResult] = await Promise.all([
+        trpc.catalog.searchListings.query({ ...filters, sort: sortOrder, page: 1, page_size: 20 }),
+        trpc.catalog.searchFacets.query(filters)
+      ]);
       setListings(result.items);
+      setNextCursor(result.next_cursor);
+      setActiveSearch({ ...filters, sort: sortOrder });
+      setFacets(facetsResult);
     } catch (error) {
       console.error('Failed to search listings:', error);
     } finally {
@@ -99,10 +250,39 @@ function App() {
     }
   };
 
+  // Price bounds of a saved search need not match a facet bucket, so they are searched as saved
+  const handleRunSavedSearch = async ({ sort: savedSort, ...filters }: SavedSearchQuery) => {
+    setSearchQuery(filters.q ?? '');
+    setSelectedCategory(filters.category_slug ?? null);
+    setSellerVerification(filters.seller_verification ?? null);
+    setPriceBucket(null);
+    setSort(savedSort);
+    setCurrentView('home');
+    await runSearch(filters, savedSort);
+  };
+
+  // Appends the next page; cursors keep pages consistent while listings change
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    try {
+      const result = await trpc.catalog.searchListings.query({
+        ...activeSearch,
+        cursor: nextCursor,
+        include_total: false,
+        page_size: 20
+      });
+      setListings(prev => [...prev, ...result.items]);
+      setNextCursor(result.next_cursor);
+    } catch (error) {
+      console.error('Failed to load more listings:', error);
+    }
+  };
+
   const handleListingCreated = (newListing: Listing) => {
     setMyListings(prev => [newListing, ...prev]);
     if (newListing.status === 'available') {
-      setListings(prev => [newListing, ...prev]);
+      setListings(prev => [{ ...newListing, highlight: null }, ...prev]);
     }
   };
 
@@ -140,7 +320,34 @@ function App() {
                   <option value="">All Categories</option>
                   {categories.map((category: Category) => (
                     <option key={category.id} value={category.slug}>
-                      {category.name}
+                      {category.parent_id ? '— ' : ''}{category.name}
+                      {facets && ` (${facets.categories.find(c => c.slug === category.slug)?.count ?? 0})`}
+                    </option>
+                  ))}
+                </select>
+                
+                <select
+                  value={priceBucket ?? ''}
+                  onChange={(e) => setPriceBucket(e.target.value === '' ? null : Number(e.target.value))}
+                  className="px-3 py-2 border border-gray-300 rounded-md bg-white/80 backdrop-blur-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="">Any price</option>
+                  {facets?.price_buckets.map((bucket, index) => (
+                    <option key={index} value={index}>
+                      {formatPriceBucket(bucket)} ({bucket.count})
+                    </option>
+                  ))}
+                </select>
+                
+                <select
+                  value={sellerVerification ?? ''}
+                  onChange={(e) => setSellerVerification((e.target.value || null) as typeof sellerVerification)}
+                  className="px-3 py-2 border border-gray-300 rounded-md bg-white/80 backdrop-blur-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="">Any seller</option>
+                  {facets?.seller_verification.map(option => (
+                    <option key={option.status} value={option.status}>
+                      {sellerVerificationLabels[option.status]} ({option.count})
                     </option>
                   ))}
                 </select>
@@ -154,9 +361,23 @@ function App() {
                   className="px-3 py-2 border border-gray-300 rounded-md bg-white/80 backdrop-blur-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
                 />
                 
+                <select
+                  value={sort}
+                  onChange={(e) => setSort(e.target.value as ListingSort)}
+                  className="px-3 py-2 border border-gray-300 rounded-md bg-white/80 backdrop-blur-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="relevance">Best match</option>
+                  <option value="newest">Newest</option>
+                  <option value="price_asc">Price: low to high</option>
+                  <option value="price_desc">Price: high to low</option>
+                  <option value="seller_rating">Top-rated sellers</option>
+                </select>
+                
                 <Button onClick={handleSearch} variant="outline">
                   Search
                 </Button>
+
+                {user && <SaveSearchDialog query={activeSearch} />}
               </div>
             )}
           </div>
@@ -196,8 +417,29 @@ function App() {
         </div>
       </header>
 
+      {resetToken && (
+        <ResetPasswordDialog token={resetToken} onClose={() => setResetToken(null)} />
+      )}
+
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
+        {emailNotice && (
+          <Alert className="mb-6 bg-white/80">
+            <AlertDescription>{emailNotice}</AlertDescription>
+          </Alert>
+        )}
+
+        {user && !user.email_verified_at && !emailNotice && (
+          <Alert className="mb-6 bg-yellow-50/80 border-yellow-200">
+            <AlertDescription className="flex items-center justify-between gap-4">
+              <span>📧 Confirm your email address to start buying and selling.</span>
+              <Button size="sm" variant="outline" onClick={handleResendVerification}>
+                Resend link
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {currentView === 'home' ? (
           <div>
             {/* Hero Section */}
@@ -261,15 +503,25 @@ function App() {
               </Card>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {listings.map((listing: Listing) => (
+                {listings.map((listing: ListingSearchResult) => (
                   <ListingCard 
                     key={listing.id} 
                     listing={listing}
                     currentUser={user}
+                    isWatched={watchedIds.has(listing.id)}
+                    onWatchChange={loadWatchlist}
                   />
                 ))}
               </div>
             )}
+
+            {nextCursor && (
+              <div className="mt-8 text-center">
+                <Button variant="outline" onClick={handleLoadMore}>
+                  Load more
+                </Button>
+              </div>
+            )}
           </div>
         ) : (
           user && (
@@ -288,9 +540,33 @@ function App() {
 
               <DashboardStats user={user} />
 
+              {user.role === 'buyer' && (
+                <div className="mt-8">
+                  <SellerApplicationCard />
+                </div>
+              )}
+
+              {user.role === 'seller' && (
+                <div className="mt-8">
+                  <SellerVerificationCard />
+                </div>
+              )}
+
+              {(user.role === 'seller' || user.role === 'admin') && (
+                <div className="mt-8">
+                  <ApiKeysCard />
+                </div>
+              )}
+
+              <div className="mt-8">
+                <EncryptionKeyCard />
+              </div>
+
               <Tabs defaultValue="orders" className="mt-8">
                 <TabsList className="bg-white/80 backdrop-blur-sm">
                   <TabsTrigger value="orders">My Orders</TabsTrigger>
+                  <TabsTrigger value="watchlist">Watchlist</TabsTrigger>
+                  <TabsTrigger value="saved-searches">Saved Searches</TabsTrigger>
                   {(user.role === 'seller' || user.role === 'admin') && (
                     <TabsTrigger value="listings">My Listings</TabsTrigger>
                   )}
@@ -323,9 +599,40 @@ function App() {
                   </div>
                 </TabsContent>
 
+                <TabsContent value="watchlist" className="mt-6">
+                  {watchlist.length === 0 ? (
+                    <Card className="bg-white/80 backdrop-blur-sm border-white/20">
+                      <CardContent className="p-8 text-center">
+                        <div className="text-4xl mb-4">🤍</div>
+                        <h3 className="text-xl font-semibold text-gray-900 mb-2">Your watchlist is empty</h3>
+                        <p className="text-gray-600">
+                          Tap the heart on a listing to hear about price drops and when it is back on sale
+                        </p>
+                      </CardContent>
+                    </Card>
+                  ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                      {watchlist.map((item: WatchlistItem) => (
+                        <ListingCard
+                          key={item.listing.id}
+                          listing={item.listing}
+                          currentUser={user}
+                          isWatched={true}
+                          onWatchChange={loadWatchlist}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </TabsContent>
+
+                <TabsContent value="saved-searches" className="mt-6">
+                  <SavedSearchesCard onRun={handleRunSavedSearch} />
+                </TabsContent>
+
                 {(user.role === 'seller' || user.role === 'admin') && (
                   <TabsContent value="listings" className="mt-6">
                     <div className="space-y-4">
+                      <SellerHandoffsCard />
                       {myListings.length === 0 ? (
                         <Card className="bg-white/80 backdrop-blur-sm border-white/20">
                           <CardContent className="p-8 text-center">
@@ -360,23 +667,23 @@ function App() {
                       <CardHeader>
                         <CardTitle>💰 Payouts</CardTitle>
                       </CardHeader>
-                      <CardContent>
+                      <CardContent className="space-y-4">
                         <p className="text-gray-600">Payout management coming soon...</p>
+                        <p className="text-sm text-gray-600">
+                          Requesting a payout requires two-factor authentication on your account.
+                        </p>
+                        <TwoFactorSetupDialog />
                       </CardContent>
                     </Card>
                   </TabsContent>
                 )}
 
                 {user.role === 'admin' && (
-                  <TabsContent value="admin" className="mt-6">
-                    <Card className="bg-white/80 backdrop-blur-sm border-white/20">
-                      <CardHeader>
-                        <CardTitle>🛡️ Admin Panel</CardTitle>
-                      </CardHeader>
-                      <CardContent>
-                        <p className="text-gray-600">Admin controls coming soon...</p>
-                      </CardContent>
-                    </Card>
+                  <TabsContent value="admin" className="mt-6 space-y-6">
+                    <SellerApplicationsQueue />
+                    <KycReviewQueue />
+                    <CategoryManager categories={categories} onCategoriesChanged={loadCategories} />
+                    <KeyRotationCard />
                   </TabsContent>
                 )}
               </Tabs>
@@ -0,0 +1,165 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { ApiKey, ApiKeyScope } from '../../../server/src/schema';
+
+const scopeLabels: Record<ApiKeyScope, string> = {
+  'listings:read': 'Read listings',
+  'listings:write': 'Manage listings',
+  'orders:read': 'Read orders',
+  'balance:read': 'Read balance'
+};
+
+// Lets a seller create and revoke personal API keys for scripts
+export function ApiKeysCard() {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['listings:read']);
+  const [expiresAt, setExpiresAt] = useState('');
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadApiKeys = useCallback(async () => {
+    try {
+      setApiKeys(await trpc.auth.apiKeys.list.query());
+    } catch (error) {
+      console.error('Failed to load API keys:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadApiKeys();
+  }, [loadApiKeys]);
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(s => s !== scope));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await trpc.auth.apiKeys.create.mutate({
+        name,
+        scopes,
+        expires_at: expiresAt ? new Date(expiresAt) : undefined
+      });
+      setNewKey(result.key);
+      setName('');
+      setExpiresAt('');
+      await loadApiKeys();
+    } catch (error) {
+      console.error('API key creation failed:', error);
+      setError(error instanceof Error ? error.message : 'Could not create the API key');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (apiKeyId: string) => {
+    try {
+      await trpc.auth.apiKeys.revoke.mutate({ api_key_id: apiKeyId });
+      await loadApiKeys();
+    } catch (error) {
+      console.error('API key revocation failed:', error);
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-white/20">
+      <CardHeader>
+        <CardTitle>🔑 API keys</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {newKey && (
+          <Alert>
+            <AlertDescription className="space-y-1">
+              <p>Copy this key now, it will not be shown again:</p>
+              <code className="block break-all text-sm">{newKey}</code>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="api-key-name">Name</Label>
+            <Input
+              id="api-key-name"
+              placeholder="Inventory sync"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(scopeLabels) as ApiKeyScope[]).map(scope => (
+                <label key={scope} className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  />
+                  <span>{scopeLabels[scope]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="api-key-expiry">Expires (optional)</Label>
+            <Input
+              id="api-key-expiry"
+              type="date"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+            />
+          </div>
+
+          <Button type="submit" disabled={isLoading || scopes.length === 0}>
+            {isLoading ? 'Creating...' : 'Create Key'}
+          </Button>
+        </form>
+
+        {apiKeys.map((apiKey: ApiKey) => (
+          <div key={apiKey.id} className="border rounded-lg p-3 flex items-center justify-between">
+            <div className="space-y-1">
+              <div className="flex items-center space-x-2">
+                <span className="font-medium">{apiKey.name}</span>
+                <code className="text-xs text-gray-500">{apiKey.prefix}…</code>
+                {apiKey.revoked_at && <Badge variant="destructive">revoked</Badge>}
+              </div>
+              <p className="text-xs text-gray-500">
+                {apiKey.scopes.join(', ')} · last used{' '}
+                {apiKey.last_used_at ? apiKey.last_used_at.toLocaleDateString() : 'never'}
+                {apiKey.expires_at && ` · expires ${apiKey.expires_at.toLocaleDateString()}`}
+              </p>
+            </div>
+            {!apiKey.revoked_at && (
+              <Button size="sm" variant="outline" onClick={() => handleRevoke(apiKey.id)}>
+                Revoke
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
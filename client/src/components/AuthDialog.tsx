@@ -7,8 +7,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { trpc } from '@/utils/trpc';
-import type { User, RegisterInput, LoginInput } from '../../../server/src/schema';
+import { trpc, setAuthTokens } from '@/utils/trpc';
+import type { User, RegisterInput, LoginInput, LoginResponse } from '../../../server/src/schema';
 
 interface AuthDialogProps {
   onLogin: (user: User) => void;
@@ -18,6 +18,9 @@ export function AuthDialog({ onLogin }: AuthDialogProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
 
   const [loginData, setLoginData] = useState<LoginInput>({
     email: '',
@@ -30,6 +33,20 @@ export function AuthDialog({ onLogin }: AuthDialogProps) {
     role: 'buyer'
   });
 
+  // Either finishes sign-in or switches the dialog to the two-factor step
+  const handleLoginResult = (result: LoginResponse): boolean => {
+    if (result.two_factor_required) {
+      setChallengeToken(result.challenge_token);
+      return false;
+    }
+
+    setAuthTokens(result);
+    onLogin(result.user);
+    setIsOpen(false);
+    resetForm();
+    return true;
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -37,12 +54,12 @@ export function AuthDialog({ onLogin }: AuthDialogProps) {
 
     try {
       const result = await trpc.auth.login.mutate(loginData);
-      onLogin(result.user);
-      setIsOpen(false);
-      setLoginData({ email: '', password: '' });
+      handleLoginResult(result);
     } catch (error) {
       console.error('Login failed:', error);
-      setError('Invalid email or password');
+      // Lockout messages say how long to wait, which is worth passing on
+      const message = error instanceof Error ? error.message : '';
+      setError(/too many failed/i.test(message) ? message : 'Invalid email or password');
     } finally {
       setIsLoading(false);
     }
@@ -54,10 +71,13 @@ export function AuthDialog({ onLogin }: AuthDialogProps) {
     setError(null);
 
     try {
-      const user = await trpc.auth.register.mutate(registerData);
-      onLogin(user);
-      setIsOpen(false);
-      setRegisterData({ email: '', password: '', role: 'buyer' });
+      await trpc.auth.register.mutate(registerData);
+      // Registration does not issue a token, so sign in with the new credentials
+      const result = await trpc.auth.login.mutate({
+        email: registerData.email,
+        password: registerData.password
+      });
+      handleLoginResult(result);
     } catch (error) {
       console.error('Registration failed:', error);
       setError('Registration failed. Email may already be in use.');
@@ -66,8 +86,53 @@ export function AuthDialog({ onLogin }: AuthDialogProps) {
     }
   };
 
+  const handleTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await trpc.auth.completeTwoFactorLogin.mutate({
+        challenge_token: challengeToken,
+        code: twoFactorCode
+      });
+      handleLoginResult(result);
+    } catch (error) {
+      console.error('Two-factor sign-in failed:', error);
+      setError('That code was not accepted. Try a fresh code or a recovery code.');
+      setTwoFactorCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleForgotPassword = async () => {
+    if (!loginData.email) {
+      setError('Enter your email address first');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await trpc.auth.requestPasswordReset.mutate({ email: loginData.email });
+      setNotice('If an account exists for that address, a reset link is on its way.');
+    } catch (error) {
+      console.error('Password reset request failed:', error);
+      setError('Could not send a reset link. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const resetForm = () => {
     setError(null);
+    setNotice(null);
+    setChallengeToken(null);
+    setTwoFactorCode('');
     setLoginData({ email: '', password: '' });
     setRegisterData({ email: '', password: '', role: 'buyer' });
   };
@@ -94,131 +159,173 @@ export function AuthDialog({ onLogin }: AuthDialogProps) {
           </Alert>
         )}
 
-        <Tabs defaultValue="login" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value="login">Sign In</TabsTrigger>
-            <TabsTrigger value="register">Sign Up</TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="login" className="space-y-4 mt-6">
-            <form onSubmit={handleLogin} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="login-email">Email</Label>
-                <Input
-                  id="login-email"
-                  type="email"
-                  placeholder="your@email.com"
-                  value={loginData.email}
-                  onChange={(e) => setLoginData(prev => ({ ...prev, email: e.target.value }))}
-                  required
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="login-password">Password</Label>
-                <Input
-                  id="login-password"
-                  type="password"
-                  placeholder="Your password"
-                  value={loginData.password}
-                  onChange={(e) => setLoginData(prev => ({ ...prev, password: e.target.value }))}
-                  required
-                />
-              </div>
-              
-              <Button 
-                type="submit" 
-                className="w-full" 
-                disabled={isLoading}
-              >
-                {isLoading ? 'Signing In...' : 'Sign In'}
-              </Button>
-            </form>
-          </TabsContent>
-
-          <TabsContent value="register" className="space-y-4 mt-6">
-            <form onSubmit={handleRegister} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="register-email">Email</Label>
-                <Input
-                  id="register-email"
-                  type="email"
-                  placeholder="your@email.com"
-                  value={registerData.email}
-                  onChange={(e) => setRegisterData(prev => ({ ...prev, email: e.target.value }))}
-                  required
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="register-password">Password</Label>
-                <Input
-                  id="register-password"
-                  type="password"
-                  placeholder="At least 8 characters"
-                  value={registerData.password}
-                  onChange={(e) => setRegisterData(prev => ({ ...prev, password: e.target.value }))}
-                  minLength={8}
-                  required
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="register-role">Account Type</Label>
-                <Select 
-                  value={registerData.role || 'buyer'} 
-                  onValueChange={(value) => setRegisterData(prev => ({ ...prev, role: value as 'buyer' | 'seller' }))}
+        {notice && (
+          <Alert>
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
+
+        {challengeToken ? (
+          <form onSubmit={handleTwoFactor} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-code">Authentication code</Label>
+              <Input
+                id="two-factor-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="6-digit code or recovery code"
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value)}
+                required
+                autoFocus
+              />
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? 'Verifying...' : 'Verify'}
+            </Button>
+
+            <Button type="button" variant="link" className="w-full" onClick={resetForm}>
+              Back to sign in
+            </Button>
+          </form>
+        ) : (
+          <Tabs defaultValue="login" className="w-full">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="login">Sign In</TabsTrigger>
+              <TabsTrigger value="register">Sign Up</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="login" className="space-y-4 mt-6">
+              <form onSubmit={handleLogin} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="login-email">Email</Label>
+                  <Input
+                    id="login-email"
+                    type="email"
+                    placeholder="your@email.com"
+                    value={loginData.email}
+                    onChange={(e) => setLoginData(prev => ({ ...prev, email: e.target.value }))}
+                    required
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="login-password">Password</Label>
+                  <Input
+                    id="login-password"
+                    type="password"
+                    placeholder="Your password"
+                    value={loginData.password}
+                    onChange={(e) => setLoginData(prev => ({ ...prev, password: e.target.value }))}
+                    required
+                  />
+                </div>
+                
+                <Button 
+                  type="submit" 
+                  className="w-full" 
+                  disabled={isLoading}
                 >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="buyer">
-                      <div className="flex items-center space-x-2">
-                        <span>🛒</span>
-                        <div>
-                          <div className="font-medium">Buyer</div>
-                          <div className="text-xs text-gray-500">Purchase accounts</div>
+                  {isLoading ? 'Signing In...' : 'Sign In'}
+                </Button>
+
+                <Button
+                  type="button"
+                  variant="link"
+                  className="w-full"
+                  onClick={handleForgotPassword}
+                  disabled={isLoading}
+                >
+                  Forgot password?
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="register" className="space-y-4 mt-6">
+              <form onSubmit={handleRegister} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="register-email">Email</Label>
+                  <Input
+                    id="register-email"
+                    type="email"
+                    placeholder="your@email.com"
+                    value={registerData.email}
+                    onChange={(e) => setRegisterData(prev => ({ ...prev, email: e.target.value }))}
+                    required
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="register-password">Password</Label>
+                  <Input
+                    id="register-password"
+                    type="password"
+                    placeholder="At least 8 characters"
+                    value={registerData.password}
+                    onChange={(e) => setRegisterData(prev => ({ ...prev, password: e.target.value }))}
+                    minLength={8}
+                    required
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="register-role">Account Type</Label>
+                  <Select 
+                    value={registerData.role || 'buyer'} 
+                    onValueChange={(value) => setRegisterData(prev => ({ ...prev, role: value as 'buyer' | 'seller' }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="buyer">
+                        <div className="flex items-center space-x-2">
+                          <span>🛒</span>
+                          <div>
+                            <div className="font-medium">Buyer</div>
+                            <div className="text-xs text-gray-500">Purchase accounts</div>
+                          </div>
                         </div>
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="seller">
-                      <div className="flex items-center space-x-2">
-                        <span>💼</span>
-                        <div>
-                          <div className="font-medium">Seller</div>
-                          <div className="text-xs text-gray-500">Sell accounts</div>
+                      </SelectItem>
+                      <SelectItem value="seller">
+                        <div className="flex items-center space-x-2">
+                          <span>💼</span>
+                          <div>
+                            <div className="font-medium">Seller</div>
+                            <div className="text-xs text-gray-500">Sell accounts</div>
+                          </div>
                         </div>
-                      </div>
-                    </SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              
-              <Button 
-                type="submit" 
-                className="w-full" 
-                disabled={isLoading}
-              >
-                {isLoading ? 'Creating Account...' : 'Create Account'}
-              </Button>
-            </form>
-
-            <Card className="bg-blue-50/80 border-blue-200">
-              <CardContent className="p-4">
-                <div className="text-sm text-blue-800">
-                  <p className="font-medium mb-2">✨ Why join AccsMarket?</p>
-                  <ul className="space-y-1 text-xs">
-                    <li>• Secure escrow protection</li>
-                    <li>• Instant delivery after payment</li>
-                    <li>• Verified seller ratings</li>
-                    <li>• 24-hour dispute window</li>
-                  </ul>
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
-              </CardContent>
-            </Card>
-          </TabsContent>
-        </Tabs>
+                
+                <Button 
+                  type="submit" 
+                  className="w-full" 
+                  disabled={isLoading}
+                >
+                  {isLoading ? 'Creating Account...' : 'Create Account'}
+                </Button>
+              </form>
+
+              <Card className="bg-blue-50/80 border-blue-200">
+                <CardContent className="p-4">
+                  <div className="text-sm text-blue-800">
+                    <p className="font-medium mb-2">✨ Why join AccsMarket?</p>
+                    <ul className="space-y-1 text-xs">
+                      <li>• Secure escrow protection</li>
+                      <li>• Instant delivery after payment</li>
+                      <li>• Verified seller ratings</li>
+                      <li>• 24-hour dispute window</li>
+                    </ul>
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        )}
       </DialogContent>
     </Dialog>
   );
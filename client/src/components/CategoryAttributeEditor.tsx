@@ -0,0 +1,176 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { CategoryAttribute, CategoryAttributeType } from '../../../server/src/schema';
+
+interface CategoryAttributeEditorProps {
+  categoryId: string;
+}
+
+const ATTRIBUTE_TYPES: CategoryAttributeType[] = ['text', 'integer', 'number', 'boolean', 'enum'];
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md bg-white text-sm';
+
+// Admin editor for the attributes a category defines itself; inherited ones are edited on their own category
+export function CategoryAttributeEditor({ categoryId }: CategoryAttributeEditorProps) {
+  const [attributes, setAttributes] = useState<CategoryAttribute[]>([]);
+  const [key, setKey] = useState('');
+  const [label, setLabel] = useState('');
+  const [type, setType] = useState<CategoryAttributeType>('text');
+  const [required, setRequired] = useState(false);
+  const [enumValues, setEnumValues] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAttributes = useCallback(async () => {
+    try {
+      const all = await trpc.catalog.getCategoryAttributes.query({ category_id: categoryId });
+      setAttributes(all.filter(attribute => attribute.category_id === categoryId));
+    } catch (error) {
+      console.error('Failed to load category attributes:', error);
+    }
+  }, [categoryId]);
+
+  useEffect(() => {
+    loadAttributes();
+  }, [loadAttributes]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await trpc.admin.categories.attributes.create.mutate({
+        category_id: categoryId,
+        key,
+        label,
+        type,
+        required,
+        enum_values: type === 'enum'
+          ? enumValues.split(',').map(value => value.trim()).filter(value => value.length > 0)
+          : undefined,
+        position: attributes.length
+      });
+      setKey('');
+      setLabel('');
+      setRequired(false);
+      setEnumValues('');
+      await loadAttributes();
+    } catch (error) {
+      console.error('Failed to create attribute:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create attribute');
+    }
+  };
+
+  const handleToggleRequired = async (attribute: CategoryAttribute) => {
+    setError(null);
+    try {
+      await trpc.admin.categories.attributes.update.mutate({ attribute_id: attribute.id, required: !attribute.required });
+      await loadAttributes();
+    } catch (error) {
+      console.error('Failed to update attribute:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update attribute');
+    }
+  };
+
+  const handleRemove = async (attributeId: string) => {
+    setError(null);
+    try {
+      await trpc.admin.categories.attributes.remove.mutate({ attribute_id: attributeId });
+      await loadAttributes();
+    } catch (error) {
+      console.error('Failed to remove attribute:', error);
+      setError(error instanceof Error ? error.message : 'Failed to remove attribute');
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-3">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {attributes.length === 0 ? (
+        <p className="text-xs text-gray-500">No attributes of its own yet.</p>
+      ) : (
+        attributes.map((attribute: CategoryAttribute) => (
+          <div key={attribute.id} className="flex items-center justify-between text-sm">
+            <div className="flex items-center space-x-2">
+              <span className="font-medium">{attribute.label}</span>
+              <code className="text-xs text-gray-500">{attribute.key}</code>
+              <Badge variant="secondary">{attribute.type}</Badge>
+              {attribute.type === 'enum' && (
+                <span className="text-xs text-gray-500">{attribute.enum_values.join(', ')}</span>
+              )}
+            </div>
+            <div className="flex space-x-2">
+              <Button size="sm" variant="outline" onClick={() => handleToggleRequired(attribute)}>
+                {attribute.required ? 'Required' : 'Optional'}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleRemove(attribute.id)}>
+                Remove
+              </Button>
+            </div>
+          </div>
+        ))
+      )}
+
+      <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end">
+        <div className="space-y-1">
+          <Label htmlFor={`attribute-key-${categoryId}`}>Key</Label>
+          <Input
+            id={`attribute-key-${categoryId}`}
+            placeholder="region"
+            value={key}
+            onChange={(e) => setKey(e.target.value)}
+            required
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`attribute-label-${categoryId}`}>Label</Label>
+          <Input
+            id={`attribute-label-${categoryId}`}
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            required
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`attribute-type-${categoryId}`}>Type</Label>
+          <select
+            id={`attribute-type-${categoryId}`}
+            value={type}
+            onChange={(e) => setType(e.target.value as CategoryAttributeType)}
+            className={selectClassName}
+          >
+            {ATTRIBUTE_TYPES.map(attributeType => (
+              <option key={attributeType} value={attributeType}>{attributeType}</option>
+            ))}
+          </select>
+        </div>
+        {type === 'enum' ? (
+          <div className="space-y-1">
+            <Label htmlFor={`attribute-values-${categoryId}`}>Allowed values</Label>
+            <Input
+              id={`attribute-values-${categoryId}`}
+              placeholder="EU, NA"
+              value={enumValues}
+              onChange={(e) => setEnumValues(e.target.value)}
+              required
+            />
+          </div>
+        ) : (
+          <label className="flex items-center space-x-2 text-sm pb-2">
+            <input type="checkbox" checked={required} onChange={(e) => setRequired(e.target.checked)} />
+            <span>Required</span>
+          </label>
+        )}
+        <Button type="submit">Add Attribute</Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CategoryAttributeEditor } from '@/components/CategoryAttributeEditor';
+import { trpc } from '@/utils/trpc';
+import type { Category } from '../../../server/src/schema';
+
+interface CategoryManagerProps {
+  categories: Category[];
+  onCategoriesChanged: () => void;
+}
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md bg-white text-sm';
+
+// Admin tools to create, rename, merge and archive categories and define their attributes
+export function CategoryManager({ categories, onCategoriesChanged }: CategoryManagerProps) {
+  const [name, setName] = useState('');
+  const [slug, setSlug] = useState('');
+  const [parentId, setParentId] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editSlug, setEditSlug] = useState('');
+  const [attributesId, setAttributesId] = useState<string | null>(null);
+  const [mergeSourceId, setMergeSourceId] = useState('');
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const openCategories = categories.filter(category => !category.archived_at);
+  const nameOf = (id: string | null) => categories.find(category => category.id === id)?.name;
+
+  // Runs an admin action and refreshes the category list when it succeeds
+  const run = async (action: () => Promise<unknown>, failure: string): Promise<boolean> => {
+    setError(null);
+    try {
+      await action();
+      onCategoriesChanged();
+      return true;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      setError(error instanceof Error ? error.message : failure);
+      return false;
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await run(
+      () => trpc.admin.categories.create.mutate({ name, slug, parent_id: parentId || undefined }),
+      'Failed to create category'
+    );
+    if (created) {
+      setName('');
+      setSlug('');
+      setParentId('');
+    }
+  };
+
+  const handleRename = async (categoryId: string) => {
+    const renamed = await run(
+      () => trpc.admin.categories.update.mutate({ category_id: categoryId, name: editName, slug: editSlug }),
+      'Failed to update category'
+    );
+    if (renamed) setEditingId(null);
+  };
+
+  const handleMerge = async () => {
+    const merged = await run(
+      () => trpc.admin.categories.merge.mutate({ source_id: mergeSourceId, target_id: mergeTargetId }),
+      'Failed to merge categories'
+    );
+    if (merged) {
+      setMergeSourceId('');
+      setMergeTargetId('');
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-white/20">
+      <CardHeader>
+        <CardTitle>🗂️ Categories</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="category-name">Name</Label>
+            <Input id="category-name" value={name} onChange={(e) => setName(e.target.value)} required />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="category-slug">Slug</Label>
+            <Input
+              id="category-slug"
+              placeholder="steam-accounts"
+              value={slug}
+              onChange={(e) => setSlug(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="category-parent">Parent</Label>
+            <select
+              id="category-parent"
+              value={parentId}
+              onChange={(e) => setParentId(e.target.value)}
+              className={selectClassName}
+            >
+              <option value="">None (top level)</option>
+              {openCategories.map((category: Category) => (
+                <option key={category.id} value={category.id}>{category.name}</option>
+              ))}
+            </select>
+          </div>
+          <Button type="submit">Add Category</Button>
+        </form>
+
+        <div className="space-y-2">
+          {categories.map((category: Category) => (
+            <div key={category.id} className="border rounded-lg p-3 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                {editingId === category.id ? (
+                  <div className="flex flex-1 gap-2">
+                    <Input value={editName} onChange={(e) => setEditName(e.target.value)} />
+                    <Input value={editSlug} onChange={(e) => setEditSlug(e.target.value)} />
+                  </div>
+                ) : (
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{category.name}</span>
+                    <code className="text-xs text-gray-500">{category.slug}</code>
+                    {category.parent_id && (
+                      <span className="text-xs text-gray-500">in {nameOf(category.parent_id)}</span>
+                    )}
+                    {category.archived_at && <Badge variant="secondary">archived</Badge>}
+                  </div>
+                )}
+
+                <div className="flex space-x-2">
+                  {editingId === category.id ? (
+                    <>
+                      <Button size="sm" onClick={() => handleRename(category.id)}>Save</Button>
+                      <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>Cancel</Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setEditingId(category.id);
+                          setEditName(category.name);
+                          setEditSlug(category.slug);
+                        }}
+                      >
+                        Rename
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant={attributesId === category.id ? 'default' : 'outline'}
+                        onClick={() => setAttributesId(attributesId === category.id ? null : category.id)}
+                      >
+                        Attributes
+                      </Button>
+                      {!category.archived_at && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => run(
+                            () => trpc.admin.categories.archive.mutate({ category_id: category.id }),
+                            'Failed to archive category'
+                          )}
+                        >
+                          Archive
+                        </Button>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+              {attributesId === category.id && <CategoryAttributeEditor categoryId={category.id} />}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Merge categories</Label>
+          <p className="text-xs text-gray-500">
+            Moves every listing and subcategory into the target, then removes the first category.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <select value={mergeSourceId} onChange={(e) => setMergeSourceId(e.target.value)} className={selectClassName}>
+              <option value="">Merge…</option>
+              {categories.map((category: Category) => (
+                <option key={category.id} value={category.id}>{category.name}</option>
+              ))}
+            </select>
+            <select value={mergeTargetId} onChange={(e) => setMergeTargetId(e.target.value)} className={selectClassName}>
+              <option value="">…into</option>
+              {openCategories
+                .filter(category => category.id !== mergeSourceId)
+                .map((category: Category) => (
+                  <option key={category.id} value={category.id}>{category.name}</option>
+                ))}
+            </select>
+            <Button variant="outline" onClick={handleMerge} disabled={!mergeSourceId || !mergeTargetId}>
+              Merge
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,19 +1,48 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { trpc } from '@/utils/trpc';
-import type { Category, Listing, UpsertListingInput } from '../../../server/src/schema';
+import type {
+  Category,
+  CategoryAttribute,
+  Listing,
+  ListingAttributes,
+  UpsertListingInput
+} from '../../../server/src/schema';
 
 interface CreateListingDialogProps {
   categories: Category[];
   onListingCreated: (listing: Listing) => void;
 }
 
+// Subcategories are shown under their parent's name, e.g. "Games › Fortnite"
+const categoryLabel = (category: Category, categories: Category[]): string => {
+  const parent = categories.find(c => c.id === category.parent_id);
+  return parent ? `${categoryLabel(parent, categories)} › ${category.name}` : category.name;
+};
+
+// Form inputs hold text; numbers are parsed and blank fields left out on submit
+const toListingAttributes = (
+  definitions: CategoryAttribute[],
+  values: Record<string, string | boolean>
+): ListingAttributes => {
+  const attributes: ListingAttributes = {};
+  for (const definition of definitions) {
+    const value = values[definition.key];
+    if (value === undefined || value === '') continue;
+    attributes[definition.key] = definition.type === 'integer' || definition.type === 'number'
+      ? Number(value)
+      : value;
+  }
+  return attributes;
+};
+
 export function CreateListingDialog({ categories, onListingCreated }: CreateListingDialogProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -27,9 +56,31 @@ export function CreateListingDialog({ categories, onListingCreated }: CreateList
     price_cents: 0
   });
 
+  const [attributeDefinitions, setAttributeDefinitions] = useState<CategoryAttribute[]>([]);
+  const [attributeValues, setAttributeValues] = useState<Record<string, string | boolean>>({});
   const [credentials, setCredentials] = useState('');
   const [newListingId, setNewListingId] = useState<string | null>(null);
 
+  // Each category asks for its own fields, including those of its parent categories
+  useEffect(() => {
+    setAttributeValues({});
+    if (!formData.category_id) {
+      setAttributeDefinitions([]);
+      return;
+    }
+
+    trpc.catalog.getCategoryAttributes.query({ category_id: formData.category_id })
+      .then(setAttributeDefinitions)
+      .catch((error) => {
+        console.error('Failed to load category attributes:', error);
+        setAttributeDefinitions([]);
+      });
+  }, [formData.category_id]);
+
+  const setAttributeValue = (key: string, value: string | boolean) => {
+    setAttributeValues(prev => ({ ...prev, [key]: value }));
+  };
+
   const resetForm = () => {
     setFormData({
       title: '',
@@ -37,6 +88,7 @@ export function CreateListingDialog({ categories, onListingCreated }: CreateList
       category_id: '',
       price_cents: 0
     });
+    setAttributeValues({});
     setCredentials('');
     setNewListingId(null);
     setCurrentStep(1);
@@ -49,7 +101,10 @@ export function CreateListingDialog({ categories, onListingCreated }: CreateList
     setError(null);
 
     try {
-      const listing = await trpc.seller.upsertListing.mutate(formData);
+      const listing = await trpc.seller.upsertListing.mutate({
+        ...formData,
+        attributes: toListingAttributes(attributeDefinitions, attributeValues)
+      });
       setNewListingId(listing.id);
       onListingCreated(listing);
       
@@ -61,7 +116,7 @@ export function CreateListingDialog({ categories, onListingCreated }: CreateList
       }
     } catch (error) {
       console.error('Failed to create listing:', error);
-      setError('Failed to create listing. Please try again.');
+      setError(error instanceof Error ? error.message : 'Failed to create listing. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -143,15 +198,70 @@ export function CreateListingDialog({ categories, onListingCreated }: CreateList
                   <SelectValue placeholder="Select a category" />
                 </SelectTrigger>
                 <SelectContent>
-                  {categories.map((category: Category) => (
+                  {categories.filter(category => !category.archived_at).map((category: Category) => (
                     <SelectItem key={category.id} value={category.id}>
-                      {category.name}
+                      {categoryLabel(category, categories)}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
 
+            {attributeDefinitions.map((definition: CategoryAttribute) => {
+              const id = `attribute-${definition.key}`;
+              const label = `${definition.label}${definition.required ? ' *' : ''}`;
+              const value = attributeValues[definition.key];
+
+              if (definition.type === 'boolean') {
+                return (
+                  <label key={definition.key} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={value === true}
+                      onCheckedChange={(checked) => setAttributeValue(definition.key, checked === true)}
+                    />
+                    <span>{definition.label}</span>
+                  </label>
+                );
+              }
+
+              if (definition.type === 'enum') {
+                return (
+                  <div key={definition.key} className="space-y-2">
+                    <Label>{label}</Label>
+                    <Select
+                      value={typeof value === 'string' ? value : ''}
+                      onValueChange={(selected) => setAttributeValue(definition.key, selected)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder={`Select ${definition.label.toLowerCase()}`} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {definition.enum_values.map((option: string) => (
+                          <SelectItem key={option} value={option}>
+                            {option}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              }
+
+              return (
+                <div key={definition.key} className="space-y-2">
+                  <Label htmlFor={id}>{label}</Label>
+                  <Input
+                    id={id}
+                    type={definition.type === 'text' ? 'text' : 'number'}
+                    step={definition.type === 'integer' ? '1' : 'any'}
+                    value={typeof value === 'string' ? value : ''}
+                    onChange={(e) => setAttributeValue(definition.key, e.target.value)}
+                    required={definition.required}
+                  />
+                </div>
+              );
+            })}
+
             <div className="space-y-2">
               <Label htmlFor="price">Price (USD) *</Label>
               <Input
@@ -178,19 +288,37 @@ export function CreateListingDialog({ categories, onListingCreated }: CreateList
               />
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="credentials">Account Credentials (Optional)</Label>
-              <Textarea
-                id="credentials"
-                placeholder="Username: example&#10;Password: password123&#10;Email: email@example.com&#10;Recovery Email: recovery@example.com"
-                value={credentials}
-                onChange={(e) => setCredentials(e.target.value)}
-                rows={4}
+            <label className="flex items-start space-x-2 text-sm">
+              <Checkbox
+                checked={formData.e2e_handoff === true}
+                onCheckedChange={(checked) => {
+                  setFormData(prev => ({ ...prev, e2e_handoff: checked === true }));
+                  if (checked === true) setCredentials('');
+                }}
               />
-              <p className="text-xs text-gray-500">
-                🔐 Credentials are encrypted and only revealed to buyers after payment
-              </p>
-            </div>
+              <span>
+                🔏 End-to-end handoff
+                <span className="block text-xs text-gray-500">
+                  After each sale you seal the credentials to the buyer's key from your dashboard, so the marketplace never stores a readable copy.
+                </span>
+              </span>
+            </label>
+
+            {!formData.e2e_handoff && (
+              <div className="space-y-2">
+                <Label htmlFor="credentials">Account Credentials (Optional)</Label>
+                <Textarea
+                  id="credentials"
+                  placeholder="Username: example&#10;Password: password123&#10;Email: email@example.com&#10;Recovery Email: recovery@example.com"
+                  value={credentials}
+                  onChange={(e) => setCredentials(e.target.value)}
+                  rows={4}
+                />
+                <p className="text-xs text-gray-500">
+                  🔐 Credentials are encrypted and only revealed to buyers after payment
+                </p>
+              </div>
+            )}
 
             <div className="bg-blue-50/80 p-4 rounded-lg border border-blue-200">
               <h4 className="font-medium text-blue-900 mb-2">📋 Listing Guidelines</h4>
@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import { generateHandoffKey, hasHandoffKey } from '@/lib/handoffCrypto';
+import type { EncryptionKey } from '../../../server/src/schema';
+
+// Lets a buyer create the key that end-to-end listings seal their credentials to
+export function EncryptionKeyCard() {
+  const [encryptionKey, setEncryptionKey] = useState<EncryptionKey | null>(null);
+  const [inThisBrowser, setInThisBrowser] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadKey = useCallback(async () => {
+    try {
+      const key = await trpc.auth.encryptionKey.get.query();
+      setEncryptionKey(key);
+      setInThisBrowser(key ? await hasHandoffKey(key.public_key) : false);
+    } catch (error) {
+      console.error('Failed to load encryption key:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadKey();
+  }, [loadKey]);
+
+  const handleGenerate = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const publicKey = await generateHandoffKey();
+      await trpc.auth.encryptionKey.set.mutate({ public_key: publicKey });
+      await loadKey();
+    } catch (error) {
+      console.error('Encryption key setup failed:', error);
+      setError(error instanceof Error ? error.message : 'Could not create an encryption key');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-white/20">
+      <CardHeader>
+        <CardTitle>🔏 End-to-end encryption key</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <p className="text-sm text-gray-600">
+          Some sellers hand over credentials sealed to your key, so not even the marketplace can read them.
+          The private key stays in this browser; credentials sealed to it cannot be opened anywhere else.
+        </p>
+
+        {encryptionKey ? (
+          <div className="flex items-center justify-between text-sm">
+            <code className="truncate">{encryptionKey.public_key}</code>
+            {inThisBrowser
+              ? <Badge>in this browser</Badge>
+              : <Badge variant="secondary">other browser</Badge>}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No key registered yet.</p>
+        )}
+
+        <Button onClick={handleGenerate} disabled={isLoading} variant={encryptionKey ? 'outline' : 'default'}>
+          {encryptionKey ? 'Replace with a key from this browser' : 'Create key in this browser'}
+        </Button>
+        {encryptionKey && (
+          <p className="text-xs text-gray-500">
+            Orders you already placed stay sealed to the key they were bought with.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { MasterKeyVersion, KeyRotationJobDetail } from '../../../server/src/schema';
+
+const POLL_INTERVAL_MS = 2000;
+
+// Lets an admin re-wrap stored credentials under the newest master key and follow the job
+export function KeyRotationCard() {
+  const [versions, setVersions] = useState<MasterKeyVersion[]>([]);
+  const [job, setJob] = useState<KeyRotationJobDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const [versionsResult, jobs] = await Promise.all([
+        trpc.admin.keys.versions.query(),
+        trpc.admin.keys.jobs.query()
+      ]);
+      setVersions(versionsResult);
+      setJob(jobs.length > 0 ? await trpc.admin.keys.job.query({ job_id: jobs[0].id }) : null);
+    } catch (error) {
+      console.error('Failed to load key rotation status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  // Follow a running job until it finishes
+  useEffect(() => {
+    if (job?.status !== 'running') return;
+    const timer = setInterval(loadStatus, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [job?.status, loadStatus]);
+
+  const handleRotate = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await trpc.admin.keys.rotate.mutate();
+      await loadStatus();
+    } catch (error) {
+      console.error('Key rotation start failed:', error);
+      setError(error instanceof Error ? error.message : 'Could not start the rotation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResume = async (jobId: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await trpc.admin.keys.resume.mutate({ job_id: jobId });
+      await loadStatus();
+    } catch (error) {
+      console.error('Key rotation resume failed:', error);
+      setError(error instanceof Error ? error.message : 'Could not resume the rotation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const staleCount = versions
+    .filter(version => !version.is_current)
+    .reduce((sum, version) => sum + version.payload_count, 0);
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-white/20">
+      <CardHeader>
+        <CardTitle>🔐 Credential encryption keys</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          {versions.map((version: MasterKeyVersion) => (
+            <div key={version.version} className="flex items-center justify-between text-sm">
+              <div className="flex items-center space-x-2">
+                <span className="font-medium">Version {version.version}</span>
+                {version.is_current && <Badge>current</Badge>}
+                {version.retired_at && <Badge variant="secondary">retired</Badge>}
+              </div>
+              <span className="text-gray-600">{version.payload_count} payloads</span>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Add the new master key to the key provider before rotating. Keep old keys until they are retired.
+        </p>
+
+        <Button
+          onClick={handleRotate}
+          disabled={isLoading || job?.status === 'running' || staleCount === 0}
+          className="w-full"
+        >
+          {staleCount === 0 ? 'All payloads use the current key' : `Re-wrap ${staleCount} payloads`}
+        </Button>
+
+        {job && (
+          <div className="space-y-2 border rounded-md p-3">
+            <div className="flex items-center justify-between text-sm">
+              <span>Rotation to version {job.target_version}</span>
+              <Badge variant={job.status === 'failed' ? 'destructive' : 'outline'}>{job.status}</Badge>
+            </div>
+            <Progress value={job.total_rows === 0 ? 100 : (job.processed_rows / job.total_rows) * 100} />
+            <div className="text-xs text-gray-600">
+              {job.processed_rows} of {job.total_rows} processed · {job.failed_rows} failed
+            </div>
+
+            {job.error && <p className="text-sm text-red-600">{job.error}</p>}
+            {(job.status === 'failed' || (job.status === 'completed' && job.failed_rows > 0)) && (
+              <Button size="sm" variant="outline" disabled={isLoading} onClick={() => handleResume(job.id)}>
+                {job.status === 'failed' ? 'Resume' : 'Retry failed rows'}
+              </Button>
+            )}
+
+            {job.failures.length > 0 && (
+              <ul className="text-xs text-gray-600 space-y-1">
+                {job.failures.map(failure => (
+                  <li key={failure.payload_id}>
+                    <code>{failure.payload_id}</code>: {failure.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import type { KycSubmission } from '../../../server/src/schema';
+
+// Admin view of pending seller verification submissions, oldest first
+export function KycReviewQueue() {
+  const [submissions, setSubmissions] = useState<KycSubmission[]>([]);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const loadSubmissions = useCallback(async () => {
+    try {
+      const result = await trpc.admin.listKycSubmissions.query({ status: 'pending', page: 1 });
+      setSubmissions(result.items);
+    } catch (error) {
+      console.error('Failed to load verification submissions:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSubmissions();
+  }, [loadSubmissions]);
+
+  const handleOpenDocument = async (documentId: string) => {
+    try {
+      const document = await trpc.admin.getKycDocument.query(documentId);
+      const bytes = Uint8Array.from(atob(document.data_base64), char => char.charCodeAt(0));
+      const url = URL.createObjectURL(new Blob([bytes], { type: document.content_type }));
+      window.open(url, '_blank', 'noopener');
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (error) {
+      console.error('Failed to open verification document:', error);
+    }
+  };
+
+  const handleReview = async (submissionId: string, decision: 'approve' | 'reject') => {
+    setReviewingId(submissionId);
+    try {
+      await trpc.admin.reviewKycSubmission.mutate({
+        submission_id: submissionId,
+        decision,
+        reason: reasons[submissionId] || undefined
+      });
+      setSubmissions(prev => prev.filter(submission => submission.id !== submissionId));
+    } catch (error) {
+      console.error('Failed to review verification submission:', error);
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-white/20">
+      <CardHeader>
+        <CardTitle>🪪 Seller verification</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {submissions.length === 0 ? (
+          <p className="text-gray-600">No verification submissions waiting for review.</p>
+        ) : (
+          submissions.map((submission: KycSubmission) => (
+            <div key={submission.id} className="border rounded-lg p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold">Seller {submission.user_id.slice(0, 8)}</h4>
+                <span className="text-xs text-gray-500">
+                  {submission.created_at.toLocaleDateString()}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {submission.documents.map(document => (
+                  <Button
+                    key={document.id}
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleOpenDocument(document.id)}
+                  >
+                    {document.document_type}: {document.file_name}
+                  </Button>
+                ))}
+              </div>
+              <Input
+                placeholder="Reason (required to reject)"
+                value={reasons[submission.id] || ''}
+                onChange={(e) => setReasons(prev => ({ ...prev, [submission.id]: e.target.value }))}
+                maxLength={1000}
+              />
+              <div className="flex space-x-2">
+                <Button
+                  size="sm"
+                  onClick={() => handleReview(submission.id, 'approve')}
+                  disabled={reviewingId === submission.id}
+                >
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleReview(submission.id, 'reject')}
+                  disabled={reviewingId === submission.id || !reasons[submission.id]?.trim()}
+                >
+                  Reject
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
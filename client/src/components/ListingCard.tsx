@@ -5,20 +5,42 @@ import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+import { ListingMediaManager } from '@/components/ListingMediaManager';
+import { ListingStockManager } from '@/components/ListingStockManager';
+import { ListingDetailDialog } from '@/components/ListingDetailDialog';
 import { trpc } from '@/utils/trpc';
-import type { Listing, User } from '../../../server/src/schema';
+import type { Listing, ListingSearchResult, HighlightSegment, User } from '../../../server/src/schema';
 
 interface ListingCardProps {
-  listing: Listing;
+  // Search results carry highlights showing why the listing matched
+  listing: Listing & { highlight?: ListingSearchResult['highlight'] };
   currentUser: User | null;
   isOwner?: boolean;
+  isWatched?: boolean;
+  onWatchChange?: () => void; // Called after the listing is added to or removed from the watchlist
 }
 
-export function ListingCard({ listing, currentUser, isOwner = false }: ListingCardProps) {
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.matched
+          ? <mark key={index} className="bg-yellow-200 rounded-sm">{segment.text}</mark>
+          : <span key={index}>{segment.text}</span>
+      )}
+    </>
+  );
+}
+
+export function ListingCard({ listing, currentUser, isOwner = false, isWatched = false, onWatchChange }: ListingCardProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [isTogglingWatch, setIsTogglingWatch] = useState(false);
   const [showStatusDialog, setShowStatusDialog] = useState(false);
   const [newStatus, setNewStatus] = useState(listing.status);
   const [error, setError] = useState<string | null>(null);
+  const [media, setMedia] = useState(listing.media);
+  const [stock, setStock] = useState(listing.stock);
 
   const formatPrice = (cents: number) => {
     return `$${(cents / 100).toFixed(2)}`;
@@ -42,6 +64,27 @@ export function ListingCard({ listing, currentUser, isOwner = false }: ListingCa
     }
   };
 
+  const handleToggleWatch = async () => {
+    if (!currentUser) return;
+
+    setIsTogglingWatch(true);
+    setError(null);
+
+    try {
+      if (isWatched) {
+        await trpc.watchlist.remove.mutate({ listing_id: listing.id });
+      } else {
+        await trpc.watchlist.add.mutate({ listing_id: listing.id });
+      }
+      onWatchChange?.();
+    } catch (error) {
+      console.error('Failed to update watchlist:', error);
+      setError('Failed to update watchlist');
+    } finally {
+      setIsTogglingWatch(false);
+    }
+  };
+
   const handleStatusChange = async () => {
     if (!currentUser || newStatus === listing.status) return;
 
@@ -65,6 +108,12 @@ export function ListingCard({ listing, currentUser, isOwner = false }: ListingCa
     }
   };
 
+  const handleStockChange = (updated: Listing) => {
+    listing.status = updated.status; // A sold-out listing is back on sale once restocked
+    setNewStatus(updated.status);
+    setStock(updated.stock);
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'available': return 'bg-green-100 text-green-800';
@@ -84,19 +133,58 @@ export function ListingCard({ listing, currentUser, isOwner = false }: ListingCa
   };
 
   return (
-    <Card className="bg-white/80 backdrop-blur-sm border-white/20 hover:shadow-lg transition-shadow">
+    <Card className="bg-white/80 backdrop-blur-sm border-white/20 hover:shadow-lg transition-shadow overflow-hidden">
+      {media.length > 0 && (
+        <Carousel className="-mt-6">
+          <CarouselContent>
+            {media.map((item) => (
+              <CarouselItem key={item.id}>
+                <img
+                  src={item.thumbnail_url}
+                  alt={listing.title}
+                  loading="lazy"
+                  className="w-full h-48 object-cover"
+                />
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          {media.length > 1 && (
+            <>
+              <CarouselPrevious className="left-2" />
+              <CarouselNext className="right-2" />
+            </>
+          )}
+        </Carousel>
+      )}
+
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between">
-          <CardTitle className="text-lg line-clamp-2">{listing.title}</CardTitle>
-          <Badge className={getStatusColor(listing.status)}>
-            {getStatusIcon(listing.status)} {listing.status}
-          </Badge>
+          <CardTitle className="text-lg line-clamp-2">
+            {listing.highlight ? <Highlighted segments={listing.highlight.title} /> : listing.title}
+          </CardTitle>
+          <div className="flex items-center space-x-1">
+            {currentUser && !isOwner && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleToggleWatch}
+                disabled={isTogglingWatch}
+                aria-pressed={isWatched}
+                title={isWatched ? 'Remove from watchlist' : 'Watch for price drops'}
+              >
+                {isWatched ? '❤️' : '🤍'}
+              </Button>
+            )}
+            <Badge className={getStatusColor(listing.status)}>
+              {getStatusIcon(listing.status)} {listing.status}
+            </Badge>
+          </div>
         </div>
       </CardHeader>
 
       <CardContent className="space-y-4">
         <p className="text-gray-600 text-sm line-clamp-3">
-          {listing.description}
+          {listing.highlight ? <Highlighted segments={listing.highlight.snippet} /> : listing.description}
         </p>
 
         <div className="flex items-center justify-between">
@@ -111,7 +199,14 @@ export function ListingCard({ listing, currentUser, isOwner = false }: ListingCa
         {listing.has_secure_payload && (
           <div className="flex items-center space-x-1 text-green-600 text-sm">
             <span>🔐</span>
-            <span>Credentials uploaded</span>
+            <span>Credentials uploaded · {stock} left</span>
+          </div>
+        )}
+
+        {listing.e2e_handoff && (
+          <div className="flex items-center space-x-1 text-indigo-600 text-sm">
+            <span>🔏</span>
+            <span>End-to-end handoff · needs your encryption key</span>
           </div>
         )}
 
@@ -125,6 +220,15 @@ export function ListingCard({ listing, currentUser, isOwner = false }: ListingCa
           </Alert>
         )}
 
+        {isOwner && (
+          <div className="flex space-x-2">
+            <ListingMediaManager listingId={listing.id} media={media} onMediaChange={setMedia} />
+            {!listing.e2e_handoff && (
+              <ListingStockManager listingId={listing.id} stock={stock} onStockChange={handleStockChange} />
+            )}
+          </div>
+        )}
+
         <div className="flex space-x-2 pt-2">
           {isOwner ? (
             <>
@@ -204,9 +308,11 @@ export function ListingCard({ listing, currentUser, isOwner = false }: ListingCa
                 </Button>
               )}
               
-              <Button variant="outline" size="sm">
-                View Details
-              </Button>
+              <ListingDetailDialog listingId={listing.id}>
+                <Button variant="outline" size="sm">
+                  View Details
+                </Button>
+              </ListingDetailDialog>
             </>
           )}
         </div>
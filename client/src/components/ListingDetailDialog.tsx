@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+import { Separator } from '@/components/ui/separator';
+import { trpc } from '@/utils/trpc';
+import type { ListingDetail } from '../../../server/src/schema';
+
+interface ListingDetailDialogProps {
+  listingId: string;
+  children: React.ReactNode; // The trigger button
+}
+
+const verificationLabels: Record<ListingDetail['seller']['verification_status'], string> = {
+  verified: '✅ Verified seller',
+  pending: '⏳ Verification pending',
+  none: 'Unverified seller'
+};
+
+// Full listing page with the seller's reputation; also opens sold and delisted listings from order history
+export function ListingDetailDialog({ listingId, children }: ListingDetailDialogProps) {
+  const [listing, setListing] = useState<ListingDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadListing = async () => {
+    setError(null);
+    try {
+      const result = await trpc.catalog.getListingDetail.query(listingId);
+      if (!result) {
+        setError('This listing no longer exists.');
+      }
+      setListing(result);
+    } catch (error) {
+      console.error('Failed to load listing details:', error);
+      setError('Could not load the listing.');
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => {
+      if (open) loadListing();
+    }}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{listing?.title ?? 'Listing'}</DialogTitle>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {listing && (
+          <div className="space-y-4">
+            {!listing.is_available && (
+              <Badge variant="secondary">
+                {listing.status === 'sold' ? '🔒 Sold' : '❌ No longer listed'}
+              </Badge>
+            )}
+
+            {listing.media.length > 0 && (
+              <Carousel>
+                <CarouselContent>
+                  {listing.media.map((item) => (
+                    <CarouselItem key={item.id}>
+                      <img src={item.url} alt={listing.title} className="w-full max-h-96 object-contain rounded" />
+                    </CarouselItem>
+                  ))}
+                </CarouselContent>
+                {listing.media.length > 1 && (
+                  <>
+                    <CarouselPrevious className="left-2" />
+                    <CarouselNext className="right-2" />
+                  </>
+                )}
+              </Carousel>
+            )}
+
+            <div className="flex items-center justify-between">
+              <div className="text-2xl font-bold text-indigo-600">
+                ${(listing.price_cents / 100).toFixed(2)}
+              </div>
+              <Badge variant="outline">{listing.category.name}</Badge>
+            </div>
+
+            <p className="text-gray-700 whitespace-pre-line">{listing.description}</p>
+
+            {Object.keys(listing.attributes).length > 0 && (
+              <dl className="grid grid-cols-2 gap-2 text-sm">
+                {Object.entries(listing.attributes).map(([key, value]) => (
+                  <div key={key}>
+                    <dt className="text-gray-500">{key.replace(/_/g, ' ')}</dt>
+                    <dd className="font-medium">{typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+
+            <Separator />
+
+            <div className="space-y-1">
+              <div className="font-medium">{listing.seller.display_name ?? 'Anonymous seller'}</div>
+              <div className="text-sm text-gray-600">
+                {listing.seller.rating !== null && `⭐ ${listing.seller.rating.toFixed(1)} · `}
+                {listing.seller.review_count} reviews · {listing.seller.completed_sales} completed sales
+              </div>
+              <div className="text-xs text-gray-500">
+                {verificationLabels[listing.seller.verification_status]} · member since{' '}
+                {listing.seller.member_since.toLocaleDateString()}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
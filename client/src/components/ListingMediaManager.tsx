@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { ListingMedia, UploadListingMediaInput } from '../../../server/src/schema';
+
+interface ListingMediaManagerProps {
+  listingId: string;
+  media: ListingMedia[];
+  onMediaChange: (media: ListingMedia[]) => void;
+}
+
+const ACCEPTED_TYPES: UploadListingMediaInput['content_type'][] = ['image/jpeg', 'image/png', 'image/webp'];
+
+const readAsBase64 = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// Lets a seller upload, reorder and remove the photos of one listing
+export function ListingMediaManager({ listingId, media, onMediaChange }: ListingMediaManagerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    let next = media;
+    try {
+      for (const file of Array.from(files)) {
+        const contentType = ACCEPTED_TYPES.find(type => type === file.type);
+        if (!contentType) {
+          throw new Error(`${file.name} is not a JPEG, PNG or WebP image`);
+        }
+
+        const uploaded = await trpc.seller.uploadListingMedia.mutate({
+          listing_id: listingId,
+          content_type: contentType,
+          data_base64: await readAsBase64(file)
+        });
+        next = [...next, uploaded];
+        onMediaChange(next);
+      }
+    } catch (error) {
+      console.error('Photo upload failed:', error);
+      setError(error instanceof Error ? error.message : 'Could not upload the photo');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const ids = media.map(item => item.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+
+    try {
+      onMediaChange(await trpc.seller.reorderListingMedia.mutate({ listing_id: listingId, media_ids: ids }));
+    } catch (error) {
+      console.error('Photo reorder failed:', error);
+      setError('Could not reorder the photos');
+    }
+  };
+
+  const handleDelete = async (mediaId: string) => {
+    try {
+      await trpc.seller.deleteListingMedia.mutate({ media_id: mediaId });
+      onMediaChange(media
+        .filter(item => item.id !== mediaId)
+        .map((item, position) => ({ ...item, position })));
+    } catch (error) {
+      console.error('Photo removal failed:', error);
+      setError('Could not remove the photo');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex-1">
+          📷 Photos ({media.length})
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Listing Photos</DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-4">
+          <Input
+            type="file"
+            accept={ACCEPTED_TYPES.join(',')}
+            multiple
+            disabled={isLoading}
+            onChange={(e) => {
+              handleUpload(e.target.files);
+              e.target.value = '';
+            }}
+          />
+          <p className="text-xs text-gray-500">
+            The first photo is the cover. Location and camera details are removed from uploads.
+          </p>
+
+          <div className="grid grid-cols-3 gap-2">
+            {media.map((item: ListingMedia, index: number) => (
+              <div key={item.id} className="space-y-1">
+                <img src={item.thumbnail_url} alt="" className="w-full h-20 object-cover rounded" />
+                <div className="flex justify-between">
+                  <Button size="sm" variant="ghost" disabled={index === 0} onClick={() => handleMove(index, -1)}>
+                    ←
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(item.id)}>
+                    ✕
+                  </Button>
+                  <Button size="sm" variant="ghost" disabled={index === media.length - 1} onClick={() => handleMove(index, 1)}>
+                    →
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {isLoading && <p className="text-sm text-gray-500">Uploading...</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { Listing } from '../../../server/src/schema';
+
+interface ListingStockManagerProps {
+  listingId: string;
+  stock: number;
+  onStockChange: (listing: Listing) => void;
+}
+
+// Lets a seller top up a listing with one set of credentials per line, each sold as its own unit
+export function ListingStockManager({ listingId, stock, onStockChange }: ListingStockManagerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const credentials = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+
+  const handleAdd = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      onStockChange(await trpc.seller.addListingStock.mutate({ listing_id: listingId, credentials }));
+      setText('');
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Adding stock failed:', error);
+      setError(error instanceof Error ? error.message : 'Could not add the stock');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex-1">
+          📦 Stock ({stock})
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add Stock</DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <p className="text-sm text-gray-600">
+          One account per line. Each line is encrypted separately and handed to exactly one buyer.
+        </p>
+
+        <Textarea
+          placeholder={'user1:password1\nuser2:password2'}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={8}
+          className="font-mono text-sm"
+        />
+
+        <Button
+          onClick={handleAdd}
+          disabled={isLoading || credentials.length === 0}
+        >
+          {isLoading ? 'Encrypting...' : `Add ${credentials.length} unit${credentials.length === 1 ? '' : 's'}`}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
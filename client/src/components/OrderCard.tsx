@@ -4,9 +4,13 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
+import { ListingDetailDialog } from '@/components/ListingDetailDialog';
 import { trpc } from '@/utils/trpc';
+import { openCredentials } from '@/lib/handoffCrypto';
 import type { Order } from '../../../server/src/schema';
 
 interface OrderCardProps {
@@ -18,6 +22,9 @@ export function OrderCard({ order }: OrderCardProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [showCredentials, setShowCredentials] = useState(false);
   const [credentials, setCredentials] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [revealError, setRevealError] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const formatPrice = (cents: number) => {
@@ -48,37 +55,24 @@ export function OrderCard({ order }: OrderCardProps) {
     }
   };
 
-  const handleViewCredentials = async () => {
-    if (credentials) {
-      setShowCredentials(true);
-      return;
-    }
-
-    setIsLoading(true);
-    setError(null);
+  const handleViewCredentials = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsRevealing(true);
+    setRevealError(null);
 
     try {
-      // In a real implementation, this would return the order with decrypted credentials
-      await trpc.orders.getOrder.query(order.id);
-      
-      // For now, show placeholder credentials since the backend is stubbed
-      setCredentials(`Username: example_user
-Password: secure_password_123
-Email: account@example.com
-Recovery Email: recovery@example.com
-
-Additional Notes:
-- Account is verified
-- No restrictions
-- Original email access included
-- Please change password after login`);
-      
-      setShowCredentials(true);
+      // Every reveal is logged and rate-limited on the server, so keep the result for this card
+      const result = await trpc.orders.revealCredentials.mutate({ order_id: order.id, password });
+      // End-to-end orders arrive sealed and are only opened here, with the key in this browser
+      setCredentials(result.encryption === 'buyer_key'
+        ? await openCredentials(result.sealed_payload, result.recipient_public_key, order.id)
+        : result.credentials);
+      setPassword('');
     } catch (error) {
-      console.error('Failed to load credentials:', error);
-      setError('Failed to load account credentials');
+      console.error('Failed to reveal credentials:', error);
+      setRevealError(error instanceof Error ? error.message : 'Failed to load account credentials');
     } finally {
-      setIsLoading(false);
+      setIsRevealing(false);
     }
   };
 
@@ -171,9 +165,7 @@ Additional Notes:
           {canViewCredentials && (
             <Dialog open={showCredentials} onOpenChange={setShowCredentials}>
               <DialogTrigger asChild>
-                <Button onClick={handleViewCredentials} disabled={isLoading}>
-                  {isLoading ? 'Loading...' : '🔐 View Credentials'}
-                </Button>
+                <Button>🔐 View Credentials</Button>
               </DialogTrigger>
               
               <DialogContent className="sm:max-w-lg">
@@ -181,31 +173,62 @@ Additional Notes:
                   <DialogTitle>Account Credentials</DialogTitle>
                 </DialogHeader>
                 
-                <div className="space-y-4">
-                  <Alert>
-                    <AlertDescription>
-                      🔒 These are your account credentials. Please copy them safely and change the password after first login.
-                    </AlertDescription>
-                  </Alert>
-                  
-                  <Textarea
-                    value={credentials || ''}
-                    readOnly
-                    rows={8}
-                    className="font-mono text-sm"
-                  />
-                  
-                  <Button
-                    onClick={() => {
-                      if (credentials) {
-                        navigator.clipboard.writeText(credentials);
-                      }
-                    }}
-                    className="w-full"
-                  >
-                    📋 Copy to Clipboard
-                  </Button>
-                </div>
+                {credentials ? (
+                  <div className="space-y-4">
+                    <Alert>
+                      <AlertDescription>
+                        🔒 These are your account credentials. Please copy them safely and change the password after first login.
+                      </AlertDescription>
+                    </Alert>
+                    
+                    <Textarea
+                      value={credentials}
+                      readOnly
+                      rows={8}
+                      className="font-mono text-sm"
+                    />
+                    
+                    <Button
+                      onClick={() => navigator.clipboard.writeText(credentials)}
+                      className="w-full"
+                    >
+                      📋 Copy to Clipboard
+                    </Button>
+                  </div>
+                ) : (
+                  <form onSubmit={handleViewCredentials} className="space-y-4">
+                    <p className="text-sm text-gray-600">
+                      Confirm your password to reveal the credentials. Each reveal is recorded with your IP address and device.
+                    </p>
+
+                    {order.buyer_public_key && (
+                      <p className="text-sm text-gray-600">
+                        🔏 This order uses end-to-end handoff: the credentials are decrypted in this browser with your encryption key.
+                      </p>
+                    )}
+
+                    {revealError && (
+                      <Alert variant="destructive">
+                        <AlertDescription>{revealError}</AlertDescription>
+                      </Alert>
+                    )}
+
+                    <div className="space-y-2">
+                      <Label htmlFor={`reveal-password-${order.id}`}>Password</Label>
+                      <Input
+                        id={`reveal-password-${order.id}`}
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        required
+                      />
+                    </div>
+
+                    <Button type="submit" disabled={isRevealing} className="w-full">
+                      {isRevealing ? 'Decrypting...' : '🔓 Reveal Credentials'}
+                    </Button>
+                  </form>
+                )}
               </DialogContent>
             </Dialog>
           )}
@@ -231,6 +254,12 @@ Additional Notes:
               ⭐ Leave Review
             </Button>
           )}
+
+          <ListingDetailDialog listingId={order.listing_id}>
+            <Button variant="outline" size="sm">
+              View Listing
+            </Button>
+          </ListingDetailDialog>
         </div>
 
         <Separator />
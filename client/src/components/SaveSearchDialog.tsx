@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { SavedSearchQuery } from '../../../server/src/schema';
+
+interface SaveSearchDialogProps {
+  query: SavedSearchQuery;
+}
+
+// Saves the current search so new matches arrive in a digest email
+export function SaveSearchDialog({ query }: SaveSearchDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await trpc.savedSearches.create.mutate({ name, query: { ...query, page: 1, page_size: 20 } });
+      setName('');
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Saving search failed:', error);
+      setError(error instanceof Error ? error.message : 'Could not save the search');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">💾 Save search</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save Search</DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input
+              id="saved-search-name"
+              placeholder="Cheap Fortnite accounts"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={80}
+              required
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            We will email you a digest of new listings matching your last search.
+          </p>
+          <Button type="submit" disabled={isLoading} className="w-full">
+            {isLoading ? 'Saving...' : 'Save Search'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import type { SavedSearch, SavedSearchQuery } from '../../../server/src/schema';
+
+interface SavedSearchesCardProps {
+  onRun: (query: SavedSearchQuery) => void;
+}
+
+const describeQuery = (query: SavedSearchQuery): string[] => [
+  query.q ? `"${query.q}"` : null,
+  query.category_slug ? `in ${query.category_slug}` : null,
+  query.min_price !== undefined ? `from $${(query.min_price / 100).toFixed(2)}` : null,
+  query.max_price !== undefined ? `up to $${(query.max_price / 100).toFixed(2)}` : null,
+  query.seller_verification ? `${query.seller_verification} sellers` : null
+].filter((part): part is string => part !== null);
+
+// Lists a buyer's saved searches; each one is re-run from here or removed
+export function SavedSearchesCard({ onRun }: SavedSearchesCardProps) {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+
+  const loadSavedSearches = useCallback(async () => {
+    try {
+      setSavedSearches(await trpc.savedSearches.list.query());
+    } catch (error) {
+      console.error('Failed to load saved searches:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSavedSearches();
+  }, [loadSavedSearches]);
+
+  const handleDelete = async (savedSearchId: string) => {
+    try {
+      await trpc.savedSearches.delete.mutate({ saved_search_id: savedSearchId });
+      await loadSavedSearches();
+    } catch (error) {
+      console.error('Saved search removal failed:', error);
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-white/20">
+      <CardHeader>
+        <CardTitle>🔔 Saved searches</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {savedSearches.length === 0 ? (
+          <p className="text-gray-600">
+            Save a search from the marketplace to get an email when new listings match it.
+          </p>
+        ) : (
+          savedSearches.map((savedSearch: SavedSearch) => (
+            <div key={savedSearch.id} className="flex items-center justify-between border rounded-md p-3">
+              <div className="space-y-1">
+                <div className="font-medium">{savedSearch.name}</div>
+                <div className="flex flex-wrap gap-1">
+                  {describeQuery(savedSearch.query).map(part => (
+                    <Badge key={part} variant="secondary">{part}</Badge>
+                  ))}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {savedSearch.last_run_at
+                    ? `Last checked ${savedSearch.last_run_at.toLocaleString()}`
+                    : 'Not checked yet'}
+                </div>
+              </div>
+              <div className="flex space-x-2">
+                <Button size="sm" variant="outline" onClick={() => onRun(savedSearch.query)}>
+                  Run
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => handleDelete(savedSearch.id)}>
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { SellerApplication, SubmitSellerApplicationInput } from '../../../server/src/schema';
+
+const emptyForm: SubmitSellerApplicationInput = {
+  display_name: '',
+  description: '',
+  contact: ''
+};
+
+// Lets a buyer apply to sell and shows where their latest application stands
+export function SellerApplicationCard() {
+  const [application, setApplication] = useState<SellerApplication | null>(null);
+  const [formData, setFormData] = useState<SubmitSellerApplicationInput>(emptyForm);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadApplication = useCallback(async () => {
+    try {
+      setApplication(await trpc.sellerApplications.mine.query());
+    } catch (error) {
+      console.error('Failed to load seller application:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadApplication();
+  }, [loadApplication]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await trpc.sellerApplications.submit.mutate({
+        ...formData,
+        contact: formData.contact || undefined
+      });
+      setApplication(result);
+      setFormData(emptyForm);
+    } catch (error) {
+      console.error('Seller application failed:', error);
+      setError(error instanceof Error ? error.message : 'Could not submit your application');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const canApply = !application || application.status === 'rejected';
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-white/20">
+      <CardHeader>
+        <CardTitle>💼 Become a seller</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {application && (
+          <div className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-600">Latest application:</span>
+              <Badge variant={application.status === 'rejected' ? 'destructive' : 'secondary'}>
+                {application.status}
+              </Badge>
+            </div>
+            {application.review_note && (
+              <p className="text-sm text-gray-600">Reviewer note: {application.review_note}</p>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {canApply && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="application-name">Shop name</Label>
+              <Input
+                id="application-name"
+                value={formData.display_name}
+                onChange={(e) => setFormData(prev => ({ ...prev, display_name: e.target.value }))}
+                minLength={2}
+                maxLength={100}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="application-description">What will you sell?</Label>
+              <Textarea
+                id="application-description"
+                placeholder="Tell us about the accounts you sell and where they come from"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                minLength={20}
+                maxLength={2000}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="application-contact">Contact (optional)</Label>
+              <Input
+                id="application-contact"
+                placeholder="Telegram, Discord or similar"
+                value={formData.contact || ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, contact: e.target.value }))}
+                maxLength={200}
+              />
+            </div>
+
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Submitting...' : 'Apply to Sell'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import type { SellerApplication } from '../../../server/src/schema';
+
+// Admin view of pending seller applications, oldest first
+export function SellerApplicationsQueue() {
+  const [applications, setApplications] = useState<SellerApplication[]>([]);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const loadApplications = useCallback(async () => {
+    try {
+      const result = await trpc.admin.listSellerApplications.query({ status: 'pending', page: 1 });
+      setApplications(result.items);
+    } catch (error) {
+      console.error('Failed to load seller applications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadApplications();
+  }, [loadApplications]);
+
+  const handleReview = async (applicationId: string, decision: 'approve' | 'reject') => {
+    setReviewingId(applicationId);
+    try {
+      await trpc.admin.reviewSellerApplication.mutate({ application_id: applicationId, decision });
+      setApplications(prev => prev.filter(application => application.id !== applicationId));
+    } catch (error) {
+      console.error('Failed to review seller application:', error);
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-white/20">
+      <CardHeader>
+        <CardTitle>📋 Seller applications</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {applications.length === 0 ? (
+          <p className="text-gray-600">No applications waiting for review.</p>
+        ) : (
+          applications.map((application: SellerApplication) => (
+            <div key={application.id} className="border rounded-lg p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold">{application.display_name}</h4>
+                <span className="text-xs text-gray-500">
+                  {application.created_at.toLocaleDateString()}
+                </span>
+              </div>
+              <p className="text-sm text-gray-700">{application.description}</p>
+              {application.contact && (
+                <p className="text-sm text-gray-500">Contact: {application.contact}</p>
+              )}
+              <div className="flex space-x-2">
+                <Button
+                  size="sm"
+                  onClick={() => handleReview(application.id, 'approve')}
+                  disabled={reviewingId === application.id}
+                >
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleReview(application.id, 'reject')}
+                  disabled={reviewingId === application.id}
+                >
+                  Reject
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
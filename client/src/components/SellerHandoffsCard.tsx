@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import { sealCredentials } from '@/lib/handoffCrypto';
+import type { PendingHandoff } from '../../../server/src/schema';
+
+// Paid end-to-end orders: the seller enters the credentials here and they are
+// sealed to the buyer's key in this browser, so only ciphertext is uploaded
+export function SellerHandoffsCard() {
+  const [handoffs, setHandoffs] = useState<PendingHandoff[]>([]);
+  const [credentials, setCredentials] = useState<Record<string, string>>({});
+  const [sendingOrderId, setSendingOrderId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHandoffs = useCallback(async () => {
+    try {
+      setHandoffs(await trpc.seller.pendingHandoffs.query());
+    } catch (error) {
+      console.error('Failed to load pending handoffs:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHandoffs();
+  }, [loadHandoffs]);
+
+  const handleSend = async (handoff: PendingHandoff) => {
+    const plaintext = credentials[handoff.order_id]?.trim();
+    if (!plaintext) return;
+
+    setSendingOrderId(handoff.order_id);
+    setError(null);
+    try {
+      const sealed = await sealCredentials(plaintext, handoff.buyer_public_key, handoff.order_id);
+      await trpc.seller.submitHandoff.mutate({ order_id: handoff.order_id, ...sealed });
+      setCredentials(prev => ({ ...prev, [handoff.order_id]: '' }));
+      await loadHandoffs();
+    } catch (error) {
+      console.error('Credential handoff failed:', error);
+      setError(error instanceof Error ? error.message : 'Could not send the credentials');
+    } finally {
+      setSendingOrderId(null);
+    }
+  };
+
+  if (handoffs.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-white/20">
+      <CardHeader>
+        <CardTitle>🔏 Credentials to hand off</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {handoffs.map((handoff: PendingHandoff) => (
+          <div key={handoff.order_id} className="space-y-2 border rounded-md p-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{handoff.listing_title}</span>
+              <span className="text-gray-500">Order #{handoff.order_id.slice(-8)}</span>
+            </div>
+            <Textarea
+              placeholder="Credentials for this buyer"
+              value={credentials[handoff.order_id] ?? ''}
+              onChange={(e) => setCredentials(prev => ({ ...prev, [handoff.order_id]: e.target.value }))}
+              rows={4}
+              className="font-mono text-sm"
+            />
+            <Button
+              size="sm"
+              disabled={sendingOrderId !== null || !credentials[handoff.order_id]?.trim()}
+              onClick={() => handleSend(handoff)}
+            >
+              {sendingOrderId === handoff.order_id ? 'Sealing...' : 'Seal and send'}
+            </Button>
+          </div>
+        ))}
+
+        <p className="text-xs text-gray-500">
+          A handoff cannot be changed once sent, so check the credentials first.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
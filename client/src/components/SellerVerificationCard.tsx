@@ -0,0 +1,166 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import type { KycDocumentUpload, MyVerificationResponse } from '../../../server/src/schema';
+
+type DocumentType = KycDocumentUpload['document_type'];
+
+const documentTypeLabels: Record<DocumentType, string> = {
+  passport: 'Passport',
+  national_id: 'National ID',
+  drivers_license: "Driver's license",
+  proof_of_address: 'Proof of address',
+  selfie: 'Selfie with ID'
+};
+
+// Reads a picked file into the base64 form the API expects
+function readFileAsUpload(file: File, documentType: DocumentType): Promise<KycDocumentUpload> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve({
+        document_type: documentType,
+        file_name: file.name,
+        content_type: file.type as KycDocumentUpload['content_type'],
+        data_base64: dataUrl.slice(dataUrl.indexOf(',') + 1)
+      });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// Lets a seller upload identity documents and follow the review
+export function SellerVerificationCard() {
+  const [verification, setVerification] = useState<MyVerificationResponse | null>(null);
+  const [documentType, setDocumentType] = useState<DocumentType>('passport');
+  const [files, setFiles] = useState<File[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVerification = useCallback(async () => {
+    try {
+      setVerification(await trpc.seller.myVerification.query());
+    } catch (error) {
+      console.error('Failed to load verification status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadVerification();
+  }, [loadVerification]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const documents = await Promise.all(files.map(file => readFileAsUpload(file, documentType)));
+      await trpc.seller.submitVerification.mutate({ documents });
+      setFiles([]);
+      await loadVerification();
+    } catch (error) {
+      console.error('Verification submission failed:', error);
+      setError(error instanceof Error ? error.message : 'Could not submit your documents');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!verification) {
+    return null;
+  }
+
+  const latestChange = verification.history[0];
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-white/20">
+      <CardHeader>
+        <CardTitle>🪪 Seller verification</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center space-x-2">
+          <span className="text-sm text-gray-600">Status:</span>
+          <Badge variant={verification.status === 'verified' ? 'default' : 'secondary'}>
+            {verification.status}
+          </Badge>
+        </div>
+
+        {verification.status === 'none' && (
+          <p className="text-sm text-gray-600">
+            Verify your identity to list without limits and request payouts.
+          </p>
+        )}
+
+        {verification.status === 'none' && latestChange?.reason && (
+          <Alert>
+            <AlertDescription>Your last submission was rejected: {latestChange.reason}</AlertDescription>
+          </Alert>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {verification.status === 'none' && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Document type</Label>
+              <Select
+                value={documentType}
+                onValueChange={(value) => setDocumentType(value as DocumentType)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(documentTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="verification-files">Files (JPEG, PNG or PDF, up to 5 MB each)</Label>
+              <Input
+                id="verification-files"
+                type="file"
+                accept="image/jpeg,image/png,application/pdf"
+                multiple
+                onChange={(e) => setFiles(Array.from(e.target.files || []).slice(0, 5))}
+                required
+              />
+            </div>
+
+            <Button type="submit" disabled={isLoading || files.length === 0}>
+              {isLoading ? 'Uploading...' : 'Submit for Review'}
+            </Button>
+          </form>
+        )}
+
+        {verification.history.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-gray-700">History</p>
+            {verification.history.map(change => (
+              <p key={change.id} className="text-xs text-gray-500">
+                {change.created_at.toLocaleDateString()}: {change.from_status} → {change.to_status}
+                {change.reason && ` (${change.reason})`}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { TwoFactorSetupResponse } from '../../../server/src/schema';
+
+export function TwoFactorSetupDialog() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const handleBegin = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setSetup(await trpc.auth.twoFactor.begin.mutate());
+    } catch (error) {
+      console.error('Two-factor setup failed:', error);
+      setError(error instanceof Error ? error.message : 'Could not start two-factor setup');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await trpc.auth.twoFactor.confirm.mutate({ code });
+      setRecoveryCodes(result.recovery_codes);
+    } catch (error) {
+      console.error('Two-factor confirmation failed:', error);
+      setError('That code was not accepted. Check the time on your device and try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resetState = () => {
+    setError(null);
+    setSetup(null);
+    setCode('');
+    setRecoveryCodes(null);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => {
+      setIsOpen(open);
+      if (!open) resetState();
+    }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">🔐 Set up two-factor</Button>
+      </DialogTrigger>
+
+      <DialogContent className="sm:max-w-md bg-white/95 backdrop-blur-sm">
+        <DialogHeader>
+          <DialogTitle className="text-center text-xl">Two-factor authentication</DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {recoveryCodes ? (
+          <div className="space-y-4">
+            <Alert>
+              <AlertDescription>
+                ✅ Two-factor authentication is on. Store these recovery codes somewhere safe —
+                each one signs you in once if you lose your authenticator.
+              </AlertDescription>
+            </Alert>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 rounded p-3">
+              {recoveryCodes.map((recoveryCode: string) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button className="w-full" onClick={() => setIsOpen(false)}>
+              Done
+            </Button>
+          </div>
+        ) : setup ? (
+          <form onSubmit={handleConfirm} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Add this key to your authenticator app, or open the link on your phone, then enter the code it shows.
+            </p>
+            <div className="space-y-1">
+              <div className="font-mono text-sm break-all bg-gray-50 rounded p-3">{setup.secret}</div>
+              <a href={setup.otpauth_uri} className="text-sm text-blue-600 underline">
+                Open in authenticator app
+              </a>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-setup-code">Code from your app</Label>
+              <Input
+                id="two-factor-setup-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+              />
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? 'Verifying...' : 'Turn On'}
+            </Button>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Payouts and dispute decisions require a one-time code from an authenticator app
+              in addition to your password.
+            </p>
+            <Button className="w-full" onClick={handleBegin} disabled={isLoading}>
+              {isLoading ? 'Starting...' : 'Get Started'}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,140 @@
+import type { SealedPayload } from '../../../server/src/schema';
+
+// End-to-end credential handoff. The buyer's browser keeps an X25519 private key
+// the server never sees; the seller's browser seals credentials to the matching
+// public key with an ephemeral key, HKDF-SHA256 over both public keys and
+// AES-256-GCM bound to the order id.
+
+const HANDOFF_INFO = 'accs-market credential handoff v1';
+const NONCE_BYTES = 12;
+
+const DB_NAME = 'accs-market';
+const KEY_STORE = 'handoff-keys';
+
+interface StoredKeyPair {
+  public_key: string;
+  private_key: CryptoKey;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const concat = (...parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+// Private keys are stored as non-extractable CryptoKeys, so page scripts can use but never read them
+function openKeyStore(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(KEY_STORE, { keyPath: 'public_key' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withKeyStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const database = await openKeyStore();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(database.transaction(KEY_STORE, mode).objectStore(KEY_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    database.close();
+  }
+}
+
+const importPublicKey = (publicKey: string) =>
+  crypto.subtle.importKey('raw', fromBase64(publicKey), { name: 'X25519' }, true, []);
+
+async function handoffKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  ephemeralPublicKey: Uint8Array,
+  recipientPublicKey: Uint8Array,
+  usage: KeyUsage
+): Promise<CryptoKey> {
+  const sharedSecret = await crypto.subtle.deriveBits({ name: 'X25519', public: publicKey }, privateKey, 256);
+  const material = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: concat(ephemeralPublicKey, recipientPublicKey), info: encoder.encode(HANDOFF_INFO) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  );
+}
+
+// Creates a key pair in this browser and returns the public key to register
+export async function generateHandoffKey(): Promise<string> {
+  const pair = await crypto.subtle.generateKey({ name: 'X25519' }, false, ['deriveBits']) as CryptoKeyPair;
+  const publicKey = toBase64(await crypto.subtle.exportKey('raw', pair.publicKey));
+
+  await withKeyStore('readwrite', store => store.put({ public_key: publicKey, private_key: pair.privateKey } satisfies StoredKeyPair));
+  return publicKey;
+}
+
+export async function hasHandoffKey(publicKey: string): Promise<boolean> {
+  return (await withKeyStore<StoredKeyPair | undefined>('readonly', store => store.get(publicKey))) !== undefined;
+}
+
+export async function sealCredentials(plaintext: string, recipientPublicKey: string, orderId: string): Promise<SealedPayload> {
+  const recipient = await importPublicKey(recipientPublicKey);
+  const ephemeral = await crypto.subtle.generateKey({ name: 'X25519' }, true, ['deriveBits']) as CryptoKeyPair;
+  const ephemeralPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+
+  const key = await handoffKey(ephemeral.privateKey, recipient, ephemeralPublicKey, fromBase64(recipientPublicKey), 'encrypt');
+  const nonce = crypto.getRandomValues(new Uint8Array(NONCE_BYTES));
+  const cipherText = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce, additionalData: encoder.encode(orderId) },
+    key,
+    encoder.encode(plaintext)
+  );
+
+  return {
+    ephemeral_public_key: toBase64(ephemeralPublicKey),
+    nonce: toBase64(nonce),
+    cipher_text: toBase64(cipherText)
+  };
+}
+
+// Opens credentials sealed to a key held in this browser
+export async function openCredentials(sealed: SealedPayload, recipientPublicKey: string, orderId: string): Promise<string> {
+  const stored = await withKeyStore<StoredKeyPair | undefined>('readonly', store => store.get(recipientPublicKey));
+  if (!stored) {
+    throw new Error('The key these credentials were sealed to is not in this browser');
+  }
+
+  const ephemeralPublicKey = fromBase64(sealed.ephemeral_public_key);
+  const key = await handoffKey(
+    stored.private_key,
+    await importPublicKey(sealed.ephemeral_public_key),
+    ephemeralPublicKey,
+    fromBase64(recipientPublicKey),
+    'decrypt'
+  );
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(sealed.nonce), additionalData: encoder.encode(orderId) },
+      key,
+      fromBase64(sealed.cipher_text)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error('Credentials could not be decrypted');
+  }
+}
@@ -2,9 +2,78 @@ import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+const AUTH_TOKEN_KEY = 'accs_token';
+const REFRESH_TOKEN_KEY = 'accs_refresh_token';
+
+// Refresh this long before the access token actually expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+export function getAuthToken(): string | null {
+  return localStorage.getItem(AUTH_TOKEN_KEY);
+}
+
+export function setAuthTokens(tokens: { token: string; refresh_token: string } | null): void {
+  if (tokens) {
+    localStorage.setItem(AUTH_TOKEN_KEY, tokens.token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refresh_token);
+  } else {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  }
+}
+
+function expiresSoon(token: string): boolean {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' && payload.exp * 1000 - Date.now() < REFRESH_MARGIN_MS;
+  } catch {
+    return true;
+  }
+}
+
+// Refresh calls go through a separate client so they never wait on themselves
+const refreshClient = createTRPCClient<AppRouter>({
+  links: [httpBatchLink({ url: '/api', transformer: superjson })],
+});
+
+let pendingRefresh: Promise<string | null> | null = null;
+
+async function refreshAuthToken(): Promise<string | null> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return null;
+
+  try {
+    const tokens = await refreshClient.auth.refresh.mutate({ refresh_token: refreshToken });
+    setAuthTokens(tokens);
+    return tokens.token;
+  } catch (error) {
+    console.error('Failed to refresh session:', error);
+    setAuthTokens(null);
+    return null;
+  }
+}
+
+async function getFreshAuthToken(): Promise<string | null> {
+  const token = getAuthToken();
+  if (!token || !expiresSoon(token)) return token;
+
+  // Share one refresh between concurrent requests; refresh tokens are single-use
+  pendingRefresh ??= refreshAuthToken().finally(() => {
+    pendingRefresh = null;
+  });
+  return pendingRefresh;
+}
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+      async headers() {
+        const token = await getFreshAuthToken();
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      },
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
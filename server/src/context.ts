@@ -0,0 +1,196 @@
+import { type IncomingHttpHeaders } from 'http';
+import { db } from './db';
+import { usersTable, sessionsTable, twoFactorTable } from './db/schema';
+import { verifyAccessToken, type AccessTokenClaims } from './handlers/auth';
+import { authenticateApiKey, isApiKey, ApiKeyRejectedError } from './handlers/apiKeys';
+import { type UserRole, type ApiKeyScope, type RequestMeta } from './schema';
+import { eq, and } from 'drizzle-orm';
+
+export const AUTH_COOKIE_NAME = 'accs_token';
+
+export interface Context {
+  userId: string | null;
+  userRole: UserRole | null;
+  sessionId: string | null;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  // Whether this session passed a two-factor check at sign-in or setup
+  twoFactorVerified: boolean;
+  // Set when the caller authenticated with an API key instead of a session
+  apiKeyId: string | null;
+  apiKeyScopes: ApiKeyScope[];
+  // Why a presented token was rejected; null when no token was sent or it was valid
+  authError: string | null;
+  meta: RequestMeta;
+}
+
+interface ContextRequest {
+  headers: IncomingHttpHeaders;
+  socket?: { remoteAddress?: string };
+}
+
+export function extractToken(headers: IncomingHttpHeaders): string | null {
+  const authorization = headers.authorization;
+  if (authorization) {
+    const [scheme, token] = authorization.split(' ');
+    if (scheme?.toLowerCase() === 'bearer' && token) {
+      return token;
+    }
+  }
+
+  const cookieHeader = headers.cookie;
+  if (cookieHeader) {
+    for (const part of cookieHeader.split(';')) {
+      const [name, ...rest] = part.trim().split('=');
+      if (name === AUTH_COOKIE_NAME && rest.length > 0) {
+        return decodeURIComponent(rest.join('='));
+      }
+    }
+  }
+
+  return null;
+}
+
+// Peers allowed to report the client address in X-Forwarded-For. Caddy runs in
+// the same container, so by default only loopback connections are trusted
+export const TRUSTED_PROXIES = (process.env['TRUSTED_PROXIES'] || '127.0.0.1,::1')
+  .split(',')
+  .map(address => address.trim())
+  .filter(address => address.length > 0);
+
+// IPv4 peers on a dual-stack socket show up as ::ffff:a.b.c.d
+const normalizeAddress = (address: string) => address.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+
+export function extractRequestMeta(req: ContextRequest, trustedProxies: string[] = TRUSTED_PROXIES): RequestMeta {
+  const peer = req.socket?.remoteAddress ? normalizeAddress(req.socket.remoteAddress) : null;
+  const isTrusted = (address: string) => trustedProxies.includes(address);
+
+  let ip_address = peer;
+  // Forwarded addresses are only believed when a trusted proxy sent them; walking
+  // from the right skips our own proxies, and anything left of the first
+  // untrusted hop was written by the client and cannot be relied on
+  if (peer && isTrusted(peer)) {
+    const forwardedFor = req.headers['x-forwarded-for'];
+    const hops = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor ?? '')
+      .split(',')
+      .map(hop => normalizeAddress(hop.trim()))
+      .filter(hop => hop.length > 0);
+
+    while (hops.length > 0) {
+      ip_address = hops.pop()!;
+      if (!isTrusted(ip_address)) {
+        break;
+      }
+    }
+  }
+
+  return {
+    ip_address,
+    user_agent: req.headers['user-agent'] ?? null
+  };
+}
+
+export async function createContext({ req }: { req: ContextRequest }): Promise<Context> {
+  const anonymous: Context = {
+    userId: null,
+    userRole: null,
+    sessionId: null,
+    emailVerified: false,
+    twoFactorEnabled: false,
+    twoFactorVerified: false,
+    apiKeyId: null,
+    apiKeyScopes: [],
+    authError: null,
+    meta: extractRequestMeta(req)
+  };
+
+  const token = extractToken(req.headers);
+  if (!token) {
+    return anonymous;
+  }
+
+  if (isApiKey(token)) {
+    return createApiKeyContext(token, anonymous);
+  }
+
+  let payload: AccessTokenClaims;
+  try {
+    payload = verifyAccessToken(token);
+  } catch (error) {
+    return { ...anonymous, authError: error instanceof Error ? error.message : 'Invalid token' };
+  }
+
+  try {
+    // Role is read from the database so role changes apply without re-login,
+    // and the session is checked so logout and revocation take effect at once
+    const results = await db.select({
+      id: usersTable.id,
+      role: usersTable.role,
+      email_verified_at: usersTable.email_verified_at,
+      revoked_at: sessionsTable.revoked_at,
+      two_factor_verified_at: sessionsTable.two_factor_verified_at,
+      two_factor_enabled_at: twoFactorTable.enabled_at
+    })
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .leftJoin(twoFactorTable, eq(twoFactorTable.user_id, usersTable.id))
+      .where(and(
+        eq(sessionsTable.id, payload.sid),
+        eq(sessionsTable.user_id, payload.userId)
+      ))
+      .execute();
+
+    if (results.length === 0) {
+      return { ...anonymous, authError: 'Session not found' };
+    }
+
+    if (results[0].revoked_at) {
+      return { ...anonymous, authError: 'Session has been revoked' };
+    }
+
+    return {
+      ...anonymous,
+      userId: results[0].id,
+      userRole: results[0].role,
+      sessionId: payload.sid,
+      emailVerified: results[0].email_verified_at !== null,
+      twoFactorEnabled: results[0].two_factor_enabled_at !== null,
+      twoFactorVerified: results[0].two_factor_verified_at !== null
+    };
+  } catch (error) {
+    console.error('Context user lookup failed:', error);
+    throw error;
+  }
+}
+
+// API keys act for their owner but never carry a second factor, so anything
+// behind requireTwoFactor stays out of reach
+async function createApiKeyContext(key: string, anonymous: Context): Promise<Context> {
+  try {
+    const principal = await authenticateApiKey(key);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, principal.user_id))
+      .execute();
+
+    if (users.length === 0) {
+      return { ...anonymous, authError: 'Invalid API key' };
+    }
+
+    return {
+      ...anonymous,
+      userId: users[0].id,
+      userRole: users[0].role,
+      emailVerified: users[0].email_verified_at !== null,
+      apiKeyId: principal.id,
+      apiKeyScopes: principal.scopes
+    };
+  } catch (error) {
+    if (error instanceof ApiKeyRejectedError) {
+      return { ...anonymous, authError: error.message };
+    }
+    console.error('Context API key lookup failed:', error);
+    throw error;
+  }
+}
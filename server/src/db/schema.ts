@@ -9,19 +9,37 @@ import {
   boolean, 
   jsonb,
   unique,
-  index
+  index,
+  customType,
+  type AnyPgColumn
 } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { relations, sql, getTableColumns } from 'drizzle-orm';
+
+// Postgres full-text document; only ever written by the database
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  }
+});
 
 // Enums
 export const userRoleEnum = pgEnum('user_role', ['buyer', 'seller', 'admin']);
 export const verificationStatusEnum = pgEnum('verification_status', ['none', 'pending', 'verified']);
 export const listingStatusEnum = pgEnum('listing_status', ['available', 'sold', 'delisted']);
 export const orderStatusEnum = pgEnum('order_status', ['pending', 'paid', 'delivered', 'disputed', 'complete', 'refunded']);
-export const transactionStatusEnum = pgEnum('transaction_status', ['initiated', 'succeeded', 'failed']);
+export const transactionStatusEnum = pgEnum('transaction_status', ['initiated', 'succeeded', 'failed', 'refunded']);
 export const paymentProviderEnum = pgEnum('payment_provider', ['stripe']);
 export const disputeStatusEnum = pgEnum('dispute_status', ['open', 'resolved_buyer', 'resolved_seller', 'refunded']);
 export const payoutStatusEnum = pgEnum('payout_status', ['requested', 'processing', 'paid', 'failed']);
+export const userTokenPurposeEnum = pgEnum('user_token_purpose', ['email_verification', 'password_reset']);
+export const sellerApplicationStatusEnum = pgEnum('seller_application_status', ['pending', 'approved', 'rejected']);
+export const kycSubmissionStatusEnum = pgEnum('kyc_submission_status', ['pending', 'approved', 'rejected']);
+export const kycDocumentTypeEnum = pgEnum('kyc_document_type', ['passport', 'national_id', 'drivers_license', 'proof_of_address', 'selfie']);
+export const loginAttemptResultEnum = pgEnum('login_attempt_result', ['success', 'invalid_credentials', 'invalid_two_factor', 'locked']);
+export const apiKeyScopeEnum = pgEnum('api_key_scope', ['listings:read', 'listings:write', 'orders:read', 'balance:read']);
+export const categoryAttributeTypeEnum = pgEnum('category_attribute_type', ['text', 'integer', 'number', 'boolean', 'enum']);
+export const keyRotationJobStatusEnum = pgEnum('key_rotation_job_status', ['running', 'failed', 'completed']);
+export const credentialAccessResultEnum = pgEnum('credential_access_result', ['revealed', 'password_rejected']);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -29,10 +47,149 @@ export const usersTable = pgTable('users', {
   email: text('email').notNull().unique(),
   password_hash: text('password_hash').notNull(),
   role: userRoleEnum('role').notNull(),
+  email_verified_at: timestamp('email_verified_at'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Sessions table - one row per login, revoking it ends every token issued for it
+export const sessionsTable = pgTable('sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  user_id: uuid('user_id').notNull().references(() => usersTable.id),
+  device_label: text('device_label'),
+  ip_address: text('ip_address'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  last_seen_at: timestamp('last_seen_at').defaultNow().notNull(),
+  // Set when the session was opened (or 2FA enrolled) with a second factor
+  two_factor_verified_at: timestamp('two_factor_verified_at'),
+  revoked_at: timestamp('revoked_at')
+}, (table) => ({
+  userIdIdx: index('sessions_user_id_idx').on(table.user_id)
+}));
+
+// Refresh tokens table - rotated on every use, rows are kept to detect reuse
+export const refreshTokensTable = pgTable('refresh_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  session_id: uuid('session_id').notNull().references(() => sessionsTable.id),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  rotated_at: timestamp('rotated_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  sessionIdIdx: index('refresh_tokens_session_id_idx').on(table.session_id)
+}));
+
+// Single-use tokens mailed to users for email verification and password reset
+export const userTokensTable = pgTable('user_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  user_id: uuid('user_id').notNull().references(() => usersTable.id),
+  purpose: userTokenPurposeEnum('purpose').notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  userPurposeIdx: index('user_tokens_user_purpose_idx').on(table.user_id, table.purpose)
+}));
+
+// TOTP two-factor secrets; enabled_at stays null until the user confirms a first code
+export const twoFactorTable = pgTable('user_two_factor', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  user_id: uuid('user_id').notNull().references(() => usersTable.id),
+  secret: text('secret').notNull(), // Base32 encoded TOTP secret
+  enabled_at: timestamp('enabled_at'),
+  last_used_step: integer('last_used_step'), // Stops a code from being replayed
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  userIdUnique: unique().on(table.user_id)
+}));
+
+// Single-use recovery codes for users who lose their authenticator
+export const recoveryCodesTable = pgTable('two_factor_recovery_codes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  user_id: uuid('user_id').notNull().references(() => usersTable.id),
+  code_hash: text('code_hash').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  userIdIdx: index('two_factor_recovery_codes_user_id_idx').on(table.user_id)
+}));
+
+// Audit trail of sign-in attempts; user_id is null when the email is unknown
+export const loginAttemptsTable = pgTable('login_attempts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  email: text('email').notNull(),
+  user_id: uuid('user_id').references(() => usersTable.id),
+  ip_address: text('ip_address'),
+  user_agent: text('user_agent'),
+  result: loginAttemptResultEnum('result').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  emailIdx: index('login_attempts_email_idx').on(table.email),
+  ipAddressIdx: index('login_attempts_ip_address_idx').on(table.ip_address)
+}));
+
+// Public half of the X25519 key a buyer's browser generated for end-to-end credential handoff
+export const userEncryptionKeysTable = pgTable('user_encryption_keys', {
+  user_id: uuid('user_id').primaryKey().references(() => usersTable.id),
+  public_key: text('public_key').notNull(), // Base64 raw X25519 key
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Failed-attempt counters for the Postgres lockout store, keyed by account or IP
+export const loginLockoutsTable = pgTable('login_lockouts', {
+  key: text('key').primaryKey(),
+  failures: integer('failures').notNull(),
+  last_failure_at: timestamp('last_failure_at').notNull()
+});
+
+// Personal API keys for scripted access; only a digest of the key is stored
+export const apiKeysTable = pgTable('api_keys', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  user_id: uuid('user_id').notNull().references(() => usersTable.id),
+  name: text('name').notNull(),
+  prefix: text('prefix').notNull(), // Leading characters shown to tell keys apart
+  key_hash: text('key_hash').notNull().unique(),
+  scopes: apiKeyScopeEnum('scopes').array().notNull(),
+  expires_at: timestamp('expires_at'),
+  last_used_at: timestamp('last_used_at'),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  userIdIdx: index('api_keys_user_id_idx').on(table.user_id)
+}));
+
+// Buyers asking to sell; an admin approves or rejects each one
+export const sellerApplicationsTable = pgTable('seller_applications', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  user_id: uuid('user_id').notNull().references(() => usersTable.id),
+  display_name: text('display_name').notNull(),
+  description: text('description').notNull(), // What the applicant plans to sell
+  contact: text('contact'),
+  status: sellerApplicationStatusEnum('status').default('pending').notNull(),
+  reviewed_by: uuid('reviewed_by').references(() => usersTable.id),
+  review_note: text('review_note'),
+  reviewed_at: timestamp('reviewed_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  userIdIdx: index('seller_applications_user_id_idx').on(table.user_id),
+  statusIdx: index('seller_applications_status_idx').on(table.status)
+}));
+
+// Audit trail of every change to usersTable.role; changed_by is null for the bootstrap command
+export const roleChangesTable = pgTable('role_changes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  user_id: uuid('user_id').notNull().references(() => usersTable.id),
+  from_role: userRoleEnum('from_role').notNull(),
+  to_role: userRoleEnum('to_role').notNull(),
+  changed_by: uuid('changed_by').references(() => usersTable.id),
+  reason: text('reason'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  userIdIdx: index('role_changes_user_id_idx').on(table.user_id)
+}));
+
 // Profiles table
 export const profilesTable = pgTable('profiles', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -44,12 +201,74 @@ export const profilesTable = pgTable('profiles', {
   userIdUnique: unique().on(table.user_id)
 }));
 
-// Categories table
+// A seller's request to be verified; one pending submission per seller at a time
+export const kycSubmissionsTable = pgTable('kyc_submissions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  user_id: uuid('user_id').notNull().references(() => usersTable.id),
+  status: kycSubmissionStatusEnum('status').default('pending').notNull(),
+  reviewed_by: uuid('reviewed_by').references(() => usersTable.id),
+  review_reason: text('review_reason'),
+  reviewed_at: timestamp('reviewed_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  userIdIdx: index('kyc_submissions_user_id_idx').on(table.user_id),
+  statusIdx: index('kyc_submissions_status_idx').on(table.status)
+}));
+
+// Uploaded files live in blob storage; only the key and metadata are kept here
+export const kycDocumentsTable = pgTable('kyc_documents', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  submission_id: uuid('submission_id').notNull().references(() => kycSubmissionsTable.id),
+  document_type: kycDocumentTypeEnum('document_type').notNull(),
+  file_name: text('file_name').notNull(),
+  content_type: text('content_type').notNull(),
+  size_bytes: integer('size_bytes').notNull(),
+  storage_key: text('storage_key').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  submissionIdIdx: index('kyc_documents_submission_id_idx').on(table.submission_id)
+}));
+
+// Every change to profiles.verification_status; changed_by is null when the seller triggered it
+export const verificationStatusHistoryTable = pgTable('verification_status_history', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  user_id: uuid('user_id').notNull().references(() => usersTable.id),
+  from_status: verificationStatusEnum('from_status').notNull(),
+  to_status: verificationStatusEnum('to_status').notNull(),
+  submission_id: uuid('submission_id').references(() => kycSubmissionsTable.id),
+  changed_by: uuid('changed_by').references(() => usersTable.id),
+  reason: text('reason'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  userIdIdx: index('verification_status_history_user_id_idx').on(table.user_id)
+}));
+
+// Categories table - top-level categories have no parent
 export const categoriesTable = pgTable('categories', {
   id: uuid('id').primaryKey().defaultRandom(),
+  parent_id: uuid('parent_id').references((): AnyPgColumn => categoriesTable.id),
   name: text('name').notNull().unique(),
-  slug: text('slug').notNull().unique()
-});
+  slug: text('slug').notNull().unique(),
+  // Archived categories take no new listings; existing ones stay readable
+  archived_at: timestamp('archived_at')
+}, (table) => ({
+  parentIdIdx: index('categories_parent_id_idx').on(table.parent_id)
+}));
+
+// Structured fields listings in a category fill in; subcategories inherit their ancestors' attributes
+export const categoryAttributesTable = pgTable('category_attributes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  category_id: uuid('category_id').notNull().references(() => categoriesTable.id),
+  key: text('key').notNull(),
+  label: text('label').notNull(),
+  type: categoryAttributeTypeEnum('type').notNull(),
+  required: boolean('required').default(false).notNull(),
+  enum_values: text('enum_values').array().default(sql`'{}'::text[]`).notNull(), // Allowed values for enum attributes
+  position: integer('position').default(0).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  categoryKeyUnique: unique().on(table.category_id, table.key)
+}));
 
 // Listings table
 export const listingsTable = pgTable('listings', {
@@ -62,11 +281,70 @@ export const listingsTable = pgTable('listings', {
   currency: text('currency').default('USD').notNull(),
   status: listingStatusEnum('status').default('available').notNull(),
   has_secure_payload: boolean('has_secure_payload').default(false).notNull(),
+  // Unclaimed payloads left in the pool, kept in step with listing_secure_payloads
+  stock: integer('stock').default(0).notNull(),
+  // Credentials go straight from the seller's client to each buyer's public key instead of a stored payload
+  e2e_handoff: boolean('e2e_handoff').default(false).notNull(),
+  // Values for the category's attributes, keyed by attribute key
+  attributes: jsonb('attributes').$type<Record<string, string | number | boolean>>().default({}).notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
-  updated_at: timestamp('updated_at').defaultNow().notNull()
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+  // Title words are weighted above description words when ranking
+  search_vector: tsvector('search_vector').generatedAlwaysAs(
+    sql`setweight(to_tsvector('english', title), 'A') || setweight(to_tsvector('english', description), 'B')`
+  )
 }, (table) => ({
   priceIdx: index('listings_price_idx').on(table.price_cents),
-  statusIdx: index('listings_status_idx').on(table.status)
+  statusIdx: index('listings_status_idx').on(table.status),
+  searchIdx: index('listings_search_idx').using('gin', table.search_vector),
+  attributesIdx: index('listings_attributes_idx').using('gin', table.attributes)
+}));
+
+// Listing columns as returned to clients, leaving out the search vector
+const { search_vector: _searchVector, ...listingColumns } = getTableColumns(listingsTable);
+export { listingColumns };
+
+// Listing images, processed on upload; both files live in the blob store
+export const listingMediaTable = pgTable('listing_media', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  listing_id: uuid('listing_id').notNull().references(() => listingsTable.id),
+  storage_key: text('storage_key').notNull().unique(),
+  thumbnail_key: text('thumbnail_key').notNull().unique(),
+  content_type: text('content_type').notNull(),
+  width: integer('width').notNull(),
+  height: integer('height').notNull(),
+  size_bytes: integer('size_bytes').notNull(),
+  position: integer('position').notNull(), // Gallery order, first image is the cover
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  listingIdIdx: index('listing_media_listing_id_idx').on(table.listing_id)
+}));
+
+// Buyers watching a listing for price drops or for it to come back on sale
+export const watchlistTable = pgTable('watchlist', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  user_id: uuid('user_id').notNull().references(() => usersTable.id),
+  listing_id: uuid('listing_id').notNull().references(() => listingsTable.id),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  userListingUnique: unique().on(table.user_id, table.listing_id),
+  listingIdIdx: index('watchlist_listing_id_idx').on(table.listing_id)
+}));
+
+// Searches buyers saved to be alerted about new matches. The high-water mark is
+// the newest listing already sent, compared as (created_at, id) so listings
+// created in the same instant are told apart.
+export const savedSearchesTable = pgTable('saved_searches', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  user_id: uuid('user_id').notNull().references(() => usersTable.id),
+  name: text('name').notNull(),
+  query: jsonb('query').$type<Record<string, unknown>>().notNull(), // Filters and sort of a listing search
+  high_water_created_at: timestamp('high_water_created_at').defaultNow().notNull(),
+  high_water_listing_id: uuid('high_water_listing_id').references(() => listingsTable.id),
+  last_run_at: timestamp('last_run_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  userNameUnique: unique().on(table.user_id, table.name)
 }));
 
 // Listing secure payloads table
@@ -75,9 +353,53 @@ export const listingSecurePayloadsTable = pgTable('listing_secure_payloads', {
   listing_id: uuid('listing_id').notNull().references(() => listingsTable.id),
   cipher_text: text('cipher_text').notNull(), // Store as base64 encoded text
   nonce: text('nonce').notNull(), // Store as base64 encoded text
+  // Envelope encryption fields. Null on payloads stored before it existed, whose
+  // data key was never kept; those cannot be decrypted and must be uploaded again.
+  auth_tag: text('auth_tag'),
+  wrapped_key: text('wrapped_key'), // Data key wrapped by the master key, base64
+  key_version: integer('key_version'), // Master key version that wrapped the data key
+  // Set when a paid order claims the payload; a listing's unclaimed payloads are its stock
+  order_id: uuid('order_id').references(() => ordersTable.id).unique(),
+  claimed_at: timestamp('claimed_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  listingIdIdx: index('listing_secure_payloads_listing_id_idx').on(table.listing_id, table.order_id)
+}));
+
+// Master key versions that have wrapped payload data keys. A version is retired
+// once no payload uses it, after which its key can leave the key provider.
+export const masterKeyVersionsTable = pgTable('master_key_versions', {
+  version: integer('version').primaryKey(),
+  registered_at: timestamp('registered_at').defaultNow().notNull(),
+  retired_at: timestamp('retired_at')
+});
+
+// Re-wraps payload data keys under a new master key version. Rows are visited in
+// id order and the last one is remembered, so a stopped job resumes where it left off.
+export const keyRotationJobsTable = pgTable('key_rotation_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  target_version: integer('target_version').notNull().references(() => masterKeyVersionsTable.version),
+  status: keyRotationJobStatusEnum('status').default('running').notNull(),
+  total_rows: integer('total_rows').notNull(), // Payloads under older versions when the job started
+  processed_rows: integer('processed_rows').default(0).notNull(),
+  failed_rows: integer('failed_rows').default(0).notNull(),
+  last_payload_id: uuid('last_payload_id'),
+  error: text('error'), // Why a failed job stopped
+  started_by: uuid('started_by').notNull().references(() => usersTable.id),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+  completed_at: timestamp('completed_at')
+});
+
+// Payloads a rotation job could not re-wrap; they keep their old key version and are retried when the job resumes
+export const keyRotationFailuresTable = pgTable('key_rotation_failures', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  job_id: uuid('job_id').notNull().references(() => keyRotationJobsTable.id),
+  payload_id: uuid('payload_id').notNull(), // Not a reference: payloads are replaced when sellers re-upload
+  error: text('error').notNull(),
   created_at: timestamp('created_at').defaultNow().notNull()
 }, (table) => ({
-  listingIdUnique: unique().on(table.listing_id)
+  jobIdIdx: index('key_rotation_failures_job_id_idx').on(table.job_id)
 }));
 
 // Orders table
@@ -89,10 +411,36 @@ export const ordersTable = pgTable('orders', {
   currency: text('currency').notNull(),
   status: orderStatusEnum('status').default('pending').notNull(),
   expires_at: timestamp('expires_at'),
+  // Buyer's X25519 key at checkout, set for end-to-end handoff listings only
+  buyer_public_key: text('buyer_public_key'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Credentials the seller's client sealed to the buyer's public key; the server cannot open them
+export const orderSealedPayloadsTable = pgTable('order_sealed_payloads', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  order_id: uuid('order_id').notNull().references(() => ordersTable.id).unique(),
+  ephemeral_public_key: text('ephemeral_public_key').notNull(), // Base64 raw X25519 key
+  nonce: text('nonce').notNull(), // Base64 encoded string
+  cipher_text: text('cipher_text').notNull(), // Base64, AES-GCM tag appended
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Every attempt by a buyer to reveal purchased credentials, kept for dispute investigations
+export const credentialAccessLogTable = pgTable('credential_access_log', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  order_id: uuid('order_id').notNull().references(() => ordersTable.id),
+  user_id: uuid('user_id').notNull().references(() => usersTable.id),
+  result: credentialAccessResultEnum('result').notNull(),
+  ip_address: text('ip_address'),
+  user_agent: text('user_agent'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  orderIdIdx: index('credential_access_log_order_id_idx').on(table.order_id),
+  userCreatedAtIdx: index('credential_access_log_user_id_created_at_idx').on(table.user_id, table.created_at)
+}));
+
 // Transactions table
 export const transactionsTable = pgTable('transactions', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -152,7 +500,140 @@ export const usersRelations = relations(usersTable, ({ one, many }) => ({
   sellerReviews: many(reviewsTable, { relationName: 'seller_reviews' }),
   buyerReviews: many(reviewsTable, { relationName: 'buyer_reviews' }),
   disputes: many(disputesTable),
-  payouts: many(payoutsTable)
+  payouts: many(payoutsTable),
+  sessions: many(sessionsTable),
+  tokens: many(userTokensTable),
+  twoFactor: one(twoFactorTable, {
+    fields: [usersTable.id],
+    references: [twoFactorTable.user_id]
+  }),
+  recoveryCodes: many(recoveryCodesTable),
+  loginAttempts: many(loginAttemptsTable),
+  apiKeys: many(apiKeysTable),
+  sellerApplications: many(sellerApplicationsTable, { relationName: 'seller_applications' }),
+  roleChanges: many(roleChangesTable, { relationName: 'role_changes' }),
+  kycSubmissions: many(kycSubmissionsTable, { relationName: 'kyc_submissions' }),
+  verificationHistory: many(verificationStatusHistoryTable, { relationName: 'verification_history' }),
+  watchlist: many(watchlistTable),
+  savedSearches: many(savedSearchesTable),
+  credentialAccessLog: many(credentialAccessLogTable),
+  encryptionKey: one(userEncryptionKeysTable, {
+    fields: [usersTable.id],
+    references: [userEncryptionKeysTable.user_id]
+  })
+}));
+
+export const userEncryptionKeysRelations = relations(userEncryptionKeysTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [userEncryptionKeysTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one, many }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id]
+  }),
+  refreshTokens: many(refreshTokensTable)
+}));
+
+export const userTokensRelations = relations(userTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [userTokensTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const twoFactorRelations = relations(twoFactorTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [twoFactorTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const recoveryCodesRelations = relations(recoveryCodesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [recoveryCodesTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const loginAttemptsRelations = relations(loginAttemptsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [loginAttemptsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const apiKeysRelations = relations(apiKeysTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [apiKeysTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const sellerApplicationsRelations = relations(sellerApplicationsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sellerApplicationsTable.user_id],
+    references: [usersTable.id],
+    relationName: 'seller_applications'
+  }),
+  reviewer: one(usersTable, {
+    fields: [sellerApplicationsTable.reviewed_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const roleChangesRelations = relations(roleChangesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [roleChangesTable.user_id],
+    references: [usersTable.id],
+    relationName: 'role_changes'
+  }),
+  changedBy: one(usersTable, {
+    fields: [roleChangesTable.changed_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const kycSubmissionsRelations = relations(kycSubmissionsTable, ({ one, many }) => ({
+  user: one(usersTable, {
+    fields: [kycSubmissionsTable.user_id],
+    references: [usersTable.id],
+    relationName: 'kyc_submissions'
+  }),
+  reviewer: one(usersTable, {
+    fields: [kycSubmissionsTable.reviewed_by],
+    references: [usersTable.id]
+  }),
+  documents: many(kycDocumentsTable)
+}));
+
+export const kycDocumentsRelations = relations(kycDocumentsTable, ({ one }) => ({
+  submission: one(kycSubmissionsTable, {
+    fields: [kycDocumentsTable.submission_id],
+    references: [kycSubmissionsTable.id]
+  })
+}));
+
+export const verificationStatusHistoryRelations = relations(verificationStatusHistoryTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [verificationStatusHistoryTable.user_id],
+    references: [usersTable.id],
+    relationName: 'verification_history'
+  }),
+  submission: one(kycSubmissionsTable, {
+    fields: [verificationStatusHistoryTable.submission_id],
+    references: [kycSubmissionsTable.id]
+  })
+}));
+
+export const refreshTokensRelations = relations(refreshTokensTable, ({ one }) => ({
+  session: one(sessionsTable, {
+    fields: [refreshTokensTable.session_id],
+    references: [sessionsTable.id]
+  })
 }));
 
 export const profilesRelations = relations(profilesTable, ({ one }) => ({
@@ -162,10 +643,24 @@ export const profilesRelations = relations(profilesTable, ({ one }) => ({
   })
 }));
 
-export const categoriesRelations = relations(categoriesTable, ({ many }) => ({
+export const categoriesRelations = relations(categoriesTable, ({ one, many }) => ({
+  parent: one(categoriesTable, {
+    fields: [categoriesTable.parent_id],
+    references: [categoriesTable.id],
+    relationName: 'category_parent'
+  }),
+  children: many(categoriesTable, { relationName: 'category_parent' }),
+  attributes: many(categoryAttributesTable),
   listings: many(listingsTable)
 }));
 
+export const categoryAttributesRelations = relations(categoryAttributesTable, ({ one }) => ({
+  category: one(categoriesTable, {
+    fields: [categoryAttributesTable.category_id],
+    references: [categoriesTable.id]
+  })
+}));
+
 export const listingsRelations = relations(listingsTable, ({ one, many }) => ({
   seller: one(usersTable, {
     fields: [listingsTable.seller_id],
@@ -175,17 +670,64 @@ export const listingsRelations = relations(listingsTable, ({ one, many }) => ({
     fields: [listingsTable.category_id],
     references: [categoriesTable.id]
   }),
-  securePayload: one(listingSecurePayloadsTable, {
-    fields: [listingsTable.id],
-    references: [listingSecurePayloadsTable.listing_id]
-  }),
+  securePayloads: many(listingSecurePayloadsTable),
+  media: many(listingMediaTable),
+  watchers: many(watchlistTable),
   orders: many(ordersTable)
 }));
 
+export const listingMediaRelations = relations(listingMediaTable, ({ one }) => ({
+  listing: one(listingsTable, {
+    fields: [listingMediaTable.listing_id],
+    references: [listingsTable.id]
+  })
+}));
+
+export const watchlistRelations = relations(watchlistTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [watchlistTable.user_id],
+    references: [usersTable.id]
+  }),
+  listing: one(listingsTable, {
+    fields: [watchlistTable.listing_id],
+    references: [listingsTable.id]
+  })
+}));
+
+export const savedSearchesRelations = relations(savedSearchesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [savedSearchesTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
 export const listingSecurePayloadsRelations = relations(listingSecurePayloadsTable, ({ one }) => ({
   listing: one(listingsTable, {
     fields: [listingSecurePayloadsTable.listing_id],
     references: [listingsTable.id]
+  }),
+  order: one(ordersTable, {
+    fields: [listingSecurePayloadsTable.order_id],
+    references: [ordersTable.id]
+  })
+}));
+
+export const keyRotationJobsRelations = relations(keyRotationJobsTable, ({ one, many }) => ({
+  targetVersion: one(masterKeyVersionsTable, {
+    fields: [keyRotationJobsTable.target_version],
+    references: [masterKeyVersionsTable.version]
+  }),
+  startedBy: one(usersTable, {
+    fields: [keyRotationJobsTable.started_by],
+    references: [usersTable.id]
+  }),
+  failures: many(keyRotationFailuresTable)
+}));
+
+export const keyRotationFailuresRelations = relations(keyRotationFailuresTable, ({ one }) => ({
+  job: one(keyRotationJobsTable, {
+    fields: [keyRotationFailuresTable.job_id],
+    references: [keyRotationJobsTable.id]
   })
 }));
 
@@ -207,6 +749,33 @@ export const ordersRelations = relations(ordersTable, ({ one, many }) => ({
   dispute: one(disputesTable, {
     fields: [ordersTable.id],
     references: [disputesTable.order_id]
+  }),
+  credentialAccessLog: many(credentialAccessLogTable),
+  securePayload: one(listingSecurePayloadsTable, {
+    fields: [ordersTable.id],
+    references: [listingSecurePayloadsTable.order_id]
+  }),
+  sealedPayload: one(orderSealedPayloadsTable, {
+    fields: [ordersTable.id],
+    references: [orderSealedPayloadsTable.order_id]
+  })
+}));
+
+export const orderSealedPayloadsRelations = relations(orderSealedPayloadsTable, ({ one }) => ({
+  order: one(ordersTable, {
+    fields: [orderSealedPayloadsTable.order_id],
+    references: [ordersTable.id]
+  })
+}));
+
+export const credentialAccessLogRelations = relations(credentialAccessLogTable, ({ one }) => ({
+  order: one(ordersTable, {
+    fields: [credentialAccessLogTable.order_id],
+    references: [ordersTable.id]
+  }),
+  user: one(usersTable, {
+    fields: [credentialAccessLogTable.user_id],
+    references: [usersTable.id]
   })
 }));
 
@@ -255,11 +824,34 @@ export const payoutsRelations = relations(payoutsTable, ({ one }) => ({
 // Export all tables for proper query building
 export const tables = {
   users: usersTable,
+  sessions: sessionsTable,
+  refreshTokens: refreshTokensTable,
+  userTokens: userTokensTable,
+  twoFactor: twoFactorTable,
+  recoveryCodes: recoveryCodesTable,
+  loginAttempts: loginAttemptsTable,
+  loginLockouts: loginLockoutsTable,
+  userEncryptionKeys: userEncryptionKeysTable,
+  apiKeys: apiKeysTable,
+  sellerApplications: sellerApplicationsTable,
+  roleChanges: roleChangesTable,
+  kycSubmissions: kycSubmissionsTable,
+  kycDocuments: kycDocumentsTable,
+  verificationStatusHistory: verificationStatusHistoryTable,
   profiles: profilesTable,
   categories: categoriesTable,
+  categoryAttributes: categoryAttributesTable,
   listings: listingsTable,
+  listingMedia: listingMediaTable,
+  watchlist: watchlistTable,
+  savedSearches: savedSearchesTable,
   listingSecurePayloads: listingSecurePayloadsTable,
+  masterKeyVersions: masterKeyVersionsTable,
+  keyRotationJobs: keyRotationJobsTable,
+  keyRotationFailures: keyRotationFailuresTable,
   orders: ordersTable,
+  credentialAccessLog: credentialAccessLogTable,
+  orderSealedPayloads: orderSealedPayloadsTable,
   transactions: transactionsTable,
   reviews: reviewsTable,
   disputes: disputesTable,
@@ -0,0 +1,167 @@
+import { db } from '../db';
+import { usersTable, userTokensTable, sessionsTable } from '../db/schema';
+import {
+  type RequestPasswordResetInput,
+  type ResetPasswordInput,
+  type VerifyEmailInput
+} from '../schema';
+import { hashPassword } from '../lib/passwords';
+import { generateOpaqueToken, hashOpaqueToken } from '../lib/tokens';
+import { getMailTransport } from '../lib/mail';
+import { parseDuration } from '../lib/jwt';
+import { eq, and, isNull, gt, sql } from 'drizzle-orm';
+
+const APP_URL = process.env['APP_URL'] || 'http://localhost';
+const EMAIL_VERIFICATION_TTL = '24h';
+const PASSWORD_RESET_TTL = '1h';
+
+type UserTokenPurpose = 'email_verification' | 'password_reset';
+
+// Creates a fresh token and invalidates any earlier unused one for the same purpose
+async function issueUserToken(userId: string, purpose: UserTokenPurpose, ttl: string): Promise<string> {
+  await db.update(userTokensTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(userTokensTable.user_id, userId),
+      eq(userTokensTable.purpose, purpose),
+      isNull(userTokensTable.used_at)
+    ))
+    .execute();
+
+  const { token, hash } = generateOpaqueToken();
+  await db.insert(userTokensTable)
+    .values({
+      user_id: userId,
+      purpose,
+      token_hash: hash,
+      expires_at: new Date(Date.now() + parseDuration(ttl) * 1000)
+    })
+    .execute();
+
+  return token;
+}
+
+// Marks the token used and returns its user; the used_at guard keeps it single-use
+async function consumeUserToken(token: string, purpose: UserTokenPurpose): Promise<string> {
+  const consumed = await db.update(userTokensTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(userTokensTable.token_hash, hashOpaqueToken(token)),
+      eq(userTokensTable.purpose, purpose),
+      isNull(userTokensTable.used_at),
+      gt(userTokensTable.expires_at, new Date())
+    ))
+    .returning()
+    .execute();
+
+  if (consumed.length === 0) {
+    throw new Error('Invalid or expired token');
+  }
+
+  return consumed[0].user_id;
+}
+
+export async function sendVerificationEmail(userId: string): Promise<void> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const user = users[0];
+    if (user.email_verified_at) {
+      throw new Error('Email is already verified');
+    }
+
+    const token = await issueUserToken(user.id, 'email_verification', EMAIL_VERIFICATION_TTL);
+
+    await getMailTransport().send({
+      to: user.email,
+      subject: 'Verify your AccsMarket email address',
+      text: `Confirm your email address to start buying and selling on AccsMarket:\n\n` +
+        `${APP_URL}/?verify_email=${encodeURIComponent(token)}\n\n` +
+        `This link expires in 24 hours.`
+    });
+  } catch (error) {
+    console.error('Sending verification email failed:', error);
+    throw error;
+  }
+}
+
+export async function verifyEmail(input: VerifyEmailInput): Promise<void> {
+  try {
+    const userId = await consumeUserToken(input.token, 'email_verification');
+
+    await db.update(usersTable)
+      .set({
+        email_verified_at: new Date(),
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .execute();
+  } catch (error) {
+    console.error('Email verification failed:', error);
+    throw error;
+  }
+}
+
+export async function requestPasswordReset(input: RequestPasswordResetInput): Promise<void> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    // Respond the same way for unknown addresses so accounts cannot be enumerated
+    if (users.length === 0) {
+      return;
+    }
+
+    const user = users[0];
+    const token = await issueUserToken(user.id, 'password_reset', PASSWORD_RESET_TTL);
+
+    await getMailTransport().send({
+      to: user.email,
+      subject: 'Reset your AccsMarket password',
+      text: `Someone asked to reset the password for this AccsMarket account. ` +
+        `If it was you, choose a new password here:\n\n` +
+        `${APP_URL}/?reset_password=${encodeURIComponent(token)}\n\n` +
+        `This link expires in 1 hour. If you did not ask for it, you can ignore this email.`
+    });
+  } catch (error) {
+    console.error('Password reset request failed:', error);
+    throw error;
+  }
+}
+
+export async function resetPassword(input: ResetPasswordInput): Promise<void> {
+  try {
+    const userId = await consumeUserToken(input.token, 'password_reset');
+
+    // Receiving the reset link also proves ownership of the address
+    await db.update(usersTable)
+      .set({
+        password_hash: hashPassword(input.new_password),
+        email_verified_at: sql`coalesce(${usersTable.email_verified_at}, now())`,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    // Sign out everywhere in case the old password was compromised
+    await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(sessionsTable.user_id, userId),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .execute();
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    throw error;
+  }
+}
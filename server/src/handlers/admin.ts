@@ -3,9 +3,12 @@ import { usersTable, profilesTable, disputesTable, ordersTable, listingsTable }
 import { 
   type ListUsersInput, 
   type ListDisputesInput,
+  type UnlockAccountInput,
   type User,
   type Dispute 
 } from '../schema';
+import { getLockoutStore } from '../lib/lockout';
+import { accountLockoutKey } from './loginAttempts';
 import { eq, ilike, and, count, desc, type SQL } from 'drizzle-orm';
 
 export async function listUsers(
@@ -63,6 +66,7 @@ export async function listUsers(
       email: usersTable.email,
       password_hash: usersTable.password_hash,
       role: usersTable.role,
+      email_verified_at: usersTable.email_verified_at,
       created_at: usersTable.created_at,
       updated_at: usersTable.updated_at
     }).from(usersTable);
@@ -173,4 +177,32 @@ export async function listDisputes(
     console.error('List disputes failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+export async function unlockAccount(input: UnlockAccountInput, adminId: string): Promise<void> {
+  try {
+    // Verify admin role
+    const admin = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, adminId))
+      .execute();
+
+    if (admin.length === 0 || admin[0].role !== 'admin') {
+      throw new Error('Unauthorized: Admin access required');
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    await getLockoutStore().reset(accountLockoutKey(users[0].email));
+  } catch (error) {
+    console.error('Account unlock failed:', error);
+    throw error;
+  }
+}
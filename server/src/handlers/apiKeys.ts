@@ -0,0 +1,155 @@
+import { randomBytes } from 'crypto';
+import { db } from '../db';
+import { apiKeysTable } from '../db/schema';
+import {
+  type ApiKey,
+  type ApiKeyScope,
+  type CreateApiKeyInput,
+  type CreateApiKeyResponse,
+  type RevokeApiKeyInput
+} from '../schema';
+import { hashOpaqueToken } from '../lib/tokens';
+import { eq, and, isNull, or, lt, count, desc, sql } from 'drizzle-orm';
+
+// Keys look like ak_<random>, so the context can tell them apart from JWTs
+export const API_KEY_PREFIX = 'ak_';
+const VISIBLE_PREFIX_LENGTH = 12;
+const MAX_ACTIVE_API_KEYS = 20;
+
+// last_used_at is only rewritten once this much time has passed, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface ApiKeyPrincipal {
+  id: string;
+  user_id: string;
+  scopes: ApiKeyScope[];
+}
+
+// Bad, revoked or expired keys; the context reports these as auth errors
+export class ApiKeyRejectedError extends Error {}
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+function toApiKey(row: typeof apiKeysTable.$inferSelect): ApiKey {
+  const { key_hash: _keyHash, ...apiKey } = row;
+  return apiKey;
+}
+
+export async function createApiKey(input: CreateApiKeyInput, userId: string): Promise<CreateApiKeyResponse> {
+  try {
+    if (input.expires_at && input.expires_at <= new Date()) {
+      throw new Error('Expiry must be in the future');
+    }
+
+    const active = await db.select({ count: count() })
+      .from(apiKeysTable)
+      .where(and(
+        eq(apiKeysTable.user_id, userId),
+        isNull(apiKeysTable.revoked_at),
+        or(isNull(apiKeysTable.expires_at), sql`${apiKeysTable.expires_at} > now()`)
+      ))
+      .execute();
+
+    if (active[0].count >= MAX_ACTIVE_API_KEYS) {
+      throw new Error(`You can have at most ${MAX_ACTIVE_API_KEYS} active API keys`);
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+    const result = await db.insert(apiKeysTable)
+      .values({
+        user_id: userId,
+        name: input.name,
+        prefix: key.slice(0, VISIBLE_PREFIX_LENGTH),
+        key_hash: hashOpaqueToken(key),
+        scopes: [...new Set(input.scopes)],
+        expires_at: input.expires_at ?? null
+      })
+      .returning()
+      .execute();
+
+    return { api_key: toApiKey(result[0]), key };
+  } catch (error) {
+    console.error('API key creation failed:', error);
+    throw error;
+  }
+}
+
+export async function listApiKeys(userId: string): Promise<ApiKey[]> {
+  try {
+    const results = await db.select()
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.user_id, userId))
+      .orderBy(desc(apiKeysTable.created_at))
+      .execute();
+
+    return results.map(toApiKey);
+  } catch (error) {
+    console.error('API key listing failed:', error);
+    throw error;
+  }
+}
+
+export async function revokeApiKey(input: RevokeApiKeyInput, userId: string): Promise<void> {
+  try {
+    const keys = await db.select()
+      .from(apiKeysTable)
+      .where(and(
+        eq(apiKeysTable.id, input.api_key_id),
+        eq(apiKeysTable.user_id, userId)
+      ))
+      .execute();
+
+    if (keys.length === 0) {
+      throw new Error('API key not found or access denied');
+    }
+
+    await db.update(apiKeysTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(apiKeysTable.id, input.api_key_id),
+        isNull(apiKeysTable.revoked_at)
+      ))
+      .execute();
+  } catch (error) {
+    console.error('API key revocation failed:', error);
+    throw error;
+  }
+}
+
+// Resolves a presented key to its owner and scopes, recording when it was used
+export async function authenticateApiKey(key: string): Promise<ApiKeyPrincipal> {
+  const keys = await db.select()
+    .from(apiKeysTable)
+    .where(eq(apiKeysTable.key_hash, hashOpaqueToken(key)))
+    .execute();
+
+  if (keys.length === 0) {
+    throw new ApiKeyRejectedError('Invalid API key');
+  }
+
+  const apiKey = keys[0];
+  const now = new Date();
+
+  if (apiKey.revoked_at) {
+    throw new ApiKeyRejectedError('API key has been revoked');
+  }
+  if (apiKey.expires_at && apiKey.expires_at <= now) {
+    throw new ApiKeyRejectedError('API key has expired');
+  }
+
+  await db.update(apiKeysTable)
+    .set({ last_used_at: now })
+    .where(and(
+      eq(apiKeysTable.id, apiKey.id),
+      or(
+        isNull(apiKeysTable.last_used_at),
+        lt(apiKeysTable.last_used_at, new Date(now.getTime() - LAST_USED_RESOLUTION_MS))
+      )
+    ))
+    .execute();
+
+  return { id: apiKey.id, user_id: apiKey.user_id, scopes: apiKey.scopes };
+}
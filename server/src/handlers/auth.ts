@@ -1,70 +1,92 @@
-import { createHash, randomBytes, pbkdf2Sync } from 'crypto';
 import { db } from '../db';
-import { usersTable, profilesTable } from '../db/schema';
-import { type RegisterInput, type LoginInput, type User } from '../schema';
-import { eq } from 'drizzle-orm';
-
-const JWT_SECRET = process.env['JWT_SECRET'] || 'development_secret_key';
-const SALT_LENGTH = 32;
-const ITERATIONS = 100000;
-
-// Simple JWT implementation
-function createJWT(payload: Record<string, any>, secret: string, expiresIn: string = '24h'): string {
-  const header = { alg: 'HS256', typ: 'JWT' };
-  const now = Math.floor(Date.now() / 1000);
-  const expirationSeconds = expiresIn === '24h' ? 24 * 60 * 60 : 3600;
-  
-  const jwtPayload = {
-    ...payload,
-    iat: now,
-    exp: now + expirationSeconds
-  };
+import { usersTable, profilesTable, sessionsTable, refreshTokensTable } from '../db/schema';
+import {
+  type RegisterInput,
+  type LoginInput,
+  type LoginResponse,
+  type CompleteTwoFactorLoginInput,
+  type User,
+  type AuthTokensResponse,
+  type RequestMeta
+} from '../schema';
+import { createJWT, verifyJWT, loadJWTKeyring, parseDuration, type JWTPayload } from '../lib/jwt';
+import { hashPassword, verifyPassword, needsRehash } from '../lib/passwords';
+import { generateOpaqueToken } from '../lib/tokens';
+import { sendVerificationEmail } from './account';
+import { isTwoFactorEnabled, verifyTwoFactorCode } from './mfa';
+import {
+  assertLoginAllowed,
+  recordLoginFailure,
+  recordLoginSuccess,
+  LoginRejectedError
+} from './loginAttempts';
+import { eq, and } from 'drizzle-orm';
 
-  const headerB64 = Buffer.from(JSON.stringify(header)).toString('base64url');
-  const payloadB64 = Buffer.from(JSON.stringify(jwtPayload)).toString('base64url');
-  
-  const signature = createHash('sha256')
-    .update(`${headerB64}.${payloadB64}.${secret}`)
-    .digest('base64url');
+export const JWT_KEYRING = loadJWTKeyring(process.env);
+export const JWT_SECRET = JWT_KEYRING.current.secret;
+export const JWT_ISSUER = process.env['JWT_ISSUER'] || 'accsmarket';
+export const JWT_AUDIENCE = process.env['JWT_AUDIENCE'] || 'accsmarket-api';
+export const ACCESS_TOKEN_TTL = process.env['ACCESS_TOKEN_TTL'] || '15m';
+export const REFRESH_TOKEN_TTL = process.env['REFRESH_TOKEN_TTL'] || '30d';
+export const TWO_FACTOR_CHALLENGE_TTL = '5m';
 
-  return `${headerB64}.${payloadB64}.${signature}`;
-}
+// Challenge tokens use their own audience so they can never pass as access tokens
+const TWO_FACTOR_CHALLENGE_AUDIENCE = `${JWT_AUDIENCE}-2fa`;
 
-function verifyJWT(token: string, secret: string): any {
-  const [headerB64, payloadB64, signature] = token.split('.');
-  if (!headerB64 || !payloadB64 || !signature) {
-    throw new Error('Invalid token format');
-  }
+export const NO_REQUEST_META: RequestMeta = { ip_address: null, user_agent: null };
 
-  const expectedSignature = createHash('sha256')
-    .update(`${headerB64}.${payloadB64}.${secret}`)
-    .digest('base64url');
+export function signAccessToken(
+  user: { id: string; email: string; role: string },
+  sessionId: string
+): string {
+  return createJWT(
+    { userId: user.id, email: user.email, role: user.role, sid: sessionId },
+    JWT_KEYRING,
+    ACCESS_TOKEN_TTL,
+    { issuer: JWT_ISSUER, audience: JWT_AUDIENCE }
+  );
+}
 
-  if (signature !== expectedSignature) {
-    throw new Error('Invalid token signature');
-  }
+export interface AccessTokenClaims {
+  userId: string;
+  sid: string;
+}
 
-  const payload = JSON.parse(Buffer.from(payloadB64, 'base64url').toString());
-  
-  if (payload.exp && payload.exp < Math.floor(Date.now() / 1000)) {
-    throw new Error('Token expired');
-  }
+export function verifyAccessToken(token: string): AccessTokenClaims {
+  const payload = verifyJWT(token, JWT_KEYRING, {
+    issuer: JWT_ISSUER,
+    audience: JWT_AUDIENCE,
+    clockToleranceSeconds: 30
+  });
 
-  return payload;
+  const { userId, sid } = payload;
+  if (typeof userId !== 'string' || typeof sid !== 'string') {
+    throw new Error('Invalid token payload');
+  }
+  return { userId, sid };
 }
 
-function hashPassword(password: string): string {
-  const salt = randomBytes(SALT_LENGTH).toString('hex');
-  const hash = pbkdf2Sync(password, salt, ITERATIONS, 64, 'sha256').toString('hex');
-  return `${salt}:${hash}`;
-}
+// Issues an access token and a new refresh token for an existing session
+export async function issueSessionTokens(
+  user: { id: string; email: string; role: string },
+  sessionId: string
+): Promise<AuthTokensResponse> {
+  const { token: refresh_token, hash: token_hash } = generateOpaqueToken();
+  const expires_at = new Date(Date.now() + parseDuration(REFRESH_TOKEN_TTL) * 1000);
+
+  await db.insert(refreshTokensTable)
+    .values({
+      session_id: sessionId,
+      token_hash,
+      expires_at
+    })
+    .execute();
 
-function verifyPassword(password: string, storedHash: string): boolean {
-  const [salt, hash] = storedHash.split(':');
-  if (!salt || !hash) return false;
-  
-  const computedHash = pbkdf2Sync(password, salt, ITERATIONS, 64, 'sha256').toString('hex');
-  return hash === computedHash;
+  return {
+    token: signAccessToken(user, sessionId),
+    refresh_token,
+    session_id: sessionId
+  };
 }
 
 export async function register(input: RegisterInput): Promise<User> {
@@ -93,11 +115,19 @@ export async function register(input: RegisterInput): Promise<User> {
       })
       .execute();
 
+    // A mail outage should not block sign-up; the user can ask for a new link
+    try {
+      await sendVerificationEmail(user.id);
+    } catch (error) {
+      console.error('Verification email could not be sent:', error);
+    }
+
     // Return user without password hash
     return {
       id: user.id,
       email: user.email,
       role: user.role,
+      email_verified_at: user.email_verified_at,
       created_at: user.created_at,
       updated_at: user.updated_at
     } as User;
@@ -107,7 +137,45 @@ export async function register(input: RegisterInput): Promise<User> {
   }
 }
 
-export async function login(input: LoginInput): Promise<{ user: User; token: string }> {
+// Opens a session for a user whose credentials (and second factor, if any) checked out
+async function startSession(
+  user: typeof usersTable.$inferSelect,
+  meta: RequestMeta,
+  deviceLabel: string | null | undefined,
+  twoFactorVerified: boolean
+): Promise<LoginResponse> {
+  const sessionResult = await db.insert(sessionsTable)
+    .values({
+      user_id: user.id,
+      device_label: deviceLabel ?? meta.user_agent,
+      ip_address: meta.ip_address,
+      two_factor_verified_at: twoFactorVerified ? new Date() : null
+    })
+    .returning()
+    .execute();
+
+  const tokens = await issueSessionTokens(user, sessionResult[0].id);
+  await recordLoginSuccess(user.email, user.id, meta);
+
+  // Return user without password hash and tokens
+  return {
+    two_factor_required: false,
+    user: {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      email_verified_at: user.email_verified_at,
+      created_at: user.created_at,
+      updated_at: user.updated_at
+    } as User,
+    ...tokens
+  };
+}
+
+export async function login(
+  input: LoginInput,
+  meta: RequestMeta = NO_REQUEST_META
+): Promise<LoginResponse> {
   try {
     // Find user by email
     const users = await db.select()
@@ -115,38 +183,89 @@ export async function login(input: LoginInput): Promise<{ user: User; token: str
       .where(eq(usersTable.email, input.email))
       .execute();
 
+    const user = users[0] ?? null;
+    await assertLoginAllowed(input.email, user?.id ?? null, meta);
+
+    // Unknown emails count against the same counters as wrong passwords
+    if (!user || !verifyPassword(input.password, user.password_hash)) {
+      await recordLoginFailure(input.email, user?.id ?? null, meta, 'invalid_credentials');
+      throw new LoginRejectedError('Invalid email or password');
+    }
+
+    // The plaintext is only available here, so upgrade old hashes now. The
+    // match on the old hash avoids overwriting a password reset made meanwhile.
+    if (needsRehash(user.password_hash)) {
+      await db.update(usersTable)
+        .set({ password_hash: hashPassword(input.password), updated_at: new Date() })
+        .where(and(
+          eq(usersTable.id, user.id),
+          eq(usersTable.password_hash, user.password_hash)
+        ))
+        .execute();
+    }
+
+    // With 2FA on, the password only earns a short-lived challenge
+    if (await isTwoFactorEnabled(user.id)) {
+      const challenge_token = createJWT(
+        { userId: user.id, device_label: input.device_label ?? null },
+        JWT_KEYRING,
+        TWO_FACTOR_CHALLENGE_TTL,
+        { issuer: JWT_ISSUER, audience: TWO_FACTOR_CHALLENGE_AUDIENCE }
+      );
+      return { two_factor_required: true, challenge_token };
+    }
+
+    return await startSession(user, meta, input.device_label, false);
+  } catch (error) {
+    if (!(error instanceof LoginRejectedError)) {
+      console.error('User login failed:', error);
+    }
+    throw error;
+  }
+}
+
+export async function completeTwoFactorLogin(
+  input: CompleteTwoFactorLoginInput,
+  meta: RequestMeta = NO_REQUEST_META
+): Promise<LoginResponse> {
+  try {
+    let payload: JWTPayload;
+    try {
+      payload = verifyJWT(input.challenge_token, JWT_KEYRING, {
+        issuer: JWT_ISSUER,
+        audience: TWO_FACTOR_CHALLENGE_AUDIENCE
+      });
+    } catch {
+      throw new Error('Sign-in challenge is invalid or has expired');
+    }
+
+    const { userId, device_label } = payload;
+    if (typeof userId !== 'string' || (typeof device_label !== 'string' && device_label !== null)) {
+      throw new Error('Sign-in challenge is invalid or has expired');
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
     if (users.length === 0) {
-      throw new Error('Invalid email or password');
+      throw new Error('Sign-in challenge is invalid or has expired');
     }
 
     const user = users[0];
+    await assertLoginAllowed(user.email, user.id, meta);
 
-    // Verify password
-    const isPasswordValid = verifyPassword(input.password, user.password_hash);
-    if (!isPasswordValid) {
-      throw new Error('Invalid email or password');
+    if (!await verifyTwoFactorCode(user.id, input.code)) {
+      await recordLoginFailure(user.email, user.id, meta, 'invalid_two_factor');
+      throw new LoginRejectedError('Invalid two-factor code');
     }
 
-    // Generate JWT token
-    const token = createJWT(
-      { userId: user.id, email: user.email, role: user.role },
-      JWT_SECRET,
-      '24h'
-    );
-
-    // Return user without password hash and token
-    return {
-      user: {
-        id: user.id,
-        email: user.email,
-        role: user.role,
-        created_at: user.created_at,
-        updated_at: user.updated_at
-      } as User,
-      token
-    };
+    return await startSession(user, meta, device_label, true);
   } catch (error) {
-    console.error('User login failed:', error);
+    if (!(error instanceof LoginRejectedError)) {
+      console.error('Two-factor login failed:', error);
+    }
     throw error;
   }
 }
@@ -170,6 +289,7 @@ export async function getCurrentUser(userId: string): Promise<User> {
       id: user.id,
       email: user.email,
       role: user.role,
+      email_verified_at: user.email_verified_at,
       created_at: user.created_at,
       updated_at: user.updated_at
     } as User;
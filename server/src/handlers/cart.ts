@@ -1,5 +1,6 @@
 import { db } from '../db';
-import { listingsTable, usersTable } from '../db/schema';
+import { listingsTable, listingColumns, usersTable } from '../db/schema';
+import { withMedia } from './catalog';
 import { type CartItem, type Listing } from '../schema';
 import { eq, and } from 'drizzle-orm';
 
@@ -85,7 +86,7 @@ export async function getCart(buyerId: string): Promise<{
     }
 
     // Fetch listing details and verify it's still available
-    const listings = await db.select()
+    const listings = await db.select(listingColumns)
       .from(listingsTable)
       .where(
         and(
@@ -101,7 +102,7 @@ export async function getCart(buyerId: string): Promise<{
       return { items: [] };
     }
 
-    const listing = listings[0];
+    const [listing] = await withMedia(listings);
     return {
       items: [{
         listing: {
@@ -1,7 +1,201 @@
 import { db } from '../db';
-import { categoriesTable, listingsTable, usersTable, profilesTable } from '../db/schema';
-import { type Category, type Listing, type SearchListingsInput } from '../schema';
-import { eq, asc, ilike, gte, lte, and, count, type SQL } from 'drizzle-orm';
+import {
+  categoriesTable,
+  categoryAttributesTable,
+  listingsTable,
+  listingColumns,
+  listingMediaTable,
+  profilesTable,
+  usersTable,
+  reviewsTable,
+  ordersTable,
+  sellerApplicationsTable
+} from '../db/schema';
+import {
+  type Category,
+  type CategoryAttribute,
+  type Listing,
+  type ListingDetail,
+  type ListingSeller,
+  type ListingAttributes,
+  type ListingMedia,
+  type ListingFilters,
+  type SearchListingsInput,
+  type ListingSearchResult,
+  type SearchFacetsResponse,
+  type HighlightSegment
+} from '../schema';
+import { keysetOrderBy, keysetCursorValues, keysetAfter, takePage, type SortKey } from '../lib/keyset';
+import { eq, asc, desc, gte, lte, and, count, inArray, sql, type SQL } from 'drizzle-orm';
+
+// ts_headline wraps matches in these control characters, which cannot appear in
+// listing text, and splitHighlight turns them into segments so clients never
+// have to render markup from the server
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+const TITLE_HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, HighlightAll=true`;
+const SNIPPET_HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Listing media is served over HTTP by the server itself (see index.ts); the
+// client reaches it through the same /api proxy as tRPC
+const MEDIA_BASE_URL = process.env['MEDIA_BASE_URL'] || '/api/media';
+
+// Price facet buckets in cents; bounds are inclusive to match min_price/max_price
+const PRICE_BUCKETS: Array<{ min_price: number; max_price: number | null }> = [
+  { min_price: 0, max_price: 999 },
+  { min_price: 1000, max_price: 2499 },
+  { min_price: 2500, max_price: 4999 },
+  { min_price: 5000, max_price: 9999 },
+  { min_price: 10000, max_price: null }
+];
+
+const VERIFICATION_STATUSES = ['verified', 'pending', 'none'] as const;
+
+type Facet = 'category' | 'price' | 'seller_verification';
+
+// Sellers without a profile count as unverified
+const sellerVerification = sql<string>`coalesce(${profilesTable.verification_status}, 'none')`;
+
+// Full-text match over title and description; websearch syntax accepts
+// quoted phrases, "or" and -exclusions straight from the search box
+function textSearchQuery(q: string | undefined): SQL | null {
+  const trimmed = q?.trim();
+  return trimmed ? sql`websearch_to_tsquery('english', ${trimmed})` : null;
+}
+
+// Ids of the category with this slug and every category below it
+function categorySubtree(slug: string): SQL {
+  return sql`(
+    with recursive subtree as (
+      select ${categoriesTable.id} as id from ${categoriesTable} where ${categoriesTable.slug} = ${slug}
+      union all
+      select child.id from ${categoriesTable} child join subtree on child.parent_id = subtree.id
+    )
+    select id from subtree
+  )`;
+}
+
+function attributeConditions(filters: NonNullable<ListingFilters['attributes']>): SQL[] {
+  return Object.entries(filters).flatMap(([key, filter]) => {
+    if (typeof filter !== 'object') {
+      // Containment can use the GIN index on attributes
+      return [sql`${listingsTable.attributes} @> ${JSON.stringify({ [key]: filter })}::jsonb`];
+    }
+
+    // The case keeps text values stored under the same key in other categories from being cast
+    const numericValue = sql`case when jsonb_typeof(${listingsTable.attributes} -> ${key}) = 'number' then (${listingsTable.attributes} ->> ${key})::numeric end`;
+    const conditions: SQL[] = [sql`${numericValue} is not null`];
+    if (filter.min !== undefined) conditions.push(sql`${numericValue} >= ${filter.min}`);
+    if (filter.max !== undefined) conditions.push(sql`${numericValue} <= ${filter.max}`);
+    return conditions;
+  });
+}
+
+// Conditions for the listing filters, optionally leaving out one facet's own filter.
+// Queries using them must join categories and left join seller profiles.
+export function listingConditions(filters: ListingFilters, skip?: Facet): SQL[] {
+  const conditions: SQL[] = [eq(listingsTable.status, 'available')];
+
+  const tsQuery = textSearchQuery(filters.q);
+  if (tsQuery) {
+    conditions.push(sql`${listingsTable.search_vector} @@ ${tsQuery}`);
+  }
+
+  if (filters.category_slug && skip !== 'category') {
+    conditions.push(sql`${listingsTable.category_id} in ${categorySubtree(filters.category_slug)}`);
+  }
+
+  if (filters.attributes) {
+    conditions.push(...attributeConditions(filters.attributes));
+  }
+
+  if (skip !== 'price') {
+    if (filters.min_price !== undefined) {
+      conditions.push(gte(listingsTable.price_cents, filters.min_price));
+    }
+    if (filters.max_price !== undefined) {
+      conditions.push(lte(listingsTable.price_cents, filters.max_price));
+    }
+  }
+
+  if (filters.seller_verification && skip !== 'seller_verification') {
+    conditions.push(sql`${sellerVerification} = ${filters.seller_verification}`);
+  }
+
+  return conditions;
+}
+
+// Every sort ends on the listing id so equal keys cannot shuffle between pages
+function listingSortKeys(sort: SearchListingsInput['sort'], tsQuery: SQL | null): SortKey[] {
+  const tieBreaker: SortKey = { expression: listingsTable.id, direction: 'asc', type: 'uuid' };
+  const newest: SortKey = { expression: listingsTable.created_at, direction: 'desc', type: 'timestamp' };
+
+  switch (sort) {
+    case 'price_asc':
+      return [{ expression: listingsTable.price_cents, direction: 'asc', type: 'integer' }, tieBreaker];
+    case 'price_desc':
+      return [{ expression: listingsTable.price_cents, direction: 'desc', type: 'integer' }, tieBreaker];
+    case 'seller_rating':
+      // Sellers without a profile have no rating yet and sort last
+      return [
+        { expression: profilesTable.rating, direction: 'desc', type: 'numeric', nullable: true },
+        newest,
+        tieBreaker
+      ];
+    case 'relevance':
+      if (tsQuery) {
+        return [
+          { expression: sql`ts_rank(${listingsTable.search_vector}, ${tsQuery})`, direction: 'desc', type: 'real' },
+          newest,
+          tieBreaker
+        ];
+      }
+      return [newest, tieBreaker];
+    case 'newest':
+      return [newest, tieBreaker];
+  }
+}
+
+function splitHighlight(headline: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  for (const part of headline.split(MATCH_START)) {
+    const [matched, rest] = part.includes(MATCH_END) ? part.split(MATCH_END) : [null, part];
+    if (matched) segments.push({ text: matched, matched: true });
+    if (rest) segments.push({ text: rest, matched: false });
+  }
+  return segments;
+}
+
+export function toListingMedia(row: typeof listingMediaTable.$inferSelect): ListingMedia {
+  return {
+    id: row.id,
+    url: `${MEDIA_BASE_URL}/${row.storage_key}`,
+    thumbnail_url: `${MEDIA_BASE_URL}/${row.thumbnail_key}`,
+    width: row.width,
+    height: row.height,
+    position: row.position
+  };
+}
+
+// Adds each listing's images in gallery order
+export async function withMedia<T extends { id: string }>(listings: T[]): Promise<Array<T & { media: ListingMedia[] }>> {
+  if (listings.length === 0) {
+    return [];
+  }
+
+  const media = await db.select()
+    .from(listingMediaTable)
+    .where(inArray(listingMediaTable.listing_id, listings.map(listing => listing.id)))
+    .orderBy(asc(listingMediaTable.position), asc(listingMediaTable.created_at))
+    .execute();
+
+  return listings.map(listing => ({
+    ...listing,
+    media: media
+      .filter(item => item.listing_id === listing.id)
+      .map(toListingMedia)
+  }));
+}
 
 export async function listCategories(): Promise<Category[]> {
   try {
@@ -17,85 +211,175 @@ export async function listCategories(): Promise<Category[]> {
   }
 }
 
-export async function searchListings(input: SearchListingsInput): Promise<{
-  items: Listing[];
-  total: number;
-  page: number;
-  page_size: number;
-  total_pages: number;
-}> {
+// The category's attributes followed by those it inherits, root first; a
+// subcategory redefining an inherited key replaces the ancestor's definition
+export async function getCategoryAttributes(categoryId: string): Promise<CategoryAttribute[]> {
   try {
-    // Build conditions array
-    const conditions: SQL<unknown>[] = [eq(listingsTable.status, 'available')];
-
-    // Add search term filter
-    if (input.q) {
-      conditions.push(
-        ilike(listingsTable.title, `%${input.q}%`)
-      );
+    const lineage: string[] = [];
+    let current: string | null = categoryId;
+    while (current && !lineage.includes(current)) {
+      const category = await db.select({ parent_id: categoriesTable.parent_id })
+        .from(categoriesTable)
+        .where(eq(categoriesTable.id, current))
+        .execute();
+
+      if (category.length === 0) {
+        throw new Error('Category not found');
+      }
+
+      lineage.push(current);
+      current = category[0].parent_id;
     }
 
-    // Add category filter
-    if (input.category_slug) {
-      conditions.push(eq(categoriesTable.slug, input.category_slug));
+    const attributes = await db.select()
+      .from(categoryAttributesTable)
+      .where(inArray(categoryAttributesTable.category_id, lineage))
+      .execute();
+
+    const depth = (attribute: CategoryAttribute) => lineage.indexOf(attribute.category_id);
+    const nearest = new Map<string, CategoryAttribute>();
+    for (const attribute of attributes) {
+      const existing = nearest.get(attribute.key);
+      if (!existing || depth(attribute) < depth(existing)) {
+        nearest.set(attribute.key, attribute);
+      }
     }
 
-    // Add price range filters
-    if (input.min_price !== undefined) {
-      conditions.push(gte(listingsTable.price_cents, input.min_price));
+    return [...nearest.values()].sort((a, b) =>
+      depth(b) - depth(a) || a.position - b.position || a.key.localeCompare(b.key)
+    );
+  } catch (error) {
+    console.error('Failed to get category attributes:', error);
+    throw error;
+  }
+}
+
+// Checks listing attribute values against the category's definitions
+export function validateListingAttributes(
+  definitions: CategoryAttribute[],
+  values: ListingAttributes
+): ListingAttributes {
+  for (const key of Object.keys(values)) {
+    if (!definitions.some(definition => definition.key === key)) {
+      throw new Error(`Unknown attribute: ${key}`);
     }
+  }
 
-    if (input.max_price !== undefined) {
-      conditions.push(lte(listingsTable.price_cents, input.max_price));
+  const validated: ListingAttributes = {};
+  for (const definition of definitions) {
+    const value = values[definition.key];
+
+    if (value === undefined || (typeof value === 'string' && value.trim() === '')) {
+      if (definition.required) {
+        throw new Error(`Missing required attribute: ${definition.key}`);
+      }
+      continue;
     }
 
-    // Build main query with all conditions
-    const whereClause = conditions.length === 1 ? conditions[0] : and(...conditions);
+    switch (definition.type) {
+      case 'text':
+        if (typeof value !== 'string') {
+          throw new Error(`Attribute ${definition.key} must be text`);
+        }
+        break;
+      case 'integer':
+        if (typeof value !== 'number' || !Number.isInteger(value)) {
+          throw new Error(`Attribute ${definition.key} must be a whole number`);
+        }
+        break;
+      case 'number':
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          throw new Error(`Attribute ${definition.key} must be a number`);
+        }
+        break;
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          throw new Error(`Attribute ${definition.key} must be true or false`);
+        }
+        break;
+      case 'enum':
+        if (typeof value !== 'string' || !definition.enum_values.includes(value)) {
+          throw new Error(`Attribute ${definition.key} must be one of: ${definition.enum_values.join(', ')}`);
+        }
+        break;
+    }
+
+    validated[definition.key] = value;
+  }
+
+  return validated;
+}
+
+export async function searchListings(input: SearchListingsInput): Promise<{
+  items: ListingSearchResult[];
+  total: number | null;
+  page: number;
+  page_size: number;
+  total_pages: number | null;
+  next_cursor: string | null;
+}> {
+  try {
+    const tsQuery = textSearchQuery(input.q);
+    const filterConditions = listingConditions(input);
+    const sortKeys = listingSortKeys(input.sort, tsQuery);
 
-    // Calculate offset
-    const offset = (input.page - 1) * input.page_size;
+    // A cursor continues after the last row it encodes; otherwise page numbers apply
+    const pageConditions = input.cursor
+      ? [...filterConditions, keysetAfter(sortKeys, input.sort, input.cursor)]
+      : filterConditions;
+    const offset = input.cursor ? 0 : (input.page - 1) * input.page_size;
 
     // Execute main query
-    const results = await db.select()
+    const results = await db.select({
+      listing: listingColumns,
+      title_headline: tsQuery
+        ? sql<string>`ts_headline('english', ${listingsTable.title}, ${tsQuery}, ${TITLE_HEADLINE_OPTIONS})`
+        : sql<null>`null`,
+      snippet_headline: tsQuery
+        ? sql<string>`ts_headline('english', ${listingsTable.description}, ${tsQuery}, ${SNIPPET_HEADLINE_OPTIONS})`
+        : sql<null>`null`,
+      cursor_values: keysetCursorValues(sortKeys)
+    })
       .from(listingsTable)
       .innerJoin(categoriesTable, eq(listingsTable.category_id, categoriesTable.id))
-      .where(whereClause)
-      .limit(input.page_size)
+      .leftJoin(profilesTable, eq(listingsTable.seller_id, profilesTable.user_id))
+      .where(and(...pageConditions))
+      .orderBy(...keysetOrderBy(sortKeys))
+      .limit(input.page_size + 1)
       .offset(offset)
       .execute();
 
-    // Count total records
-    const countResult = await db.select({ count: count() })
-      .from(listingsTable)
-      .innerJoin(categoriesTable, eq(listingsTable.category_id, categoriesTable.id))
-      .where(whereClause)
-      .execute();
-    
-    const total = countResult[0].count;
-
-    // Transform results to Listing format
-    const items: Listing[] = results.map(result => ({
-      id: result.listings.id,
-      seller_id: result.listings.seller_id,
-      category_id: result.listings.category_id,
-      title: result.listings.title,
-      description: result.listings.description,
-      price_cents: result.listings.price_cents,
-      currency: result.listings.currency,
-      status: result.listings.status,
-      has_secure_payload: result.listings.has_secure_payload,
-      created_at: result.listings.created_at,
-      updated_at: result.listings.updated_at
-    }));
-
-    const total_pages = Math.ceil(total / input.page_size);
+    const { rows, next_cursor } = takePage(results, input.page_size, input.sort);
+
+    // Counting is skipped for clients that only follow cursors
+    let total: number | null = null;
+    if (input.include_total !== false) {
+      const countResult = await db.select({ count: count() })
+        .from(listingsTable)
+        .innerJoin(categoriesTable, eq(listingsTable.category_id, categoriesTable.id))
+        .leftJoin(profilesTable, eq(listingsTable.seller_id, profilesTable.user_id))
+        .where(and(...filterConditions))
+        .execute();
+      total = countResult[0].count;
+    }
+
+    const items: ListingSearchResult[] = await withMedia(rows.map(result => ({
+      ...result.listing,
+      highlight: result.title_headline !== null && result.snippet_headline !== null
+        ? {
+          title: splitHighlight(result.title_headline),
+          snippet: splitHighlight(result.snippet_headline)
+        }
+        : null
+    })));
 
     return {
       items,
       total,
       page: input.page,
       page_size: input.page_size,
-      total_pages
+      total_pages: total === null ? null : Math.ceil(total / input.page_size),
+      next_cursor
     };
   } catch (error) {
     console.error('Failed to search listings:', error);
@@ -103,9 +387,82 @@ export async function searchListings(input: SearchListingsInput): Promise<{
   }
 }
 
+export async function searchFacets(input: ListingFilters): Promise<SearchFacetsResponse> {
+  try {
+    const categoryCounts = await db.select({
+      category_id: listingsTable.category_id,
+      count: count()
+    })
+      .from(listingsTable)
+      .innerJoin(categoriesTable, eq(listingsTable.category_id, categoriesTable.id))
+      .leftJoin(profilesTable, eq(listingsTable.seller_id, profilesTable.user_id))
+      .where(and(...listingConditions(input, 'category')))
+      .groupBy(listingsTable.category_id)
+      .execute();
+
+    const priceCounts = await db.select(Object.fromEntries(PRICE_BUCKETS.map((bucket, index) => {
+      const inBucket = bucket.max_price === null
+        ? gte(listingsTable.price_cents, bucket.min_price)
+        : and(gte(listingsTable.price_cents, bucket.min_price), lte(listingsTable.price_cents, bucket.max_price));
+      return [`bucket_${index}`, sql<number>`count(*) filter (where ${inBucket})`.mapWith(Number)];
+    })))
+      .from(listingsTable)
+      .innerJoin(categoriesTable, eq(listingsTable.category_id, categoriesTable.id))
+      .leftJoin(profilesTable, eq(listingsTable.seller_id, profilesTable.user_id))
+      .where(and(...listingConditions(input, 'price')))
+      .execute();
+
+    const verificationCounts = await db.select({
+      status: sellerVerification,
+      count: count()
+    })
+      .from(listingsTable)
+      .innerJoin(categoriesTable, eq(listingsTable.category_id, categoriesTable.id))
+      .leftJoin(profilesTable, eq(listingsTable.seller_id, profilesTable.user_id))
+      .where(and(...listingConditions(input, 'seller_verification')))
+      .groupBy(sellerVerification)
+      .execute();
+
+    // Every option is listed, with zero where nothing matches. A category's
+    // count includes its subcategories, matching how the category filter works.
+    const categories = await listCategories();
+    const parents = new Map(categories.map(category => [category.id, category.parent_id]));
+    const totals = new Map<string, number>();
+    for (const row of categoryCounts) {
+      const seen = new Set<string>();
+      let current: string | null | undefined = row.category_id;
+      while (current && !seen.has(current)) {
+        seen.add(current);
+        totals.set(current, (totals.get(current) ?? 0) + row.count);
+        current = parents.get(current);
+      }
+    }
+
+    return {
+      categories: categories.map(category => ({
+        slug: category.slug,
+        name: category.name,
+        parent_slug: categories.find(parent => parent.id === category.parent_id)?.slug ?? null,
+        count: totals.get(category.id) ?? 0
+      })),
+      price_buckets: PRICE_BUCKETS.map((bucket, index) => ({
+        ...bucket,
+        count: priceCounts[0][`bucket_${index}`]
+      })),
+      seller_verification: VERIFICATION_STATUSES.map(status => ({
+        status,
+        count: verificationCounts.find(row => row.status === status)?.count ?? 0
+      }))
+    };
+  } catch (error) {
+    console.error('Failed to compute search facets:', error);
+    throw error;
+  }
+}
+
 export async function getListing(id: string): Promise<Listing | null> {
   try {
-    const results = await db.select()
+    const results = await db.select(listingColumns)
       .from(listingsTable)
       .where(
         and(
@@ -120,9 +477,86 @@ export async function getListing(id: string): Promise<Listing | null> {
       return null;
     }
 
-    return results[0];
+    const [listing] = await withMedia(results);
+    return listing;
   } catch (error) {
     console.error('Failed to get listing:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+async function getListingSeller(sellerId: string): Promise<ListingSeller> {
+  const sellers = await db.select({
+    id: usersTable.id,
+    created_at: usersTable.created_at,
+    rating: profilesTable.rating,
+    verification_status: profilesTable.verification_status
+  })
+    .from(usersTable)
+    .leftJoin(profilesTable, eq(profilesTable.user_id, usersTable.id))
+    .where(eq(usersTable.id, sellerId))
+    .execute();
+
+  const application = await db.select({ display_name: sellerApplicationsTable.display_name })
+    .from(sellerApplicationsTable)
+    .where(and(
+      eq(sellerApplicationsTable.user_id, sellerId),
+      eq(sellerApplicationsTable.status, 'approved')
+    ))
+    .orderBy(desc(sellerApplicationsTable.created_at))
+    .limit(1)
+    .execute();
+
+  const reviews = await db.select({ count: count() })
+    .from(reviewsTable)
+    .where(eq(reviewsTable.seller_id, sellerId))
+    .execute();
+
+  const sales = await db.select({ count: count() })
+    .from(ordersTable)
+    .innerJoin(listingsTable, eq(ordersTable.listing_id, listingsTable.id))
+    .where(and(
+      eq(listingsTable.seller_id, sellerId),
+      eq(ordersTable.status, 'complete')
+    ))
+    .execute();
+
+  const seller = sellers[0];
+  return {
+    id: seller.id,
+    display_name: application[0]?.display_name ?? null,
+    member_since: seller.created_at,
+    rating: seller.rating === null ? null : parseFloat(seller.rating),
+    review_count: reviews[0].count,
+    verification_status: seller.verification_status ?? 'none',
+    completed_sales: sales[0].count
+  };
+}
+
+// Public listing page: resolves in any status, with the category and the seller's reputation
+export async function getListingDetail(id: string): Promise<ListingDetail | null> {
+  try {
+    const results = await db.select({ listing: listingColumns, category: categoriesTable })
+      .from(listingsTable)
+      .innerJoin(categoriesTable, eq(listingsTable.category_id, categoriesTable.id))
+      .where(eq(listingsTable.id, id))
+      .limit(1)
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const [listing] = await withMedia([results[0].listing]);
+
+    return {
+      ...listing,
+      is_available: listing.status === 'available',
+      category: results[0].category,
+      seller: await getListingSeller(listing.seller_id)
+    };
+  } catch (error) {
+    console.error('Failed to get listing detail:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,364 @@
+import { db } from '../db';
+import { usersTable, categoriesTable, categoryAttributesTable, listingsTable } from '../db/schema';
+import {
+  type Category,
+  type CategoryAttribute,
+  type CategoryAttributeType,
+  type CreateCategoryInput,
+  type UpdateCategoryInput,
+  type MergeCategoriesInput,
+  type ArchiveCategoryInput,
+  type CreateCategoryAttributeInput,
+  type UpdateCategoryAttributeInput,
+  type DeleteCategoryAttributeInput
+} from '../schema';
+import { eq, ne, or, and, isNull, type SQL } from 'drizzle-orm';
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function assertAdmin(adminId: string): Promise<void> {
+  const admin = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, adminId))
+    .execute();
+
+  if (admin.length === 0 || admin[0].role !== 'admin') {
+    throw new Error('Unauthorized: Admin access required');
+  }
+}
+
+async function findCategory(categoryId: string, tx: DbTransaction | typeof db = db): Promise<Category> {
+  const categories = await tx.select()
+    .from(categoriesTable)
+    .where(eq(categoriesTable.id, categoryId))
+    .execute();
+
+  if (categories.length === 0) {
+    throw new Error('Category not found');
+  }
+
+  return categories[0];
+}
+
+// Whether categoryId is ancestorId itself or sits anywhere below it
+async function isWithin(categoryId: string, ancestorId: string, tx: DbTransaction | typeof db = db): Promise<boolean> {
+  const seen = new Set<string>();
+  let current: string | null = categoryId;
+  while (current && !seen.has(current)) {
+    if (current === ancestorId) return true;
+    seen.add(current);
+    current = (await findCategory(current, tx)).parent_id;
+  }
+  return false;
+}
+
+async function assertNameAndSlugAvailable(
+  fields: { name?: string; slug?: string },
+  excludeId?: string
+): Promise<void> {
+  const matches: SQL[] = [];
+  if (fields.name !== undefined) matches.push(eq(categoriesTable.name, fields.name));
+  if (fields.slug !== undefined) matches.push(eq(categoriesTable.slug, fields.slug));
+  if (matches.length === 0) return;
+
+  const conditions = [or(...matches)!];
+  if (excludeId) conditions.push(ne(categoriesTable.id, excludeId));
+
+  const existing = await db.select()
+    .from(categoriesTable)
+    .where(and(...conditions))
+    .execute();
+
+  if (existing.some(category => category.slug === fields.slug)) {
+    throw new Error('A category with this slug already exists');
+  }
+  if (existing.length > 0) {
+    throw new Error('A category with this name already exists');
+  }
+}
+
+async function assertUsableParent(parentId: string): Promise<void> {
+  const parent = await findCategory(parentId).catch(() => {
+    throw new Error('Parent category not found');
+  });
+
+  if (parent.archived_at) {
+    throw new Error('Parent category is archived');
+  }
+}
+
+export async function createCategory(input: CreateCategoryInput, adminId: string): Promise<Category> {
+  try {
+    await assertAdmin(adminId);
+    await assertNameAndSlugAvailable(input);
+
+    if (input.parent_id) {
+      await assertUsableParent(input.parent_id);
+    }
+
+    const result = await db.insert(categoriesTable)
+      .values({
+        name: input.name,
+        slug: input.slug,
+        parent_id: input.parent_id ?? null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Category creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updateCategory(input: UpdateCategoryInput, adminId: string): Promise<Category> {
+  try {
+    await assertAdmin(adminId);
+
+    if (input.name === undefined && input.slug === undefined && input.parent_id === undefined) {
+      throw new Error('Nothing to update');
+    }
+
+    await findCategory(input.category_id);
+    await assertNameAndSlugAvailable(input, input.category_id);
+
+    if (input.parent_id) {
+      await assertUsableParent(input.parent_id);
+
+      // Moving a category below itself would detach the whole branch
+      if (await isWithin(input.parent_id, input.category_id)) {
+        throw new Error('A category cannot be moved under itself or its subcategories');
+      }
+    }
+
+    const result = await db.update(categoriesTable)
+      .set({
+        name: input.name,
+        slug: input.slug,
+        parent_id: input.parent_id
+      })
+      .where(eq(categoriesTable.id, input.category_id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Category update failed:', error);
+    throw error;
+  }
+}
+
+// Moves the source's listings and subcategories into the target, then removes
+// the source along with its attribute definitions. Listing attribute values are
+// kept as they are and get checked against the target's definitions on their next edit.
+export async function mergeCategories(input: MergeCategoriesInput, adminId: string): Promise<Category> {
+  try {
+    await assertAdmin(adminId);
+
+    if (input.source_id === input.target_id) {
+      throw new Error('Cannot merge a category into itself');
+    }
+
+    return await db.transaction(async (tx) => {
+      await findCategory(input.source_id, tx);
+      const target = await findCategory(input.target_id, tx);
+
+      if (target.archived_at) {
+        throw new Error('Target category is archived');
+      }
+      if (await isWithin(input.target_id, input.source_id, tx)) {
+        throw new Error('Cannot merge a category into one of its subcategories');
+      }
+
+      await tx.update(listingsTable)
+        .set({ category_id: input.target_id, updated_at: new Date() })
+        .where(eq(listingsTable.category_id, input.source_id))
+        .execute();
+
+      await tx.update(categoriesTable)
+        .set({ parent_id: input.target_id })
+        .where(eq(categoriesTable.parent_id, input.source_id))
+        .execute();
+
+      await tx.delete(categoryAttributesTable)
+        .where(eq(categoryAttributesTable.category_id, input.source_id))
+        .execute();
+
+      await tx.delete(categoriesTable)
+        .where(eq(categoriesTable.id, input.source_id))
+        .execute();
+
+      return target;
+    });
+  } catch (error) {
+    console.error('Category merge failed:', error);
+    throw error;
+  }
+}
+
+export async function archiveCategory(input: ArchiveCategoryInput, adminId: string): Promise<Category> {
+  try {
+    await assertAdmin(adminId);
+
+    const category = await findCategory(input.category_id);
+    if (category.archived_at) {
+      throw new Error('Category is already archived');
+    }
+
+    const openSubcategories = await db.select({ id: categoriesTable.id })
+      .from(categoriesTable)
+      .where(and(
+        eq(categoriesTable.parent_id, input.category_id),
+        isNull(categoriesTable.archived_at)
+      ))
+      .execute();
+
+    if (openSubcategories.length > 0) {
+      throw new Error('Archive the subcategories of this category first');
+    }
+
+    const result = await db.update(categoriesTable)
+      .set({ archived_at: new Date() })
+      .where(eq(categoriesTable.id, input.category_id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Category archive failed:', error);
+    throw error;
+  }
+}
+
+// Enum attributes need distinct allowed values; other types have none
+function checkEnumValues(type: CategoryAttributeType, enumValues: string[]): void {
+  if (type !== 'enum') {
+    if (enumValues.length > 0) {
+      throw new Error('Only enum attributes can have allowed values');
+    }
+    return;
+  }
+
+  if (enumValues.length === 0) {
+    throw new Error('Enum attributes need at least one allowed value');
+  }
+  if (new Set(enumValues).size !== enumValues.length) {
+    throw new Error('Allowed values must be distinct');
+  }
+}
+
+async function findCategoryAttribute(attributeId: string): Promise<CategoryAttribute> {
+  const attributes = await db.select()
+    .from(categoryAttributesTable)
+    .where(eq(categoryAttributesTable.id, attributeId))
+    .execute();
+
+  if (attributes.length === 0) {
+    throw new Error('Attribute not found');
+  }
+
+  return attributes[0];
+}
+
+export async function createCategoryAttribute(
+  input: CreateCategoryAttributeInput,
+  adminId: string
+): Promise<CategoryAttribute> {
+  try {
+    await assertAdmin(adminId);
+
+    const category = await findCategory(input.category_id);
+    if (category.archived_at) {
+      throw new Error('Category is archived');
+    }
+
+    const enumValues = input.enum_values ?? [];
+    checkEnumValues(input.type, enumValues);
+
+    // A subcategory may redefine an inherited key; only its own keys must be unique
+    const existing = await db.select({ id: categoryAttributesTable.id })
+      .from(categoryAttributesTable)
+      .where(and(
+        eq(categoryAttributesTable.category_id, input.category_id),
+        eq(categoryAttributesTable.key, input.key)
+      ))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error('This category already has an attribute with this key');
+    }
+
+    const result = await db.insert(categoryAttributesTable)
+      .values({
+        category_id: input.category_id,
+        key: input.key,
+        label: input.label,
+        type: input.type,
+        required: input.required ?? false,
+        enum_values: enumValues,
+        position: input.position ?? 0
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Category attribute creation failed:', error);
+    throw error;
+  }
+}
+
+// Existing listing values are kept and get checked against the new definition on their next edit
+export async function updateCategoryAttribute(
+  input: UpdateCategoryAttributeInput,
+  adminId: string
+): Promise<CategoryAttribute> {
+  try {
+    await assertAdmin(adminId);
+
+    const { attribute_id, ...changes } = input;
+    if (Object.values(changes).every(value => value === undefined)) {
+      throw new Error('Nothing to update');
+    }
+
+    const attribute = await findCategoryAttribute(attribute_id);
+
+    const type = changes.type ?? attribute.type;
+    // Switching away from enum drops the allowed values unless new ones are given
+    const enumValues = changes.enum_values ?? (type === 'enum' ? attribute.enum_values : []);
+    checkEnumValues(type, enumValues);
+
+    const result = await db.update(categoryAttributesTable)
+      .set({
+        label: changes.label,
+        type,
+        required: changes.required,
+        enum_values: enumValues,
+        position: changes.position
+      })
+      .where(eq(categoryAttributesTable.id, attribute_id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Category attribute update failed:', error);
+    throw error;
+  }
+}
+
+// Values already stored under the key stay on the listings until they are next edited
+export async function deleteCategoryAttribute(input: DeleteCategoryAttributeInput, adminId: string): Promise<void> {
+  try {
+    await assertAdmin(adminId);
+    await findCategoryAttribute(input.attribute_id);
+
+    await db.delete(categoryAttributesTable)
+      .where(eq(categoryAttributesTable.id, input.attribute_id))
+      .execute();
+  } catch (error) {
+    console.error('Category attribute deletion failed:', error);
+    throw error;
+  }
+}
@@ -1,12 +1,21 @@
 import { 
   type CreatePaymentIntentInput, 
   type PaymentIntentResponse,
+  stripeWebhookEventSchema,
   type Order,
   type Transaction
 } from '../schema';
 import { db } from '../db';
-import { listingsTable, ordersTable, transactionsTable } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import {
+  listingsTable,
+  listingColumns,
+  listingSecurePayloadsTable,
+  ordersTable,
+  transactionsTable,
+  userEncryptionKeysTable
+} from '../db/schema';
+import { verifyStripeSignature } from '../lib/stripeSignature';
+import { eq, and, asc, isNull } from 'drizzle-orm';
 
 export async function createPaymentIntent(
   input: CreatePaymentIntentInput, 
@@ -34,6 +43,25 @@ export async function createPaymentIntent(
       throw new Error('Cannot purchase your own listing');
     }
 
+    // Pooled listings need an unclaimed payload; end-to-end ones are sealed after payment
+    if (!listing.e2e_handoff && listing.stock === 0) {
+      throw new Error('Listing is out of stock');
+    }
+
+    // End-to-end listings seal the credentials to the key the buyer has when ordering
+    let buyerPublicKey: string | null = null;
+    if (listing.e2e_handoff) {
+      const keys = await db.select({ public_key: userEncryptionKeysTable.public_key })
+        .from(userEncryptionKeysTable)
+        .where(eq(userEncryptionKeysTable.user_id, buyerId))
+        .execute();
+
+      if (keys.length === 0) {
+        throw new Error('Register an encryption key before buying a listing with end-to-end handoff');
+      }
+      buyerPublicKey = keys[0].public_key;
+    }
+
     // 2. Create order record with 'pending' status
     const orderResult = await db.insert(ordersTable)
       .values({
@@ -41,7 +69,8 @@ export async function createPaymentIntent(
         listing_id: input.listing_id,
         total_cents: listing.price_cents,
         currency: listing.currency,
-        status: 'pending'
+        status: 'pending',
+        buyer_public_key: buyerPublicKey
       })
       .returning()
       .execute();
@@ -82,15 +111,143 @@ export async function createPaymentIntent(
   }
 }
 
-export async function handleStripeWebhook(eventData: any): Promise<void> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to:
-  // 1. Verify webhook signature using STRIPE_WEBHOOK_SECRET
-  // 2. Handle 'payment_intent.succeeded' events
-  // 3. Update transaction status to 'succeeded'
-  // 4. Update order status to 'paid'
-  // 5. Set order.expires_at to now() + 24h for buyer verification window
-  return Promise.resolve();
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Stripe calls this with the raw request body once a payment intent settles.
+// Successful payments mark their order paid; a payment for a listing that sold
+// out meanwhile, or for an order no longer awaiting payment, is refunded.
+export async function handleStripeWebhook(payload: string, signature: string | undefined): Promise<void> {
+  try {
+    const secret = process.env['STRIPE_WEBHOOK_SECRET'];
+    if (!secret) {
+      throw new Error('Stripe webhooks are not configured');
+    }
+
+    verifyStripeSignature(payload, signature ?? '', secret);
+    const event = stripeWebhookEventSchema.parse(JSON.parse(payload));
+
+    if (event.type !== 'payment_intent.succeeded') {
+      return;
+    }
+
+    await db.transaction(async (tx) => {
+      const transactions = await tx.select()
+        .from(transactionsTable)
+        .where(and(
+          eq(transactionsTable.provider, 'stripe'),
+          eq(transactionsTable.provider_ref, event.data.object.id)
+        ))
+        .for('update')
+        .execute();
+
+      if (transactions.length === 0) {
+        throw new Error('Payment not found');
+      }
+
+      // Stripe delivers events at least once; a payment already recorded is done
+      if (transactions[0].status !== 'initiated') {
+        return;
+      }
+
+      const paid = await markOrderPaid(tx, transactions[0].order_id);
+
+      await tx.update(transactionsTable)
+        .set({ status: paid ? 'succeeded' : 'refunded' })
+        .where(eq(transactionsTable.id, transactions[0].id))
+        .execute();
+
+      if (!paid) {
+        // Mock refund; a real integration would call
+        // stripe.refunds.create({ payment_intent: transactions[0].provider_ref })
+        // An order that moved on without this payment keeps its status
+        await tx.update(ordersTable)
+          .set({ status: 'refunded', updated_at: new Date() })
+          .where(and(
+            eq(ordersTable.id, transactions[0].order_id),
+            eq(ordersTable.status, 'pending')
+          ))
+          .execute();
+      }
+    });
+  } catch (error) {
+    console.error('Stripe webhook failed:', error);
+    throw error;
+  }
+}
+
+// Marks a pending order paid and claims one unclaimed payload from the listing's
+// pool for it. The listing is sold once the pool is empty; end-to-end listings
+// hold no pool and sell a single unit. Returns false, changing nothing, when the
+// order is no longer awaiting payment or the listing is out of stock.
+async function markOrderPaid(tx: DbTransaction, orderId: string): Promise<boolean> {
+  const orders = await tx.select()
+    .from(ordersTable)
+    .where(eq(ordersTable.id, orderId))
+    .for('update')
+    .execute();
+
+  if (orders.length === 0) {
+    throw new Error('Order not found');
+  }
+
+  if (orders[0].status !== 'pending') {
+    return false;
+  }
+
+  // Locking the listing serialises claims, so two payments never get the same payload
+  const listings = await tx.select(listingColumns)
+    .from(listingsTable)
+    .where(eq(listingsTable.id, orders[0].listing_id))
+    .for('update')
+    .execute();
+  const listing = listings[0];
+
+  let stock = 0;
+  if (listing.e2e_handoff) {
+    // The single unit went to whichever pending order was paid first
+    if (listing.status === 'sold') {
+      return false;
+    }
+  } else {
+    const unclaimed = await tx.select({ id: listingSecurePayloadsTable.id })
+      .from(listingSecurePayloadsTable)
+      .where(and(
+        eq(listingSecurePayloadsTable.listing_id, listing.id),
+        isNull(listingSecurePayloadsTable.order_id)
+      ))
+      .orderBy(asc(listingSecurePayloadsTable.created_at), asc(listingSecurePayloadsTable.id))
+      .execute();
+
+    if (unclaimed.length === 0) {
+      return false;
+    }
+
+    await tx.update(listingSecurePayloadsTable)
+      .set({ order_id: orderId, claimed_at: new Date() })
+      .where(eq(listingSecurePayloadsTable.id, unclaimed[0].id))
+      .execute();
+    stock = unclaimed.length - 1;
+  }
+
+  // The buyer has 24 hours to check the account before the order completes
+  const expires_at = new Date();
+  expires_at.setHours(expires_at.getHours() + 24);
+
+  await tx.update(ordersTable)
+    .set({ status: 'paid', expires_at, updated_at: new Date() })
+    .where(eq(ordersTable.id, orderId))
+    .execute();
+
+  await tx.update(listingsTable)
+    .set({
+      stock,
+      status: stock === 0 ? 'sold' : listing.status,
+      updated_at: new Date()
+    })
+    .where(eq(listingsTable.id, listing.id))
+    .execute();
+
+  return true;
 }
 
 export async function processExpiredOrders(): Promise<void> {
@@ -0,0 +1,132 @@
+import { db } from '../db';
+import {
+  listingsTable,
+  ordersTable,
+  orderSealedPayloadsTable,
+  userEncryptionKeysTable
+} from '../db/schema';
+import {
+  type SetEncryptionKeyInput,
+  type EncryptionKey,
+  type PendingHandoff,
+  type SubmitHandoffInput
+} from '../schema';
+import { CREDENTIAL_ORDER_STATUSES } from './orders';
+import { eq, and, asc, inArray, isNotNull, isNull } from 'drizzle-orm';
+
+// Registers the public half of a key pair generated in the buyer's browser. Orders
+// keep the key they were placed with, so replacing it only affects new purchases.
+export async function setEncryptionKey(input: SetEncryptionKeyInput, userId: string): Promise<EncryptionKey> {
+  try {
+    const result = await db.insert(userEncryptionKeysTable)
+      .values({ user_id: userId, public_key: input.public_key })
+      .onConflictDoUpdate({
+        target: userEncryptionKeysTable.user_id,
+        set: { public_key: input.public_key, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    const { user_id, ...key } = result[0];
+    return key;
+  } catch (error) {
+    console.error('Set encryption key failed:', error);
+    throw error;
+  }
+}
+
+export async function getEncryptionKey(userId: string): Promise<EncryptionKey | null> {
+  try {
+    const keys = await db.select({
+      public_key: userEncryptionKeysTable.public_key,
+      created_at: userEncryptionKeysTable.created_at,
+      updated_at: userEncryptionKeysTable.updated_at
+    })
+      .from(userEncryptionKeysTable)
+      .where(eq(userEncryptionKeysTable.user_id, userId))
+      .execute();
+
+    return keys[0] ?? null;
+  } catch (error) {
+    console.error('Get encryption key failed:', error);
+    throw error;
+  }
+}
+
+// Paid end-to-end orders still waiting for the seller's client to seal the credentials
+export async function listPendingHandoffs(sellerId: string): Promise<PendingHandoff[]> {
+  try {
+    const rows = await db.select({
+      order_id: ordersTable.id,
+      listing_id: ordersTable.listing_id,
+      listing_title: listingsTable.title,
+      buyer_public_key: ordersTable.buyer_public_key,
+      status: ordersTable.status,
+      created_at: ordersTable.created_at
+    })
+      .from(ordersTable)
+      .innerJoin(listingsTable, eq(ordersTable.listing_id, listingsTable.id))
+      .leftJoin(orderSealedPayloadsTable, eq(ordersTable.id, orderSealedPayloadsTable.order_id))
+      .where(and(
+        eq(listingsTable.seller_id, sellerId),
+        isNotNull(ordersTable.buyer_public_key),
+        inArray(ordersTable.status, CREDENTIAL_ORDER_STATUSES),
+        isNull(orderSealedPayloadsTable.id)
+      ))
+      .orderBy(asc(ordersTable.created_at))
+      .execute();
+
+    return rows.map(row => ({ ...row, buyer_public_key: row.buyer_public_key! }));
+  } catch (error) {
+    console.error('List pending handoffs failed:', error);
+    throw error;
+  }
+}
+
+// Stores credentials the seller's client sealed to the order's buyer key. The
+// server cannot check what is inside, so a handoff is final once submitted.
+export async function submitHandoff(input: SubmitHandoffInput, sellerId: string): Promise<void> {
+  try {
+    const orders = await db.select({
+      status: ordersTable.status,
+      buyer_public_key: ordersTable.buyer_public_key
+    })
+      .from(ordersTable)
+      .innerJoin(listingsTable, eq(ordersTable.listing_id, listingsTable.id))
+      .where(and(
+        eq(ordersTable.id, input.order_id),
+        eq(listingsTable.seller_id, sellerId)
+      ))
+      .execute();
+
+    if (orders.length === 0) {
+      throw new Error('Order not found or access denied');
+    }
+
+    if (orders[0].buyer_public_key === null) {
+      throw new Error('Order does not use end-to-end handoff');
+    }
+
+    if (!CREDENTIAL_ORDER_STATUSES.includes(orders[0].status)) {
+      throw new Error('Credentials can only be handed off for paid orders');
+    }
+
+    const inserted = await db.insert(orderSealedPayloadsTable)
+      .values({
+        order_id: input.order_id,
+        ephemeral_public_key: input.ephemeral_public_key,
+        nonce: input.nonce,
+        cipher_text: input.cipher_text
+      })
+      .onConflictDoNothing()
+      .returning({ id: orderSealedPayloadsTable.id })
+      .execute();
+
+    if (inserted.length === 0) {
+      throw new Error('Credentials were already handed off for this order');
+    }
+  } catch (error) {
+    console.error('Credential handoff failed:', error);
+    throw error;
+  }
+}
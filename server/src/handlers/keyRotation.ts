@@ -0,0 +1,456 @@
+import { db } from '../db';
+import {
+  usersTable,
+  listingSecurePayloadsTable,
+  masterKeyVersionsTable,
+  keyRotationJobsTable,
+  keyRotationFailuresTable
+} from '../db/schema';
+import {
+  type MasterKeyVersion,
+  type KeyRotationJob,
+  type KeyRotationJobDetail,
+  type KeyRotationJobInput
+} from '../schema';
+import { getKeyProvider } from '../lib/keyProvider';
+import { eq, and, ne, gt, asc, desc, count, isNotNull, sql, type SQL } from 'drizzle-orm';
+
+const REWRAP_BATCH_SIZE = 100;
+const JOB_FAILURE_LIMIT = 100;
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type KeyRotationJobRow = typeof keyRotationJobsTable.$inferSelect;
+
+interface StalePayload {
+  id: string;
+  wrapped_key: string;
+  key_version: number;
+}
+
+// Jobs running in this process, so starting or resuming one twice shares a single run
+const activeJobs = new Map<string, Promise<void>>();
+
+// Serialises starting and resuming jobs, so at most one job is ever running
+async function lockKeyRotations(tx: DbTransaction): Promise<void> {
+  await tx.execute(sql`select pg_advisory_xact_lock(hashtext('key_rotation'))`);
+}
+
+async function assertAdmin(adminId: string): Promise<void> {
+  const admin = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, adminId))
+    .execute();
+
+  if (admin.length === 0 || admin[0].role !== 'admin') {
+    throw new Error('Unauthorized: Admin access required');
+  }
+}
+
+function toKeyRotationJob(row: KeyRotationJobRow): KeyRotationJob {
+  const { last_payload_id, ...job } = row;
+  return job;
+}
+
+// Payloads still wrapped with a master key other than the target; legacy rows without a key are skipped
+function staleConditions(targetVersion: number): SQL[] {
+  return [
+    isNotNull(listingSecurePayloadsTable.key_version),
+    ne(listingSecurePayloadsTable.key_version, targetVersion)
+  ];
+}
+
+// Records the provider's current version and every version payloads still use
+async function registerKeyVersions(currentVersion: number): Promise<void> {
+  const inUse = await db.selectDistinct({ version: listingSecurePayloadsTable.key_version })
+    .from(listingSecurePayloadsTable)
+    .where(isNotNull(listingSecurePayloadsTable.key_version))
+    .execute();
+
+  const versions = new Set([currentVersion, ...inUse.map(row => row.version!)]);
+  await db.insert(masterKeyVersionsTable)
+    .values([...versions].map(version => ({ version })))
+    .onConflictDoNothing()
+    .execute();
+}
+
+// Marks versions that no payload uses any more, so their keys can be removed from the provider
+async function retireUnusedVersions(tx: DbTransaction, targetVersion: number): Promise<void> {
+  await tx.update(masterKeyVersionsTable)
+    .set({ retired_at: new Date() })
+    .where(and(
+      ne(masterKeyVersionsTable.version, targetVersion),
+      sql`${masterKeyVersionsTable.retired_at} is null`,
+      sql`not exists (
+        select 1 from ${listingSecurePayloadsTable}
+        where ${listingSecurePayloadsTable.key_version} = ${masterKeyVersionsTable.version}
+      )`
+    ))
+    .execute();
+}
+
+// Locks the job row for one step of its run, so two processes running the same job
+// take turns and never re-wrap the same rows; yields nothing once the job has stopped
+async function lockRunningJob(tx: DbTransaction, jobId: string): Promise<KeyRotationJobRow | null> {
+  const jobs = await tx.select()
+    .from(keyRotationJobsTable)
+    .where(eq(keyRotationJobsTable.id, jobId))
+    .for('update')
+    .execute();
+
+  return jobs.length > 0 && jobs[0].status === 'running' ? jobs[0] : null;
+}
+
+async function rewrapPayload(tx: DbTransaction, payload: StalePayload, targetVersion: number): Promise<void> {
+  const rewrapped = await getKeyProvider().rewrapKey({ wrapped_key: payload.wrapped_key, key_version: payload.key_version });
+  if (rewrapped.key_version !== targetVersion) {
+    throw new Error(`Key provider wrapped with version ${rewrapped.key_version} instead of ${targetVersion}`);
+  }
+
+  // Only the wrapped data key changes; a payload replaced meanwhile is left alone
+  await tx.update(listingSecurePayloadsTable)
+    .set(rewrapped)
+    .where(and(
+      eq(listingSecurePayloadsTable.id, payload.id),
+      eq(listingSecurePayloadsTable.key_version, payload.key_version)
+    ))
+    .execute();
+}
+
+// Retries the rows earlier runs of the job could not re-wrap. Rows that succeed, or were
+// replaced or re-wrapped since, drop off the job's failures.
+async function retryFailedPayloads(jobId: string): Promise<void> {
+  await db.transaction(async (tx) => {
+    const job = await lockRunningJob(tx, jobId);
+    if (!job) {
+      return;
+    }
+
+    const failures = await tx.select({
+      id: keyRotationFailuresTable.id,
+      payload_id: keyRotationFailuresTable.payload_id,
+      wrapped_key: listingSecurePayloadsTable.wrapped_key,
+      key_version: listingSecurePayloadsTable.key_version
+    })
+      .from(keyRotationFailuresTable)
+      .leftJoin(listingSecurePayloadsTable, eq(listingSecurePayloadsTable.id, keyRotationFailuresTable.payload_id))
+      .where(eq(keyRotationFailuresTable.job_id, jobId))
+      .execute();
+
+    let resolved = 0;
+    for (const failure of failures) {
+      try {
+        if (failure.wrapped_key !== null && failure.key_version !== null && failure.key_version !== job.target_version) {
+          await rewrapPayload(tx, {
+            id: failure.payload_id,
+            wrapped_key: failure.wrapped_key,
+            key_version: failure.key_version
+          }, job.target_version);
+        }
+
+        await tx.delete(keyRotationFailuresTable)
+          .where(eq(keyRotationFailuresTable.id, failure.id))
+          .execute();
+        resolved++;
+      } catch (error) {
+        await tx.update(keyRotationFailuresTable)
+          .set({ error: error instanceof Error ? error.message : String(error) })
+          .where(eq(keyRotationFailuresTable.id, failure.id))
+          .execute();
+      }
+    }
+
+    if (resolved > 0) {
+      await tx.update(keyRotationJobsTable)
+        .set({
+          failed_rows: sql`${keyRotationJobsTable.failed_rows} - ${resolved}`,
+          updated_at: new Date()
+        })
+        .where(eq(keyRotationJobsTable.id, jobId))
+        .execute();
+    }
+  });
+}
+
+// Re-wraps the next batch after the job's last row, or completes the job when none are left.
+// Returns whether there may be more to do.
+async function rewrapBatch(jobId: string): Promise<boolean> {
+  return await db.transaction(async (tx) => {
+    const job = await lockRunningJob(tx, jobId);
+    if (!job) {
+      return false;
+    }
+
+    const batch = await tx.select({
+      id: listingSecurePayloadsTable.id,
+      wrapped_key: listingSecurePayloadsTable.wrapped_key,
+      key_version: listingSecurePayloadsTable.key_version
+    })
+      .from(listingSecurePayloadsTable)
+      .where(and(
+        ...staleConditions(job.target_version),
+        ...(job.last_payload_id ? [gt(listingSecurePayloadsTable.id, job.last_payload_id)] : [])
+      ))
+      .orderBy(asc(listingSecurePayloadsTable.id))
+      .limit(REWRAP_BATCH_SIZE)
+      .execute();
+
+    if (batch.length === 0) {
+      await tx.update(keyRotationJobsTable)
+        .set({ status: 'completed', completed_at: new Date(), updated_at: new Date() })
+        .where(eq(keyRotationJobsTable.id, jobId))
+        .execute();
+      await retireUnusedVersions(tx, job.target_version);
+      return false;
+    }
+
+    let failed = 0;
+    for (const payload of batch) {
+      try {
+        await rewrapPayload(tx, { id: payload.id, wrapped_key: payload.wrapped_key!, key_version: payload.key_version! }, job.target_version);
+      } catch (error) {
+        failed++;
+        await tx.insert(keyRotationFailuresTable)
+          .values({
+            job_id: job.id,
+            payload_id: payload.id,
+            error: error instanceof Error ? error.message : String(error)
+          })
+          .execute();
+      }
+    }
+
+    await tx.update(keyRotationJobsTable)
+      .set({
+        processed_rows: sql`${keyRotationJobsTable.processed_rows} + ${batch.length}`,
+        failed_rows: sql`${keyRotationJobsTable.failed_rows} + ${failed}`,
+        last_payload_id: batch[batch.length - 1].id,
+        updated_at: new Date()
+      })
+      .where(eq(keyRotationJobsTable.id, jobId))
+      .execute();
+
+    return true;
+  });
+}
+
+async function processKeyRotationJob(jobId: string): Promise<void> {
+  try {
+    await retryFailedPayloads(jobId);
+
+    let more = true;
+    while (more) {
+      more = await rewrapBatch(jobId);
+    }
+  } catch (error) {
+    console.error('Key rotation job failed:', error);
+    await db.update(keyRotationJobsTable)
+      .set({
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        updated_at: new Date()
+      })
+      .where(eq(keyRotationJobsTable.id, jobId))
+      .execute();
+  }
+}
+
+// Runs a job in the background, or returns the run already under way
+export function runKeyRotationJob(jobId: string): Promise<void> {
+  let run = activeJobs.get(jobId);
+  if (!run) {
+    run = processKeyRotationJob(jobId)
+      // Marking the job failed can fail as well, and nobody awaits a background run
+      .catch(error => console.error('Failed to record key rotation job failure:', error))
+      .finally(() => activeJobs.delete(jobId));
+    activeJobs.set(jobId, run);
+  }
+  return run;
+}
+
+// Waits for every run in this process to finish, e.g. before the database goes away
+export async function drainKeyRotationJobs(): Promise<void> {
+  await Promise.all(activeJobs.values());
+}
+
+export async function listMasterKeyVersions(adminId: string): Promise<MasterKeyVersion[]> {
+  try {
+    await assertAdmin(adminId);
+
+    const currentVersion = await getKeyProvider().currentKeyVersion();
+    await registerKeyVersions(currentVersion);
+
+    const versions = await db.select({
+      version: masterKeyVersionsTable.version,
+      registered_at: masterKeyVersionsTable.registered_at,
+      retired_at: masterKeyVersionsTable.retired_at,
+      payload_count: count(listingSecurePayloadsTable.id)
+    })
+      .from(masterKeyVersionsTable)
+      .leftJoin(listingSecurePayloadsTable, eq(listingSecurePayloadsTable.key_version, masterKeyVersionsTable.version))
+      .groupBy(masterKeyVersionsTable.version)
+      .orderBy(desc(masterKeyVersionsTable.version))
+      .execute();
+
+    return versions.map(version => ({ ...version, is_current: version.version === currentVersion }));
+  } catch (error) {
+    console.error('Failed to list master key versions:', error);
+    throw error;
+  }
+}
+
+// Starts re-wrapping every payload under the key provider's current master key.
+// Add the new key to the provider first; older keys must stay until the job completes.
+export async function startKeyRotation(adminId: string): Promise<KeyRotationJob> {
+  try {
+    await assertAdmin(adminId);
+
+    const targetVersion = await getKeyProvider().currentKeyVersion();
+    await registerKeyVersions(targetVersion);
+
+    const job = await db.transaction(async (tx) => {
+      await lockKeyRotations(tx);
+
+      const running = await tx.select({ id: keyRotationJobsTable.id })
+        .from(keyRotationJobsTable)
+        .where(eq(keyRotationJobsTable.status, 'running'))
+        .execute();
+
+      if (running.length > 0) {
+        throw new Error('A key rotation is already running');
+      }
+
+      const stale = await tx.select({ count: count() })
+        .from(listingSecurePayloadsTable)
+        .where(and(...staleConditions(targetVersion)))
+        .execute();
+
+      const result = await tx.insert(keyRotationJobsTable)
+        .values({
+          target_version: targetVersion,
+          total_rows: stale[0].count,
+          started_by: adminId
+        })
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+
+    runKeyRotationJob(job.id);
+    return toKeyRotationJob(job);
+  } catch (error) {
+    console.error('Key rotation start failed:', error);
+    throw error;
+  }
+}
+
+// Continues a failed job, or one left running when the server stopped, from its last re-wrapped row.
+// Rows it could not re-wrap are retried first, so a completed job with failures can be resumed too.
+export async function resumeKeyRotation(input: KeyRotationJobInput, adminId: string): Promise<KeyRotationJob> {
+  try {
+    await assertAdmin(adminId);
+
+    const job = await db.transaction(async (tx) => {
+      await lockKeyRotations(tx);
+
+      const jobs = await tx.select()
+        .from(keyRotationJobsTable)
+        .where(eq(keyRotationJobsTable.id, input.job_id))
+        .execute();
+
+      if (jobs.length === 0) {
+        throw new Error('Key rotation job not found');
+      }
+
+      if (jobs[0].status === 'completed' && jobs[0].failed_rows === 0) {
+        throw new Error('Key rotation job is already completed');
+      }
+
+      const others = await tx.select({ id: keyRotationJobsTable.id })
+        .from(keyRotationJobsTable)
+        .where(and(
+          eq(keyRotationJobsTable.status, 'running'),
+          ne(keyRotationJobsTable.id, input.job_id)
+        ))
+        .execute();
+
+      if (others.length > 0) {
+        throw new Error('A key rotation is already running');
+      }
+
+      const result = await tx.update(keyRotationJobsTable)
+        .set({ status: 'running', error: null, completed_at: null, updated_at: new Date() })
+        .where(eq(keyRotationJobsTable.id, input.job_id))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+
+    runKeyRotationJob(job.id);
+    return toKeyRotationJob(job);
+  } catch (error) {
+    console.error('Key rotation resume failed:', error);
+    throw error;
+  }
+}
+
+export async function listKeyRotationJobs(adminId: string): Promise<KeyRotationJob[]> {
+  try {
+    await assertAdmin(adminId);
+
+    const jobs = await db.select()
+      .from(keyRotationJobsTable)
+      .orderBy(desc(keyRotationJobsTable.created_at))
+      .limit(20)
+      .execute();
+
+    return jobs.map(toKeyRotationJob);
+  } catch (error) {
+    console.error('Failed to list key rotation jobs:', error);
+    throw error;
+  }
+}
+
+export async function getKeyRotationJob(input: KeyRotationJobInput, adminId: string): Promise<KeyRotationJobDetail> {
+  try {
+    await assertAdmin(adminId);
+
+    const jobs = await db.select()
+      .from(keyRotationJobsTable)
+      .where(eq(keyRotationJobsTable.id, input.job_id))
+      .execute();
+
+    if (jobs.length === 0) {
+      throw new Error('Key rotation job not found');
+    }
+
+    const failures = await db.select({
+      payload_id: keyRotationFailuresTable.payload_id,
+      error: keyRotationFailuresTable.error,
+      created_at: keyRotationFailuresTable.created_at
+    })
+      .from(keyRotationFailuresTable)
+      .where(eq(keyRotationFailuresTable.job_id, input.job_id))
+      .orderBy(asc(keyRotationFailuresTable.created_at))
+      .limit(JOB_FAILURE_LIMIT)
+      .execute();
+
+    return { ...toKeyRotationJob(jobs[0]), failures };
+  } catch (error) {
+    console.error('Failed to get key rotation job:', error);
+    throw error;
+  }
+}
+
+// Picks up jobs that were running when the server last stopped
+export async function resumeInterruptedKeyRotations(): Promise<void> {
+  const jobs = await db.select({ id: keyRotationJobsTable.id })
+    .from(keyRotationJobsTable)
+    .where(eq(keyRotationJobsTable.status, 'running'))
+    .execute();
+
+  for (const job of jobs) {
+    runKeyRotationJob(job.id);
+  }
+}
@@ -0,0 +1,390 @@
+import { randomUUID } from 'crypto';
+import { db } from '../db';
+import {
+  usersTable,
+  profilesTable,
+  listingsTable,
+  kycSubmissionsTable,
+  kycDocumentsTable,
+  verificationStatusHistoryTable
+} from '../db/schema';
+import {
+  type SubmitKycInput,
+  type KycDocumentUpload,
+  type ListKycSubmissionsInput,
+  type ReviewKycSubmissionInput,
+  type KycSubmission,
+  type KycDocumentContent,
+  type MyVerificationResponse,
+  KYC_MAX_DOCUMENT_BYTES
+} from '../schema';
+import { getBlobStore } from '../lib/blobStorage';
+import { eq, and, count, desc, inArray, type SQL } from 'drizzle-orm';
+
+type VerificationStatus = typeof profilesTable.$inferSelect['verification_status'];
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// How many available listings a seller may have before passing verification
+export const UNVERIFIED_LISTING_LIMIT = Number(process.env['UNVERIFIED_SELLER_LISTING_LIMIT'] || 3);
+
+// Leading bytes of each accepted file type, so a renamed file cannot pass as an image
+const FILE_SIGNATURES: Record<string, number[]> = {
+  'image/jpeg': [0xff, 0xd8, 0xff],
+  'image/png': [0x89, 0x50, 0x4e, 0x47],
+  'application/pdf': [0x25, 0x50, 0x44, 0x46]
+};
+
+function decodeDocument(document: KycDocumentUpload): Buffer {
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(document.data_base64)) {
+    throw new Error(`${document.file_name} is not valid base64`);
+  }
+
+  const data = Buffer.from(document.data_base64, 'base64');
+  if (data.length > KYC_MAX_DOCUMENT_BYTES) {
+    throw new Error(`${document.file_name} is larger than ${KYC_MAX_DOCUMENT_BYTES / 1024 / 1024} MB`);
+  }
+
+  const signature = FILE_SIGNATURES[document.content_type];
+  if (!signature || !signature.every((byte, index) => data[index] === byte)) {
+    throw new Error(`${document.file_name} does not look like ${document.content_type}`);
+  }
+
+  return data;
+}
+
+async function assertAdmin(adminId: string): Promise<void> {
+  const admin = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, adminId))
+    .execute();
+
+  if (admin.length === 0 || admin[0].role !== 'admin') {
+    throw new Error('Unauthorized: Admin access required');
+  }
+}
+
+export async function getVerificationStatus(userId: string): Promise<VerificationStatus> {
+  const profiles = await db.select({ verification_status: profilesTable.verification_status })
+    .from(profilesTable)
+    .where(eq(profilesTable.user_id, userId))
+    .execute();
+
+  return profiles[0]?.verification_status ?? 'none';
+}
+
+// Moves profiles.verification_status and records the change in its history
+async function applyVerificationStatus(
+  tx: DbTransaction,
+  userId: string,
+  toStatus: VerificationStatus,
+  details: { submissionId: string | null; changedBy: string | null; reason: string | null }
+): Promise<void> {
+  const profiles = await tx.select()
+    .from(profilesTable)
+    .where(eq(profilesTable.user_id, userId))
+    .for('update')
+    .execute();
+
+  const fromStatus = profiles[0]?.verification_status ?? 'none';
+
+  if (profiles.length === 0) {
+    await tx.insert(profilesTable)
+      .values({ user_id: userId, verification_status: toStatus })
+      .execute();
+  } else {
+    await tx.update(profilesTable)
+      .set({ verification_status: toStatus })
+      .where(eq(profilesTable.user_id, userId))
+      .execute();
+  }
+
+  await tx.insert(verificationStatusHistoryTable)
+    .values({
+      user_id: userId,
+      from_status: fromStatus,
+      to_status: toStatus,
+      submission_id: details.submissionId,
+      changed_by: details.changedBy,
+      reason: details.reason
+    })
+    .execute();
+}
+
+async function attachDocuments(
+  submissions: Array<typeof kycSubmissionsTable.$inferSelect>
+): Promise<KycSubmission[]> {
+  if (submissions.length === 0) return [];
+
+  const documents = await db.select({
+    id: kycDocumentsTable.id,
+    submission_id: kycDocumentsTable.submission_id,
+    document_type: kycDocumentsTable.document_type,
+    file_name: kycDocumentsTable.file_name,
+    content_type: kycDocumentsTable.content_type,
+    size_bytes: kycDocumentsTable.size_bytes,
+    created_at: kycDocumentsTable.created_at
+  })
+    .from(kycDocumentsTable)
+    .where(inArray(kycDocumentsTable.submission_id, submissions.map(s => s.id)))
+    .execute();
+
+  return submissions.map(submission => ({
+    ...submission,
+    documents: documents.filter(document => document.submission_id === submission.id)
+  }));
+}
+
+export async function submitKycDocuments(input: SubmitKycInput, userId: string): Promise<KycSubmission> {
+  const storedKeys: string[] = [];
+
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0 || users[0].role !== 'seller') {
+      throw new Error('Only sellers can submit verification documents');
+    }
+
+    const status = await getVerificationStatus(userId);
+    if (status === 'verified') {
+      throw new Error('Seller is already verified');
+    }
+    if (status === 'pending') {
+      throw new Error('A verification submission is already under review');
+    }
+
+    // Validate every file before anything is stored
+    const decoded = input.documents.map(document => ({ document, data: decodeDocument(document) }));
+
+    const submissionId = randomUUID();
+    const blobStore = getBlobStore();
+    const documentRows: Array<typeof kycDocumentsTable.$inferInsert> = [];
+    for (const { document, data } of decoded) {
+      const documentId = randomUUID();
+      const storage_key = `kyc/${userId}/${submissionId}/${documentId}`;
+      await blobStore.put(storage_key, data);
+      storedKeys.push(storage_key);
+
+      documentRows.push({
+        id: documentId,
+        submission_id: submissionId,
+        document_type: document.document_type,
+        file_name: document.file_name,
+        content_type: document.content_type,
+        size_bytes: data.length,
+        storage_key
+      });
+    }
+
+    const submission = await db.transaction(async (tx) => {
+      const result = await tx.insert(kycSubmissionsTable)
+        .values({ id: submissionId, user_id: userId })
+        .returning()
+        .execute();
+
+      await tx.insert(kycDocumentsTable).values(documentRows).execute();
+
+      await applyVerificationStatus(tx, userId, 'pending', {
+        submissionId,
+        changedBy: null,
+        reason: null
+      });
+
+      return result[0];
+    });
+
+    const [withDocuments] = await attachDocuments([submission]);
+    return withDocuments;
+  } catch (error) {
+    // Do not leave orphaned files behind when the submission was not recorded
+    await Promise.all(storedKeys.map(key => getBlobStore().delete(key).catch(() => undefined)));
+    console.error('KYC submission failed:', error);
+    throw error;
+  }
+}
+
+export async function getMyVerification(userId: string): Promise<MyVerificationResponse> {
+  try {
+    const submissions = await db.select()
+      .from(kycSubmissionsTable)
+      .where(eq(kycSubmissionsTable.user_id, userId))
+      .orderBy(desc(kycSubmissionsTable.created_at))
+      .limit(1)
+      .execute();
+
+    const history = await db.select()
+      .from(verificationStatusHistoryTable)
+      .where(eq(verificationStatusHistoryTable.user_id, userId))
+      .orderBy(desc(verificationStatusHistoryTable.created_at))
+      .execute();
+
+    const [submission] = await attachDocuments(submissions);
+
+    return {
+      status: await getVerificationStatus(userId),
+      submission: submission ?? null,
+      history
+    };
+  } catch (error) {
+    console.error('Verification lookup failed:', error);
+    throw error;
+  }
+}
+
+export async function listKycSubmissions(
+  input: ListKycSubmissionsInput,
+  adminId: string
+): Promise<{
+  items: KycSubmission[];
+  total: number;
+  page: number;
+  page_size: number;
+  total_pages: number;
+}> {
+  try {
+    await assertAdmin(adminId);
+
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.status) {
+      conditions.push(eq(kycSubmissionsTable.status, input.status));
+    }
+
+    const whereCondition = conditions.length === 0 ? undefined : and(...conditions);
+
+    const totalResult = await db.select({ count: count() })
+      .from(kycSubmissionsTable)
+      .where(whereCondition)
+      .execute();
+
+    const total = totalResult[0].count;
+    const page_size = 20; // Fixed page size for admin
+    const offset = (input.page - 1) * page_size;
+
+    // Oldest first so the queue is worked in order
+    const submissions = await db.select()
+      .from(kycSubmissionsTable)
+      .where(whereCondition)
+      .orderBy(kycSubmissionsTable.created_at)
+      .limit(page_size)
+      .offset(offset)
+      .execute();
+
+    return {
+      items: await attachDocuments(submissions),
+      total,
+      page: input.page,
+      page_size,
+      total_pages: Math.ceil(total / page_size)
+    };
+  } catch (error) {
+    console.error('KYC submission listing failed:', error);
+    throw error;
+  }
+}
+
+export async function getKycDocument(documentId: string, adminId: string): Promise<KycDocumentContent> {
+  try {
+    await assertAdmin(adminId);
+
+    const documents = await db.select()
+      .from(kycDocumentsTable)
+      .where(eq(kycDocumentsTable.id, documentId))
+      .execute();
+
+    if (documents.length === 0) {
+      throw new Error('Document not found');
+    }
+
+    const data = await getBlobStore().get(documents[0].storage_key);
+    if (!data) {
+      throw new Error('Document file is missing from storage');
+    }
+
+    return {
+      file_name: documents[0].file_name,
+      content_type: documents[0].content_type,
+      data_base64: data.toString('base64')
+    };
+  } catch (error) {
+    console.error('KYC document download failed:', error);
+    throw error;
+  }
+}
+
+export async function reviewKycSubmission(
+  input: ReviewKycSubmissionInput,
+  adminId: string
+): Promise<KycSubmission> {
+  try {
+    await assertAdmin(adminId);
+
+    const approved = input.decision === 'approve';
+    const reason = input.reason?.trim() || null;
+
+    const submission = await db.transaction(async (tx) => {
+      // Only a pending submission can be decided, and only once
+      const updated = await tx.update(kycSubmissionsTable)
+        .set({
+          status: approved ? 'approved' : 'rejected',
+          reviewed_by: adminId,
+          review_reason: reason,
+          reviewed_at: new Date()
+        })
+        .where(and(
+          eq(kycSubmissionsTable.id, input.submission_id),
+          eq(kycSubmissionsTable.status, 'pending')
+        ))
+        .returning()
+        .execute();
+
+      if (updated.length === 0) {
+        throw new Error('Submission not found or already reviewed');
+      }
+
+      // A rejected seller goes back to 'none' and may submit again
+      await applyVerificationStatus(tx, updated[0].user_id, approved ? 'verified' : 'none', {
+        submissionId: updated[0].id,
+        changedBy: adminId,
+        reason
+      });
+
+      return updated[0];
+    });
+
+    const [withDocuments] = await attachDocuments([submission]);
+    return withDocuments;
+  } catch (error) {
+    console.error('KYC review failed:', error);
+    throw error;
+  }
+}
+
+// Policy checks used by the seller and payout handlers
+
+export async function assertVerifiedForPayouts(userId: string): Promise<void> {
+  if (await getVerificationStatus(userId) !== 'verified') {
+    throw new Error('Seller verification is required before requesting payouts');
+  }
+}
+
+// Call before a listing becomes available; the listing itself must not be counted yet
+export async function assertCanPublishListing(sellerId: string): Promise<void> {
+  if (await getVerificationStatus(sellerId) === 'verified') {
+    return;
+  }
+
+  const live = await db.select({ count: count() })
+    .from(listingsTable)
+    .where(and(
+      eq(listingsTable.seller_id, sellerId),
+      eq(listingsTable.status, 'available')
+    ))
+    .execute();
+
+  if (live[0].count >= UNVERIFIED_LISTING_LIMIT) {
+    throw new Error(`Unverified sellers can have at most ${UNVERIFIED_LISTING_LIMIT} live listings. Complete verification to list more.`);
+  }
+}
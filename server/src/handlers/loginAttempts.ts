@@ -0,0 +1,94 @@
+import { db } from '../db';
+import { loginAttemptsTable } from '../db/schema';
+import { type RequestMeta } from '../schema';
+import {
+  getLockoutStore,
+  lockedUntil,
+  ACCOUNT_LOCKOUT_POLICY,
+  IP_LOCKOUT_POLICY
+} from '../lib/lockout';
+
+type LoginAttemptResult = typeof loginAttemptsTable.$inferInsert['result'];
+
+// Wrong passwords and lockouts are expected outcomes: they are audited in
+// login_attempts, so callers can skip logging them as server errors
+export class LoginRejectedError extends Error {}
+
+export function accountLockoutKey(email: string): string {
+  return `account:${email.trim().toLowerCase()}`;
+}
+
+function ipLockoutKey(ipAddress: string): string {
+  return `ip:${ipAddress}`;
+}
+
+async function recordAttempt(
+  email: string,
+  userId: string | null,
+  meta: RequestMeta,
+  result: LoginAttemptResult
+): Promise<void> {
+  await db.insert(loginAttemptsTable)
+    .values({
+      email,
+      user_id: userId,
+      ip_address: meta.ip_address,
+      user_agent: meta.user_agent,
+      result
+    })
+    .execute();
+}
+
+// Throws while either the account or the client address is locked out
+export async function assertLoginAllowed(
+  email: string,
+  userId: string | null,
+  meta: RequestMeta
+): Promise<void> {
+  const store = getLockoutStore();
+  const now = new Date();
+
+  const locks = [
+    lockedUntil(await store.get(accountLockoutKey(email)), ACCOUNT_LOCKOUT_POLICY, now)
+  ];
+  if (meta.ip_address) {
+    locks.push(lockedUntil(await store.get(ipLockoutKey(meta.ip_address)), IP_LOCKOUT_POLICY, now));
+  }
+
+  const until = locks.reduce<Date | null>((latest, lock) =>
+    lock && (!latest || lock > latest) ? lock : latest, null);
+
+  if (until) {
+    await recordAttempt(email, userId, meta, 'locked');
+    const seconds = Math.ceil((until.getTime() - now.getTime()) / 1000);
+    throw new LoginRejectedError(`Too many failed sign-in attempts. Try again in ${seconds} seconds`);
+  }
+}
+
+export async function recordLoginFailure(
+  email: string,
+  userId: string | null,
+  meta: RequestMeta,
+  result: 'invalid_credentials' | 'invalid_two_factor'
+): Promise<void> {
+  const store = getLockoutStore();
+  const now = new Date();
+
+  await store.recordFailure(accountLockoutKey(email), now, ACCOUNT_LOCKOUT_POLICY.windowSeconds);
+  if (meta.ip_address) {
+    await store.recordFailure(ipLockoutKey(meta.ip_address), now, IP_LOCKOUT_POLICY.windowSeconds);
+  }
+
+  await recordAttempt(email, userId, meta, result);
+}
+
+// Only the account counter is cleared; one good login must not reset an
+// address that is guessing passwords for other accounts
+export async function recordLoginSuccess(
+  email: string,
+  userId: string,
+  meta: RequestMeta
+): Promise<void> {
+  await getLockoutStore().reset(accountLockoutKey(email));
+  await recordAttempt(email, userId, meta, 'success');
+}
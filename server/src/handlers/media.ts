@@ -0,0 +1,206 @@
+import { randomUUID } from 'crypto';
+import { db } from '../db';
+import { listingsTable, listingMediaTable } from '../db/schema';
+import {
+  type UploadListingMediaInput,
+  type ReorderListingMediaInput,
+  type DeleteListingMediaInput,
+  type ListingMedia,
+  LISTING_MEDIA_MAX_BYTES,
+  LISTING_MEDIA_MAX_PER_LISTING
+} from '../schema';
+import { getBlobStore } from '../lib/blobStorage';
+import { processListingImage } from '../lib/images';
+import { toListingMedia } from './catalog';
+import { eq, and, asc, or, count } from 'drizzle-orm';
+
+type ListingMediaRow = typeof listingMediaTable.$inferSelect;
+
+// Leading bytes of each accepted image type; WebP is a RIFF container with a WEBP tag at offset 8
+const IMAGE_SIGNATURES: Record<UploadListingMediaInput['content_type'], Array<{ offset: number; bytes: number[] }>> = {
+  'image/jpeg': [{ offset: 0, bytes: [0xff, 0xd8, 0xff] }],
+  'image/png': [{ offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] }],
+  'image/webp': [
+    { offset: 0, bytes: [0x52, 0x49, 0x46, 0x46] },
+    { offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] }
+  ]
+};
+
+function decodeImage(input: UploadListingMediaInput): Buffer {
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(input.data_base64)) {
+    throw new Error('Image is not valid base64');
+  }
+
+  const data = Buffer.from(input.data_base64, 'base64');
+  if (data.length > LISTING_MEDIA_MAX_BYTES) {
+    throw new Error(`Image is larger than ${LISTING_MEDIA_MAX_BYTES / 1024 / 1024} MB`);
+  }
+
+  const signature = IMAGE_SIGNATURES[input.content_type];
+  if (!signature.every(({ offset, bytes }) => bytes.every((byte, index) => data[offset + index] === byte))) {
+    throw new Error(`Image does not look like ${input.content_type}`);
+  }
+
+  return data;
+}
+
+async function assertListingOwner(listingId: string, sellerId: string): Promise<void> {
+  const listing = await db.select({ id: listingsTable.id })
+    .from(listingsTable)
+    .where(and(
+      eq(listingsTable.id, listingId),
+      eq(listingsTable.seller_id, sellerId)
+    ))
+    .execute();
+
+  if (listing.length === 0) {
+    throw new Error('Listing not found or access denied');
+  }
+}
+
+async function listingMedia(listingId: string): Promise<ListingMediaRow[]> {
+  return db.select()
+    .from(listingMediaTable)
+    .where(eq(listingMediaTable.listing_id, listingId))
+    .orderBy(asc(listingMediaTable.position), asc(listingMediaTable.created_at))
+    .execute();
+}
+
+// Keeps positions contiguous from zero after an image is added, removed or moved
+async function renumber(mediaIds: string[]): Promise<void> {
+  await db.transaction(async (tx) => {
+    for (const [position, mediaId] of mediaIds.entries()) {
+      await tx.update(listingMediaTable)
+        .set({ position })
+        .where(eq(listingMediaTable.id, mediaId))
+        .execute();
+    }
+  });
+}
+
+export async function uploadListingMedia(input: UploadListingMediaInput, sellerId: string): Promise<ListingMedia> {
+  try {
+    const data = decodeImage(input);
+    await assertListingOwner(input.listing_id, sellerId);
+
+    const existing = await db.select({ count: count() })
+      .from(listingMediaTable)
+      .where(eq(listingMediaTable.listing_id, input.listing_id))
+      .execute();
+
+    if (existing[0].count >= LISTING_MEDIA_MAX_PER_LISTING) {
+      throw new Error(`A listing can have at most ${LISTING_MEDIA_MAX_PER_LISTING} images`);
+    }
+
+    const { image, thumbnail } = await processListingImage(data);
+
+    // Keys are never reused, so served files can be cached indefinitely
+    const mediaId = randomUUID();
+    const storageKey = `listing-media/${input.listing_id}/${mediaId}.webp`;
+    const thumbnailKey = `listing-media/${input.listing_id}/${mediaId}-thumb.webp`;
+
+    const blobs = getBlobStore();
+    await blobs.put(storageKey, image.data);
+    await blobs.put(thumbnailKey, thumbnail.data);
+
+    try {
+      const result = await db.insert(listingMediaTable)
+        .values({
+          id: mediaId,
+          listing_id: input.listing_id,
+          storage_key: storageKey,
+          thumbnail_key: thumbnailKey,
+          content_type: image.content_type,
+          width: image.width,
+          height: image.height,
+          size_bytes: image.data.length,
+          position: existing[0].count
+        })
+        .returning()
+        .execute();
+
+      return toListingMedia(result[0]);
+    } catch (error) {
+      await blobs.delete(storageKey);
+      await blobs.delete(thumbnailKey);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Listing media upload failed:', error);
+    throw error;
+  }
+}
+
+export async function reorderListingMedia(input: ReorderListingMediaInput, sellerId: string): Promise<ListingMedia[]> {
+  try {
+    await assertListingOwner(input.listing_id, sellerId);
+
+    const current = await listingMedia(input.listing_id);
+    const requested = new Set(input.media_ids);
+    if (
+      requested.size !== input.media_ids.length ||
+      requested.size !== current.length ||
+      !current.every(row => requested.has(row.id))
+    ) {
+      throw new Error('The new order must list every image of the listing exactly once');
+    }
+
+    await renumber(input.media_ids);
+
+    return (await listingMedia(input.listing_id)).map(toListingMedia);
+  } catch (error) {
+    console.error('Listing media reorder failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteListingMedia(input: DeleteListingMediaInput, sellerId: string): Promise<void> {
+  try {
+    const media = await db.select({ media: listingMediaTable })
+      .from(listingMediaTable)
+      .innerJoin(listingsTable, eq(listingMediaTable.listing_id, listingsTable.id))
+      .where(and(
+        eq(listingMediaTable.id, input.media_id),
+        eq(listingsTable.seller_id, sellerId)
+      ))
+      .execute();
+
+    if (media.length === 0) {
+      throw new Error('Image not found or access denied');
+    }
+
+    const { listing_id, storage_key, thumbnail_key } = media[0].media;
+
+    await db.delete(listingMediaTable)
+      .where(eq(listingMediaTable.id, input.media_id))
+      .execute();
+
+    const blobs = getBlobStore();
+    await blobs.delete(storage_key);
+    await blobs.delete(thumbnail_key);
+
+    await renumber((await listingMedia(listing_id)).map(row => row.id));
+  } catch (error) {
+    console.error('Listing media removal failed:', error);
+    throw error;
+  }
+}
+
+// Looks up a file for the public media route; only keys belonging to listing
+// images resolve, so other blobs such as KYC documents are never served
+export async function getListingMediaFile(key: string): Promise<{ data: Buffer; content_type: string } | null> {
+  const media = await db.select()
+    .from(listingMediaTable)
+    .where(or(
+      eq(listingMediaTable.storage_key, key),
+      eq(listingMediaTable.thumbnail_key, key)
+    ))
+    .execute();
+
+  if (media.length === 0) {
+    return null;
+  }
+
+  const data = await getBlobStore().get(key);
+  return data ? { data, content_type: media[0].content_type } : null;
+}
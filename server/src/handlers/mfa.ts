@@ -0,0 +1,238 @@
+import { randomBytes } from 'crypto';
+import { db } from '../db';
+import { usersTable, twoFactorTable, recoveryCodesTable, sessionsTable } from '../db/schema';
+import {
+  type TwoFactorSetupResponse,
+  type TwoFactorCodeInput,
+  type RecoveryCodesResponse,
+  type RequestMeta
+} from '../schema';
+import { generateTotpSecret, verifyTotp, buildOtpAuthUri } from '../lib/totp';
+import { hashOpaqueToken } from '../lib/tokens';
+import { assertLoginAllowed, recordLoginFailure, LoginRejectedError } from './loginAttempts';
+import { eq, and, isNull, or, lt } from 'drizzle-orm';
+
+const TOTP_ISSUER = 'AccsMarket';
+const RECOVERY_CODE_COUNT = 10;
+
+// Recovery codes are shown as xxxx-xxxx-xxxx-xxxx but compared without dashes or case
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+    randomBytes(8).toString('hex').match(/.{4}/g)!.join('-')
+  );
+
+  await db.delete(recoveryCodesTable)
+    .where(eq(recoveryCodesTable.user_id, userId))
+    .execute();
+
+  await db.insert(recoveryCodesTable)
+    .values(codes.map(code => ({
+      user_id: userId,
+      code_hash: hashOpaqueToken(normalizeRecoveryCode(code))
+    })))
+    .execute();
+
+  return codes;
+}
+
+async function getTwoFactor(userId: string) {
+  const rows = await db.select()
+    .from(twoFactorTable)
+    .where(eq(twoFactorTable.user_id, userId))
+    .execute();
+
+  return rows[0] ?? null;
+}
+
+// Accepts a current TOTP code or an unused recovery code. Each TOTP step and
+// each recovery code can be used only once.
+export async function verifyTwoFactorCode(userId: string, code: string): Promise<boolean> {
+  const twoFactor = await getTwoFactor(userId);
+  if (!twoFactor || !twoFactor.enabled_at) {
+    return false;
+  }
+
+  const step = verifyTotp(twoFactor.secret, code);
+  if (step !== null) {
+    const accepted = await db.update(twoFactorTable)
+      .set({ last_used_step: step })
+      .where(and(
+        eq(twoFactorTable.id, twoFactor.id),
+        or(
+          isNull(twoFactorTable.last_used_step),
+          lt(twoFactorTable.last_used_step, step)
+        )
+      ))
+      .returning()
+      .execute();
+
+    return accepted.length > 0;
+  }
+
+  const consumed = await db.update(recoveryCodesTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(recoveryCodesTable.user_id, userId),
+      eq(recoveryCodesTable.code_hash, hashOpaqueToken(normalizeRecoveryCode(code))),
+      isNull(recoveryCodesTable.used_at)
+    ))
+    .returning()
+    .execute();
+
+  return consumed.length > 0;
+}
+
+// For signed-in changes to 2FA: a stolen session must not be able to guess
+// codes, so failures count against the same lockouts as the sign-in challenge
+async function assertTwoFactorCode(userId: string, code: string, meta: RequestMeta): Promise<void> {
+  const users = await db.select({ email: usersTable.email })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error('User not found');
+  }
+
+  await assertLoginAllowed(users[0].email, userId, meta);
+
+  if (!await verifyTwoFactorCode(userId, code)) {
+    await recordLoginFailure(users[0].email, userId, meta, 'invalid_two_factor');
+    throw new LoginRejectedError('Invalid two-factor code');
+  }
+}
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  const twoFactor = await getTwoFactor(userId);
+  return twoFactor !== null && twoFactor.enabled_at !== null;
+}
+
+export async function beginTwoFactorSetup(userId: string): Promise<TwoFactorSetupResponse> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const existing = await getTwoFactor(userId);
+    if (existing?.enabled_at) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    // Starting over discards any secret that was never confirmed
+    if (existing) {
+      await db.delete(twoFactorTable)
+        .where(eq(twoFactorTable.id, existing.id))
+        .execute();
+    }
+
+    const secret = generateTotpSecret();
+    await db.insert(twoFactorTable)
+      .values({ user_id: userId, secret })
+      .execute();
+
+    return {
+      secret,
+      otpauth_uri: buildOtpAuthUri(secret, users[0].email, TOTP_ISSUER)
+    };
+  } catch (error) {
+    console.error('Two-factor setup failed:', error);
+    throw error;
+  }
+}
+
+export async function confirmTwoFactorSetup(
+  input: TwoFactorCodeInput,
+  userId: string,
+  sessionId: string
+): Promise<RecoveryCodesResponse> {
+  try {
+    const twoFactor = await getTwoFactor(userId);
+    if (!twoFactor) {
+      throw new Error('Two-factor setup has not been started');
+    }
+
+    if (twoFactor.enabled_at) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const step = verifyTotp(twoFactor.secret, input.code);
+    if (step === null) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    await db.update(twoFactorTable)
+      .set({
+        enabled_at: new Date(),
+        last_used_step: step
+      })
+      .where(eq(twoFactorTable.id, twoFactor.id))
+      .execute();
+
+    // Confirming a code proves possession, so the current session counts as verified
+    await db.update(sessionsTable)
+      .set({ two_factor_verified_at: new Date() })
+      .where(and(
+        eq(sessionsTable.id, sessionId),
+        eq(sessionsTable.user_id, userId)
+      ))
+      .execute();
+
+    const recovery_codes = await replaceRecoveryCodes(userId);
+    return { recovery_codes };
+  } catch (error) {
+    console.error('Two-factor confirmation failed:', error);
+    throw error;
+  }
+}
+
+export async function regenerateRecoveryCodes(
+  input: TwoFactorCodeInput,
+  userId: string,
+  meta: RequestMeta
+): Promise<RecoveryCodesResponse> {
+  try {
+    await assertTwoFactorCode(userId, input.code, meta);
+
+    const recovery_codes = await replaceRecoveryCodes(userId);
+    return { recovery_codes };
+  } catch (error) {
+    if (!(error instanceof LoginRejectedError)) {
+      console.error('Recovery code regeneration failed:', error);
+    }
+    throw error;
+  }
+}
+
+export async function disableTwoFactor(input: TwoFactorCodeInput, userId: string, meta: RequestMeta): Promise<void> {
+  try {
+    await assertTwoFactorCode(userId, input.code, meta);
+
+    await db.delete(recoveryCodesTable)
+      .where(eq(recoveryCodesTable.user_id, userId))
+      .execute();
+
+    await db.delete(twoFactorTable)
+      .where(eq(twoFactorTable.user_id, userId))
+      .execute();
+
+    // A later re-enrolment must not find sessions still marked as verified
+    await db.update(sessionsTable)
+      .set({ two_factor_verified_at: null })
+      .where(eq(sessionsTable.user_id, userId))
+      .execute();
+  } catch (error) {
+    if (!(error instanceof LoginRejectedError)) {
+      console.error('Disabling two-factor failed:', error);
+    }
+    throw error;
+  }
+}
@@ -4,28 +4,53 @@ import {
   usersTable, 
   listingsTable, 
   listingSecurePayloadsTable,
-  transactionsTable 
+  credentialAccessLogTable,
+  orderSealedPayloadsTable
 } from '../db/schema';
 import { 
   type Order, 
   type AcknowledgeDeliveryInput,
-  type PaginationInput 
+  type CursorPaginationInput,
+  type RevealCredentialsInput,
+  type RevealedCredentials,
+  type CredentialAccessLogInput,
+  type CredentialAccessLogEntry,
+  type RequestMeta
 } from '../schema';
-import { eq, and, count, desc, SQL } from 'drizzle-orm';
+import { keysetOrderBy, keysetCursorValues, keysetAfter, takePage, type SortKey } from '../lib/keyset';
+import { decryptPayload } from '../lib/payloadEncryption';
+import { verifyPassword } from '../lib/passwords';
+import { eq, and, gt, count, desc, SQL } from 'drizzle-orm';
+
+// Newest first, with the id as tie-breaker for keyset paging
+const MY_ORDERS_SORT = 'newest';
+const myOrdersSortKeys: SortKey[] = [
+  { expression: ordersTable.created_at, direction: 'desc', type: 'timestamp' },
+  { expression: ordersTable.id, direction: 'asc', type: 'uuid' }
+];
+
+// Order states in which the buyer has paid and may read the purchased credentials
+export const CREDENTIAL_ORDER_STATUSES: Order['status'][] = ['paid', 'delivered', 'complete'];
+
+// Reveal attempts a buyer may make per window, across all of their orders
+export const CREDENTIAL_REVEAL_LIMIT = Number(process.env['CREDENTIAL_REVEAL_LIMIT'] || 5);
+export const CREDENTIAL_REVEAL_WINDOW_MINUTES = Number(process.env['CREDENTIAL_REVEAL_WINDOW_MINUTES'] || 60);
+export const CREDENTIAL_REVEAL_REQUIRE_PASSWORD = process.env['CREDENTIAL_REVEAL_REQUIRE_PASSWORD'] !== 'false';
 
 export async function getMyOrders(
-  input: { status?: string; page: number }, 
+  input: { status?: string; page: number } & CursorPaginationInput, 
   buyerId: string
 ): Promise<{
   items: Order[];
-  total: number;
+  total: number | null;
   page: number;
   page_size: number;
-  total_pages: number;
+  total_pages: number | null;
+  next_cursor: string | null;
 }> {
   try {
     const page_size = 20;
-    const offset = (input.page - 1) * page_size;
+    const offset = input.cursor ? 0 : (input.page - 1) * page_size;
     
     // Build conditions array
     const conditions: SQL<unknown>[] = [eq(ordersTable.buyer_id, buyerId)];
@@ -34,24 +59,34 @@ export async function getMyOrders(
       conditions.push(eq(ordersTable.status, input.status as any));
     }
 
+    const pageConditions = input.cursor
+      ? [...conditions, keysetAfter(myOrdersSortKeys, MY_ORDERS_SORT, input.cursor)]
+      : conditions;
+
     // Execute main query
-    const results = await db.select()
+    const results = await db.select({ orders: ordersTable, cursor_values: keysetCursorValues(myOrdersSortKeys) })
       .from(ordersTable)
       .innerJoin(listingsTable, eq(ordersTable.listing_id, listingsTable.id))
-      .where(conditions.length === 1 ? conditions[0] : and(...conditions))
-      .orderBy(desc(ordersTable.created_at))
-      .limit(page_size)
+      .where(and(...pageConditions))
+      .orderBy(...keysetOrderBy(myOrdersSortKeys))
+      .limit(page_size + 1)
       .offset(offset)
       .execute();
 
-    // Get total count
-    const [{ count: total }] = await db.select({ count: count() })
-      .from(ordersTable)
-      .where(conditions.length === 1 ? conditions[0] : and(...conditions))
-      .execute();
+    const { rows, next_cursor } = takePage(results, page_size, MY_ORDERS_SORT);
+
+    // Get total count unless the caller opted out
+    let total: number | null = null;
+    if (input.include_total !== false) {
+      const [{ count: orderCount }] = await db.select({ count: count() })
+        .from(ordersTable)
+        .where(and(...conditions))
+        .execute();
+      total = orderCount;
+    }
 
     // Transform results
-    const items: Order[] = results.map(result => ({
+    const items: Order[] = rows.map(result => ({
       id: result.orders.id,
       buyer_id: result.orders.buyer_id,
       listing_id: result.orders.listing_id,
@@ -59,18 +94,18 @@ export async function getMyOrders(
       currency: result.orders.currency,
       status: result.orders.status,
       expires_at: result.orders.expires_at,
+      buyer_public_key: result.orders.buyer_public_key,
       created_at: result.orders.created_at,
       updated_at: result.orders.updated_at
     }));
 
-    const total_pages = Math.ceil(total / page_size);
-
     return {
       items,
       total,
       page: input.page,
       page_size,
-      total_pages
+      total_pages: total === null ? null : Math.ceil(total / page_size),
+      next_cursor
     };
   } catch (error) {
     console.error('Failed to get orders:', error);
@@ -78,15 +113,12 @@ export async function getMyOrders(
   }
 }
 
-export async function getOrder(orderId: string, userId: string, userRole: string): Promise<Order & {
-  decryptedCredentials?: string;
-}> {
+export async function getOrder(orderId: string, userId: string, userRole: string): Promise<Order> {
   try {
     // Fetch order with related data
     const results = await db.select()
       .from(ordersTable)
       .innerJoin(listingsTable, eq(ordersTable.listing_id, listingsTable.id))
-      .leftJoin(listingSecurePayloadsTable, eq(listingsTable.id, listingSecurePayloadsTable.listing_id))
       .where(eq(ordersTable.id, orderId))
       .execute();
 
@@ -107,8 +139,8 @@ export async function getOrder(orderId: string, userId: string, userRole: string
       throw new Error('Access denied');
     }
 
-    // Build response object
-    const orderResponse: Order & { decryptedCredentials?: string } = {
+    // Credentials are never part of the order; buyers fetch them with revealCredentials
+    return {
       id: order.id,
       buyer_id: order.buyer_id,
       listing_id: order.listing_id,
@@ -116,23 +148,165 @@ export async function getOrder(orderId: string, userId: string, userRole: string
       currency: order.currency,
       status: order.status,
       expires_at: order.expires_at,
+      buyer_public_key: order.buyer_public_key,
       created_at: order.created_at,
       updated_at: order.updated_at
     };
+  } catch (error) {
+    console.error('Failed to get order:', error);
+    throw error;
+  }
+}
 
-    // If buyer and order status is paid or higher, include decrypted credentials
-    if (isBuyer && ['paid', 'delivered', 'complete'].includes(order.status)) {
-      const securePayload = result.listing_secure_payloads;
-      if (securePayload) {
-        // In a real implementation, you would decrypt the cipher_text using the nonce
-        // For this example, we'll just indicate that credentials would be available
-        orderResponse.decryptedCredentials = `[ENCRYPTED_CREDENTIALS_FOR_LISTING_${listing.id}]`;
+// Checks the order's credentials can be handed over and returns how to do it.
+// End-to-end orders only ever get the sealed payload; the rest are decrypted here.
+function credentialOpener(
+  order: typeof ordersTable.$inferSelect,
+  securePayload: typeof listingSecurePayloadsTable.$inferSelect | null,
+  sealedPayload: typeof orderSealedPayloadsTable.$inferSelect | null
+): () => Promise<RevealedCredentials> {
+  if (order.buyer_public_key !== null) {
+    if (!sealedPayload) {
+      throw new Error('The seller has not handed off the credentials yet');
+    }
+    const { ephemeral_public_key, nonce, cipher_text } = sealedPayload;
+    return async () => ({
+      encryption: 'buyer_key',
+      recipient_public_key: order.buyer_public_key!,
+      sealed_payload: { ephemeral_public_key, nonce, cipher_text }
+    });
+  }
+
+  if (!securePayload || securePayload.auth_tag === null || securePayload.wrapped_key === null || securePayload.key_version === null) {
+    if (securePayload) {
+      console.error(`Secure payload of listing ${order.listing_id} predates envelope encryption and cannot be decrypted`);
+    }
+    throw new Error('Credentials are not available for this order');
+  }
+  const { cipher_text, nonce, auth_tag, wrapped_key, key_version } = securePayload;
+  return async () => ({
+    encryption: 'server',
+    credentials: await decryptPayload({ cipher_text, nonce, auth_tag, wrapped_key, key_version }, order.listing_id)
+  });
+}
+
+// Hands the purchased credentials to the buyer of a paid order. Every
+// attempt is written to the access log, which also backs the rate limit, and
+// the buyer's password is asked for again unless the re-prompt is turned off.
+export async function revealCredentials(
+  input: RevealCredentialsInput,
+  buyerId: string,
+  meta: RequestMeta
+): Promise<RevealedCredentials> {
+  try {
+    const results = await db.select()
+      .from(ordersTable)
+      .leftJoin(listingSecurePayloadsTable, eq(ordersTable.id, listingSecurePayloadsTable.order_id))
+      .leftJoin(orderSealedPayloadsTable, eq(ordersTable.id, orderSealedPayloadsTable.order_id))
+      .where(and(
+        eq(ordersTable.id, input.order_id),
+        eq(ordersTable.buyer_id, buyerId)
+      ))
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error('Order not found or access denied');
+    }
+
+    const order = results[0].orders;
+    if (!CREDENTIAL_ORDER_STATUSES.includes(order.status)) {
+      throw new Error('Credentials are only available for paid orders');
+    }
+
+    const open = credentialOpener(order, results[0].listing_secure_payloads, results[0].order_sealed_payloads);
+
+    if (CREDENTIAL_REVEAL_REQUIRE_PASSWORD && !input.password) {
+      throw new Error('Password confirmation required');
+    }
+
+    const outcome = await db.transaction(async (tx) => {
+      // Locking the buyer serialises their reveals, so parallel requests cannot overrun the limit
+      const users = await tx.select({ password_hash: usersTable.password_hash })
+        .from(usersTable)
+        .where(eq(usersTable.id, buyerId))
+        .for('update')
+        .execute();
+
+      const cutoff = new Date(Date.now() - CREDENTIAL_REVEAL_WINDOW_MINUTES * 60 * 1000);
+      const [{ count: recent }] = await tx.select({ count: count() })
+        .from(credentialAccessLogTable)
+        .where(and(
+          eq(credentialAccessLogTable.user_id, buyerId),
+          gt(credentialAccessLogTable.created_at, cutoff)
+        ))
+        .execute();
+
+      if (recent >= CREDENTIAL_REVEAL_LIMIT) {
+        return { rateLimited: true as const };
       }
+
+      const passwordAccepted = !CREDENTIAL_REVEAL_REQUIRE_PASSWORD
+        || verifyPassword(input.password!, users[0].password_hash);
+
+      // Decrypt before logging a reveal; a payload that fails to decrypt rolls the attempt back
+      const revealed = passwordAccepted ? await open() : null;
+
+      await tx.insert(credentialAccessLogTable)
+        .values({
+          order_id: order.id,
+          user_id: buyerId,
+          result: passwordAccepted ? 'revealed' : 'password_rejected',
+          ip_address: meta.ip_address,
+          user_agent: meta.user_agent
+        })
+        .execute();
+
+      return { rateLimited: false as const, revealed };
+    });
+
+    if (outcome.rateLimited) {
+      throw new Error(`Too many credential requests. Try again in ${CREDENTIAL_REVEAL_WINDOW_MINUTES} minutes.`);
+    }
+
+    if (outcome.revealed === null) {
+      throw new Error('Invalid password');
     }
 
-    return orderResponse;
+    return outcome.revealed;
   } catch (error) {
-    console.error('Failed to get order:', error);
+    console.error('Credential reveal failed:', error);
+    throw error;
+  }
+}
+
+// Who asked for an order's credentials and from where, for the seller and admins handling a dispute
+export async function listCredentialAccessLog(
+  input: CredentialAccessLogInput,
+  userId: string,
+  userRole: string
+): Promise<CredentialAccessLogEntry[]> {
+  try {
+    const results = await db.select({ seller_id: listingsTable.seller_id })
+      .from(ordersTable)
+      .innerJoin(listingsTable, eq(ordersTable.listing_id, listingsTable.id))
+      .where(eq(ordersTable.id, input.order_id))
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error('Order not found');
+    }
+
+    if (userRole !== 'admin' && results[0].seller_id !== userId) {
+      throw new Error('Access denied');
+    }
+
+    return await db.select()
+      .from(credentialAccessLogTable)
+      .where(eq(credentialAccessLogTable.order_id, input.order_id))
+      .orderBy(desc(credentialAccessLogTable.created_at))
+      .execute();
+  } catch (error) {
+    console.error('Failed to list credential access log:', error);
     throw error;
   }
 }
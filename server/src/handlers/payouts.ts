@@ -5,6 +5,7 @@ import {
   type ProcessPayoutInput,
   type Payout 
 } from '../schema';
+import { assertVerifiedForPayouts } from './kyc';
 import { eq, and, sum, SQL } from 'drizzle-orm';
 
 export async function requestPayout(
@@ -22,6 +23,8 @@ export async function requestPayout(
       throw new Error('Seller not found');
     }
 
+    await assertVerifiedForPayouts(sellerId);
+
     // For this implementation, we'll simplify and allow any payout request
     // In a real implementation, you would properly calculate available balance 
     // by summing completed orders for listings owned by this seller minus existing payouts
@@ -11,6 +11,7 @@ import {
   type GetSellerReviewsInput,
   type Review 
 } from '../schema';
+import { keysetOrderBy, keysetCursorValues, keysetAfter, takePage, type SortKey } from '../lib/keyset';
 import { eq, desc, count, and, avg } from 'drizzle-orm';
 
 export async function createReview(
@@ -96,47 +97,64 @@ export async function createReview(
   }
 }
 
+// Newest first, with the id as tie-breaker for keyset paging
+const SELLER_REVIEWS_SORT = 'newest';
+const sellerReviewsSortKeys: SortKey[] = [
+  { expression: reviewsTable.created_at, direction: 'desc', type: 'timestamp' },
+  { expression: reviewsTable.id, direction: 'asc', type: 'uuid' }
+];
+
 export async function getSellerReviews(input: GetSellerReviewsInput): Promise<{
   items: Review[];
-  total: number;
+  total: number | null;
   page: number;
   page_size: number;
-  total_pages: number;
+  total_pages: number | null;
+  next_cursor: string | null;
 }> {
   try {
     const pageSize = 20; // Default page size from schema
-    const offset = (input.page - 1) * pageSize;
+    const offset = input.cursor ? 0 : (input.page - 1) * pageSize;
 
-    // Get total count of reviews for this seller
-    const totalQuery = await db.select({
-      count: count()
-    })
-    .from(reviewsTable)
-    .where(eq(reviewsTable.seller_id, input.seller_id))
-    .execute();
+    // Get total count of reviews for this seller unless the caller opted out
+    let total: number | null = null;
+    if (input.include_total !== false) {
+      const totalQuery = await db.select({
+        count: count()
+      })
+      .from(reviewsTable)
+      .where(eq(reviewsTable.seller_id, input.seller_id))
+      .execute();
+
+      total = totalQuery[0]?.count || 0;
+    }
 
-    const total = totalQuery[0]?.count || 0;
+    const conditions = [eq(reviewsTable.seller_id, input.seller_id)];
+    if (input.cursor) {
+      conditions.push(keysetAfter(sellerReviewsSortKeys, SELLER_REVIEWS_SORT, input.cursor));
+    }
 
     // Get paginated reviews ordered by creation date (newest first)
-    const reviews = await db.select()
+    const results = await db.select({ review: reviewsTable, cursor_values: keysetCursorValues(sellerReviewsSortKeys) })
       .from(reviewsTable)
-      .where(eq(reviewsTable.seller_id, input.seller_id))
-      .orderBy(desc(reviewsTable.created_at))
-      .limit(pageSize)
+      .where(and(...conditions))
+      .orderBy(...keysetOrderBy(sellerReviewsSortKeys))
+      .limit(pageSize + 1)
       .offset(offset)
       .execute();
 
-    const totalPages = Math.ceil(total / pageSize);
+    const { rows, next_cursor } = takePage(results, pageSize, SELLER_REVIEWS_SORT);
 
     return {
-      items: reviews,
+      items: rows.map(row => row.review),
       total,
       page: input.page,
       page_size: pageSize,
-      total_pages: totalPages
+      total_pages: total === null ? null : Math.ceil(total / pageSize),
+      next_cursor
     };
   } catch (error) {
     console.error('Fetching seller reviews failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,164 @@
+import { db } from '../db';
+import { usersTable, profilesTable, roleChangesTable } from '../db/schema';
+import {
+  type SetUserRoleInput,
+  type BootstrapAdminInput,
+  type RoleChange,
+  type User,
+  type UserRole
+} from '../schema';
+import { hashPassword } from '../lib/passwords';
+import { eq, count, desc, sql } from 'drizzle-orm';
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function assertAdmin(adminId: string): Promise<void> {
+  const admin = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, adminId))
+    .execute();
+
+  if (admin.length === 0 || admin[0].role !== 'admin') {
+    throw new Error('Unauthorized: Admin access required');
+  }
+}
+
+// Every write to usersTable.role goes through here so it lands in role_changes.
+// Runs inside the caller's transaction so the audit row and the change commit together.
+export async function applyRoleChange(
+  tx: DbTransaction,
+  userId: string,
+  toRole: UserRole,
+  changedBy: string | null,
+  reason: string | null
+): Promise<void> {
+  const users = await tx.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .for('update')
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error('User not found');
+  }
+
+  const fromRole = users[0].role;
+  if (fromRole === toRole) {
+    throw new Error(`User is already a ${toRole}`);
+  }
+
+  await tx.update(usersTable)
+    .set({ role: toRole, updated_at: new Date() })
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  await tx.insert(roleChangesTable)
+    .values({
+      user_id: userId,
+      from_role: fromRole,
+      to_role: toRole,
+      changed_by: changedBy,
+      reason
+    })
+    .execute();
+}
+
+export async function setUserRole(input: SetUserRoleInput, adminId: string): Promise<void> {
+  try {
+    await assertAdmin(adminId);
+
+    // An admin demoting themselves could leave nobody able to undo it
+    if (input.user_id === adminId) {
+      throw new Error('Admins cannot change their own role');
+    }
+
+    await db.transaction(async (tx) => {
+      await applyRoleChange(tx, input.user_id, input.role, adminId, input.reason ?? null);
+    });
+  } catch (error) {
+    console.error('Role change failed:', error);
+    throw error;
+  }
+}
+
+export async function listRoleChanges(userId: string, adminId: string): Promise<RoleChange[]> {
+  try {
+    await assertAdmin(adminId);
+
+    return await db.select()
+      .from(roleChangesTable)
+      .where(eq(roleChangesTable.user_id, userId))
+      .orderBy(desc(roleChangesTable.created_at))
+      .execute();
+  } catch (error) {
+    console.error('Role change history lookup failed:', error);
+    throw error;
+  }
+}
+
+// Creates the first admin, or promotes an existing account to it. Refuses to
+// run once any admin exists so it cannot be used to mint more.
+export async function bootstrapAdmin(input: BootstrapAdminInput): Promise<User> {
+  try {
+    return await db.transaction(async (tx) => {
+      // Serialises concurrent runs: the second one waits here, then sees the first admin
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('bootstrap_admin'))`);
+
+      const admins = await tx.select({ count: count() })
+        .from(usersTable)
+        .where(eq(usersTable.role, 'admin'))
+        .execute();
+
+      if (admins[0].count > 0) {
+        throw new Error('An admin already exists');
+      }
+
+      const existing = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.email, input.email))
+        .execute();
+
+      // An existing account keeps its password; the given one is only for new accounts
+      let userId: string;
+      if (existing.length > 0) {
+        userId = existing[0].id;
+      } else {
+        const created = await tx.insert(usersTable)
+          .values({
+            email: input.email,
+            password_hash: hashPassword(input.password),
+            role: 'buyer',
+            // The operator running the command vouches for the address
+            email_verified_at: new Date()
+          })
+          .returning()
+          .execute();
+        userId = created[0].id;
+
+        await tx.insert(profilesTable)
+          .values({ user_id: userId, rating: '0', verification_status: 'none' })
+          .execute();
+      }
+
+      await applyRoleChange(tx, userId, 'admin', null, 'Bootstrap admin');
+
+      const users = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      const user = users[0];
+      return {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        email_verified_at: user.email_verified_at,
+        created_at: user.created_at,
+        updated_at: user.updated_at
+      } as User;
+    });
+  } catch (error) {
+    console.error('Admin bootstrap failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,209 @@
+import { db } from '../db';
+import { savedSearchesTable, listingsTable, categoriesTable, profilesTable, usersTable } from '../db/schema';
+import { listingConditions } from './catalog';
+import {
+  type CreateSavedSearchInput,
+  type DeleteSavedSearchInput,
+  type SavedSearch,
+  savedSearchQuerySchema
+} from '../schema';
+import { getNotificationChannel } from '../lib/notifications';
+import { eq, and, ne, asc, desc, count, sql } from 'drizzle-orm';
+
+const SAVED_SEARCHES_PER_USER = 20;
+
+// A digest lists this many of the newest matches and counts the rest
+const DIGEST_LISTING_LIMIT = 10;
+
+const NIL_UUID = '00000000-0000-0000-0000-000000000000';
+
+type SavedSearchRow = typeof savedSearchesTable.$inferSelect;
+
+function toSavedSearch(row: SavedSearchRow): SavedSearch {
+  return {
+    id: row.id,
+    name: row.name,
+    query: savedSearchQuerySchema.parse(row.query),
+    last_run_at: row.last_run_at,
+    created_at: row.created_at
+  };
+}
+
+// The high-water mark starts when the search is saved, so only listings
+// created afterwards are ever sent
+export async function createSavedSearch(input: CreateSavedSearchInput, userId: string): Promise<SavedSearch> {
+  try {
+    const existing = await db.select({ name: savedSearchesTable.name })
+      .from(savedSearchesTable)
+      .where(eq(savedSearchesTable.user_id, userId))
+      .execute();
+
+    if (existing.length >= SAVED_SEARCHES_PER_USER) {
+      throw new Error(`You can save at most ${SAVED_SEARCHES_PER_USER} searches`);
+    }
+
+    if (existing.some(search => search.name === input.name)) {
+      throw new Error('A saved search with this name already exists');
+    }
+
+    const result = await db.insert(savedSearchesTable)
+      .values({
+        user_id: userId,
+        name: input.name,
+        query: savedSearchQuerySchema.parse(input.query)
+      })
+      .returning()
+      .execute();
+
+    return toSavedSearch(result[0]);
+  } catch (error) {
+    console.error('Saved search creation failed:', error);
+    throw error;
+  }
+}
+
+export async function listSavedSearches(userId: string): Promise<SavedSearch[]> {
+  try {
+    const rows = await db.select()
+      .from(savedSearchesTable)
+      .where(eq(savedSearchesTable.user_id, userId))
+      .orderBy(desc(savedSearchesTable.created_at), desc(savedSearchesTable.id))
+      .execute();
+
+    return rows.map(toSavedSearch);
+  } catch (error) {
+    console.error('Failed to list saved searches:', error);
+    throw error;
+  }
+}
+
+export async function deleteSavedSearch(input: DeleteSavedSearchInput, userId: string): Promise<void> {
+  try {
+    const deleted = await db.delete(savedSearchesTable)
+      .where(and(
+        eq(savedSearchesTable.id, input.saved_search_id),
+        eq(savedSearchesTable.user_id, userId)
+      ))
+      .returning({ id: savedSearchesTable.id })
+      .execute();
+
+    if (deleted.length === 0) {
+      throw new Error('Saved search not found');
+    }
+  } catch (error) {
+    console.error('Saved search removal failed:', error);
+    throw error;
+  }
+}
+
+// Sends one search's digest of listings created past its high-water mark and
+// moves the mark to the newest of them. The notification goes out before the
+// transaction commits: a failed delivery leaves the mark in place to retry on
+// the next run, and a sent digest is never followed by the same listings again.
+async function runSavedSearchDigest(savedSearchId: string): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    // Concurrent runs, e.g. from a second server, skip searches already being processed
+    const locked = await tx.select({ search: savedSearchesTable, email: usersTable.email })
+      .from(savedSearchesTable)
+      .innerJoin(usersTable, eq(savedSearchesTable.user_id, usersTable.id))
+      .where(eq(savedSearchesTable.id, savedSearchId))
+      .for('update', { of: savedSearchesTable, skipLocked: true })
+      .execute();
+
+    if (locked.length === 0) {
+      return false;
+    }
+
+    const { search, email } = locked[0];
+
+    // The mark is read in SQL; a round trip through Date would drop microseconds
+    // and let the newest listing match again
+    const conditions = [
+      ...listingConditions(savedSearchQuerySchema.parse(search.query)),
+      ne(listingsTable.seller_id, search.user_id),
+      sql`(${listingsTable.created_at}, ${listingsTable.id}) > (
+        select ${savedSearchesTable.high_water_created_at}, coalesce(${savedSearchesTable.high_water_listing_id}, ${NIL_UUID}::uuid)
+        from ${savedSearchesTable}
+        where ${savedSearchesTable.id} = ${search.id}
+      )`
+    ];
+
+    const matches = await tx.select({
+      id: listingsTable.id,
+      title: listingsTable.title,
+      price_cents: listingsTable.price_cents,
+      currency: listingsTable.currency
+    })
+      .from(listingsTable)
+      .innerJoin(categoriesTable, eq(listingsTable.category_id, categoriesTable.id))
+      .leftJoin(profilesTable, eq(listingsTable.seller_id, profilesTable.user_id))
+      .where(and(...conditions))
+      .orderBy(desc(listingsTable.created_at), desc(listingsTable.id))
+      .limit(DIGEST_LISTING_LIMIT)
+      .execute();
+
+    if (matches.length === 0) {
+      await tx.update(savedSearchesTable)
+        .set({ last_run_at: new Date() })
+        .where(eq(savedSearchesTable.id, search.id))
+        .execute();
+      return false;
+    }
+
+    const total = await tx.select({ count: count() })
+      .from(listingsTable)
+      .innerJoin(categoriesTable, eq(listingsTable.category_id, categoriesTable.id))
+      .leftJoin(profilesTable, eq(listingsTable.seller_id, profilesTable.user_id))
+      .where(and(...conditions))
+      .execute();
+
+    // Listings past the digest limit are counted but not sent later, so the mark jumps to the newest match
+    const newest = matches[0];
+    await tx.update(savedSearchesTable)
+      .set({
+        high_water_created_at: sql`(select ${listingsTable.created_at} from ${listingsTable} where ${listingsTable.id} = ${newest.id})`,
+        high_water_listing_id: newest.id,
+        last_run_at: new Date()
+      })
+      .where(eq(savedSearchesTable.id, search.id))
+      .execute();
+
+    const remaining = total[0].count - matches.length;
+    const lines = matches.map(listing => `- ${listing.title}: ${(listing.price_cents / 100).toFixed(2)} ${listing.currency}`);
+
+    await getNotificationChannel().send({
+      user_id: search.user_id,
+      email,
+      kind: 'saved_search_digest',
+      listing_ids: matches.map(listing => listing.id),
+      subject: `New matches for "${search.name}"`,
+      text: `New listings match your saved search "${search.name}":\n\n` +
+        lines.join('\n') +
+        (remaining > 0 ? `\n\n...and ${remaining} more. Run the search to see them all.` : '')
+    });
+
+    return true;
+  });
+}
+
+// Entry point of the scheduled job. A search that fails is logged and
+// retried on the next run without holding up the others.
+export async function runSavedSearchDigests(): Promise<{ evaluated: number; digests_sent: number }> {
+  const searches = await db.select({ id: savedSearchesTable.id })
+    .from(savedSearchesTable)
+    .orderBy(asc(savedSearchesTable.created_at))
+    .execute();
+
+  let digestsSent = 0;
+  for (const search of searches) {
+    try {
+      if (await runSavedSearchDigest(search.id)) {
+        digestsSent++;
+      }
+    } catch (error) {
+      console.error('Saved search digest failed:', error);
+    }
+  }
+
+  return { evaluated: searches.length, digests_sent: digestsSent };
+}
@@ -2,32 +2,47 @@ import {
   type UpsertListingInput, 
   type SetListingPayloadInput, 
   type SetListingStatusInput,
+  type AddListingStockInput,
   type Listing,
   type PaginationInput,
-  type BalanceResponse
+  type BalanceResponse,
+  type CursorPaginationInput
 } from '../schema';
 import { db } from '../db';
 import { 
   listingsTable, 
-  categoriesTable, 
+  listingColumns,
+  categoriesTable,
   listingSecurePayloadsTable,
   ordersTable
 } from '../db/schema';
-import { eq, and, sum, count, SQL } from 'drizzle-orm';
-import * as crypto from 'crypto';
+import { assertCanPublishListing } from './kyc';
+import { getCategoryAttributes, validateListingAttributes, withMedia } from './catalog';
+import { notifyWatchers } from './watchlist';
+import { keysetOrderBy, keysetCursorValues, keysetAfter, takePage, type SortKey } from '../lib/keyset';
+import { eq, and, sum, count, isNull, sql, SQL } from 'drizzle-orm';
+import { encryptPayload } from '../lib/payloadEncryption';
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type ListingRow = Omit<typeof listingsTable.$inferSelect, 'search_vector'>;
 
 export async function upsertListing(input: UpsertListingInput, sellerId: string): Promise<Listing> {
   try {
-    // Validate category exists
-    const categoryExists = await db.select()
+    const category = await db.select({ archived_at: categoriesTable.archived_at })
       .from(categoriesTable)
       .where(eq(categoriesTable.id, input.category_id))
       .execute();
 
-    if (categoryExists.length === 0) {
+    if (category.length === 0) {
       throw new Error('Category not found');
     }
 
+    const attributeDefinitions = await getCategoryAttributes(input.category_id);
+    const attributes = validateListingAttributes(attributeDefinitions, input.attributes ?? {});
+
+    // Listings already in an archived category can still be edited, but nothing new moves in
+    const archived = category[0].archived_at !== null;
+
     if (input.id) {
       // Update existing listing - verify ownership
       const existingListing = await db.select()
@@ -42,20 +57,59 @@ export async function upsertListing(input: UpsertListingInput, sellerId: string)
         throw new Error('Listing not found or access denied');
       }
 
-      const result = await db.update(listingsTable)
-        .set({
-          title: input.title,
-          description: input.description,
-          category_id: input.category_id,
-          price_cents: input.price_cents,
-          updated_at: new Date()
-        })
-        .where(eq(listingsTable.id, input.id))
-        .returning()
-        .execute();
+      if (archived && existingListing[0].category_id !== input.category_id) {
+        throw new Error('Category is archived');
+      }
+
+      // Buyers' orders were placed under the current mode, so it is fixed once there are any
+      const handoffChanged = input.e2e_handoff !== undefined && input.e2e_handoff !== existingListing[0].e2e_handoff;
+      if (handoffChanged) {
+        const orders = await db.select({ count: count() })
+          .from(ordersTable)
+          .where(eq(ordersTable.listing_id, input.id))
+          .execute();
+
+        if (orders[0].count > 0) {
+          throw new Error('Cannot change the handoff mode of a listing that already has orders');
+        }
+      }
+
+      const listingId = input.id;
+      const result = await db.transaction(async (tx) => {
+        // An end-to-end listing must not keep a payload the server can decrypt
+        if (handoffChanged && input.e2e_handoff) {
+          await tx.delete(listingSecurePayloadsTable)
+            .where(eq(listingSecurePayloadsTable.listing_id, listingId))
+            .execute();
+        }
+
+        return await tx.update(listingsTable)
+          .set({
+            title: input.title,
+            description: input.description,
+            category_id: input.category_id,
+            price_cents: input.price_cents,
+            attributes,
+            ...(handoffChanged ? { e2e_handoff: input.e2e_handoff, has_secure_payload: false, stock: 0 } : {}),
+            updated_at: new Date()
+          })
+          .where(eq(listingsTable.id, listingId))
+          .returning(listingColumns)
+          .execute();
+      });
 
-      return result[0];
+      await notifyWatchers(existingListing[0], result[0]);
+
+      const [listing] = await withMedia(result);
+      return listing;
     } else {
+      if (archived) {
+        throw new Error('Category is archived');
+      }
+
+      // New listings go live at once, so they count towards the unverified cap
+      await assertCanPublishListing(sellerId);
+
       // Create new listing
       const result = await db.insert(listingsTable)
         .values({
@@ -64,14 +118,16 @@ export async function upsertListing(input: UpsertListingInput, sellerId: string)
           title: input.title,
           description: input.description,
           price_cents: input.price_cents,
+          attributes,
           currency: 'USD',
           status: 'available',
-          has_secure_payload: false
+          has_secure_payload: false,
+          e2e_handoff: input.e2e_handoff ?? false
         })
-        .returning()
+        .returning(listingColumns)
         .execute();
 
-      return result[0];
+      return { ...result[0], media: [] };
     }
   } catch (error) {
     console.error('Listing upsert failed:', error);
@@ -79,58 +135,180 @@ export async function upsertListing(input: UpsertListingInput, sellerId: string)
   }
 }
 
+// The seller's listing that stock is being added to; end-to-end listings keep no pool
+async function findStockableListing(listingId: string, sellerId: string): Promise<ListingRow> {
+  const listing = await db.select(listingColumns)
+    .from(listingsTable)
+    .where(and(
+      eq(listingsTable.id, listingId),
+      eq(listingsTable.seller_id, sellerId)
+    ))
+    .execute();
+
+  if (listing.length === 0) {
+    throw new Error('Listing not found or access denied');
+  }
+
+  if (listing[0].e2e_handoff) {
+    throw new Error('Listing uses end-to-end handoff; credentials are sealed to each buyer after payment');
+  }
+
+  // A sold-out listing goes back on sale, so it counts towards the unverified cap again
+  if (listing[0].status === 'sold') {
+    await assertCanPublishListing(sellerId);
+  }
+
+  return listing[0];
+}
+
+// Recounts the unclaimed payloads after stock was added and puts a sold-out listing back on sale
+async function restockListing(tx: DbTransaction, listingId: string): Promise<ListingRow> {
+  // Paid orders lock the listing to claim a payload, so the count cannot race a sale
+  const locked = await tx.select({ status: listingsTable.status })
+    .from(listingsTable)
+    .where(eq(listingsTable.id, listingId))
+    .for('update')
+    .execute();
+
+  const [{ count: stock }] = await tx.select({ count: count() })
+    .from(listingSecurePayloadsTable)
+    .where(and(
+      eq(listingSecurePayloadsTable.listing_id, listingId),
+      isNull(listingSecurePayloadsTable.order_id)
+    ))
+    .execute();
+
+  const result = await tx.update(listingsTable)
+    .set({
+      stock,
+      has_secure_payload: true,
+      status: locked[0].status === 'sold' ? 'available' : locked[0].status,
+      updated_at: new Date()
+    })
+    .where(eq(listingsTable.id, listingId))
+    .returning(listingColumns)
+    .execute();
+
+  return result[0];
+}
+
+// Brings listings stored before stock was tracked into the pool model: the single
+// payload of a listing that already sold is claimed by its order, and every
+// listing's stock is recounted. Safe to run repeatedly; run before serving requests.
+export async function backfillListingInventory(): Promise<void> {
+  await db.transaction(async (tx) => {
+    // Any order past pending took the listing's only unit, even if it was disputed or refunded later
+    await tx.execute(sql`
+      update ${listingSecurePayloadsTable} as payload
+      set order_id = sold.id, claimed_at = sold.updated_at
+      from (
+        select distinct on (${ordersTable.listing_id}) ${ordersTable.id}, ${ordersTable.listing_id}, ${ordersTable.updated_at}
+        from ${ordersTable}
+        where ${ordersTable.status} <> 'pending'
+        order by ${ordersTable.listing_id}, ${ordersTable.created_at}
+      ) as sold
+      where payload.listing_id = sold.listing_id
+        and payload.order_id is null
+        and not exists (
+          select 1 from ${listingSecurePayloadsTable} as claimed
+          where claimed.listing_id = payload.listing_id and claimed.order_id is not null
+        )
+    `);
+
+    await tx.execute(sql`
+      update ${listingsTable}
+      set stock = unclaimed.count
+      from (
+        select ${listingsTable.id} as listing_id, count(${listingSecurePayloadsTable.id})::integer as count
+        from ${listingsTable}
+        left join ${listingSecurePayloadsTable}
+          on ${listingSecurePayloadsTable.listing_id} = ${listingsTable.id}
+          and ${listingSecurePayloadsTable.order_id} is null
+        where ${listingsTable.e2e_handoff} = false
+        group by ${listingsTable.id}
+      ) as unclaimed
+      where ${listingsTable.id} = unclaimed.listing_id
+        and ${listingsTable.stock} <> unclaimed.count
+    `);
+  });
+}
+
 export async function setListingPayload(input: SetListingPayloadInput, sellerId: string): Promise<void> {
   try {
-    // Verify listing ownership by seller
-    const listing = await db.select()
-      .from(listingsTable)
-      .where(and(
-        eq(listingsTable.id, input.listing_id),
-        eq(listingsTable.seller_id, sellerId)
-      ))
-      .execute();
+    const listing = await findStockableListing(input.listing_id, sellerId);
+    const payload = await encryptPayload(input.plaintext_credentials, input.listing_id);
 
-    if (listing.length === 0) {
-      throw new Error('Listing not found or access denied');
-    }
+    const restocked = await db.transaction(async (tx) => {
+      // Locked like a sale, so the unsold count cannot change before the delete
+      await tx.select({ id: listingsTable.id })
+        .from(listingsTable)
+        .where(eq(listingsTable.id, input.listing_id))
+        .for('update')
+        .execute();
 
-    // Generate encryption key and nonce
-    const key = crypto.randomBytes(32); // 256-bit key
-    const nonce = crypto.randomBytes(16); // 128-bit nonce for AES-GCM
+      const [{ count: unsold }] = await tx.select({ count: count() })
+        .from(listingSecurePayloadsTable)
+        .where(and(
+          eq(listingSecurePayloadsTable.listing_id, input.listing_id),
+          isNull(listingSecurePayloadsTable.order_id)
+        ))
+        .execute();
 
-    // Create cipher and encrypt the plaintext credentials
-    const cipher = crypto.createCipheriv('aes-256-gcm', key, nonce);
-    let encrypted = cipher.update(input.plaintext_credentials, 'utf8', 'base64');
-    encrypted += cipher.final('base64');
+      // Replacing is for single-unit listings; a pool would shrink to one unit
+      if (unsold > 1) {
+        throw new Error('Listing has several units in stock; add stock instead of replacing it');
+      }
 
-    // Check if payload already exists and delete it
-    await db.delete(listingSecurePayloadsTable)
-      .where(eq(listingSecurePayloadsTable.listing_id, input.listing_id))
-      .execute();
+      // Replace the unsold unit; payloads already claimed stay with their orders
+      await tx.delete(listingSecurePayloadsTable)
+        .where(and(
+          eq(listingSecurePayloadsTable.listing_id, input.listing_id),
+          isNull(listingSecurePayloadsTable.order_id)
+        ))
+        .execute();
 
-    // Store encrypted payload
-    await db.insert(listingSecurePayloadsTable)
-      .values({
-        listing_id: input.listing_id,
-        cipher_text: encrypted,
-        nonce: nonce.toString('base64')
-      })
-      .execute();
+      await tx.insert(listingSecurePayloadsTable)
+        .values({ listing_id: input.listing_id, ...payload })
+        .execute();
 
-    // Update listing to indicate it has secure payload
-    await db.update(listingsTable)
-      .set({
-        has_secure_payload: true,
-        updated_at: new Date()
-      })
-      .where(eq(listingsTable.id, input.listing_id))
-      .execute();
+      return await restockListing(tx, input.listing_id);
+    });
+
+    await notifyWatchers(listing, restocked);
   } catch (error) {
     console.error('Set listing payload failed:', error);
     throw error;
   }
 }
 
+// Adds one individually encrypted payload per unit to the listing's pool
+export async function addListingStock(input: AddListingStockInput, sellerId: string): Promise<Listing> {
+  try {
+    const listing = await findStockableListing(input.listing_id, sellerId);
+
+    const payloads: (typeof listingSecurePayloadsTable.$inferInsert)[] = [];
+    for (const credentials of input.credentials) {
+      payloads.push({ listing_id: input.listing_id, ...await encryptPayload(credentials, input.listing_id) });
+    }
+
+    const restocked = await db.transaction(async (tx) => {
+      await tx.insert(listingSecurePayloadsTable)
+        .values(payloads)
+        .execute();
+
+      return await restockListing(tx, input.listing_id);
+    });
+
+    await notifyWatchers(listing, restocked);
+
+    const [result] = await withMedia([restocked]);
+    return result;
+  } catch (error) {
+    console.error('Add listing stock failed:', error);
+    throw error;
+  }
+}
+
 export async function setListingStatus(input: SetListingStatusInput, sellerId: string): Promise<void> {
   try {
     // Verify listing ownership by seller
@@ -151,33 +329,53 @@ export async function setListingStatus(input: SetListingStatusInput, sellerId: s
       throw new Error('Cannot manually set listing status to sold');
     }
 
+    if (input.status === 'available' && listing[0].status !== 'available') {
+      await assertCanPublishListing(sellerId);
+    }
+
+    // Pooled listings go back on sale by adding stock; end-to-end ones hold none
+    if (input.status === 'available' && !listing[0].e2e_handoff && listing[0].stock === 0) {
+      throw new Error('Listing is out of stock; add stock before putting it on sale');
+    }
+
     // Update listing status
-    await db.update(listingsTable)
+    const result = await db.update(listingsTable)
       .set({
         status: input.status,
         updated_at: new Date()
       })
       .where(eq(listingsTable.id, input.listing_id))
+      .returning(listingColumns)
       .execute();
+
+    await notifyWatchers(listing[0], result[0]);
   } catch (error) {
     console.error('Set listing status failed:', error);
     throw error;
   }
 }
 
+// Newest first, with the id as tie-breaker for keyset paging
+const MY_LISTINGS_SORT = 'newest';
+const myListingsSortKeys: SortKey[] = [
+  { expression: listingsTable.created_at, direction: 'desc', type: 'timestamp' },
+  { expression: listingsTable.id, direction: 'asc', type: 'uuid' }
+];
+
 export async function getMyListings(
-  input: { status?: string; page: number }, 
+  input: { status?: string; page: number } & CursorPaginationInput, 
   sellerId: string
 ): Promise<{
   items: Listing[];
-  total: number;
+  total: number | null;
   page: number;
   page_size: number;
-  total_pages: number;
+  total_pages: number | null;
+  next_cursor: string | null;
 }> {
   try {
     const page_size = 20;
-    const offset = (input.page - 1) * page_size;
+    const offset = input.cursor ? 0 : (input.page - 1) * page_size;
 
     // Build query conditionally
     const conditions: SQL<unknown>[] = [eq(listingsTable.seller_id, sellerId)];
@@ -186,27 +384,37 @@ export async function getMyListings(
       conditions.push(eq(listingsTable.status, input.status as any));
     }
 
-    const query = db.select().from(listingsTable).where(and(...conditions));
+    const pageConditions = input.cursor
+      ? [...conditions, keysetAfter(myListingsSortKeys, MY_LISTINGS_SORT, input.cursor)]
+      : conditions;
 
-    // Get total count
-    const totalQuery = db.select({ count: count() })
+    const results = await db.select({ listing: listingColumns, cursor_values: keysetCursorValues(myListingsSortKeys) })
       .from(listingsTable)
-      .where(and(...conditions));
+      .where(and(...pageConditions))
+      .orderBy(...keysetOrderBy(myListingsSortKeys))
+      .limit(page_size + 1)
+      .offset(offset)
+      .execute();
 
-    const [items, totalResult] = await Promise.all([
-      query.limit(page_size).offset(offset).execute(),
-      totalQuery.execute()
-    ]);
+    const { rows, next_cursor } = takePage(results, page_size, MY_LISTINGS_SORT);
 
-    const total = Number(totalResult[0]?.count || 0);
-    const total_pages = Math.ceil(total / page_size);
+    // Get total count unless the caller opted out
+    let total: number | null = null;
+    if (input.include_total !== false) {
+      const totalResult = await db.select({ count: count() })
+        .from(listingsTable)
+        .where(and(...conditions))
+        .execute();
+      total = Number(totalResult[0]?.count || 0);
+    }
 
     return {
-      items,
+      items: await withMedia(rows.map(row => row.listing)),
       total,
       page: input.page,
       page_size,
-      total_pages
+      total_pages: total === null ? null : Math.ceil(total / page_size),
+      next_cursor
     };
   } catch (error) {
     console.error('Get my listings failed:', error);
@@ -0,0 +1,195 @@
+import { db } from '../db';
+import { usersTable, sellerApplicationsTable } from '../db/schema';
+import {
+  type SubmitSellerApplicationInput,
+  type ListSellerApplicationsInput,
+  type ReviewSellerApplicationInput,
+  type SellerApplication
+} from '../schema';
+import { applyRoleChange } from './roles';
+import { eq, and, count, desc, type SQL } from 'drizzle-orm';
+
+export async function submitSellerApplication(
+  input: SubmitSellerApplicationInput,
+  userId: string
+): Promise<SellerApplication> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    if (users[0].role !== 'buyer') {
+      throw new Error('Only buyers can apply to become sellers');
+    }
+
+    const pending = await db.select()
+      .from(sellerApplicationsTable)
+      .where(and(
+        eq(sellerApplicationsTable.user_id, userId),
+        eq(sellerApplicationsTable.status, 'pending')
+      ))
+      .execute();
+
+    if (pending.length > 0) {
+      throw new Error('You already have a pending seller application');
+    }
+
+    const result = await db.insert(sellerApplicationsTable)
+      .values({
+        user_id: userId,
+        display_name: input.display_name,
+        description: input.description,
+        contact: input.contact ?? null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Seller application submission failed:', error);
+    throw error;
+  }
+}
+
+// Latest application, so a rejected applicant can see the reviewer's note
+export async function getMySellerApplication(userId: string): Promise<SellerApplication | null> {
+  try {
+    const results = await db.select()
+      .from(sellerApplicationsTable)
+      .where(eq(sellerApplicationsTable.user_id, userId))
+      .orderBy(desc(sellerApplicationsTable.created_at))
+      .limit(1)
+      .execute();
+
+    return results[0] ?? null;
+  } catch (error) {
+    console.error('Seller application lookup failed:', error);
+    throw error;
+  }
+}
+
+export async function listSellerApplications(
+  input: ListSellerApplicationsInput,
+  adminId: string
+): Promise<{
+  items: SellerApplication[];
+  total: number;
+  page: number;
+  page_size: number;
+  total_pages: number;
+}> {
+  try {
+    // Verify admin role
+    const admin = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, adminId))
+      .execute();
+
+    if (admin.length === 0 || admin[0].role !== 'admin') {
+      throw new Error('Unauthorized: Admin access required');
+    }
+
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.status) {
+      conditions.push(eq(sellerApplicationsTable.status, input.status));
+    }
+
+    const whereCondition = conditions.length === 0 ? undefined : and(...conditions);
+
+    const totalResult = await db.select({ count: count() })
+      .from(sellerApplicationsTable)
+      .where(whereCondition)
+      .execute();
+
+    const total = totalResult[0].count;
+    const page_size = 20; // Fixed page size for admin
+    const offset = (input.page - 1) * page_size;
+
+    // Oldest first so the queue is worked in order
+    const items = await db.select()
+      .from(sellerApplicationsTable)
+      .where(whereCondition)
+      .orderBy(sellerApplicationsTable.created_at)
+      .limit(page_size)
+      .offset(offset)
+      .execute();
+
+    return {
+      items,
+      total,
+      page: input.page,
+      page_size,
+      total_pages: Math.ceil(total / page_size)
+    };
+  } catch (error) {
+    console.error('Seller application listing failed:', error);
+    throw error;
+  }
+}
+
+export async function reviewSellerApplication(
+  input: ReviewSellerApplicationInput,
+  adminId: string
+): Promise<SellerApplication> {
+  try {
+    // Verify admin role
+    const admin = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, adminId))
+      .execute();
+
+    if (admin.length === 0 || admin[0].role !== 'admin') {
+      throw new Error('Unauthorized: Admin access required');
+    }
+
+    return await db.transaction(async (tx) => {
+      // Only a pending application can be decided, and only once
+      const updated = await tx.update(sellerApplicationsTable)
+        .set({
+          status: input.decision === 'approve' ? 'approved' : 'rejected',
+          reviewed_by: adminId,
+          review_note: input.note ?? null,
+          reviewed_at: new Date()
+        })
+        .where(and(
+          eq(sellerApplicationsTable.id, input.application_id),
+          eq(sellerApplicationsTable.status, 'pending')
+        ))
+        .returning()
+        .execute();
+
+      if (updated.length === 0) {
+        throw new Error('Application not found or already reviewed');
+      }
+
+      // Someone made a seller (or admin) meanwhile keeps their role; the
+      // application is still closed as approved
+      const applicants = await tx.select({ role: usersTable.role })
+        .from(usersTable)
+        .where(eq(usersTable.id, updated[0].user_id))
+        .for('update')
+        .execute();
+
+      if (input.decision === 'approve' && applicants[0]?.role === 'buyer') {
+        await applyRoleChange(
+          tx,
+          updated[0].user_id,
+          'seller',
+          adminId,
+          `Seller application ${updated[0].id} approved`
+        );
+      }
+
+      return updated[0];
+    });
+  } catch (error) {
+    console.error('Seller application review failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,129 @@
+import { db } from '../db';
+import { sessionsTable, refreshTokensTable, usersTable } from '../db/schema';
+import {
+  type Session,
+  type AuthTokensResponse,
+  type RefreshSessionInput,
+  type RevokeSessionInput,
+  type RequestMeta
+} from '../schema';
+import { issueSessionTokens, NO_REQUEST_META } from './auth';
+import { hashOpaqueToken } from '../lib/tokens';
+import { eq, and, isNull, desc } from 'drizzle-orm';
+
+async function revokeSessionById(sessionId: string): Promise<void> {
+  await db.update(sessionsTable)
+    .set({ revoked_at: new Date() })
+    .where(and(
+      eq(sessionsTable.id, sessionId),
+      isNull(sessionsTable.revoked_at)
+    ))
+    .execute();
+}
+
+export async function refreshSession(
+  input: RefreshSessionInput,
+  meta: RequestMeta = NO_REQUEST_META
+): Promise<AuthTokensResponse> {
+  try {
+    const results = await db.select()
+      .from(refreshTokensTable)
+      .innerJoin(sessionsTable, eq(refreshTokensTable.session_id, sessionsTable.id))
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(eq(refreshTokensTable.token_hash, hashOpaqueToken(input.refresh_token)))
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const { refresh_tokens: refreshToken, sessions: session, users: user } = results[0];
+
+    if (session.revoked_at) {
+      throw new Error('Session has been revoked');
+    }
+
+    if (refreshToken.expires_at < new Date()) {
+      throw new Error('Refresh token expired');
+    }
+
+    // Mark the token as used; the rotated_at guard makes concurrent refreshes race safely
+    const rotated = await db.update(refreshTokensTable)
+      .set({ rotated_at: new Date() })
+      .where(and(
+        eq(refreshTokensTable.id, refreshToken.id),
+        isNull(refreshTokensTable.rotated_at)
+      ))
+      .returning()
+      .execute();
+
+    if (rotated.length === 0) {
+      // A rotated token came back: either the client or a thief holds a stale copy,
+      // so the whole session is revoked and both must sign in again
+      await revokeSessionById(session.id);
+      throw new Error('Refresh token reuse detected');
+    }
+
+    await db.update(sessionsTable)
+      .set({
+        last_seen_at: new Date(),
+        ip_address: meta.ip_address ?? session.ip_address
+      })
+      .where(eq(sessionsTable.id, session.id))
+      .execute();
+
+    return await issueSessionTokens(user, session.id);
+  } catch (error) {
+    console.error('Session refresh failed:', error);
+    throw error;
+  }
+}
+
+export async function listSessions(
+  userId: string,
+  currentSessionId: string | null
+): Promise<Array<Session & { is_current: boolean }>> {
+  try {
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(and(
+        eq(sessionsTable.user_id, userId),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .orderBy(desc(sessionsTable.last_seen_at))
+      .execute();
+
+    return sessions.map(session => ({
+      ...session,
+      is_current: session.id === currentSessionId
+    }));
+  } catch (error) {
+    console.error('List sessions failed:', error);
+    throw error;
+  }
+}
+
+export async function revokeSession(input: RevokeSessionInput, userId: string): Promise<void> {
+  try {
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(and(
+        eq(sessionsTable.id, input.session_id),
+        eq(sessionsTable.user_id, userId)
+      ))
+      .execute();
+
+    if (sessions.length === 0) {
+      throw new Error('Session not found or access denied');
+    }
+
+    await revokeSessionById(input.session_id);
+  } catch (error) {
+    console.error('Revoke session failed:', error);
+    throw error;
+  }
+}
+
+export async function logout(sessionId: string, userId: string): Promise<void> {
+  await revokeSession({ session_id: sessionId }, userId);
+}
@@ -0,0 +1,128 @@
+import { db } from '../db';
+import { listingsTable, listingColumns, usersTable, watchlistTable } from '../db/schema';
+import { withMedia } from './catalog';
+import { type WatchlistInput, type WatchlistItem } from '../schema';
+import { getNotificationChannel, type Notification } from '../lib/notifications';
+import { eq, and, desc } from 'drizzle-orm';
+
+type WatchedListingState = Pick<typeof listingsTable.$inferSelect, 'id' | 'title' | 'price_cents' | 'currency' | 'status' | 'stock'>;
+
+const formatPrice = (cents: number, currency: string) => `${(cents / 100).toFixed(2)} ${currency}`;
+
+export async function addToWatchlist(input: WatchlistInput, userId: string): Promise<void> {
+  try {
+    const listing = await db.select({ seller_id: listingsTable.seller_id, status: listingsTable.status })
+      .from(listingsTable)
+      .where(eq(listingsTable.id, input.listing_id))
+      .execute();
+
+    if (listing.length === 0) {
+      throw new Error('Listing not found');
+    }
+
+    if (listing[0].seller_id === userId) {
+      throw new Error('Cannot watch your own listing');
+    }
+
+    if (listing[0].status === 'sold') {
+      throw new Error('Listing has already been sold');
+    }
+
+    // Watching twice is a no-op, so the heart toggle can be clicked freely
+    await db.insert(watchlistTable)
+      .values({ user_id: userId, listing_id: input.listing_id })
+      .onConflictDoNothing()
+      .execute();
+  } catch (error) {
+    console.error('Add to watchlist failed:', error);
+    throw error;
+  }
+}
+
+export async function removeFromWatchlist(input: WatchlistInput, userId: string): Promise<void> {
+  try {
+    await db.delete(watchlistTable)
+      .where(and(
+        eq(watchlistTable.user_id, userId),
+        eq(watchlistTable.listing_id, input.listing_id)
+      ))
+      .execute();
+  } catch (error) {
+    console.error('Remove from watchlist failed:', error);
+    throw error;
+  }
+}
+
+// Delisted and sold listings stay on the list so buyers can see what happened to them
+export async function getWatchlist(userId: string): Promise<WatchlistItem[]> {
+  try {
+    const rows = await db.select({ listing: listingColumns, watched_since: watchlistTable.created_at })
+      .from(watchlistTable)
+      .innerJoin(listingsTable, eq(watchlistTable.listing_id, listingsTable.id))
+      .where(eq(watchlistTable.user_id, userId))
+      .orderBy(desc(watchlistTable.created_at), desc(watchlistTable.id))
+      .execute();
+
+    const listings = await withMedia(rows.map(row => row.listing));
+    return listings.map((listing, index) => ({ listing, watched_since: rows[index].watched_since }));
+  } catch (error) {
+    console.error('Get watchlist failed:', error);
+    throw error;
+  }
+}
+
+function describeChange(before: WatchedListingState, after: WatchedListingState): Pick<Notification, 'kind' | 'subject' | 'text'> | null {
+  if (after.status !== 'available') {
+    return null;
+  }
+
+  // Relisted, or restocked after selling out; a listing can run dry without leaving sale
+  if (before.status !== 'available' || (before.stock === 0 && after.stock > 0)) {
+    return {
+      kind: 'back_in_stock',
+      subject: `Back on sale: ${after.title}`,
+      text: `A listing on your watchlist is available again.\n\n` +
+        `${after.title} is listed for ${formatPrice(after.price_cents, after.currency)}.`
+    };
+  }
+
+  if (after.price_cents < before.price_cents) {
+    return {
+      kind: 'price_drop',
+      subject: `Price drop: ${after.title}`,
+      text: `A listing on your watchlist just got cheaper.\n\n` +
+        `${after.title} dropped from ${formatPrice(before.price_cents, before.currency)} ` +
+        `to ${formatPrice(after.price_cents, after.currency)}.`
+    };
+  }
+
+  return null;
+}
+
+// Called after a seller saves a listing. The change is already stored, so
+// delivery problems are logged rather than failing the seller's request.
+export async function notifyWatchers(before: WatchedListingState, after: WatchedListingState): Promise<void> {
+  const change = describeChange(before, after);
+  if (!change) {
+    return;
+  }
+
+  try {
+    const watchers = await db.select({ user_id: usersTable.id, email: usersTable.email })
+      .from(watchlistTable)
+      .innerJoin(usersTable, eq(watchlistTable.user_id, usersTable.id))
+      .where(eq(watchlistTable.listing_id, after.id))
+      .execute();
+
+    const channel = getNotificationChannel();
+    for (const watcher of watchers) {
+      try {
+        await channel.send({ ...watcher, ...change, listing_ids: [after.id] });
+      } catch (error) {
+        console.error('Watchlist notification failed:', error);
+      }
+    }
+  } catch (error) {
+    console.error('Notify watchers failed:', error);
+  }
+}
@@ -1,7 +1,9 @@
 import { db } from '../db';
-import { sql } from 'drizzle-orm';
+import { eq, sql } from 'drizzle-orm';
 import * as schema from "../db/schema";
 import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { handleStripeWebhook } from '../handlers/checkout';
+import { signStripePayload } from '../lib/stripeSignature';
 
 export const resetDB = async () => {
   await db.execute(sql`drop schema if exists public cascade`);
@@ -16,3 +18,22 @@ export const createDB = async () => {
   );
   await db.execute(migrationStatements.join('\n'));
 };
+
+export const TEST_STRIPE_WEBHOOK_SECRET = 'whsec_test';
+
+// Settles the order's payment the way Stripe does, with a signed payment_intent.succeeded event
+export const payOrder = async (orderId: string) => {
+  const [transaction] = await db.select()
+    .from(schema.transactionsTable)
+    .where(eq(schema.transactionsTable.order_id, orderId))
+    .execute();
+
+  const payload = JSON.stringify({
+    id: `evt_${transaction.id.replace(/-/g, '')}`,
+    type: 'payment_intent.succeeded',
+    data: { object: { id: transaction.provider_ref } }
+  });
+
+  process.env['STRIPE_WEBHOOK_SECRET'] = TEST_STRIPE_WEBHOOK_SECRET;
+  await handleStripeWebhook(payload, signStripePayload(payload, TEST_STRIPE_WEBHOOK_SECRET));
+};
@@ -1,5 +1,6 @@
-import { initTRPC } from '@trpc/server';
+import { initTRPC, TRPCError } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import type { IncomingMessage, ServerResponse } from 'http';
 import 'dotenv/config';
 import cors from 'cors';
 import superjson from 'superjson';
@@ -9,13 +10,34 @@ import { z } from 'zod';
 import {
   registerInputSchema,
   loginInputSchema,
+  refreshSessionInputSchema,
+  revokeSessionInputSchema,
+  requestPasswordResetInputSchema,
+  resetPasswordInputSchema,
+  verifyEmailInputSchema,
+  twoFactorCodeInputSchema,
+  completeTwoFactorLoginInputSchema,
   searchListingsInputSchema,
+  listingFiltersSchema,
+  getCategoryAttributesInputSchema,
   upsertListingInputSchema,
   setListingPayloadInputSchema,
+  addListingStockInputSchema,
   setListingStatusInputSchema,
+  uploadListingMediaInputSchema,
+  reorderListingMediaInputSchema,
+  deleteListingMediaInputSchema,
+  watchlistInputSchema,
+  createSavedSearchInputSchema,
+  deleteSavedSearchInputSchema,
   paginationInputSchema,
+  cursorPaginationInputSchema,
   createPaymentIntentInputSchema,
   acknowledgeDeliveryInputSchema,
+  revealCredentialsInputSchema,
+  credentialAccessLogInputSchema,
+  setEncryptionKeyInputSchema,
+  submitHandoffInputSchema,
   createReviewInputSchema,
   getSellerReviewsInputSchema,
   openDisputeInputSchema,
@@ -23,59 +45,182 @@ import {
   requestPayoutInputSchema,
   processPayoutInputSchema,
   listUsersInputSchema,
-  listDisputesInputSchema
+  listDisputesInputSchema,
+  unlockAccountInputSchema,
+  submitSellerApplicationInputSchema,
+  listSellerApplicationsInputSchema,
+  reviewSellerApplicationInputSchema,
+  setUserRoleInputSchema,
+  submitKycInputSchema,
+  listKycSubmissionsInputSchema,
+  reviewKycSubmissionInputSchema,
+  createCategoryInputSchema,
+  updateCategoryInputSchema,
+  mergeCategoriesInputSchema,
+  archiveCategoryInputSchema,
+  createCategoryAttributeInputSchema,
+  updateCategoryAttributeInputSchema,
+  deleteCategoryAttributeInputSchema,
+  keyRotationJobInputSchema,
+  createApiKeyInputSchema,
+  revokeApiKeyInputSchema,
+  type ApiKeyScope
 } from './schema';
 
 // Import handlers
-import { register, login, getCurrentUser } from './handlers/auth';
-import { listCategories, searchListings, getListing } from './handlers/catalog';
-import { upsertListing, setListingPayload, setListingStatus, getMyListings, getMyBalance } from './handlers/seller';
+import { register, login, completeTwoFactorLogin, getCurrentUser } from './handlers/auth';
+import { refreshSession, logout, listSessions, revokeSession } from './handlers/sessions';
+import { sendVerificationEmail, verifyEmail, requestPasswordReset, resetPassword } from './handlers/account';
+import { createApiKey, listApiKeys, revokeApiKey } from './handlers/apiKeys';
+import { beginTwoFactorSetup, confirmTwoFactorSetup, disableTwoFactor, regenerateRecoveryCodes } from './handlers/mfa';
+import {
+  listCategories,
+  getCategoryAttributes,
+  searchListings,
+  searchFacets,
+  getListing,
+  getListingDetail
+} from './handlers/catalog';
+import {
+  upsertListing,
+  setListingPayload,
+  addListingStock,
+  setListingStatus,
+  getMyListings,
+  getMyBalance,
+  backfillListingInventory
+} from './handlers/seller';
 import { addToCart, removeFromCart, getCart } from './handlers/cart';
+import { addToWatchlist, removeFromWatchlist, getWatchlist } from './handlers/watchlist';
+import { createSavedSearch, listSavedSearches, deleteSavedSearch, runSavedSearchDigests } from './handlers/savedSearches';
 import { createPaymentIntent, handleStripeWebhook } from './handlers/checkout';
-import { getMyOrders, getOrder, acknowledgeDelivery } from './handlers/orders';
+import { getMyOrders, getOrder, acknowledgeDelivery, revealCredentials, listCredentialAccessLog } from './handlers/orders';
+import { setEncryptionKey, getEncryptionKey, listPendingHandoffs, submitHandoff } from './handlers/handoff';
 import { createReview, getSellerReviews } from './handlers/reviews';
 import { openDispute, resolveDispute } from './handlers/disputes';
 import { requestPayout, processPayoutAdmin } from './handlers/payouts';
-import { listUsers, listDisputes } from './handlers/admin';
+import { listUsers, listDisputes, unlockAccount } from './handlers/admin';
+import {
+  createCategory,
+  updateCategory,
+  mergeCategories,
+  archiveCategory,
+  createCategoryAttribute,
+  updateCategoryAttribute,
+  deleteCategoryAttribute
+} from './handlers/categories';
+import {
+  listMasterKeyVersions,
+  startKeyRotation,
+  resumeKeyRotation,
+  listKeyRotationJobs,
+  getKeyRotationJob,
+  resumeInterruptedKeyRotations
+} from './handlers/keyRotation';
+import {
+  uploadListingMedia,
+  reorderListingMedia,
+  deleteListingMedia,
+  getListingMediaFile
+} from './handlers/media';
+import { setUserRole, listRoleChanges } from './handlers/roles';
+import {
+  submitSellerApplication,
+  getMySellerApplication,
+  listSellerApplications,
+  reviewSellerApplication
+} from './handlers/sellerApplications';
+import {
+  submitKycDocuments,
+  getMyVerification,
+  listKycSubmissions,
+  getKycDocument,
+  reviewKycSubmission
+} from './handlers/kyc';
+import { createContext, type Context } from './context';
+import { scheduleJob } from './lib/scheduler';
 
-const t = initTRPC.create({
+interface ProcedureMeta {
+  // Procedures callable with an API key name the scope the key must carry
+  scope?: ApiKeyScope;
+}
+
+const t = initTRPC.context<Context>().meta<ProcedureMeta>().create({
   transformer: superjson,
 });
 
 const publicProcedure = t.procedure;
 const router = t.router;
 
-// Mock middleware for authentication - should be replaced with real auth
-const requireAuth = publicProcedure.use(({ next }) => {
-  // This is a placeholder! Real implementation should:
-  // 1. Extract JWT from Authorization header or cookies
-  // 2. Verify token and get user info
-  // 3. Pass user context to procedures
-  const mockUserId = '00000000-0000-0000-0000-000000000000';
-  const mockUserRole = 'buyer';
-  
+// Resolves the caller from the bearer token or auth cookie loaded in createContext.
+// API keys only get through to procedures whose meta names a scope the key holds.
+const requireAuth = publicProcedure.use(({ ctx, meta, next }) => {
+  if (!ctx.userId || !ctx.userRole || (!ctx.sessionId && !ctx.apiKeyId)) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: ctx.authError ?? 'Authentication required'
+    });
+  }
+
+  if (ctx.apiKeyId) {
+    if (!meta?.scope) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'This endpoint cannot be used with an API key' });
+    }
+    if (!ctx.apiKeyScopes.includes(meta.scope)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: `API key is missing the ${meta.scope} scope` });
+    }
+  }
+
   return next({
-    ctx: { 
-      userId: mockUserId, 
-      userRole: mockUserRole 
+    ctx: {
+      userId: ctx.userId,
+      userRole: ctx.userRole,
+      sessionId: ctx.sessionId
     }
   });
 });
 
+// Session management needs the browser session itself, not an API key
+const requireSession = requireAuth.use(({ ctx, next }) => {
+  if (!ctx.sessionId) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'This endpoint requires a signed-in session' });
+  }
+  return next({ ctx: { sessionId: ctx.sessionId } });
+});
+
 const requireSeller = requireAuth.use(({ ctx, next }) => {
   if (ctx.userRole !== 'seller' && ctx.userRole !== 'admin') {
-    throw new Error('Seller role required');
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Seller role required' });
   }
   return next({ ctx });
 });
 
 const requireAdmin = requireAuth.use(({ ctx, next }) => {
   if (ctx.userRole !== 'admin') {
-    throw new Error('Admin role required');
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Admin role required' });
   }
   return next({ ctx });
 });
 
+// Buying and listing need a confirmed email address
+const requireVerifiedEmail = t.middleware(({ ctx, next }) => {
+  if (!ctx.emailVerified) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Email verification required' });
+  }
+  return next();
+});
+
+// Moving money and ruling on disputes need an enrolled, freshly proven second factor
+const requireTwoFactor = t.middleware(({ ctx, next }) => {
+  if (!ctx.twoFactorEnabled) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Two-factor authentication must be enabled' });
+  }
+  if (!ctx.twoFactorVerified) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Sign in again with your two-factor code' });
+  }
+  return next();
+});
+
 const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
@@ -90,10 +235,83 @@ const appRouter = router({
     
     login: publicProcedure
       .input(loginInputSchema)
-      .mutation(({ input }) => login(input)),
+      .mutation(({ input, ctx }) => login(input, ctx.meta)),
+    
+    completeTwoFactorLogin: publicProcedure
+      .input(completeTwoFactorLoginInputSchema)
+      .mutation(({ input, ctx }) => completeTwoFactorLogin(input, ctx.meta)),
+    
+    refresh: publicProcedure
+      .input(refreshSessionInputSchema)
+      .mutation(({ input, ctx }) => refreshSession(input, ctx.meta)),
+    
+    logout: requireSession
+      .mutation(({ ctx }) => logout(ctx.sessionId, ctx.userId)),
     
     me: requireAuth
-      .query(({ ctx }) => getCurrentUser(ctx.userId))
+      .query(({ ctx }) => getCurrentUser(ctx.userId)),
+    
+    resendVerificationEmail: requireAuth
+      .mutation(({ ctx }) => sendVerificationEmail(ctx.userId)),
+    
+    verifyEmail: publicProcedure
+      .input(verifyEmailInputSchema)
+      .mutation(({ input }) => verifyEmail(input)),
+    
+    requestPasswordReset: publicProcedure
+      .input(requestPasswordResetInputSchema)
+      .mutation(({ input }) => requestPasswordReset(input)),
+    
+    resetPassword: publicProcedure
+      .input(resetPasswordInputSchema)
+      .mutation(({ input }) => resetPassword(input)),
+    
+    listSessions: requireSession
+      .query(({ ctx }) => listSessions(ctx.userId, ctx.sessionId)),
+    
+    revokeSession: requireAuth
+      .input(revokeSessionInputSchema)
+      .mutation(({ input, ctx }) => revokeSession(input, ctx.userId)),
+    
+    twoFactor: router({
+      begin: requireAuth
+        .mutation(({ ctx }) => beginTwoFactorSetup(ctx.userId)),
+      
+      confirm: requireSession
+        .input(twoFactorCodeInputSchema)
+        .mutation(({ input, ctx }) => confirmTwoFactorSetup(input, ctx.userId, ctx.sessionId)),
+      
+      disable: requireAuth
+        .input(twoFactorCodeInputSchema)
+        .mutation(({ input, ctx }) => disableTwoFactor(input, ctx.userId, ctx.meta)),
+      
+      regenerateRecoveryCodes: requireAuth
+        .input(twoFactorCodeInputSchema)
+        .mutation(({ input, ctx }) => regenerateRecoveryCodes(input, ctx.userId, ctx.meta))
+    }),
+    
+    apiKeys: router({
+      create: requireSession
+        .input(createApiKeyInputSchema)
+        .mutation(({ input, ctx }) => createApiKey(input, ctx.userId)),
+      
+      list: requireSession
+        .query(({ ctx }) => listApiKeys(ctx.userId)),
+      
+      revoke: requireSession
+        .input(revokeApiKeyInputSchema)
+        .mutation(({ input, ctx }) => revokeApiKey(input, ctx.userId))
+    }),
+
+    // X25519 key for end-to-end credential handoff; the private half never leaves the browser
+    encryptionKey: router({
+      set: requireSession
+        .input(setEncryptionKeyInputSchema)
+        .mutation(({ input, ctx }) => setEncryptionKey(input, ctx.userId)),
+
+      get: requireSession
+        .query(({ ctx }) => getEncryptionKey(ctx.userId))
+    })
   }),
 
   // Catalog routes (public)
@@ -101,43 +319,100 @@ const appRouter = router({
     listCategories: publicProcedure
       .query(() => listCategories()),
     
+    getCategoryAttributes: publicProcedure
+      .input(getCategoryAttributesInputSchema)
+      .query(({ input }) => getCategoryAttributes(input.category_id)),
+    
     searchListings: publicProcedure
       .input(searchListingsInputSchema)
       .query(({ input }) => searchListings(input)),
     
+    searchFacets: publicProcedure
+      .input(listingFiltersSchema)
+      .query(({ input }) => searchFacets(input)),
+    
     getListing: publicProcedure
       .input(z.string().uuid())
-      .query(({ input }) => getListing(input))
+      .query(({ input }) => getListing(input)),
+    
+    getListingDetail: publicProcedure
+      .input(z.string().uuid())
+      .query(({ input }) => getListingDetail(input))
   }),
 
   // Seller routes
   seller: router({
     upsertListing: requireSeller
+      .meta({ scope: 'listings:write' })
+      .use(requireVerifiedEmail)
       .input(upsertListingInputSchema)
       .mutation(({ input, ctx }) => upsertListing(input, ctx.userId)),
     
     setListingPayload: requireSeller
+      .meta({ scope: 'listings:write' })
+      .use(requireVerifiedEmail)
       .input(setListingPayloadInputSchema)
       .mutation(({ input, ctx }) => setListingPayload(input, ctx.userId)),
+
+    // Bulk top-up for multi-unit listings, one credential entry per unit
+    addListingStock: requireSeller
+      .meta({ scope: 'listings:write' })
+      .use(requireVerifiedEmail)
+      .input(addListingStockInputSchema)
+      .mutation(({ input, ctx }) => addListingStock(input, ctx.userId)),
     
     setListingStatus: requireSeller
+      .meta({ scope: 'listings:write' })
       .input(setListingStatusInputSchema)
       .mutation(({ input, ctx }) => setListingStatus(input, ctx.userId)),
     
+    uploadListingMedia: requireSeller
+      .meta({ scope: 'listings:write' })
+      .use(requireVerifiedEmail)
+      .input(uploadListingMediaInputSchema)
+      .mutation(({ input, ctx }) => uploadListingMedia(input, ctx.userId)),
+    
+    reorderListingMedia: requireSeller
+      .meta({ scope: 'listings:write' })
+      .input(reorderListingMediaInputSchema)
+      .mutation(({ input, ctx }) => reorderListingMedia(input, ctx.userId)),
+    
+    deleteListingMedia: requireSeller
+      .meta({ scope: 'listings:write' })
+      .input(deleteListingMediaInputSchema)
+      .mutation(({ input, ctx }) => deleteListingMedia(input, ctx.userId)),
+    
     myListings: requireSeller
-      .input(z.object({
+      .meta({ scope: 'listings:read' })
+      .input(cursorPaginationInputSchema.extend({
         status: z.string().optional(),
         page: z.number().int().positive().default(1)
       }))
       .query(({ input, ctx }) => getMyListings(input, ctx.userId)),
     
     myBalance: requireSeller
-      .query(({ ctx }) => getMyBalance(ctx.userId))
+      .meta({ scope: 'balance:read' })
+      .query(({ ctx }) => getMyBalance(ctx.userId)),
+    
+    submitVerification: requireSeller
+      .input(submitKycInputSchema)
+      .mutation(({ input, ctx }) => submitKycDocuments(input, ctx.userId)),
+    
+    myVerification: requireSeller
+      .query(({ ctx }) => getMyVerification(ctx.userId)),
+
+    pendingHandoffs: requireSeller
+      .query(({ ctx }) => listPendingHandoffs(ctx.userId)),
+
+    submitHandoff: requireSeller
+      .input(submitHandoffInputSchema)
+      .mutation(({ input, ctx }) => submitHandoff(input, ctx.userId))
   }),
 
   // Cart routes
   cart: router({
     add: requireAuth
+      .use(requireVerifiedEmail)
       .input(z.object({ listingId: z.string().uuid() }))
       .mutation(({ input, ctx }) => addToCart(input.listingId, ctx.userId)),
     
@@ -149,9 +424,38 @@ const appRouter = router({
       .query(({ ctx }) => getCart(ctx.userId))
   }),
 
+  // Watchlist routes
+  watchlist: router({
+    add: requireAuth
+      .input(watchlistInputSchema)
+      .mutation(({ input, ctx }) => addToWatchlist(input, ctx.userId)),
+
+    remove: requireAuth
+      .input(watchlistInputSchema)
+      .mutation(({ input, ctx }) => removeFromWatchlist(input, ctx.userId)),
+
+    list: requireAuth
+      .query(({ ctx }) => getWatchlist(ctx.userId))
+  }),
+
+  // Saved search routes
+  savedSearches: router({
+    create: requireAuth
+      .input(createSavedSearchInputSchema)
+      .mutation(({ input, ctx }) => createSavedSearch(input, ctx.userId)),
+
+    list: requireAuth
+      .query(({ ctx }) => listSavedSearches(ctx.userId)),
+
+    delete: requireAuth
+      .input(deleteSavedSearchInputSchema)
+      .mutation(({ input, ctx }) => deleteSavedSearch(input, ctx.userId))
+  }),
+
   // Checkout routes
   checkout: router({
     createPaymentIntent: requireAuth
+      .use(requireVerifiedEmail)
       .input(createPaymentIntentInputSchema)
       .mutation(({ input, ctx }) => createPaymentIntent(input, ctx.userId))
   }),
@@ -159,19 +463,30 @@ const appRouter = router({
   // Orders routes
   orders: router({
     myOrders: requireAuth
-      .input(z.object({
+      .meta({ scope: 'orders:read' })
+      .input(cursorPaginationInputSchema.extend({
         status: z.string().optional(),
         page: z.number().int().positive().default(1)
       }))
       .query(({ input, ctx }) => getMyOrders(input, ctx.userId)),
     
     getOrder: requireAuth
+      .meta({ scope: 'orders:read' })
       .input(z.string().uuid())
       .query(({ input, ctx }) => getOrder(input, ctx.userId, ctx.userRole)),
     
     acknowledgeDelivery: requireAuth
       .input(acknowledgeDeliveryInputSchema)
-      .mutation(({ input, ctx }) => acknowledgeDelivery(input, ctx.userId))
+      .mutation(({ input, ctx }) => acknowledgeDelivery(input, ctx.userId)),
+
+    // No scope: API keys cannot read credentials
+    revealCredentials: requireAuth
+      .input(revealCredentialsInputSchema)
+      .mutation(({ input, ctx }) => revealCredentials(input, ctx.userId, ctx.meta)),
+
+    credentialAccessLog: requireAuth
+      .input(credentialAccessLogInputSchema)
+      .query(({ input, ctx }) => listCredentialAccessLog(input, ctx.userId, ctx.userRole))
   }),
 
   // Reviews routes
@@ -185,6 +500,16 @@ const appRouter = router({
       .query(({ input }) => getSellerReviews(input))
   }),
 
+  // Buyer-to-seller onboarding
+  sellerApplications: router({
+    submit: requireAuth
+      .input(submitSellerApplicationInputSchema)
+      .mutation(({ input, ctx }) => submitSellerApplication(input, ctx.userId)),
+    
+    mine: requireAuth
+      .query(({ ctx }) => getMySellerApplication(ctx.userId))
+  }),
+
   // Disputes routes
   disputes: router({
     open: requireAuth
@@ -192,6 +517,7 @@ const appRouter = router({
       .mutation(({ input, ctx }) => openDispute(input, ctx.userId)),
     
     resolve: requireAdmin
+      .use(requireTwoFactor)
       .input(resolveDisputeInputSchema)
       .mutation(({ input, ctx }) => resolveDispute(input, ctx.userId))
   }),
@@ -199,10 +525,12 @@ const appRouter = router({
   // Payouts routes
   payouts: router({
     request: requireSeller
+      .use(requireTwoFactor)
       .input(requestPayoutInputSchema)
       .mutation(({ input, ctx }) => requestPayout(input, ctx.userId)),
     
     adminProcess: requireAdmin
+      .use(requireTwoFactor)
       .input(processPayoutInputSchema)
       .mutation(({ input, ctx }) => processPayoutAdmin(input, ctx.userId))
   }),
@@ -215,38 +543,201 @@ const appRouter = router({
     
     listDisputes: requireAdmin
       .input(listDisputesInputSchema)
-      .query(({ input, ctx }) => listDisputes(input, ctx.userId))
+      .query(({ input, ctx }) => listDisputes(input, ctx.userId)),
+    
+    unlockAccount: requireAdmin
+      .input(unlockAccountInputSchema)
+      .mutation(({ input, ctx }) => unlockAccount(input, ctx.userId)),
+    
+    listSellerApplications: requireAdmin
+      .input(listSellerApplicationsInputSchema)
+      .query(({ input, ctx }) => listSellerApplications(input, ctx.userId)),
+    
+    reviewSellerApplication: requireAdmin
+      .input(reviewSellerApplicationInputSchema)
+      .mutation(({ input, ctx }) => reviewSellerApplication(input, ctx.userId)),
+    
+    setUserRole: requireAdmin
+      .input(setUserRoleInputSchema)
+      .mutation(({ input, ctx }) => setUserRole(input, ctx.userId)),
+    
+    roleHistory: requireAdmin
+      .input(z.string().uuid())
+      .query(({ input, ctx }) => listRoleChanges(input, ctx.userId)),
+    
+    listKycSubmissions: requireAdmin
+      .input(listKycSubmissionsInputSchema)
+      .query(({ input, ctx }) => listKycSubmissions(input, ctx.userId)),
+    
+    getKycDocument: requireAdmin
+      .input(z.string().uuid())
+      .query(({ input, ctx }) => getKycDocument(input, ctx.userId)),
+    
+    reviewKycSubmission: requireAdmin
+      .input(reviewKycSubmissionInputSchema)
+      .mutation(({ input, ctx }) => reviewKycSubmission(input, ctx.userId)),
+
+    categories: router({
+      create: requireAdmin
+        .input(createCategoryInputSchema)
+        .mutation(({ input, ctx }) => createCategory(input, ctx.userId)),
+
+      update: requireAdmin
+        .input(updateCategoryInputSchema)
+        .mutation(({ input, ctx }) => updateCategory(input, ctx.userId)),
+
+      merge: requireAdmin
+        .input(mergeCategoriesInputSchema)
+        .mutation(({ input, ctx }) => mergeCategories(input, ctx.userId)),
+
+      archive: requireAdmin
+        .input(archiveCategoryInputSchema)
+        .mutation(({ input, ctx }) => archiveCategory(input, ctx.userId)),
+
+      attributes: router({
+        create: requireAdmin
+          .input(createCategoryAttributeInputSchema)
+          .mutation(({ input, ctx }) => createCategoryAttribute(input, ctx.userId)),
+
+        update: requireAdmin
+          .input(updateCategoryAttributeInputSchema)
+          .mutation(({ input, ctx }) => updateCategoryAttribute(input, ctx.userId)),
+
+        remove: requireAdmin
+          .input(deleteCategoryAttributeInputSchema)
+          .mutation(({ input, ctx }) => deleteCategoryAttribute(input, ctx.userId))
+      })
+    }),
+
+    keys: router({
+      versions: requireAdmin
+        .query(({ ctx }) => listMasterKeyVersions(ctx.userId)),
+
+      rotate: requireAdmin
+        .mutation(({ ctx }) => startKeyRotation(ctx.userId)),
+
+      resume: requireAdmin
+        .input(keyRotationJobInputSchema)
+        .mutation(({ input, ctx }) => resumeKeyRotation(input, ctx.userId)),
+
+      jobs: requireAdmin
+        .query(({ ctx }) => listKeyRotationJobs(ctx.userId)),
+
+      job: requireAdmin
+        .input(keyRotationJobInputSchema)
+        .query(({ input, ctx }) => getKeyRotationJob(input, ctx.userId))
+    })
   })
 });
 
 export type AppRouter = typeof appRouter;
 
+const MEDIA_PATH_PREFIX = '/media/';
+
+// Listing images are served as plain GETs so <img> tags can load them
+async function serveListingMedia(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  try {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    const file = await getListingMediaFile(decodeURIComponent(pathname.slice(MEDIA_PATH_PREFIX.length)));
+
+    if (!file) {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+
+    res.setHeader('Content-Type', file.content_type);
+    res.setHeader('Content-Length', file.data.length);
+    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.end(file.data);
+  } catch (error) {
+    console.error('Serving listing media failed:', error);
+    res.statusCode = 500;
+    res.end();
+  }
+}
+
+const STRIPE_WEBHOOK_PATH = '/webhooks/stripe';
+const STRIPE_WEBHOOK_MAX_BYTES = 1024 * 1024;
+
+// Stripe signs the exact bytes it sends, so the body is read raw rather than through tRPC
+async function receiveStripeWebhook(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  try {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > STRIPE_WEBHOOK_MAX_BYTES) {
+        res.statusCode = 413;
+        res.end();
+        return;
+      }
+      chunks.push(chunk);
+    }
+
+    const signature = req.headers['stripe-signature'];
+    await handleStripeWebhook(Buffer.concat(chunks).toString('utf8'), typeof signature === 'string' ? signature : undefined);
+    res.statusCode = 200;
+    res.end();
+  } catch {
+    // Logged by the handler; any non-2xx answer makes Stripe deliver the event again
+    res.statusCode = 400;
+    res.end();
+  }
+}
+
 async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   
+  // Listings saved before stock was tracked are fixed up before any sale can touch them
+  await backfillListingInventory().catch(error => console.error('Backfilling listing inventory failed:', error));
+
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        if (req.method === 'GET' && req.url?.startsWith(MEDIA_PATH_PREFIX)) {
+          serveListingMedia(req, res);
+          return;
+        }
+        if (req.method === 'POST' && req.url === STRIPE_WEBHOOK_PATH) {
+          receiveStripeWebhook(req, res);
+          return;
+        }
+        next();
+      });
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
 
   server.listen(port);
+
+  const digestIntervalMinutes = Number(process.env['SAVED_SEARCH_DIGEST_INTERVAL_MINUTES'] || 60);
+  scheduleJob('saved search digests', digestIntervalMinutes * 60 * 1000, runSavedSearchDigests);
+
+  resumeInterruptedKeyRotations().catch(error => console.error('Resuming key rotations failed:', error));
+
   console.log(`AccsMarket tRPC server listening at port: ${port}`);
+  console.log(`Listing media served at ${MEDIA_PATH_PREFIX}`);
+  console.log(`Stripe webhooks received at ${STRIPE_WEBHOOK_PATH}`);
   console.log('Available routes:');
-  console.log('- auth: register, login, me');
-  console.log('- catalog: listCategories, searchListings, getListing');
-  console.log('- seller: upsertListing, setListingPayload, setListingStatus, myListings, myBalance');
+  console.log('- auth: register, login, completeTwoFactorLogin, refresh, logout, me, resendVerificationEmail, verifyEmail, requestPasswordReset, resetPassword, listSessions, revokeSession');
+  console.log('- auth.twoFactor: begin, confirm, disable, regenerateRecoveryCodes');
+  console.log('- auth.apiKeys: create, list, revoke');
+  console.log('- auth.encryptionKey: set, get');
+  console.log('- catalog: listCategories, getCategoryAttributes, searchListings, searchFacets, getListing, getListingDetail');
+  console.log('- seller: upsertListing, setListingPayload, addListingStock, setListingStatus, uploadListingMedia, reorderListingMedia, deleteListingMedia, myListings, myBalance, submitVerification, myVerification, pendingHandoffs, submitHandoff');
   console.log('- cart: add, remove, get');
+  console.log('- watchlist: add, remove, list');
+  console.log('- savedSearches: create, list, delete');
   console.log('- checkout: createPaymentIntent');
-  console.log('- orders: myOrders, getOrder, acknowledgeDelivery');
+  console.log('- orders: myOrders, getOrder, acknowledgeDelivery, revealCredentials, credentialAccessLog');
   console.log('- reviews: create, forSeller');
+  console.log('- sellerApplications: submit, mine');
   console.log('- disputes: open, resolve');
   console.log('- payouts: request, adminProcess');
-  console.log('- admin: listUsers, listDisputes');
+  console.log('- admin: listUsers, listDisputes, unlockAccount, listSellerApplications, reviewSellerApplication, setUserRole, roleHistory, listKycSubmissions, getKycDocument, reviewKycSubmission, categories.{create, update, merge, archive, attributes.{create, update, remove}}, keys.{versions, rotate, resume, jobs, job}');
 }
 
 start();
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { mkdir, readFile, writeFile, unlink } from 'fs/promises';
+import path from 'path';
+
+// Opaque binary storage for uploaded files. Keys are generated by the server,
+// e.g. kyc/<user id>/<document id>; swap in an object-store implementation for
+// production without touching the handlers.
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+// Keys are slash-separated segments of letters, digits, dashes, dots and underscores
+function assertValidKey(key: string): void {
+  const segments = key.split('/');
+  if (segments.some(segment => !/^[A-Za-z0-9._-]+$/.test(segment) || segment === '.' || segment === '..')) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+}
+
+export class MemoryBlobStore implements BlobStore {
+  private readonly blobs = new Map<string, Buffer>();
+
+  async put(key: string, data: Buffer): Promise<void> {
+    assertValidKey(key);
+    this.blobs.set(key, Buffer.from(data));
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    assertValidKey(key);
+    return this.blobs.get(key) ?? null;
+  }
+
+  async delete(key: string): Promise<void> {
+    assertValidKey(key);
+    this.blobs.delete(key);
+  }
+}
+
+// Stores each blob as a file under a root directory
+export class LocalBlobStore implements BlobStore {
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string): string {
+    assertValidKey(key);
+    return path.join(this.root, ...key.split('/'));
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+}
+
+export function createBlobStoreFromEnv(env: Record<string, string | undefined>): BlobStore {
+  const kind = env['BLOB_STORE'] || (env['NODE_ENV'] === 'test' ? 'memory' : 'local');
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryBlobStore();
+    case 'local':
+      return new LocalBlobStore(env['BLOB_STORAGE_DIR'] || './blob-storage');
+    default:
+      throw new Error(`Unknown BLOB_STORE: ${kind}`);
+  }
+}
+
+let store: BlobStore = createBlobStoreFromEnv(process.env);
+
+export function getBlobStore(): BlobStore {
+  return store;
+}
+
+export function setBlobStore(next: BlobStore): void {
+  store = next;
+}
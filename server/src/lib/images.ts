@@ -0,0 +1,49 @@
+import sharp from 'sharp';
+
+// Gallery images are scaled down to fit this box; thumbnails are cropped to fill a card
+const MAX_IMAGE_DIMENSION = 1600;
+const THUMBNAIL_WIDTH = 400;
+const THUMBNAIL_HEIGHT = 300;
+
+// Refuse decompression bombs before decoding them
+const MAX_INPUT_PIXELS = 40_000_000;
+
+export interface ProcessedImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  content_type: 'image/webp';
+}
+
+async function encode(pipeline: sharp.Sharp, quality: number): Promise<ProcessedImage> {
+  const { data, info } = await pipeline.webp({ quality }).toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height, content_type: 'image/webp' };
+}
+
+// Re-encodes an upload as a WebP image and thumbnail. The EXIF orientation is
+// applied to the pixels first; sharp writes no metadata unless asked to, so
+// camera, GPS and other EXIF data never reach the stored files.
+export async function processListingImage(input: Buffer): Promise<{ image: ProcessedImage; thumbnail: ProcessedImage }> {
+  try {
+    const source = sharp(input, { failOn: 'error', limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+
+    const image = await encode(
+      source.clone().resize({
+        width: MAX_IMAGE_DIMENSION,
+        height: MAX_IMAGE_DIMENSION,
+        fit: 'inside',
+        withoutEnlargement: true
+      }),
+      82
+    );
+    const thumbnail = await encode(
+      source.clone().resize({ width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT, fit: 'cover' }),
+      75
+    );
+
+    return { image, thumbnail };
+  } catch (error) {
+    console.error('Image processing failed:', error);
+    throw new Error('Image could not be processed');
+  }
+}
@@ -0,0 +1,214 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// HS256 JSON Web Tokens (RFC 7519) signed with a rotatable keyring.
+// The current key signs new tokens; every key in the ring can verify,
+// so a rotated secret stays valid until the tokens it signed expire.
+
+export interface JWTKey {
+  kid: string;
+  secret: string;
+}
+
+export interface JWTKeyring {
+  current: JWTKey;
+  previous: JWTKey[];
+}
+
+export interface CreateJWTOptions {
+  issuer?: string;
+  audience?: string | string[];
+  notBefore?: string | number;
+}
+
+// Claims of a verified token. The registered claims are checked by verifyJWT;
+// callers check the types of their own claims.
+export type JWTPayload = Record<string, unknown>;
+
+export interface VerifyJWTOptions {
+  issuer?: string;
+  audience?: string;
+  clockToleranceSeconds?: number;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60
+};
+
+// Accepts a number of seconds or strings such as '90s', '15m', '24h', '7d'
+export function parseDuration(value: string | number): number {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid duration: ${value}`);
+    }
+    return Math.floor(value);
+  }
+
+  const match = /^(\d+)\s*([smhdw])?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+
+  const unit = match[2] ?? 's';
+  return parseInt(match[1], 10) * DURATION_UNITS[unit];
+}
+
+// JWT_SECRET/JWT_KEY_ID is the signing key; JWT_PREVIOUS_KEYS is a
+// comma-separated list of kid:secret pairs that are still accepted
+export function loadJWTKeyring(env: Record<string, string | undefined>): JWTKeyring {
+  const current: JWTKey = {
+    kid: env['JWT_KEY_ID'] || 'primary',
+    secret: env['JWT_SECRET'] || 'development_secret_key'
+  };
+
+  const previous: JWTKey[] = (env['JWT_PREVIOUS_KEYS'] || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new Error('JWT_PREVIOUS_KEYS entries must be formatted as kid:secret');
+      }
+      return { kid: entry.slice(0, separator), secret: entry.slice(separator + 1) };
+    });
+
+  return { current, previous };
+}
+
+function toKeyring(key: string | JWTKeyring): JWTKeyring | null {
+  return typeof key === 'string' ? null : key;
+}
+
+function sign(signingInput: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(signingInput).digest();
+}
+
+function signaturesMatch(expected: Buffer, actual: Buffer): boolean {
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function decodeSegment(segment: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid token format');
+  }
+}
+
+// Header and payload must both be JSON objects
+function decodeObject(segment: string): JWTPayload {
+  const decoded = decodeSegment(segment);
+  if (typeof decoded !== 'object' || decoded === null || Array.isArray(decoded)) {
+    throw new Error('Invalid token format');
+  }
+  return decoded as JWTPayload;
+}
+
+export function createJWT(
+  payload: JWTPayload,
+  key: string | JWTKeyring,
+  expiresIn: string | number = '24h',
+  options: CreateJWTOptions = {}
+): string {
+  const keyring = toKeyring(key);
+  const header: Record<string, string> = { alg: 'HS256', typ: 'JWT' };
+  if (keyring) {
+    header['kid'] = keyring.current.kid;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const jwtPayload: JWTPayload = {
+    ...payload,
+    iat: now,
+    exp: now + parseDuration(expiresIn)
+  };
+
+  if (options.notBefore !== undefined) {
+    jwtPayload['nbf'] = now + parseDuration(options.notBefore);
+  }
+  if (options.issuer) {
+    jwtPayload['iss'] = options.issuer;
+  }
+  if (options.audience) {
+    jwtPayload['aud'] = options.audience;
+  }
+
+  const headerB64 = Buffer.from(JSON.stringify(header)).toString('base64url');
+  const payloadB64 = Buffer.from(JSON.stringify(jwtPayload)).toString('base64url');
+  const secret = keyring ? keyring.current.secret : key as string;
+  const signature = sign(`${headerB64}.${payloadB64}`, secret).toString('base64url');
+
+  return `${headerB64}.${payloadB64}.${signature}`;
+}
+
+export function verifyJWT(
+  token: string,
+  key: string | JWTKeyring,
+  options: VerifyJWTOptions = {}
+): JWTPayload {
+  const parts = token.split('.');
+  const [headerB64, payloadB64, signatureB64] = parts;
+  if (parts.length !== 3 || !headerB64 || !payloadB64 || !signatureB64) {
+    throw new Error('Invalid token format');
+  }
+
+  const header = decodeObject(headerB64);
+  if (header['alg'] !== 'HS256') {
+    throw new Error('Unsupported token algorithm');
+  }
+
+  // With a keyring, a kid selects one key; tokens without a kid try them all
+  const keyring = toKeyring(key);
+  let candidates: string[];
+  if (!keyring) {
+    candidates = [key as string];
+  } else {
+    const keys = [keyring.current, ...keyring.previous];
+    if (header['kid'] !== undefined) {
+      const match = keys.find(k => k.kid === header['kid']);
+      if (!match) {
+        throw new Error('Unknown token key');
+      }
+      candidates = [match.secret];
+    } else {
+      candidates = keys.map(k => k.secret);
+    }
+  }
+
+  const signature = Buffer.from(signatureB64, 'base64url');
+  const signingInput = `${headerB64}.${payloadB64}`;
+  const isValid = candidates.some(secret => signaturesMatch(sign(signingInput, secret), signature));
+  if (!isValid) {
+    throw new Error('Invalid token signature');
+  }
+
+  const payload = decodeObject(payloadB64);
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSeconds ?? 0;
+
+  const { exp, nbf, iss, aud } = payload;
+  if (typeof exp === 'number' && exp + tolerance <= now) {
+    throw new Error('Token expired');
+  }
+
+  if (typeof nbf === 'number' && nbf - tolerance > now) {
+    throw new Error('Token not yet valid');
+  }
+
+  if (options.issuer !== undefined && iss !== options.issuer) {
+    throw new Error('Invalid token issuer');
+  }
+
+  if (options.audience !== undefined) {
+    const audiences: unknown[] = Array.isArray(aud) ? aud : [aud];
+    if (!audiences.includes(options.audience)) {
+      throw new Error('Invalid token audience');
+    }
+  }
+
+  return payload;
+}
@@ -0,0 +1,178 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { randomBytes, createCipheriv, createDecipheriv } from 'crypto';
+import path from 'path';
+
+// A data key wrapped by a master key; the version says which master key to unwrap it with
+export interface WrappedKey {
+  wrapped_key: string; // base64 of nonce, auth tag and encrypted key
+  key_version: number;
+}
+
+// Guards the master keys that wrap per-payload data keys. Handlers only ever
+// see wrapped keys, so a KMS-backed provider that never releases its master
+// key can replace the local ones without touching them.
+export interface KeyProvider {
+  // Version new data keys are wrapped with
+  currentKeyVersion(): Promise<number>;
+  wrapKey(dataKey: Buffer): Promise<WrappedKey>;
+  unwrapKey(wrapped: WrappedKey): Promise<Buffer>;
+  // Moves a wrapped key onto the current master key, for key rotation
+  rewrapKey(wrapped: WrappedKey): Promise<WrappedKey>;
+}
+
+const MASTER_KEY_BYTES = 32;
+const WRAP_NONCE_BYTES = 12;
+const WRAP_TAG_BYTES = 16;
+
+function assertMasterKey(version: number, key: Buffer): void {
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid master key version: ${version}`);
+  }
+  if (key.length !== MASTER_KEY_BYTES) {
+    throw new Error(`Master key ${version} must be ${MASTER_KEY_BYTES} bytes`);
+  }
+}
+
+// Wraps data keys with AES-256-GCM under master keys held in memory. New keys
+// are always wrapped with the highest version; older versions stay readable.
+export class LocalKeyProvider implements KeyProvider {
+  private readonly keys: Map<number, Buffer>;
+
+  constructor(keys: Map<number, Buffer>) {
+    if (keys.size === 0) {
+      throw new Error('At least one master key is required');
+    }
+    for (const [version, key] of keys) {
+      assertMasterKey(version, key);
+    }
+    this.keys = new Map(keys);
+  }
+
+  async currentKeyVersion(): Promise<number> {
+    return Math.max(...this.keys.keys());
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<WrappedKey> {
+    const version = await this.currentKeyVersion();
+    const nonce = randomBytes(WRAP_NONCE_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.keys.get(version)!, nonce);
+    const encrypted = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+    return {
+      wrapped_key: Buffer.concat([nonce, cipher.getAuthTag(), encrypted]).toString('base64'),
+      key_version: version
+    };
+  }
+
+  async unwrapKey(wrapped: WrappedKey): Promise<Buffer> {
+    const masterKey = this.keys.get(wrapped.key_version);
+    if (!masterKey) {
+      throw new Error(`Master key version ${wrapped.key_version} is not available`);
+    }
+
+    const data = Buffer.from(wrapped.wrapped_key, 'base64');
+    const nonce = data.subarray(0, WRAP_NONCE_BYTES);
+    const tag = data.subarray(WRAP_NONCE_BYTES, WRAP_NONCE_BYTES + WRAP_TAG_BYTES);
+    const decipher = createDecipheriv('aes-256-gcm', masterKey, nonce);
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([decipher.update(data.subarray(WRAP_NONCE_BYTES + WRAP_TAG_BYTES)), decipher.final()]);
+  }
+
+  async rewrapKey(wrapped: WrappedKey): Promise<WrappedKey> {
+    const dataKey = await this.unwrapKey(wrapped);
+    try {
+      return await this.wrapKey(dataKey);
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+}
+
+// Parses "1:<base64 key>,2:<base64 key>" as used by PAYLOAD_MASTER_KEYS
+export function parseMasterKeys(value: string): Map<number, Buffer> {
+  const keys = new Map<number, Buffer>();
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) {
+      throw new Error('PAYLOAD_MASTER_KEYS entries must be formatted as version:base64key');
+    }
+    const version = Number(entry.slice(0, separator));
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+    assertMasterKey(version, key);
+    keys.set(version, key);
+  }
+  return keys;
+}
+
+// Keeps master keys in a JSON file for local development, creating it with a
+// fresh key on first use. The file is read once, so a key version added for
+// rotation takes effect on restart. Not meant for production: the key sits next to the data.
+export class FileKeyProvider implements KeyProvider {
+  private provider: Promise<LocalKeyProvider> | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  private load(): Promise<LocalKeyProvider> {
+    this.provider ??= this.readOrCreate();
+    return this.provider;
+  }
+
+  private async readOrCreate(): Promise<LocalKeyProvider> {
+    try {
+      const file = JSON.parse(await readFile(this.filePath, 'utf8')) as { keys: Record<string, string> };
+      return new LocalKeyProvider(new Map(
+        Object.entries(file.keys).map(([version, key]) => [Number(version), Buffer.from(key, 'base64')])
+      ));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+
+      const key = randomBytes(MASTER_KEY_BYTES);
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await writeFile(this.filePath, JSON.stringify({ keys: { 1: key.toString('base64') } }, null, 2), { mode: 0o600 });
+      return new LocalKeyProvider(new Map([[1, key]]));
+    }
+  }
+
+  async currentKeyVersion(): Promise<number> {
+    return (await this.load()).currentKeyVersion();
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<WrappedKey> {
+    return (await this.load()).wrapKey(dataKey);
+  }
+
+  async unwrapKey(wrapped: WrappedKey): Promise<Buffer> {
+    return (await this.load()).unwrapKey(wrapped);
+  }
+
+  async rewrapKey(wrapped: WrappedKey): Promise<WrappedKey> {
+    return (await this.load()).rewrapKey(wrapped);
+  }
+}
+
+export function createKeyProviderFromEnv(env: Record<string, string | undefined>): KeyProvider {
+  const kind = env['KEY_PROVIDER'] || (env['NODE_ENV'] === 'test' ? 'memory' : 'file');
+
+  switch (kind) {
+    case 'memory':
+      // A throwaway key: anything it wraps is unreadable after a restart
+      return new LocalKeyProvider(new Map([[1, randomBytes(MASTER_KEY_BYTES)]]));
+    case 'env':
+      return new LocalKeyProvider(parseMasterKeys(env['PAYLOAD_MASTER_KEYS'] || ''));
+    case 'file':
+      return new FileKeyProvider(env['PAYLOAD_KEY_FILE'] || './payload-master-keys.json');
+    default:
+      throw new Error(`Unknown KEY_PROVIDER: ${kind}`);
+  }
+}
+
+let provider: KeyProvider = createKeyProviderFromEnv(process.env);
+
+export function getKeyProvider(): KeyProvider {
+  return provider;
+}
+
+export function setKeyProvider(next: KeyProvider): void {
+  provider = next;
+}
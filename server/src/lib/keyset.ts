@@ -0,0 +1,124 @@
+import { sql, type SQL, type AnyColumn } from 'drizzle-orm';
+
+// Keyset pagination: a page continues strictly after the last row of the previous
+// one, compared on the same keys the query orders by. Cursors are opaque to
+// clients but carry the sort name and the last row's key values as text.
+
+export interface SortKey {
+  expression: SQL | AnyColumn;
+  direction: 'asc' | 'desc';
+  // Postgres type the text value in the cursor is cast back to
+  type: 'uuid' | 'timestamp' | 'integer' | 'numeric' | 'real';
+  // Nullable keys sort their nulls last in either direction
+  nullable?: boolean;
+}
+
+type CursorValues = Array<string | null>;
+
+export function keysetOrderBy(keys: SortKey[]): SQL[] {
+  return keys.map(key =>
+    sql`${key.expression} ${sql.raw(key.direction)}${sql.raw(key.nullable ? ' nulls last' : '')}`
+  );
+}
+
+// Select this as cursor_values to get each row's keys in a form that round-trips
+// exactly; timestamps carry microseconds that a JS Date would drop
+export function keysetCursorValues(keys: SortKey[]): SQL<CursorValues> {
+  return sql<CursorValues>`json_build_array(${sql.join(keys.map(key => sql`${key.expression}::text`), sql`, `)})`;
+}
+
+function rowsAfter(keys: SortKey[], values: CursorValues, index: number): SQL {
+  const key = keys[index];
+  const value = values[index];
+  const last = index === keys.length - 1;
+
+  if (value === null) {
+    // Nothing sorts beyond a null, only ties on this key can follow
+    if (last) return sql`false`;
+    return sql`(${key.expression} is null and ${rowsAfter(keys, values, index + 1)})`;
+  }
+
+  const cast = sql`${value}::${sql.raw(key.type)}`;
+  let beyond = key.direction === 'asc'
+    ? sql`${key.expression} > ${cast}`
+    : sql`${key.expression} < ${cast}`;
+  if (key.nullable) {
+    beyond = sql`(${beyond} or ${key.expression} is null)`;
+  }
+
+  if (last) return beyond;
+  return sql`(${beyond} or (${key.expression} = ${cast} and ${rowsAfter(keys, values, index + 1)}))`;
+}
+
+export function encodeCursor(sortName: string, values: CursorValues): string {
+  return Buffer.from(JSON.stringify({ s: sortName, v: values })).toString('base64url');
+}
+
+const INTEGER_MAX = 2 ** 31 - 1;
+const TIMESTAMP_PATTERN = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?$/;
+
+// Values are cast in SQL, so anything Postgres would refuse to cast is rejected here first
+const isValidKeyValue: Record<SortKey['type'], (value: string) => boolean> = {
+  uuid: value => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+  integer: value => /^-?\d{1,10}$/.test(value) && Math.abs(Number(value)) <= INTEGER_MAX,
+  numeric: value => /^-?\d{1,30}(\.\d{1,30})?$/.test(value),
+  real: value => /^-?(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?$/i.test(value) && Number.isFinite(Number(value)),
+  timestamp: value => {
+    const match = TIMESTAMP_PATTERN.exec(value);
+    if (!match) return false;
+
+    // Round-tripping through a Date catches out-of-range parts such as February 30th
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+    return date.getUTCFullYear() === year &&
+      date.getUTCMonth() === month - 1 &&
+      date.getUTCDate() === day &&
+      date.getUTCHours() === hour &&
+      date.getUTCMinutes() === minute &&
+      date.getUTCSeconds() === second;
+  }
+};
+
+export function decodeCursor(cursor: string, sortName: string, keys: SortKey[]): CursorValues {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  const { s, v } = (decoded ?? {}) as { s?: unknown; v?: unknown };
+  if (
+    s !== sortName ||
+    !Array.isArray(v) ||
+    v.length !== keys.length ||
+    !v.every((value, index) =>
+      value === null || (typeof value === 'string' && isValidKeyValue[keys[index].type](value)))
+  ) {
+    throw new Error('Invalid cursor');
+  }
+
+  return v;
+}
+
+// Condition selecting the rows that come after the cursor
+export function keysetAfter(keys: SortKey[], sortName: string, cursor: string): SQL {
+  return rowsAfter(keys, decodeCursor(cursor, sortName, keys), 0);
+}
+
+// Queries fetch one row more than the page size to learn whether another page exists
+export function takePage<T extends { cursor_values: CursorValues }>(
+  rows: T[],
+  pageSize: number,
+  sortName: string
+): { rows: T[]; next_cursor: string | null } {
+  if (rows.length <= pageSize) {
+    return { rows, next_cursor: null };
+  }
+
+  const page = rows.slice(0, pageSize);
+  return {
+    rows: page,
+    next_cursor: encodeCursor(sortName, page[page.length - 1].cursor_values)
+  };
+}
@@ -0,0 +1,142 @@
+import { db } from '../db';
+import { loginLockoutsTable } from '../db/schema';
+import { eq, sql } from 'drizzle-orm';
+
+// Failed-attempt counters keyed by account or client IP. Counters restart once
+// a key has gone a full window without failures.
+
+export interface LockoutState {
+  failures: number;
+  last_failure_at: Date;
+}
+
+export interface LockoutStore {
+  get(key: string): Promise<LockoutState | null>;
+  recordFailure(key: string, now: Date, windowSeconds: number): Promise<LockoutState>;
+  reset(key: string): Promise<void>;
+}
+
+export interface LockoutPolicy {
+  threshold: number; // Failures allowed before the key is locked
+  baseSeconds: number; // First lock duration, doubled for each further failure
+  maxSeconds: number;
+  windowSeconds: number;
+}
+
+export const ACCOUNT_LOCKOUT_POLICY: LockoutPolicy = {
+  threshold: 5,
+  baseSeconds: 30,
+  maxSeconds: 60 * 60,
+  windowSeconds: 60 * 60
+};
+
+// Shared NAT and office networks get more headroom than a single account
+export const IP_LOCKOUT_POLICY: LockoutPolicy = {
+  threshold: 20,
+  baseSeconds: 60,
+  maxSeconds: 60 * 60,
+  windowSeconds: 60 * 60
+};
+
+export function lockedUntil(
+  state: LockoutState | null,
+  policy: LockoutPolicy,
+  now: Date = new Date()
+): Date | null {
+  if (!state || state.failures < policy.threshold) {
+    return null;
+  }
+
+  if (now.getTime() - state.last_failure_at.getTime() > policy.windowSeconds * 1000) {
+    return null;
+  }
+
+  const seconds = Math.min(
+    policy.baseSeconds * 2 ** (state.failures - policy.threshold),
+    policy.maxSeconds
+  );
+  const until = new Date(state.last_failure_at.getTime() + seconds * 1000);
+  return until > now ? until : null;
+}
+
+export class MemoryLockoutStore implements LockoutStore {
+  private readonly entries = new Map<string, LockoutState>();
+
+  async get(key: string): Promise<LockoutState | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async recordFailure(key: string, now: Date, windowSeconds: number): Promise<LockoutState> {
+    const existing = this.entries.get(key);
+    const expired = !existing || now.getTime() - existing.last_failure_at.getTime() > windowSeconds * 1000;
+    const state = { failures: expired ? 1 : existing.failures + 1, last_failure_at: now };
+    this.entries.set(key, state);
+    return state;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+// Shares counters between server instances and survives restarts
+export class PostgresLockoutStore implements LockoutStore {
+  async get(key: string): Promise<LockoutState | null> {
+    const rows = await db.select()
+      .from(loginLockoutsTable)
+      .where(eq(loginLockoutsTable.key, key))
+      .execute();
+
+    return rows.length === 0
+      ? null
+      : { failures: rows[0].failures, last_failure_at: rows[0].last_failure_at };
+  }
+
+  async recordFailure(key: string, now: Date, windowSeconds: number): Promise<LockoutState> {
+    const cutoff = new Date(now.getTime() - windowSeconds * 1000);
+
+    // Single upsert so concurrent failures cannot lose increments
+    const rows = await db.insert(loginLockoutsTable)
+      .values({ key, failures: 1, last_failure_at: now })
+      .onConflictDoUpdate({
+        target: loginLockoutsTable.key,
+        set: {
+          failures: sql`case when ${loginLockoutsTable.last_failure_at} < ${cutoff} then 1 else ${loginLockoutsTable.failures} + 1 end`,
+          last_failure_at: now
+        }
+      })
+      .returning()
+      .execute();
+
+    return { failures: rows[0].failures, last_failure_at: rows[0].last_failure_at };
+  }
+
+  async reset(key: string): Promise<void> {
+    await db.delete(loginLockoutsTable)
+      .where(eq(loginLockoutsTable.key, key))
+      .execute();
+  }
+}
+
+export function createLockoutStoreFromEnv(env: Record<string, string | undefined>): LockoutStore {
+  const kind = env['LOCKOUT_STORE'] || (env['NODE_ENV'] === 'test' ? 'memory' : 'postgres');
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryLockoutStore();
+    case 'postgres':
+      return new PostgresLockoutStore();
+    default:
+      throw new Error(`Unknown lockout store: ${kind}`);
+  }
+}
+
+let store: LockoutStore = createLockoutStoreFromEnv(process.env);
+
+export function getLockoutStore(): LockoutStore {
+  return store;
+}
+
+export function setLockoutStore(next: LockoutStore): void {
+  store = next;
+}
@@ -0,0 +1,65 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver a message; swap in an SMTP or API-backed
+// implementation for production without touching the handlers
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Keeps sent messages in memory, used by tests and by local runs that do not need files
+export class MemoryMailTransport implements MailTransport {
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
+
+// Writes each message as a JSON file so local developers can open the links
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.json`;
+    await writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sent_at: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+export function createMailTransportFromEnv(env: Record<string, string | undefined>): MailTransport {
+  const kind = env['MAIL_TRANSPORT'] || (env['NODE_ENV'] === 'test' ? 'memory' : 'file');
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryMailTransport();
+    case 'file':
+      return new FileMailTransport(env['MAIL_OUTBOX_DIR'] || './mail-outbox');
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${kind}`);
+  }
+}
+
+let transport: MailTransport = createMailTransportFromEnv(process.env);
+
+export function getMailTransport(): MailTransport {
+  return transport;
+}
+
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
@@ -0,0 +1,65 @@
+import { getMailTransport } from './mail';
+
+export type NotificationKind = 'price_drop' | 'back_in_stock' | 'saved_search_digest';
+
+export interface Notification {
+  user_id: string;
+  email: string;
+  kind: NotificationKind;
+  listing_ids: string[];
+  subject: string;
+  text: string;
+}
+
+// Delivers user-facing alerts; email today, push or in-app channels can be
+// plugged in later without touching the handlers that raise them
+export interface NotificationChannel {
+  send(notification: Notification): Promise<void>;
+}
+
+// Keeps notifications in memory so tests can assert on what was raised
+export class MemoryNotificationChannel implements NotificationChannel {
+  readonly sent: Notification[] = [];
+
+  async send(notification: Notification): Promise<void> {
+    this.sent.push(notification);
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
+
+// Sends each notification as an email through the configured mail transport
+export class EmailNotificationChannel implements NotificationChannel {
+  async send(notification: Notification): Promise<void> {
+    await getMailTransport().send({
+      to: notification.email,
+      subject: notification.subject,
+      text: notification.text
+    });
+  }
+}
+
+export function createNotificationChannelFromEnv(env: Record<string, string | undefined>): NotificationChannel {
+  const kind = env['NOTIFICATION_CHANNEL'] || (env['NODE_ENV'] === 'test' ? 'memory' : 'email');
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryNotificationChannel();
+    case 'email':
+      return new EmailNotificationChannel();
+    default:
+      throw new Error(`Unknown NOTIFICATION_CHANNEL: ${kind}`);
+  }
+}
+
+let channel: NotificationChannel = createNotificationChannelFromEnv(process.env);
+
+export function getNotificationChannel(): NotificationChannel {
+  return channel;
+}
+
+export function setNotificationChannel(next: NotificationChannel): void {
+  channel = next;
+}
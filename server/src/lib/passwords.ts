@@ -0,0 +1,80 @@
+import { randomBytes, pbkdf2Sync, scryptSync, timingSafeEqual } from 'crypto';
+
+// Hashes are stored as $scrypt$N=16384,r=8,p=1$<salt>$<hash> (base64) so the
+// cost can be raised later; verifyPassword reads the parameters from the hash
+// and needsRehash tells login when to upgrade a stored hash.
+
+export interface ScryptParams {
+  N: number;
+  r: number;
+  p: number;
+}
+
+export const SCRYPT_PARAMS: ScryptParams = { N: 16384, r: 8, p: 1 };
+
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 64;
+
+// Hashes written before the switch to scrypt: hex salt:hash, PBKDF2-SHA256
+const LEGACY_PBKDF2_ITERATIONS = 100000;
+
+function scrypt(password: string, salt: Buffer, params: ScryptParams): Buffer {
+  return scryptSync(password, salt, KEY_LENGTH, {
+    N: params.N,
+    r: params.r,
+    p: params.p,
+    // Node's 32 MiB default is too small for N above 16384
+    maxmem: 256 * params.N * params.r
+  });
+}
+
+interface ParsedScryptHash {
+  params: ScryptParams;
+  salt: Buffer;
+  hash: Buffer;
+}
+
+function parseScryptHash(storedHash: string): ParsedScryptHash | null {
+  const match = /^\$scrypt\$N=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9+/=]+)\$([A-Za-z0-9+/=]+)$/.exec(storedHash);
+  if (!match) return null;
+
+  return {
+    params: { N: Number(match[1]), r: Number(match[2]), p: Number(match[3]) },
+    salt: Buffer.from(match[4], 'base64'),
+    hash: Buffer.from(match[5], 'base64')
+  };
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = scrypt(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return `$scrypt$N=${N},r=${r},p=${p}$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export function verifyPassword(password: string, storedHash: string): boolean {
+  const parsed = parseScryptHash(storedHash);
+  if (parsed) {
+    return safeEqual(parsed.hash, scrypt(password, parsed.salt, parsed.params));
+  }
+
+  const [salt, hash] = storedHash.split(':');
+  if (!salt || !hash) return false;
+
+  const computedHash = pbkdf2Sync(password, salt, LEGACY_PBKDF2_ITERATIONS, 64, 'sha256');
+  return safeEqual(Buffer.from(hash, 'hex'), computedHash);
+}
+
+// True for legacy hashes and for scrypt hashes made with older parameters
+export function needsRehash(storedHash: string): boolean {
+  const parsed = parseScryptHash(storedHash);
+  if (!parsed) return true;
+
+  return parsed.params.N !== SCRYPT_PARAMS.N
+    || parsed.params.r !== SCRYPT_PARAMS.r
+    || parsed.params.p !== SCRYPT_PARAMS.p;
+}
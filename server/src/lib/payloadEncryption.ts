@@ -0,0 +1,60 @@
+import { randomBytes, createCipheriv, createDecipheriv } from 'crypto';
+import { getKeyProvider } from './keyProvider';
+
+// Everything needed to decrypt a payload besides the master key; binary fields are base64
+export interface EncryptedPayload {
+  cipher_text: string;
+  nonce: string;
+  auth_tag: string;
+  wrapped_key: string;
+  key_version: number;
+}
+
+const DATA_KEY_BYTES = 32;
+const NONCE_BYTES = 12;
+
+// Envelope encryption: each payload gets its own AES-256-GCM data key, which is
+// stored wrapped by the key provider's master key. The listing id is bound in
+// as associated data, so a payload copied onto another listing fails to decrypt.
+export async function encryptPayload(plaintext: string, listingId: string): Promise<EncryptedPayload> {
+  const dataKey = randomBytes(DATA_KEY_BYTES);
+  try {
+    const nonce = randomBytes(NONCE_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', dataKey, nonce);
+    cipher.setAAD(Buffer.from(listingId));
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    const { wrapped_key, key_version } = await getKeyProvider().wrapKey(dataKey);
+
+    return {
+      cipher_text: encrypted.toString('base64'),
+      nonce: nonce.toString('base64'),
+      auth_tag: cipher.getAuthTag().toString('base64'),
+      wrapped_key,
+      key_version
+    };
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+export async function decryptPayload(payload: EncryptedPayload, listingId: string): Promise<string> {
+  let dataKey: Buffer | null = null;
+  try {
+    dataKey = await getKeyProvider().unwrapKey({ wrapped_key: payload.wrapped_key, key_version: payload.key_version });
+
+    const decipher = createDecipheriv('aes-256-gcm', dataKey, Buffer.from(payload.nonce, 'base64'));
+    decipher.setAAD(Buffer.from(listingId));
+    decipher.setAuthTag(Buffer.from(payload.auth_tag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(payload.cipher_text, 'base64')),
+      decipher.final()
+    ]).toString('utf8');
+  } catch (error) {
+    console.error('Payload decryption failed:', error);
+    throw new Error('Credentials could not be decrypted');
+  } finally {
+    dataKey?.fill(0);
+  }
+}
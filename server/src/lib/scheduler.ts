@@ -0,0 +1,27 @@
+// Runs a background task on a fixed interval inside the server process. A run
+// that is still going when the next one is due is not overlapped; the tick is
+// skipped instead. Returns a function that stops the schedule.
+export function scheduleJob(name: string, intervalMs: number, task: () => Promise<unknown>): () => void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await task();
+    } catch (error) {
+      console.error(`Job ${name} failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  // A pending job should not keep the process alive on shutdown
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
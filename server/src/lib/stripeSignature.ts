@@ -0,0 +1,51 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Stripe signs each webhook body with HMAC-SHA256 over "<timestamp>.<body>" and
+// sends "t=<timestamp>,v1=<hex>" in the Stripe-Signature header. While an endpoint
+// secret is being rolled the header carries one v1 entry per secret.
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+function computeSignature(payload: string, timestamp: number, secret: string): Buffer {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest();
+}
+
+export function signStripePayload(payload: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${computeSignature(payload, timestamp, secret).toString('hex')}`;
+}
+
+// Throws unless one of the header's signatures matches and its timestamp is recent,
+// so a captured event cannot be replayed later
+export function verifyStripeSignature(
+  payload: string,
+  header: string,
+  secret: string,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS,
+  now: number = Date.now()
+): void {
+  let timestamp: number | null = null;
+  const signatures: Buffer[] = [];
+  for (const entry of header.split(',')) {
+    const separator = entry.indexOf('=');
+    const key = entry.slice(0, separator).trim();
+    const value = entry.slice(separator + 1).trim();
+    if (key === 't' && /^\d+$/.test(value)) {
+      timestamp = Number(value);
+    } else if (key === 'v1' && /^[0-9a-f]{64}$/.test(value)) {
+      signatures.push(Buffer.from(value, 'hex'));
+    }
+  }
+
+  if (timestamp === null || signatures.length === 0) {
+    throw new Error('Invalid webhook signature');
+  }
+
+  const expected = computeSignature(payload, timestamp, secret);
+  if (!signatures.some(signature => timingSafeEqual(expected, signature))) {
+    throw new Error('Invalid webhook signature');
+  }
+
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    throw new Error('Webhook signature has expired');
+  }
+}
@@ -0,0 +1,13 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Opaque tokens (refresh, password reset, email verification) are random,
+// so only a SHA-256 digest is stored and a database leak cannot replay them
+
+export function hashOpaqueToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function generateOpaqueToken(): { token: string; hash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, hash: hashOpaqueToken(token) };
+}
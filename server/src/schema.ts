@@ -5,10 +5,23 @@ export const userRoleSchema = z.enum(['buyer', 'seller', 'admin']);
 export const verificationStatusSchema = z.enum(['none', 'pending', 'verified']);
 export const listingStatusSchema = z.enum(['available', 'sold', 'delisted']);
 export const orderStatusSchema = z.enum(['pending', 'paid', 'delivered', 'disputed', 'complete', 'refunded']);
-export const transactionStatusSchema = z.enum(['initiated', 'succeeded', 'failed']);
+export const transactionStatusSchema = z.enum(['initiated', 'succeeded', 'failed', 'refunded']);
 export const paymentProviderSchema = z.enum(['stripe']);
 export const disputeStatusSchema = z.enum(['open', 'resolved_buyer', 'resolved_seller', 'refunded']);
 export const payoutStatusSchema = z.enum(['requested', 'processing', 'paid', 'failed']);
+export const sellerApplicationStatusSchema = z.enum(['pending', 'approved', 'rejected']);
+export const kycSubmissionStatusSchema = z.enum(['pending', 'approved', 'rejected']);
+export const kycDocumentTypeSchema = z.enum(['passport', 'national_id', 'drivers_license', 'proof_of_address', 'selfie']);
+export const apiKeyScopeSchema = z.enum(['listings:read', 'listings:write', 'orders:read', 'balance:read']);
+export const categoryAttributeTypeSchema = z.enum(['text', 'integer', 'number', 'boolean', 'enum']);
+export const keyRotationJobStatusSchema = z.enum(['running', 'failed', 'completed']);
+export const credentialAccessResultSchema = z.enum(['revealed', 'password_rejected']);
+
+export type UserRole = z.infer<typeof userRoleSchema>;
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+
+// Roles a visitor may pick at sign-up; admin is only granted by another admin
+export const selfServiceRoleSchema = z.enum(['buyer', 'seller']);
 
 // User schemas
 export const userSchema = z.object({
@@ -16,6 +29,7 @@ export const userSchema = z.object({
   email: z.string().email(),
   password_hash: z.string(),
   role: userRoleSchema,
+  email_verified_at: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -25,18 +39,223 @@ export type User = z.infer<typeof userSchema>;
 export const registerInputSchema = z.object({
   email: z.string().email(),
   password: z.string().min(8),
-  role: userRoleSchema
+  role: selfServiceRoleSchema
 });
 
 export type RegisterInput = z.infer<typeof registerInputSchema>;
 
 export const loginInputSchema = z.object({
   email: z.string().email(),
-  password: z.string()
+  password: z.string(),
+  device_label: z.string().max(100).optional()
 });
 
 export type LoginInput = z.infer<typeof loginInputSchema>;
 
+export const requestPasswordResetInputSchema = z.object({
+  email: z.string().email()
+});
+
+export type RequestPasswordResetInput = z.infer<typeof requestPasswordResetInputSchema>;
+
+export const resetPasswordInputSchema = z.object({
+  token: z.string(),
+  new_password: z.string().min(8)
+});
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordInputSchema>;
+
+export const verifyEmailInputSchema = z.object({
+  token: z.string()
+});
+
+export type VerifyEmailInput = z.infer<typeof verifyEmailInputSchema>;
+
+// Session schemas
+export const sessionSchema = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  device_label: z.string().nullable(),
+  ip_address: z.string().nullable(),
+  created_at: z.coerce.date(),
+  last_seen_at: z.coerce.date(),
+  revoked_at: z.coerce.date().nullable()
+});
+
+export type Session = z.infer<typeof sessionSchema>;
+
+export const refreshSessionInputSchema = z.object({
+  refresh_token: z.string()
+});
+
+export type RefreshSessionInput = z.infer<typeof refreshSessionInputSchema>;
+
+export const revokeSessionInputSchema = z.object({
+  session_id: z.string().uuid()
+});
+
+export type RevokeSessionInput = z.infer<typeof revokeSessionInputSchema>;
+
+export const authTokensResponseSchema = z.object({
+  token: z.string(),
+  refresh_token: z.string(),
+  session_id: z.string().uuid()
+});
+
+export type AuthTokensResponse = z.infer<typeof authTokensResponseSchema>;
+
+// API key schemas
+export const apiKeySchema = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(apiKeyScopeSchema),
+  expires_at: z.coerce.date().nullable(),
+  last_used_at: z.coerce.date().nullable(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+export const createApiKeyInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(apiKeyScopeSchema).min(1),
+  expires_at: z.coerce.date().optional()
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeyInputSchema>;
+
+// The full key is only ever returned here, at creation
+export const createApiKeyResponseSchema = z.object({
+  api_key: apiKeySchema,
+  key: z.string()
+});
+
+export type CreateApiKeyResponse = z.infer<typeof createApiKeyResponseSchema>;
+
+export const revokeApiKeyInputSchema = z.object({
+  api_key_id: z.string().uuid()
+});
+
+export type RevokeApiKeyInput = z.infer<typeof revokeApiKeyInputSchema>;
+
+// Two-factor schemas
+export const twoFactorSetupResponseSchema = z.object({
+  secret: z.string(),
+  otpauth_uri: z.string()
+});
+
+export type TwoFactorSetupResponse = z.infer<typeof twoFactorSetupResponseSchema>;
+
+export const twoFactorCodeInputSchema = z.object({
+  code: z.string().min(6).max(32)
+});
+
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeInputSchema>;
+
+export const recoveryCodesResponseSchema = z.object({
+  recovery_codes: z.array(z.string())
+});
+
+export type RecoveryCodesResponse = z.infer<typeof recoveryCodesResponseSchema>;
+
+export const completeTwoFactorLoginInputSchema = z.object({
+  challenge_token: z.string(),
+  code: z.string().min(6).max(32)
+});
+
+export type CompleteTwoFactorLoginInput = z.infer<typeof completeTwoFactorLoginInputSchema>;
+
+// Login either signs the user in or asks for a second factor
+export const loginResponseSchema = z.discriminatedUnion('two_factor_required', [
+  authTokensResponseSchema.extend({
+    two_factor_required: z.literal(false),
+    user: userSchema
+  }),
+  z.object({
+    two_factor_required: z.literal(true),
+    challenge_token: z.string()
+  })
+]);
+
+export type LoginResponse = z.infer<typeof loginResponseSchema>;
+
+// Request metadata recorded against sessions and audit rows
+export const requestMetaSchema = z.object({
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable()
+});
+
+export type RequestMeta = z.infer<typeof requestMetaSchema>;
+
+// Seller onboarding and role change schemas
+export const sellerApplicationSchema = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  display_name: z.string(),
+  description: z.string(),
+  contact: z.string().nullable(),
+  status: sellerApplicationStatusSchema,
+  reviewed_by: z.string().uuid().nullable(),
+  review_note: z.string().nullable(),
+  reviewed_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type SellerApplication = z.infer<typeof sellerApplicationSchema>;
+
+export const submitSellerApplicationInputSchema = z.object({
+  display_name: z.string().min(2).max(100),
+  description: z.string().min(20).max(2000),
+  contact: z.string().max(200).optional()
+});
+
+export type SubmitSellerApplicationInput = z.infer<typeof submitSellerApplicationInputSchema>;
+
+export const listSellerApplicationsInputSchema = z.object({
+  status: sellerApplicationStatusSchema.optional(),
+  page: z.number().int().positive().default(1)
+});
+
+export type ListSellerApplicationsInput = z.infer<typeof listSellerApplicationsInputSchema>;
+
+export const reviewSellerApplicationInputSchema = z.object({
+  application_id: z.string().uuid(),
+  decision: z.enum(['approve', 'reject']),
+  note: z.string().max(1000).optional()
+});
+
+export type ReviewSellerApplicationInput = z.infer<typeof reviewSellerApplicationInputSchema>;
+
+export const roleChangeSchema = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  from_role: userRoleSchema,
+  to_role: userRoleSchema,
+  changed_by: z.string().uuid().nullable(),
+  reason: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type RoleChange = z.infer<typeof roleChangeSchema>;
+
+export const setUserRoleInputSchema = z.object({
+  user_id: z.string().uuid(),
+  role: userRoleSchema,
+  reason: z.string().max(500).optional()
+});
+
+export type SetUserRoleInput = z.infer<typeof setUserRoleInputSchema>;
+
+export const bootstrapAdminInputSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(12)
+});
+
+export type BootstrapAdminInput = z.infer<typeof bootstrapAdminInputSchema>;
+
 // Profile schemas
 export const profileSchema = z.object({
   id: z.string().uuid(),
@@ -48,22 +267,253 @@ export const profileSchema = z.object({
 
 export type Profile = z.infer<typeof profileSchema>;
 
+// Seller verification (KYC) schemas
+export const KYC_CONTENT_TYPES = ['image/jpeg', 'image/png', 'application/pdf'] as const;
+export const KYC_MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+
+export const kycDocumentSchema = z.object({
+  id: z.string().uuid(),
+  submission_id: z.string().uuid(),
+  document_type: kycDocumentTypeSchema,
+  file_name: z.string(),
+  content_type: z.string(),
+  size_bytes: z.number().int(),
+  created_at: z.coerce.date()
+});
+
+export type KycDocument = z.infer<typeof kycDocumentSchema>;
+
+export const kycSubmissionSchema = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  status: kycSubmissionStatusSchema,
+  reviewed_by: z.string().uuid().nullable(),
+  review_reason: z.string().nullable(),
+  reviewed_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  documents: z.array(kycDocumentSchema)
+});
+
+export type KycSubmission = z.infer<typeof kycSubmissionSchema>;
+
+export const verificationStatusChangeSchema = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  from_status: verificationStatusSchema,
+  to_status: verificationStatusSchema,
+  submission_id: z.string().uuid().nullable(),
+  changed_by: z.string().uuid().nullable(),
+  reason: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type VerificationStatusChange = z.infer<typeof verificationStatusChangeSchema>;
+
+export const myVerificationResponseSchema = z.object({
+  status: verificationStatusSchema,
+  submission: kycSubmissionSchema.nullable(),
+  history: z.array(verificationStatusChangeSchema)
+});
+
+export type MyVerificationResponse = z.infer<typeof myVerificationResponseSchema>;
+
+// Files travel as base64 inside the JSON body; 4 base64 characters carry 3 bytes
+export const kycDocumentUploadSchema = z.object({
+  document_type: kycDocumentTypeSchema,
+  file_name: z.string().min(1).max(200),
+  content_type: z.enum(KYC_CONTENT_TYPES),
+  data_base64: z.string().min(1).max(Math.ceil(KYC_MAX_DOCUMENT_BYTES / 3) * 4)
+});
+
+export type KycDocumentUpload = z.infer<typeof kycDocumentUploadSchema>;
+
+export const submitKycInputSchema = z.object({
+  documents: z.array(kycDocumentUploadSchema).min(1).max(5)
+});
+
+export type SubmitKycInput = z.infer<typeof submitKycInputSchema>;
+
+export const listKycSubmissionsInputSchema = z.object({
+  status: kycSubmissionStatusSchema.optional(),
+  page: z.number().int().positive().default(1)
+});
+
+export type ListKycSubmissionsInput = z.infer<typeof listKycSubmissionsInputSchema>;
+
+export const reviewKycSubmissionInputSchema = z.object({
+  submission_id: z.string().uuid(),
+  decision: z.enum(['approve', 'reject']),
+  reason: z.string().max(1000).optional()
+}).refine(input => input.decision === 'approve' || !!input.reason?.trim(), {
+  message: 'A reason is required when rejecting',
+  path: ['reason']
+});
+
+export type ReviewKycSubmissionInput = z.infer<typeof reviewKycSubmissionInputSchema>;
+
+export const kycDocumentContentSchema = z.object({
+  file_name: z.string(),
+  content_type: z.string(),
+  data_base64: z.string()
+});
+
+export type KycDocumentContent = z.infer<typeof kycDocumentContentSchema>;
+
 // Category schemas
 export const categorySchema = z.object({
   id: z.string().uuid(),
+  parent_id: z.string().uuid().nullable(),
   name: z.string(),
-  slug: z.string()
+  slug: z.string(),
+  archived_at: z.coerce.date().nullable()
 });
 
 export type Category = z.infer<typeof categorySchema>;
 
+// Lowercase words joined by single hyphens, e.g. "steam-accounts"
+const categorySlugSchema = z.string()
+  .max(64)
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, digits and single hyphens');
+
+const categoryNameSchema = z.string().trim().min(1).max(100);
+
 export const createCategoryInputSchema = z.object({
-  name: z.string(),
-  slug: z.string()
+  name: categoryNameSchema,
+  slug: categorySlugSchema,
+  parent_id: z.string().uuid().optional()
 });
 
 export type CreateCategoryInput = z.infer<typeof createCategoryInputSchema>;
 
+// parent_id null moves the category to the top level
+export const updateCategoryInputSchema = z.object({
+  category_id: z.string().uuid(),
+  name: categoryNameSchema.optional(),
+  slug: categorySlugSchema.optional(),
+  parent_id: z.string().uuid().nullable().optional()
+});
+
+export type UpdateCategoryInput = z.infer<typeof updateCategoryInputSchema>;
+
+export const mergeCategoriesInputSchema = z.object({
+  source_id: z.string().uuid(),
+  target_id: z.string().uuid()
+});
+
+export type MergeCategoriesInput = z.infer<typeof mergeCategoriesInputSchema>;
+
+export const archiveCategoryInputSchema = z.object({
+  category_id: z.string().uuid()
+});
+
+export type ArchiveCategoryInput = z.infer<typeof archiveCategoryInputSchema>;
+
+export type CategoryAttributeType = z.infer<typeof categoryAttributeTypeSchema>;
+
+export const categoryAttributeSchema = z.object({
+  id: z.string().uuid(),
+  category_id: z.string().uuid(),
+  key: z.string(),
+  label: z.string(),
+  type: categoryAttributeTypeSchema,
+  required: z.boolean(),
+  enum_values: z.array(z.string()),
+  position: z.number().int(),
+  created_at: z.coerce.date()
+});
+
+export type CategoryAttribute = z.infer<typeof categoryAttributeSchema>;
+
+export const getCategoryAttributesInputSchema = z.object({
+  category_id: z.string().uuid()
+});
+
+export type GetCategoryAttributesInput = z.infer<typeof getCategoryAttributesInputSchema>;
+
+// Keys are what listings store their values under, so they stay fixed once created
+const categoryAttributeKeySchema = z.string()
+  .max(64)
+  .regex(/^[a-z][a-z0-9_]*$/, 'Key may only contain lowercase letters, digits and underscores, starting with a letter');
+
+const categoryAttributeLabelSchema = z.string().trim().min(1).max(100);
+
+const categoryAttributeEnumValuesSchema = z.array(z.string().trim().min(1).max(100)).max(50);
+
+export const createCategoryAttributeInputSchema = z.object({
+  category_id: z.string().uuid(),
+  key: categoryAttributeKeySchema,
+  label: categoryAttributeLabelSchema,
+  type: categoryAttributeTypeSchema,
+  required: z.boolean().optional(),
+  enum_values: categoryAttributeEnumValuesSchema.optional(), // Only for enum attributes, which need at least one
+  position: z.number().int().nonnegative().optional()
+});
+
+export type CreateCategoryAttributeInput = z.infer<typeof createCategoryAttributeInputSchema>;
+
+export const updateCategoryAttributeInputSchema = z.object({
+  attribute_id: z.string().uuid(),
+  label: categoryAttributeLabelSchema.optional(),
+  type: categoryAttributeTypeSchema.optional(),
+  required: z.boolean().optional(),
+  enum_values: categoryAttributeEnumValuesSchema.optional(),
+  position: z.number().int().nonnegative().optional()
+});
+
+export type UpdateCategoryAttributeInput = z.infer<typeof updateCategoryAttributeInputSchema>;
+
+export const deleteCategoryAttributeInputSchema = z.object({
+  attribute_id: z.string().uuid()
+});
+
+export type DeleteCategoryAttributeInput = z.infer<typeof deleteCategoryAttributeInputSchema>;
+
+// Values are checked against the category's attribute definitions when a listing is saved
+export const listingAttributeValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+export const listingAttributesSchema = z.record(z.string(), listingAttributeValueSchema);
+
+export type ListingAttributes = z.infer<typeof listingAttributesSchema>;
+
+// Listing media schemas
+export const LISTING_MEDIA_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const;
+export const LISTING_MEDIA_MAX_BYTES = 8 * 1024 * 1024;
+export const LISTING_MEDIA_MAX_PER_LISTING = 10;
+
+// Images are re-encoded on upload, so every file served is a WebP without metadata
+export const listingMediaSchema = z.object({
+  id: z.string().uuid(),
+  url: z.string(),
+  thumbnail_url: z.string(),
+  width: z.number().int(),
+  height: z.number().int(),
+  position: z.number().int()
+});
+
+export type ListingMedia = z.infer<typeof listingMediaSchema>;
+
+export const uploadListingMediaInputSchema = z.object({
+  listing_id: z.string().uuid(),
+  content_type: z.enum(LISTING_MEDIA_CONTENT_TYPES),
+  data_base64: z.string().min(1).max(Math.ceil(LISTING_MEDIA_MAX_BYTES / 3) * 4)
+});
+
+export type UploadListingMediaInput = z.infer<typeof uploadListingMediaInputSchema>;
+
+// media_ids lists every image of the listing in the new order
+export const reorderListingMediaInputSchema = z.object({
+  listing_id: z.string().uuid(),
+  media_ids: z.array(z.string().uuid()).max(LISTING_MEDIA_MAX_PER_LISTING)
+});
+
+export type ReorderListingMediaInput = z.infer<typeof reorderListingMediaInputSchema>;
+
+export const deleteListingMediaInputSchema = z.object({
+  media_id: z.string().uuid()
+});
+
+export type DeleteListingMediaInput = z.infer<typeof deleteListingMediaInputSchema>;
+
 // Listing schemas
 export const listingSchema = z.object({
   id: z.string().uuid(),
@@ -75,18 +525,47 @@ export const listingSchema = z.object({
   currency: z.string(),
   status: listingStatusSchema,
   has_secure_payload: z.boolean(),
+  stock: z.number().int(), // Unsold credential payloads; a listing is sold once this reaches 0
+  e2e_handoff: z.boolean(),
+  attributes: listingAttributesSchema,
+  media: z.array(listingMediaSchema),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type Listing = z.infer<typeof listingSchema>;
 
+// Public seller reputation shown alongside a listing
+export const listingSellerSchema = z.object({
+  id: z.string().uuid(),
+  display_name: z.string().nullable(), // From the approved seller application, if any
+  member_since: z.coerce.date(),
+  rating: z.number().nullable(), // null until the seller has a profile
+  review_count: z.number().int(),
+  verification_status: verificationStatusSchema,
+  completed_sales: z.number().int()
+});
+
+export type ListingSeller = z.infer<typeof listingSellerSchema>;
+
+// Sold and delisted listings still resolve so order history can link to them
+export const listingDetailSchema = listingSchema.extend({
+  is_available: z.boolean(),
+  category: categorySchema,
+  seller: listingSellerSchema
+});
+
+export type ListingDetail = z.infer<typeof listingDetailSchema>;
+
 export const upsertListingInputSchema = z.object({
   id: z.string().uuid().optional(),
   title: z.string(),
   description: z.string(),
   category_id: z.string().uuid(),
-  price_cents: z.number().int().positive()
+  price_cents: z.number().int().positive(),
+  attributes: listingAttributesSchema.optional(),
+  // Opt in to sealing credentials to each buyer's public key; fixed once the listing has orders
+  e2e_handoff: z.boolean().optional()
 });
 
 export type UpsertListingInput = z.infer<typeof upsertListingInputSchema>;
@@ -98,6 +577,16 @@ export const setListingPayloadInputSchema = z.object({
 
 export type SetListingPayloadInput = z.infer<typeof setListingPayloadInputSchema>;
 
+export const LISTING_STOCK_MAX_BATCH = 500;
+
+// One entry per unit; each is encrypted and sold separately
+export const addListingStockInputSchema = z.object({
+  listing_id: z.string().uuid(),
+  credentials: z.array(z.string().trim().min(1)).min(1).max(LISTING_STOCK_MAX_BATCH)
+});
+
+export type AddListingStockInput = z.infer<typeof addListingStockInputSchema>;
+
 export const setListingStatusInputSchema = z.object({
   listing_id: z.string().uuid(),
   status: listingStatusSchema
@@ -105,17 +594,121 @@ export const setListingStatusInputSchema = z.object({
 
 export type SetListingStatusInput = z.infer<typeof setListingStatusInputSchema>;
 
-export const searchListingsInputSchema = z.object({
+// relevance only applies with a query; without one it falls back to newest
+export const listingSortSchema = z.enum(['relevance', 'price_asc', 'price_desc', 'newest', 'seller_rating']);
+
+export type ListingSort = z.infer<typeof listingSortSchema>;
+
+// Keyset paging: pass a response's next_cursor back as cursor to continue after
+// it (page is then ignored). Totals are counted unless include_total is false.
+export const cursorPaginationInputSchema = z.object({
+  cursor: z.string().optional(),
+  include_total: z.boolean().optional()
+});
+
+export type CursorPaginationInput = z.infer<typeof cursorPaginationInputSchema>;
+
+// An attribute filter matches a value exactly, or a numeric attribute within inclusive bounds
+export const attributeFilterSchema = z.union([
+  listingAttributeValueSchema,
+  z.object({
+    min: z.number().optional(),
+    max: z.number().optional()
+  })
+]);
+
+export type AttributeFilter = z.infer<typeof attributeFilterSchema>;
+
+// Filters shared by listing search and its facet counts; a category includes its subcategories
+export const listingFiltersSchema = z.object({
   q: z.string().optional(),
   category_slug: z.string().optional(),
   min_price: z.number().int().nonnegative().optional(),
   max_price: z.number().int().positive().optional(),
+  seller_verification: verificationStatusSchema.optional(),
+  attributes: z.record(z.string(), attributeFilterSchema).optional()
+});
+
+export type ListingFilters = z.infer<typeof listingFiltersSchema>;
+
+export const searchListingsInputSchema = listingFiltersSchema.merge(cursorPaginationInputSchema).extend({
+  sort: listingSortSchema.default('relevance'),
   page: z.number().int().positive().default(1),
   page_size: z.number().int().positive().max(50).default(20)
 });
 
 export type SearchListingsInput = z.infer<typeof searchListingsInputSchema>;
 
+// Saved searches keep the filters and sort of a search, not its paging
+export const savedSearchQuerySchema = listingFiltersSchema.extend({
+  sort: listingSortSchema.default('relevance')
+});
+
+export type SavedSearchQuery = z.infer<typeof savedSearchQuerySchema>;
+
+export const savedSearchSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  query: savedSearchQuerySchema,
+  last_run_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type SavedSearch = z.infer<typeof savedSearchSchema>;
+
+export const createSavedSearchInputSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  query: searchListingsInputSchema
+});
+
+export type CreateSavedSearchInput = z.infer<typeof createSavedSearchInputSchema>;
+
+export const deleteSavedSearchInputSchema = z.object({
+  saved_search_id: z.string().uuid()
+});
+
+export type DeleteSavedSearchInput = z.infer<typeof deleteSavedSearchInputSchema>;
+
+// A run of text from a search highlight, flagged when it matched the query
+export const highlightSegmentSchema = z.object({
+  text: z.string(),
+  matched: z.boolean()
+});
+
+export type HighlightSegment = z.infer<typeof highlightSegmentSchema>;
+
+export const listingSearchResultSchema = listingSchema.extend({
+  // Only present when the search had a query
+  highlight: z.object({
+    title: z.array(highlightSegmentSchema),
+    snippet: z.array(highlightSegmentSchema)
+  }).nullable()
+});
+
+export type ListingSearchResult = z.infer<typeof listingSearchResultSchema>;
+
+// Each facet counts matches with every filter except its own, so the counts
+// show what picking a different option would return
+export const searchFacetsResponseSchema = z.object({
+  categories: z.array(z.object({
+    slug: z.string(),
+    name: z.string(),
+    parent_slug: z.string().nullable(),
+    count: z.number().int()
+  })),
+  price_buckets: z.array(z.object({
+    min_price: z.number().int(),
+    max_price: z.number().int().nullable(), // null for the open-ended top bucket
+    count: z.number().int()
+  })),
+  seller_verification: z.array(z.object({
+    status: verificationStatusSchema,
+    count: z.number().int()
+  }))
+});
+
+export type SearchFacetsResponse = z.infer<typeof searchFacetsResponseSchema>;
+
 // Listing secure payload schemas
 export const listingSecurePayloadSchema = z.object({
   id: z.string().uuid(),
@@ -136,6 +729,7 @@ export const orderSchema = z.object({
   currency: z.string(),
   status: orderStatusSchema,
   expires_at: z.coerce.date().nullable(),
+  buyer_public_key: z.string().nullable(), // Set when the credentials are handed off end to end
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -148,12 +742,111 @@ export const createPaymentIntentInputSchema = z.object({
 
 export type CreatePaymentIntentInput = z.infer<typeof createPaymentIntentInputSchema>;
 
+// The parts of a Stripe event the webhook reads; everything else is ignored
+export const stripeWebhookEventSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  data: z.object({
+    object: z.object({
+      id: z.string()
+    })
+  })
+});
+
+export type StripeWebhookEvent = z.infer<typeof stripeWebhookEventSchema>;
+
 export const acknowledgeDeliveryInputSchema = z.object({
   order_id: z.string().uuid()
 });
 
 export type AcknowledgeDeliveryInput = z.infer<typeof acknowledgeDeliveryInputSchema>;
 
+// Credential reveal schemas
+export const revealCredentialsInputSchema = z.object({
+  order_id: z.string().uuid(),
+  password: z.string().optional() // Required unless CREDENTIAL_REVEAL_REQUIRE_PASSWORD=false
+});
+
+export type RevealCredentialsInput = z.infer<typeof revealCredentialsInputSchema>;
+
+// Base64 of a raw 32-byte X25519 public key, and of a 12-byte AES-GCM nonce
+const x25519PublicKeySchema = z.string().regex(/^[A-Za-z0-9+/]{43}=$/, 'Expected a base64 X25519 public key');
+const gcmNonceSchema = z.string().regex(/^[A-Za-z0-9+/]{16}$/, 'Expected a base64 12-byte nonce');
+
+// Credentials sealed to a buyer's public key: ECDH with an ephemeral key, then AES-256-GCM
+export const sealedPayloadSchema = z.object({
+  ephemeral_public_key: x25519PublicKeySchema,
+  nonce: gcmNonceSchema,
+  cipher_text: z.string().min(1).max(65536).regex(/^[A-Za-z0-9+/]+={0,2}$/, 'Expected base64')
+});
+
+export type SealedPayload = z.infer<typeof sealedPayloadSchema>;
+
+// Server-encrypted payloads come back decrypted; sealed ones are only openable in the buyer's browser
+export const revealedCredentialsSchema = z.discriminatedUnion('encryption', [
+  z.object({
+    encryption: z.literal('server'),
+    credentials: z.string()
+  }),
+  z.object({
+    encryption: z.literal('buyer_key'),
+    recipient_public_key: z.string(),
+    sealed_payload: sealedPayloadSchema
+  })
+]);
+
+export type RevealedCredentials = z.infer<typeof revealedCredentialsSchema>;
+
+export const credentialAccessLogInputSchema = z.object({
+  order_id: z.string().uuid()
+});
+
+export type CredentialAccessLogInput = z.infer<typeof credentialAccessLogInputSchema>;
+
+export const credentialAccessLogEntrySchema = z.object({
+  id: z.string().uuid(),
+  order_id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  result: credentialAccessResultSchema,
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type CredentialAccessLogEntry = z.infer<typeof credentialAccessLogEntrySchema>;
+
+// End-to-end credential handoff schemas
+export const setEncryptionKeyInputSchema = z.object({
+  public_key: x25519PublicKeySchema
+});
+
+export type SetEncryptionKeyInput = z.infer<typeof setEncryptionKeyInputSchema>;
+
+export const encryptionKeySchema = z.object({
+  public_key: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type EncryptionKey = z.infer<typeof encryptionKeySchema>;
+
+export const pendingHandoffSchema = z.object({
+  order_id: z.string().uuid(),
+  listing_id: z.string().uuid(),
+  listing_title: z.string(),
+  buyer_public_key: z.string(),
+  status: orderStatusSchema,
+  created_at: z.coerce.date()
+});
+
+export type PendingHandoff = z.infer<typeof pendingHandoffSchema>;
+
+export const submitHandoffInputSchema = sealedPayloadSchema.extend({
+  order_id: z.string().uuid()
+});
+
+export type SubmitHandoffInput = z.infer<typeof submitHandoffInputSchema>;
+
 // Transaction schemas
 export const transactionSchema = z.object({
   id: z.string().uuid(),
@@ -188,7 +881,7 @@ export const createReviewInputSchema = z.object({
 
 export type CreateReviewInput = z.infer<typeof createReviewInputSchema>;
 
-export const getSellerReviewsInputSchema = z.object({
+export const getSellerReviewsInputSchema = cursorPaginationInputSchema.extend({
   seller_id: z.string().uuid(),
   page: z.number().int().positive().default(1)
 });
@@ -255,6 +948,20 @@ export const cartItemSchema = z.object({
 
 export type CartItem = z.infer<typeof cartItemSchema>;
 
+// Watchlist schemas
+export const watchlistInputSchema = z.object({
+  listing_id: z.string().uuid()
+});
+
+export type WatchlistInput = z.infer<typeof watchlistInputSchema>;
+
+export const watchlistItemSchema = z.object({
+  listing: listingSchema,
+  watched_since: z.coerce.date()
+});
+
+export type WatchlistItem = z.infer<typeof watchlistItemSchema>;
+
 // Pagination schemas
 export const paginationInputSchema = z.object({
   page: z.number().int().positive().default(1),
@@ -279,14 +986,64 @@ export const listDisputesInputSchema = z.object({
 
 export type ListDisputesInput = z.infer<typeof listDisputesInputSchema>;
 
+export const unlockAccountInputSchema = z.object({
+  user_id: z.string().uuid()
+});
+
+export type UnlockAccountInput = z.infer<typeof unlockAccountInputSchema>;
+
+// Key rotation schemas
+export const masterKeyVersionSchema = z.object({
+  version: z.number().int(),
+  is_current: z.boolean(),
+  payload_count: z.number().int(),
+  registered_at: z.coerce.date(),
+  retired_at: z.coerce.date().nullable()
+});
+
+export type MasterKeyVersion = z.infer<typeof masterKeyVersionSchema>;
+
+export const keyRotationJobSchema = z.object({
+  id: z.string().uuid(),
+  target_version: z.number().int(),
+  status: keyRotationJobStatusSchema,
+  total_rows: z.number().int(),
+  processed_rows: z.number().int(),
+  failed_rows: z.number().int(),
+  error: z.string().nullable(),
+  started_by: z.string().uuid(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+  completed_at: z.coerce.date().nullable()
+});
+
+export type KeyRotationJob = z.infer<typeof keyRotationJobSchema>;
+
+export const keyRotationJobDetailSchema = keyRotationJobSchema.extend({
+  failures: z.array(z.object({
+    payload_id: z.string().uuid(),
+    error: z.string(),
+    created_at: z.coerce.date()
+  }))
+});
+
+export type KeyRotationJobDetail = z.infer<typeof keyRotationJobDetailSchema>;
+
+export const keyRotationJobInputSchema = z.object({
+  job_id: z.string().uuid()
+});
+
+export type KeyRotationJobInput = z.infer<typeof keyRotationJobInputSchema>;
+
 // Common response schemas
 export const paginatedResponseSchema = <T extends z.ZodTypeAny>(itemSchema: T) =>
   z.object({
     items: z.array(itemSchema),
-    total: z.number().int(),
+    total: z.number().int().nullable(), // null when include_total was false
     page: z.number().int(),
     page_size: z.number().int(),
-    total_pages: z.number().int()
+    total_pages: z.number().int().nullable(),
+    next_cursor: z.string().nullable()
   });
 
 export const balanceResponseSchema = z.object({
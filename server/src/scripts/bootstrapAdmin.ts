@@ -0,0 +1,23 @@
+// Creates the first admin account, or promotes an existing one:
+//   ADMIN_PASSWORD=... bun run admin:bootstrap admin@example.com
+// The password comes from the environment to keep it out of shell history.
+import { bootstrapAdmin } from '../handlers/roles';
+import { bootstrapAdminInputSchema } from '../schema';
+
+async function main() {
+  const parsed = bootstrapAdminInputSchema.safeParse({
+    email: process.argv[2],
+    password: process.env['ADMIN_PASSWORD']
+  });
+
+  if (!parsed.success) {
+    console.error('Usage: ADMIN_PASSWORD=<at least 12 characters> bun run admin:bootstrap <email>');
+    process.exit(1);
+  }
+
+  const admin = await bootstrapAdmin(parsed.data);
+  console.log(`Admin ready: ${admin.email} (${admin.id})`);
+  process.exit(0);
+}
+
+main().catch(() => process.exit(1));
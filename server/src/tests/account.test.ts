@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userTokensTable, sessionsTable } from '../db/schema';
+import {
+  sendVerificationEmail,
+  verifyEmail,
+  requestPasswordReset,
+  resetPassword
+} from '../handlers/account';
+import { hashPassword, verifyPassword } from '../lib/passwords';
+import { MemoryMailTransport, setMailTransport } from '../lib/mail';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  id: '11111111-1111-1111-1111-111111111111',
+  email: 'buyer@test.com',
+  password_hash: hashPassword('old_password'),
+  role: 'buyer' as const
+};
+
+const testSession = {
+  id: '22222222-2222-2222-2222-222222222222',
+  user_id: testUser.id
+};
+
+const tokenFromMail = (text: string, param: string): string => {
+  const match = new RegExp(`${param}=([^\\s]+)`).exec(text);
+  return decodeURIComponent(match![1]);
+};
+
+describe('account handlers', () => {
+  let mail: MemoryMailTransport;
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    mail = new MemoryMailTransport();
+    setMailTransport(mail);
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(sessionsTable).values(testSession).execute();
+  });
+
+  const getUser = async () => {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, testUser.id))
+      .execute();
+    return users[0];
+  };
+
+  describe('email verification', () => {
+    it('should mail a verification link', async () => {
+      await sendVerificationEmail(testUser.id);
+
+      expect(mail.sent).toHaveLength(1);
+      expect(mail.sent[0].to).toEqual(testUser.email);
+      expect(mail.sent[0].text).toContain('verify_email=');
+    });
+
+    it('should store only a hash of the token', async () => {
+      await sendVerificationEmail(testUser.id);
+      const token = tokenFromMail(mail.sent[0].text, 'verify_email');
+
+      const tokens = await db.select().from(userTokensTable).execute();
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].purpose).toEqual('email_verification');
+      expect(tokens[0].token_hash).not.toEqual(token);
+    });
+
+    it('should mark the email as verified', async () => {
+      await sendVerificationEmail(testUser.id);
+      await verifyEmail({ token: tokenFromMail(mail.sent[0].text, 'verify_email') });
+
+      const user = await getUser();
+      expect(user.email_verified_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject a token that was already used', async () => {
+      await sendVerificationEmail(testUser.id);
+      const token = tokenFromMail(mail.sent[0].text, 'verify_email');
+      await verifyEmail({ token });
+
+      await expect(verifyEmail({ token })).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should invalidate earlier links when a new one is sent', async () => {
+      await sendVerificationEmail(testUser.id);
+      await sendVerificationEmail(testUser.id);
+      const firstToken = tokenFromMail(mail.sent[0].text, 'verify_email');
+
+      await expect(verifyEmail({ token: firstToken })).rejects.toThrow(/invalid or expired/i);
+      await verifyEmail({ token: tokenFromMail(mail.sent[1].text, 'verify_email') });
+    });
+
+    it('should reject an expired token', async () => {
+      await sendVerificationEmail(testUser.id);
+      await db.update(userTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      await expect(verifyEmail({ token: tokenFromMail(mail.sent[0].text, 'verify_email') }))
+        .rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should not resend to a verified address', async () => {
+      await db.update(usersTable)
+        .set({ email_verified_at: new Date() })
+        .where(eq(usersTable.id, testUser.id))
+        .execute();
+
+      await expect(sendVerificationEmail(testUser.id)).rejects.toThrow(/already verified/i);
+    });
+  });
+
+  describe('password reset', () => {
+    it('should mail a reset link to a known address', async () => {
+      await requestPasswordReset({ email: testUser.email });
+
+      expect(mail.sent).toHaveLength(1);
+      expect(mail.sent[0].text).toContain('reset_password=');
+    });
+
+    it('should quietly ignore unknown addresses', async () => {
+      await requestPasswordReset({ email: 'nobody@test.com' });
+
+      expect(mail.sent).toHaveLength(0);
+    });
+
+    it('should set the new password and verify the email', async () => {
+      await requestPasswordReset({ email: testUser.email });
+      await resetPassword({
+        token: tokenFromMail(mail.sent[0].text, 'reset_password'),
+        new_password: 'new_password123'
+      });
+
+      const user = await getUser();
+      expect(verifyPassword('new_password123', user.password_hash)).toBe(true);
+      expect(verifyPassword('old_password', user.password_hash)).toBe(false);
+      expect(user.email_verified_at).toBeInstanceOf(Date);
+    });
+
+    it('should revoke existing sessions', async () => {
+      await requestPasswordReset({ email: testUser.email });
+      await resetPassword({
+        token: tokenFromMail(mail.sent[0].text, 'reset_password'),
+        new_password: 'new_password123'
+      });
+
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions[0].revoked_at).toBeInstanceOf(Date);
+    });
+
+    it('should only work once', async () => {
+      await requestPasswordReset({ email: testUser.email });
+      const token = tokenFromMail(mail.sent[0].text, 'reset_password');
+      await resetPassword({ token, new_password: 'new_password123' });
+
+      await expect(resetPassword({ token, new_password: 'another_password' }))
+        .rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should not accept a verification token', async () => {
+      await sendVerificationEmail(testUser.id);
+
+      await expect(resetPassword({
+        token: tokenFromMail(mail.sent[0].text, 'verify_email'),
+        new_password: 'new_password123'
+      })).rejects.toThrow(/invalid or expired/i);
+    });
+  });
+});
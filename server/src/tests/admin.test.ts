@@ -3,7 +3,9 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { usersTable, disputesTable, ordersTable, listingsTable, categoriesTable } from '../db/schema';
 import { type ListUsersInput, type ListDisputesInput } from '../schema';
-import { listUsers, listDisputes } from '../handlers/admin';
+import { listUsers, listDisputes, unlockAccount } from '../handlers/admin';
+import { accountLockoutKey } from '../handlers/loginAttempts';
+import { MemoryLockoutStore, setLockoutStore } from '../lib/lockout';
 
 // Test data
 const testAdmin = {
@@ -542,4 +544,36 @@ describe('Admin Handlers', () => {
       expect(result.total_pages).toBe(0);
     });
   });
-});
\ No newline at end of file
+
+  describe('unlockAccount', () => {
+    it('should clear the lockout counter for the account', async () => {
+      const store = new MemoryLockoutStore();
+      setLockoutStore(store);
+
+      const [admin] = await db.insert(usersTable)
+        .values(testAdmin)
+        .returning()
+        .execute();
+
+      const [buyer] = await db.insert(usersTable)
+        .values(testBuyer)
+        .returning()
+        .execute();
+
+      await store.recordFailure(accountLockoutKey(buyer.email), new Date(), 3600);
+
+      await unlockAccount({ user_id: buyer.id }, admin.id);
+
+      expect(await store.get(accountLockoutKey(buyer.email))).toBeNull();
+    });
+
+    it('should reject non-admin users', async () => {
+      const [buyer] = await db.insert(usersTable)
+        .values(testBuyer)
+        .returning()
+        .execute();
+
+      await expect(unlockAccount({ user_id: buyer.id }, buyer.id)).rejects.toThrow(/unauthorized.*admin/i);
+    });
+  });
+});
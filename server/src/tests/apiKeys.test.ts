@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, apiKeysTable } from '../db/schema';
+import { createApiKey, listApiKeys, revokeApiKey, authenticateApiKey } from '../handlers/apiKeys';
+import { hashOpaqueToken } from '../lib/tokens';
+import { eq } from 'drizzle-orm';
+
+const testSeller = {
+  id: '11111111-1111-1111-1111-111111111111',
+  email: 'seller@test.com',
+  password_hash: 'hashed_password',
+  role: 'seller' as const
+};
+
+const otherSeller = {
+  id: '22222222-2222-2222-2222-222222222222',
+  email: 'other@test.com',
+  password_hash: 'hashed_password',
+  role: 'seller' as const
+};
+
+describe('api key handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(usersTable).values([testSeller, otherSeller]).execute();
+  });
+
+  describe('createApiKey', () => {
+    it('should return the key once and store only its hash', async () => {
+      const result = await createApiKey(
+        { name: 'Inventory sync', scopes: ['listings:read', 'listings:write'] },
+        testSeller.id
+      );
+
+      expect(result.key).toStartWith('ak_');
+      expect(result.key.startsWith(result.api_key.prefix)).toBe(true);
+      expect(result.api_key.scopes).toEqual(['listings:read', 'listings:write']);
+      expect(result.api_key).not.toHaveProperty('key_hash');
+
+      const rows = await db.select().from(apiKeysTable).execute();
+      expect(rows[0].key_hash).toEqual(hashOpaqueToken(result.key));
+      expect(rows[0].key_hash).not.toContain(result.key);
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await expect(createApiKey(
+        { name: 'Old', scopes: ['orders:read'], expires_at: new Date(Date.now() - 1000) },
+        testSeller.id
+      )).rejects.toThrow(/in the future/i);
+    });
+  });
+
+  describe('authenticateApiKey', () => {
+    it('should resolve the owner and scopes and record the use', async () => {
+      const { api_key, key } = await createApiKey({ name: 'Sync', scopes: ['orders:read'] }, testSeller.id);
+
+      const principal = await authenticateApiKey(key);
+
+      expect(principal).toEqual({ id: api_key.id, user_id: testSeller.id, scopes: ['orders:read'] });
+      const keys = await listApiKeys(testSeller.id);
+      expect(keys[0].last_used_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject expired keys', async () => {
+      const { api_key, key } = await createApiKey(
+        { name: 'Short lived', scopes: ['orders:read'], expires_at: new Date(Date.now() + 60_000) },
+        testSeller.id
+      );
+      await db.update(apiKeysTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(apiKeysTable.id, api_key.id))
+        .execute();
+
+      await expect(authenticateApiKey(key)).rejects.toThrow(/expired/i);
+    });
+
+    it('should reject revoked keys', async () => {
+      const { api_key, key } = await createApiKey({ name: 'Sync', scopes: ['orders:read'] }, testSeller.id);
+      await revokeApiKey({ api_key_id: api_key.id }, testSeller.id);
+
+      await expect(authenticateApiKey(key)).rejects.toThrow(/revoked/i);
+    });
+  });
+
+  describe('revokeApiKey', () => {
+    it('should not revoke another user\'s key', async () => {
+      const { api_key, key } = await createApiKey({ name: 'Sync', scopes: ['orders:read'] }, testSeller.id);
+
+      await expect(revokeApiKey({ api_key_id: api_key.id }, otherSeller.id))
+        .rejects.toThrow(/not found or access denied/i);
+      expect((await authenticateApiKey(key)).user_id).toEqual(testSeller.id);
+    });
+  });
+
+  describe('listApiKeys', () => {
+    it('should only list the caller\'s keys', async () => {
+      await createApiKey({ name: 'Mine', scopes: ['orders:read'] }, testSeller.id);
+      await createApiKey({ name: 'Theirs', scopes: ['orders:read'] }, otherSeller.id);
+
+      const keys = await listApiKeys(testSeller.id);
+
+      expect(keys).toHaveLength(1);
+      expect(keys[0].name).toEqual('Mine');
+    });
+  });
+});
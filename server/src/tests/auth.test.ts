@@ -1,9 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, profilesTable } from '../db/schema';
-import { type RegisterInput, type LoginInput } from '../schema';
+import { usersTable, profilesTable, sessionsTable } from '../db/schema';
+import { registerInputSchema, type RegisterInput, type LoginInput, type RequestMeta } from '../schema';
 import { register, login, getCurrentUser, verifyJWT, verifyPassword } from '../handlers/auth';
+import { MemoryMailTransport, setMailTransport } from '../lib/mail';
+import { pbkdf2Sync } from 'crypto';
 import { eq } from 'drizzle-orm';
 
 const JWT_SECRET = process.env['JWT_SECRET'] || 'development_secret_key';
@@ -20,6 +22,15 @@ const testLoginInput: LoginInput = {
   password: 'password123'
 };
 
+// Logs in a user without 2FA and narrows the response to the signed-in shape
+const signIn = async (input: LoginInput, meta?: RequestMeta) => {
+  const result = await login(input, meta);
+  if (result.two_factor_required) {
+    throw new Error('Unexpected two-factor challenge');
+  }
+  return result;
+};
+
 describe('auth handlers', () => {
   beforeEach(createDB);
   afterEach(resetDB);
@@ -84,15 +95,27 @@ describe('auth handlers', () => {
 
       const result = await register(sellerInput);
       expect(result.role).toBe('seller');
+    });
 
-      const adminInput: RegisterInput = {
+    it('should not allow signing up as an admin', () => {
+      const result = registerInputSchema.safeParse({
         email: 'admin@example.com',
         password: 'password123',
         role: 'admin'
-      };
+      });
+
+      expect(result.success).toBe(false);
+    });
 
-      const adminResult = await register(adminInput);
-      expect(adminResult.role).toBe('admin');
+    it('should start unverified and mail a verification link', async () => {
+      const mail = new MemoryMailTransport();
+      setMailTransport(mail);
+
+      const result = await register(testRegisterInput);
+
+      expect(result.email_verified_at).toBeNull();
+      expect(mail.sent).toHaveLength(1);
+      expect(mail.sent[0].to).toEqual('test@example.com');
     });
 
     it('should throw error for duplicate email', async () => {
@@ -111,7 +134,7 @@ describe('auth handlers', () => {
     });
 
     it('should authenticate valid credentials', async () => {
-      const result = await login(testLoginInput);
+      const result = await signIn(testLoginInput);
 
       expect(result.user.email).toBe('test@example.com');
       expect(result.user.role).toBe('buyer');
@@ -122,15 +145,36 @@ describe('auth handlers', () => {
     });
 
     it('should generate valid JWT token', async () => {
-      const result = await login(testLoginInput);
+      const result = await signIn(testLoginInput);
 
       // Verify JWT token can be decoded
       const decoded = verifyJWT(result.token, JWT_SECRET);
-      expect(decoded.userId).toBe(result.user.id);
-      expect(decoded.email).toBe('test@example.com');
-      expect(decoded.role).toBe('buyer');
-      expect(decoded.exp).toBeDefined(); // Should have expiration
-      expect(decoded.iat).toBeDefined(); // Should have issued at
+      expect(decoded['userId']).toBe(result.user.id);
+      expect(decoded['email']).toBe('test@example.com');
+      expect(decoded['role']).toBe('buyer');
+      expect(decoded['exp']).toBeDefined(); // Should have expiration
+      expect(decoded['iat']).toBeDefined(); // Should have issued at
+    });
+
+    it('should start a session and return a refresh token', async () => {
+      const result = await signIn(
+        { ...testLoginInput, device_label: 'Work laptop' },
+        { ip_address: '203.0.113.7', user_agent: 'Firefox' }
+      );
+
+      expect(result.refresh_token).toBeDefined();
+      expect(verifyJWT(result.token, JWT_SECRET)['sid']).toEqual(result.session_id);
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.id, result.session_id))
+        .execute();
+
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].user_id).toEqual(result.user.id);
+      expect(sessions[0].device_label).toEqual('Work laptop');
+      expect(sessions[0].ip_address).toEqual('203.0.113.7');
+      expect(sessions[0].revoked_at).toBeNull();
     });
 
     it('should reject invalid email', async () => {
@@ -162,6 +206,33 @@ describe('auth handlers', () => {
       await expect(login(uppercaseInput))
         .rejects.toThrow(/invalid email or password/i);
     });
+
+    it('should upgrade a legacy password hash on login', async () => {
+      const salt = 'a'.repeat(64);
+      const legacyHash = `${salt}:${pbkdf2Sync('password123', salt, 100000, 64, 'sha256').toString('hex')}`;
+      await db.update(usersTable)
+        .set({ password_hash: legacyHash })
+        .where(eq(usersTable.email, testLoginInput.email))
+        .execute();
+
+      await signIn(testLoginInput);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.email, testLoginInput.email))
+        .execute();
+      expect(users[0].password_hash).toStartWith('$scrypt$');
+      expect(verifyPassword('password123', users[0].password_hash)).toBe(true);
+    });
+
+    it('should leave a current hash untouched', async () => {
+      const before = await db.select().from(usersTable).execute();
+
+      await signIn(testLoginInput);
+
+      const after = await db.select().from(usersTable).execute();
+      expect(after[0].password_hash).toEqual(before[0].password_hash);
+    });
   });
 
   describe('getCurrentUser', () => {
@@ -226,7 +297,7 @@ describe('auth handlers', () => {
       expect(registerResult.email).toBe('test@example.com');
 
       // Login
-      const loginResult = await login(testLoginInput);
+      const loginResult = await signIn(testLoginInput);
       expect(loginResult.user.id).toBe(registerResult.id);
       expect(loginResult.token).toBeDefined();
 
@@ -253,13 +324,13 @@ describe('auth handlers', () => {
       });
 
       // Login as buyer
-      const buyerLogin = await login({
+      const buyerLogin = await signIn({
         email: 'buyer@example.com',
         password: 'password123'
       });
 
       // Login as seller
-      const sellerLogin = await login({
+      const sellerLogin = await signIn({
         email: 'seller@example.com',
         password: 'password123'
       });
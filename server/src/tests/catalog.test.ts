@@ -1,9 +1,26 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { categoriesTable, listingsTable, usersTable, profilesTable } from '../db/schema';
+import {
+  categoriesTable,
+  categoryAttributesTable,
+  listingsTable,
+  listingMediaTable,
+  usersTable,
+  profilesTable,
+  ordersTable,
+  reviewsTable,
+  sellerApplicationsTable
+} from '../db/schema';
 import { type SearchListingsInput } from '../schema';
-import { listCategories, searchListings, getListing } from '../handlers/catalog';
+import {
+  listCategories,
+  getCategoryAttributes,
+  searchListings,
+  searchFacets,
+  getListing,
+  getListingDetail
+} from '../handlers/catalog';
 import { eq } from 'drizzle-orm';
 
 // Test data setup
@@ -107,6 +124,7 @@ describe('catalog handlers', () => {
 
     it('should return empty results when no listings exist', async () => {
       const input: SearchListingsInput = {
+        sort: 'relevance',
         page: 1,
         page_size: 20
       };
@@ -154,6 +172,7 @@ describe('catalog handlers', () => {
         .execute();
 
       const input: SearchListingsInput = {
+        sort: 'relevance',
         page: 1,
         page_size: 20
       };
@@ -199,6 +218,7 @@ describe('catalog handlers', () => {
 
       const input: SearchListingsInput = {
         q: 'iPhone',
+        sort: 'relevance',
         page: 1,
         page_size: 20
       };
@@ -210,6 +230,112 @@ describe('catalog handlers', () => {
       expect(result.total).toBe(1);
     });
 
+    it('should match descriptions and rank title matches first', async () => {
+      await db.insert(listingsTable)
+        .values([
+          {
+            seller_id: userId,
+            category_id: categoryId,
+            title: 'Gaming bundle',
+            description: 'Comes with a Steam account and two controllers',
+            price_cents: 4999,
+            status: 'available' as const
+          },
+          {
+            seller_id: userId,
+            category_id: categoryId,
+            title: 'Steam account with 200 games',
+            description: 'Level 50 profile',
+            price_cents: 9999,
+            status: 'available' as const
+          },
+          {
+            seller_id: userId,
+            category_id: categoryId,
+            title: 'Netflix premium',
+            description: 'Four screens',
+            price_cents: 1999,
+            status: 'available' as const
+          }
+        ])
+        .execute();
+
+      const result = await searchListings({ q: 'steam', sort: 'relevance', page: 1, page_size: 20 });
+
+      expect(result.total).toBe(2);
+      expect(result.items.map(item => item.title)).toEqual(['Steam account with 200 games', 'Gaming bundle']);
+      expect(result.items[0]).not.toHaveProperty('search_vector');
+    });
+
+    it('should support websearch syntax', async () => {
+      await db.insert(listingsTable)
+        .values([
+          {
+            seller_id: userId,
+            category_id: categoryId,
+            title: 'Steam account',
+            description: 'Region locked to Europe',
+            price_cents: 4999,
+            status: 'available' as const
+          },
+          {
+            seller_id: userId,
+            category_id: categoryId,
+            title: 'Steam account',
+            description: 'Global, no region lock',
+            price_cents: 5999,
+            status: 'available' as const
+          }
+        ])
+        .execute();
+
+      const result = await searchListings({ q: 'steam -europe', sort: 'relevance', page: 1, page_size: 20 });
+
+      expect(result.total).toBe(1);
+      expect(result.items[0].price_cents).toBe(5999);
+    });
+
+    it('should return highlighted title and snippet segments', async () => {
+      await db.insert(listingsTable)
+        .values({
+          seller_id: userId,
+          category_id: categoryId,
+          title: 'Spotify family plan',
+          description: 'Six accounts on one family subscription, renewed monthly',
+          price_cents: 1499,
+          status: 'available' as const
+        })
+        .execute();
+
+      const result = await searchListings({ q: 'family', sort: 'relevance', page: 1, page_size: 20 });
+      const highlight = result.items[0].highlight!;
+
+      expect(highlight.title).toEqual([
+        { text: 'Spotify ', matched: false },
+        { text: 'family', matched: true },
+        { text: ' plan', matched: false }
+      ]);
+      expect(highlight.snippet.filter(segment => segment.matched).map(segment => segment.text))
+        .toEqual(['family']);
+    });
+
+    it('should not highlight without a query', async () => {
+      await db.insert(listingsTable)
+        .values({
+          seller_id: userId,
+          category_id: categoryId,
+          title: 'Spotify family plan',
+          description: 'Six accounts',
+          price_cents: 1499,
+          status: 'available' as const
+        })
+        .execute();
+
+      const result = await searchListings({ sort: 'relevance', page: 1, page_size: 20 });
+
+      expect(result.items[0].highlight).toBeNull();
+    });
+
     it('should filter by category slug', async () => {
       // Create another category
       const [booksCategory] = await db.insert(categoriesTable)
@@ -240,6 +366,7 @@ describe('catalog handlers', () => {
 
       const input: SearchListingsInput = {
         category_slug: 'books',
+        sort: 'relevance',
         page: 1,
         page_size: 20
       };
@@ -284,6 +411,7 @@ describe('catalog handlers', () => {
       // Test min_price filter
       const minPriceInput: SearchListingsInput = {
         min_price: 50000, // $500
+        sort: 'relevance',
         page: 1,
         page_size: 20
       };
@@ -295,6 +423,7 @@ describe('catalog handlers', () => {
       // Test max_price filter
       const maxPriceInput: SearchListingsInput = {
         max_price: 30000, // $300
+        sort: 'relevance',
         page: 1,
         page_size: 20
       };
@@ -307,6 +436,7 @@ describe('catalog handlers', () => {
       const rangeInput: SearchListingsInput = {
         min_price: 30000, // $300
         max_price: 70000, // $700
+        sort: 'relevance',
         page: 1,
         page_size: 20
       };
@@ -336,6 +466,7 @@ describe('catalog handlers', () => {
 
       // Test first page
       const page1Input: SearchListingsInput = {
+        sort: 'relevance',
         page: 1,
         page_size: 2
       };
@@ -349,6 +480,7 @@ describe('catalog handlers', () => {
 
       // Test second page
       const page2Input: SearchListingsInput = {
+        sort: 'relevance',
         page: 2,
         page_size: 2
       };
@@ -359,6 +491,7 @@ describe('catalog handlers', () => {
 
       // Test last page
       const page3Input: SearchListingsInput = {
+        sort: 'relevance',
         page: 3,
         page_size: 2
       };
@@ -408,6 +541,7 @@ describe('catalog handlers', () => {
         q: 'iPhone',
         category_slug: 'electronics',
         min_price: 60000,
+        sort: 'relevance',
         page: 1,
         page_size: 20
       };
@@ -420,6 +554,260 @@ describe('catalog handlers', () => {
     });
   });
 
+  describe('searchListings sorting', () => {
+    let categoryId: string;
+    let topSellerId: string;
+    let okSellerId: string;
+    let newSellerId: string;
+
+    beforeEach(async () => {
+      const [category] = await db.insert(categoriesTable)
+        .values(testCategory1)
+        .returning()
+        .execute();
+      categoryId = category.id;
+
+      const sellers = await db.insert(usersTable)
+        .values([
+          { ...testUser, email: 'top@example.com' },
+          { ...testUser, email: 'ok@example.com' },
+          { ...testUser, email: 'new@example.com' }
+        ])
+        .returning()
+        .execute();
+      [topSellerId, okSellerId, newSellerId] = sellers.map(seller => seller.id);
+
+      // The new seller has no profile yet
+      await db.insert(profilesTable)
+        .values([
+          { user_id: topSellerId, rating: '4.9' },
+          { user_id: okSellerId, rating: '3.2' }
+        ])
+        .execute();
+
+      const listing = (sellerId: string, title: string, price_cents: number, daysAgo: number) => ({
+        seller_id: sellerId,
+        category_id: categoryId,
+        title,
+        description: 'Account for sale',
+        price_cents,
+        status: 'available' as const,
+        created_at: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000)
+      });
+
+      await db.insert(listingsTable)
+        .values([
+          listing(okSellerId, 'Middle', 2000, 1),
+          listing(newSellerId, 'Cheap', 1000, 3),
+          listing(topSellerId, 'Pricey', 5000, 2),
+          listing(topSellerId, 'Also middle', 2000, 0)
+        ])
+        .execute();
+    });
+
+    const titles = async (input: Partial<SearchListingsInput>) => {
+      const result = await searchListings({ sort: 'relevance', page: 1, page_size: 20, ...input });
+      return result.items.map(item => item.title);
+    };
+
+    it('should sort by price with the id as tie-breaker', async () => {
+      const ascending = await searchListings({ sort: 'price_asc', page: 1, page_size: 20 });
+
+      expect(ascending.items.map(item => item.price_cents)).toEqual([1000, 2000, 2000, 5000]);
+      const [first, second] = ascending.items.filter(item => item.price_cents === 2000);
+      expect(first.id < second.id).toBe(true);
+
+      expect(await titles({ sort: 'price_desc' })).toEqual(
+        ['Pricey', ...[first.title, second.title], 'Cheap']
+      );
+    });
+
+    it('should sort newest first', async () => {
+      expect(await titles({ sort: 'newest' })).toEqual(['Also middle', 'Middle', 'Pricey', 'Cheap']);
+    });
+
+    it('should fall back to newest for relevance without a query', async () => {
+      expect(await titles({ sort: 'relevance' })).toEqual(['Also middle', 'Middle', 'Pricey', 'Cheap']);
+    });
+
+    it('should sort by seller rating with unrated sellers last', async () => {
+      expect(await titles({ sort: 'seller_rating' })).toEqual(['Also middle', 'Pricey', 'Middle', 'Cheap']);
+    });
+
+    it('should walk every sort with cursors in the same order as one page', async () => {
+      const sorts = ['relevance', 'price_asc', 'price_desc', 'newest', 'seller_rating'] as const;
+
+      for (const sort of sorts) {
+        for (const q of [undefined, 'account']) {
+          const all = await searchListings({ q, sort, page: 1, page_size: 20 });
+
+          const walked: string[] = [];
+          let cursor: string | undefined;
+          do {
+            const page = await searchListings({ q, sort, cursor, include_total: false, page: 1, page_size: 1 });
+            expect(page.total).toBeNull();
+            walked.push(...page.items.map(item => item.id));
+            cursor = page.next_cursor ?? undefined;
+          } while (cursor);
+
+          expect(walked).toEqual(all.items.map(item => item.id));
+        }
+      }
+    });
+
+    it('should not skip rows inserted ahead of the cursor', async () => {
+      const first = await searchListings({ sort: 'price_asc', page: 1, page_size: 2 });
+      expect(first.next_cursor).not.toBeNull();
+
+      // A new cheapest listing would shift every offset page by one
+      await db.insert(listingsTable)
+        .values({
+          seller_id: topSellerId,
+          category_id: categoryId,
+          title: 'Cheapest',
+          description: 'Account for sale',
+          price_cents: 100,
+          status: 'available' as const
+        })
+        .execute();
+
+      const next = await searchListings({ sort: 'price_asc', cursor: first.next_cursor!, page: 1, page_size: 2 });
+
+      expect(next.items.map(item => item.price_cents)).toEqual([2000, 5000]);
+      expect(next.next_cursor).toBeNull();
+    });
+
+    it('should reject a cursor from another sort', async () => {
+      const page = await searchListings({ sort: 'price_asc', page: 1, page_size: 1 });
+
+      await expect(searchListings({ sort: 'newest', cursor: page.next_cursor!, page: 1, page_size: 1 }))
+        .rejects.toThrow(/invalid cursor/i);
+      await expect(searchListings({ sort: 'newest', cursor: 'garbage', page: 1, page_size: 1 }))
+        .rejects.toThrow(/invalid cursor/i);
+    });
+
+    it('should reject a cursor whose values do not fit the sort keys', async () => {
+      const page = await searchListings({ sort: 'price_asc', page: 1, page_size: 1 });
+      const [price, id] = JSON.parse(Buffer.from(page.next_cursor!, 'base64url').toString('utf8')).v;
+      const tampered = (values: unknown[]) =>
+        Buffer.from(JSON.stringify({ s: 'price_asc', v: values })).toString('base64url');
+
+      for (const values of [['cheap', id], [price, 'not-a-uuid'], ['99999999999', id]]) {
+        await expect(searchListings({ sort: 'price_asc', cursor: tampered(values), page: 1, page_size: 1 }))
+          .rejects.toThrow(/invalid cursor/i);
+      }
+
+      const newest = await searchListings({ sort: 'newest', page: 1, page_size: 1 });
+      const [, newestId] = JSON.parse(Buffer.from(newest.next_cursor!, 'base64url').toString('utf8')).v;
+      const badDate = Buffer.from(JSON.stringify({ s: 'newest', v: ['2024-02-30 10:00:00', newestId] })).toString('base64url');
+      await expect(searchListings({ sort: 'newest', cursor: badDate, page: 1, page_size: 1 }))
+        .rejects.toThrow(/invalid cursor/i);
+
+      // Untampered cursors still decode
+      await searchListings({ sort: 'newest', cursor: newest.next_cursor!, page: 1, page_size: 1 });
+    });
+
+    it('should keep pages stable when sort keys tie', async () => {
+      const page1 = await searchListings({ sort: 'price_asc', page: 1, page_size: 2 });
+      const page2 = await searchListings({ sort: 'price_asc', page: 2, page_size: 2 });
+
+      const ids = [...page1.items, ...page2.items].map(item => item.id);
+      expect(new Set(ids).size).toBe(4);
+    });
+  });
+
+  describe('searchFacets', () => {
+    beforeEach(async () => {
+      const [electronics, books] = await db.insert(categoriesTable)
+        .values([testCategory1, testCategory2])
+        .returning()
+        .execute();
+
+      const [verifiedSeller, newSeller] = await db.insert(usersTable)
+        .values([
+          { ...testUser, email: 'verified@example.com' },
+          { ...testUser, email: 'new@example.com' }
+        ])
+        .returning()
+        .execute();
+
+      await db.insert(profilesTable)
+        .values({ user_id: verifiedSeller.id, verification_status: 'verified' })
+        .execute();
+
+      const listing = (sellerId: string, categoryId: string, title: string, price_cents: number) => ({
+        seller_id: sellerId,
+        category_id: categoryId,
+        title,
+        description: 'Account for sale',
+        price_cents,
+        status: 'available' as const
+      });
+
+      await db.insert(listingsTable)
+        .values([
+          listing(verifiedSeller.id, electronics.id, 'Steam account', 500),
+          listing(verifiedSeller.id, electronics.id, 'Steam deck account', 3000),
+          listing(newSeller.id, electronics.id, 'Xbox account', 15000),
+          listing(newSeller.id, books.id, 'Kindle account', 1500),
+          { ...listing(verifiedSeller.id, books.id, 'Sold account', 700), status: 'sold' as const }
+        ])
+        .execute();
+    });
+
+    const countOf = <T extends { count: number }>(items: T[], match: (item: T) => boolean) =>
+      items.find(match)?.count;
+
+    it('should count every option with no filters', async () => {
+      const facets = await searchFacets({});
+
+      expect(facets.categories).toEqual([
+        { slug: 'books', name: 'Books', parent_slug: null, count: 1 },
+        { slug: 'electronics', name: 'Electronics', parent_slug: null, count: 3 }
+      ]);
+      expect(facets.price_buckets.map(bucket => bucket.count)).toEqual([1, 1, 1, 0, 1]);
+      expect(facets.price_buckets[4].max_price).toBeNull();
+      expect(facets.seller_verification).toEqual([
+        { status: 'verified', count: 2 },
+        { status: 'pending', count: 0 },
+        { status: 'none', count: 2 }
+      ]);
+    });
+
+    it('should ignore a facet\'s own filter when counting it', async () => {
+      const facets = await searchFacets({ category_slug: 'electronics', seller_verification: 'verified' });
+
+      // Categories still show the books option, narrowed by the verification filter
+      expect(countOf(facets.categories, item => item.slug === 'books')).toBe(0);
+      expect(countOf(facets.categories, item => item.slug === 'electronics')).toBe(2);
+
+      // Verification counts are narrowed by category only
+      expect(countOf(facets.seller_verification, item => item.status === 'verified')).toBe(2);
+      expect(countOf(facets.seller_verification, item => item.status === 'none')).toBe(1);
+
+      // Price buckets are narrowed by both
+      expect(facets.price_buckets.map(bucket => bucket.count)).toEqual([1, 0, 1, 0, 0]);
+    });
+
+    it('should apply the text query and price range to other facets', async () => {
+      const facets = await searchFacets({ q: 'steam', min_price: 1000 });
+
+      expect(countOf(facets.categories, item => item.slug === 'electronics')).toBe(1);
+      // The price facet ignores min_price but keeps the text query
+      expect(facets.price_buckets.map(bucket => bucket.count)).toEqual([1, 0, 1, 0, 0]);
+    });
+
+    it('should match searchListings for the same filters', async () => {
+      const filters = { category_slug: 'electronics', seller_verification: 'none' as const };
+
+      const facets = await searchFacets(filters);
+      const result = await searchListings({ ...filters, sort: 'relevance', page: 1, page_size: 20 });
+
+      expect(result.total).toBe(1);
+      expect(countOf(facets.categories, item => item.slug === 'electronics')).toBe(result.total!);
+    });
+  });
+
   describe('getListing', () => {
     let categoryId: string;
     let userId: string;
@@ -444,6 +832,44 @@ describe('catalog handlers', () => {
       expect(result).toBeNull();
     });
 
+    it('should include media in gallery order', async () => {
+      const [listing] = await db.insert(listingsTable)
+        .values({
+          seller_id: userId,
+          category_id: categoryId,
+          title: 'Game account',
+          description: 'With screenshots',
+          price_cents: 2500
+        })
+        .returning()
+        .execute();
+
+      const media = (position: number, name: string) => ({
+        listing_id: listing.id,
+        storage_key: `listing-media/${listing.id}/${name}.webp`,
+        thumbnail_key: `listing-media/${listing.id}/${name}-thumb.webp`,
+        content_type: 'image/webp',
+        width: 1600,
+        height: 900,
+        size_bytes: 1000,
+        position
+      });
+      await db.insert(listingMediaTable)
+        .values([media(1, 'second'), media(0, 'cover')])
+        .execute();
+
+      const result = await getListing(listing.id);
+
+      expect(result!.media.map(item => item.url)).toEqual([
+        `/api/media/listing-media/${listing.id}/cover.webp`,
+        `/api/media/listing-media/${listing.id}/second.webp`
+      ]);
+      expect(result!.media[0].thumbnail_url).toBe(`/api/media/listing-media/${listing.id}/cover-thumb.webp`);
+
+      const search = await searchListings({ sort: 'newest', page: 1, page_size: 20 });
+      expect(search.items[0].media).toHaveLength(2);
+    });
+
     it('should return available listing by ID', async () => {
       const [listing] = await db.insert(listingsTable)
         .values({
@@ -529,4 +955,240 @@ describe('catalog handlers', () => {
       expect(result!.created_at instanceof Date).toBe(true);
     });
   });
+
+  describe('category hierarchy and attributes', () => {
+    let gamesId: string;
+    let fortniteId: string;
+    let socialId: string;
+    let sellerId: string;
+
+    beforeEach(async () => {
+      const [games] = await db.insert(categoriesTable)
+        .values({ name: 'Games', slug: 'games' })
+        .returning()
+        .execute();
+      const [fortnite] = await db.insert(categoriesTable)
+        .values({ name: 'Fortnite', slug: 'fortnite', parent_id: games.id })
+        .returning()
+        .execute();
+      const [social] = await db.insert(categoriesTable)
+        .values({ name: 'Social', slug: 'social' })
+        .returning()
+        .execute();
+      gamesId = games.id;
+      fortniteId = fortnite.id;
+      socialId = social.id;
+
+      await db.insert(categoryAttributesTable)
+        .values([
+          { category_id: gamesId, key: 'level', label: 'Level', type: 'integer', required: true, position: 1 },
+          { category_id: gamesId, key: 'region', label: 'Region', type: 'enum', enum_values: ['EU', 'NA'], position: 0 },
+          { category_id: fortniteId, key: 'skins', label: 'Skin count', type: 'integer' },
+          // Overrides the inherited definition
+          { category_id: fortniteId, key: 'region', label: 'Server region', type: 'enum', enum_values: ['EU', 'NA', 'ASIA'] },
+          { category_id: socialId, key: 'level', label: 'Creator level', type: 'text' }
+        ])
+        .execute();
+
+      const [seller] = await db.insert(usersTable)
+        .values(testUser)
+        .returning()
+        .execute();
+      sellerId = seller.id;
+
+      const listing = (categoryId: string, title: string, attributes: Record<string, string | number | boolean>) => ({
+        seller_id: sellerId,
+        category_id: categoryId,
+        title,
+        description: 'Account for sale',
+        price_cents: 1000,
+        attributes
+      });
+
+      await db.insert(listingsTable)
+        .values([
+          listing(gamesId, 'Generic game account', { level: 10, region: 'EU' }),
+          listing(fortniteId, 'Fortnite account', { level: 80, region: 'ASIA', skins: 120 }),
+          listing(fortniteId, 'Fortnite starter', { level: 30, region: 'EU' }),
+          listing(socialId, 'Social account', { level: 'gold' })
+        ])
+        .execute();
+    });
+
+    const search = (filters: Partial<SearchListingsInput>) =>
+      searchListings({ sort: 'newest', page: 1, page_size: 20, ...filters });
+
+    it('should return parent ids with categories', async () => {
+      const categories = await listCategories();
+
+      expect(categories.find(category => category.slug === 'fortnite')!.parent_id).toBe(gamesId);
+      expect(categories.find(category => category.slug === 'games')!.parent_id).toBeNull();
+    });
+
+    it('should include inherited attributes, root first, with overrides', async () => {
+      const attributes = await getCategoryAttributes(fortniteId);
+
+      expect(attributes.map(attribute => [attribute.key, attribute.label])).toEqual([
+        ['level', 'Level'],
+        ['region', 'Server region'],
+        ['skins', 'Skin count']
+      ]);
+      expect(attributes.find(attribute => attribute.key === 'region')!.enum_values).toEqual(['EU', 'NA', 'ASIA']);
+    });
+
+    it('should reject attributes for a missing category', async () => {
+      await expect(getCategoryAttributes('00000000-0000-0000-0000-000000000000'))
+        .rejects.toThrow(/category not found/i);
+    });
+
+    it('should include subcategory listings when filtering by a parent category', async () => {
+      const games = await search({ category_slug: 'games' });
+      const fortnite = await search({ category_slug: 'fortnite' });
+
+      expect(games.items.map(item => item.title).sort()).toEqual([
+        'Fortnite account',
+        'Fortnite starter',
+        'Generic game account'
+      ]);
+      expect(fortnite.total).toBe(2);
+    });
+
+    it('should filter on exact attribute values', async () => {
+      const result = await search({ attributes: { region: 'EU' } });
+
+      expect(result.items.map(item => item.title).sort()).toEqual(['Fortnite starter', 'Generic game account']);
+      expect(result.items[0].attributes['region']).toBe('EU');
+    });
+
+    it('should filter numeric attributes by range and skip text values under the same key', async () => {
+      const result = await search({ attributes: { level: { min: 20, max: 90 } } });
+
+      expect(result.items.map(item => item.title).sort()).toEqual(['Fortnite account', 'Fortnite starter']);
+    });
+
+    it('should combine attribute filters with categories', async () => {
+      const result = await search({ category_slug: 'games', attributes: { level: { min: 20 }, skins: { min: 1 } } });
+
+      expect(result.items.map(item => item.title)).toEqual(['Fortnite account']);
+    });
+
+    it('should roll subcategory counts up into category facets', async () => {
+      const facets = await searchFacets({});
+
+      expect(facets.categories).toEqual([
+        { slug: 'fortnite', name: 'Fortnite', parent_slug: 'games', count: 2 },
+        { slug: 'games', name: 'Games', parent_slug: null, count: 3 },
+        { slug: 'social', name: 'Social', parent_slug: null, count: 1 }
+      ]);
+    });
+  });
+
+  describe('getListingDetail', () => {
+    let categoryId: string;
+    let sellerId: string;
+    let buyerId: string;
+
+    beforeEach(async () => {
+      const [category] = await db.insert(categoriesTable)
+        .values(testCategory1)
+        .returning()
+        .execute();
+      categoryId = category.id;
+
+      const [seller, buyer] = await db.insert(usersTable)
+        .values([testUser, { email: 'buyer@example.com', password_hash: 'hashed_password', role: 'buyer' as const }])
+        .returning()
+        .execute();
+      sellerId = seller.id;
+      buyerId = buyer.id;
+    });
+
+    const insertListing = async (status: 'available' | 'sold' | 'delisted', title = 'Game account') => {
+      const [listing] = await db.insert(listingsTable)
+        .values({
+          seller_id: sellerId,
+          category_id: categoryId,
+          title,
+          description: 'Account for sale',
+          price_cents: 2500,
+          status
+        })
+        .returning()
+        .execute();
+      return listing;
+    };
+
+    it('should return null for a missing listing', async () => {
+      expect(await getListingDetail('550e8400-e29b-41d4-a716-446655440000')).toBeNull();
+    });
+
+    it('should include the category and seller reputation', async () => {
+      await db.insert(profilesTable)
+        .values({ user_id: sellerId, rating: '4.5', verification_status: 'verified' })
+        .execute();
+      await db.insert(sellerApplicationsTable)
+        .values({ user_id: sellerId, display_name: 'Pixel Traders', description: 'Game accounts', status: 'approved' })
+        .execute();
+
+      const listing = await insertListing('available');
+      const sold = await insertListing('sold', 'Older account');
+      const soldAgain = await insertListing('sold', 'Another account');
+
+      const [complete, delivered] = await db.insert(ordersTable)
+        .values([
+          { buyer_id: buyerId, listing_id: sold.id, total_cents: 2500, currency: 'USD', status: 'complete' as const },
+          { buyer_id: buyerId, listing_id: soldAgain.id, total_cents: 2500, currency: 'USD', status: 'delivered' as const }
+        ])
+        .returning()
+        .execute();
+      await db.insert(reviewsTable)
+        .values([
+          { order_id: complete.id, seller_id: sellerId, buyer_id: buyerId, rating: 5, comment: 'Great' },
+          { order_id: delivered.id, seller_id: sellerId, buyer_id: buyerId, rating: 4, comment: 'Good' }
+        ])
+        .execute();
+
+      const result = await getListingDetail(listing.id);
+
+      expect(result!.id).toBe(listing.id);
+      expect(result!.is_available).toBe(true);
+      expect(result!.media).toEqual([]);
+      expect(result!.category.slug).toBe('electronics');
+      expect(result!.seller).toEqual({
+        id: sellerId,
+        display_name: 'Pixel Traders',
+        member_since: expect.any(Date),
+        rating: 4.5,
+        review_count: 2,
+        verification_status: 'verified',
+        completed_sales: 1
+      });
+      expect(result).not.toHaveProperty('search_vector');
+    });
+
+    it('should fall back for sellers without a profile or application', async () => {
+      const listing = await insertListing('available');
+
+      const result = await getListingDetail(listing.id);
+
+      expect(result!.seller.display_name).toBeNull();
+      expect(result!.seller.rating).toBeNull();
+      expect(result!.seller.verification_status).toBe('none');
+      expect(result!.seller.review_count).toBe(0);
+      expect(result!.seller.completed_sales).toBe(0);
+    });
+
+    it('should resolve sold and delisted listings with a status flag', async () => {
+      const sold = await insertListing('sold');
+      const delisted = await insertListing('delisted');
+
+      const soldResult = await getListingDetail(sold.id);
+      const delistedResult = await getListingDetail(delisted.id);
+
+      expect(soldResult!.status).toBe('sold');
+      expect(soldResult!.is_available).toBe(false);
+      expect(delistedResult!.status).toBe('delisted');
+      expect(delistedResult!.is_available).toBe(false);
+    });
+  });
 });
\ No newline at end of file
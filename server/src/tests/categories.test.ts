@@ -0,0 +1,352 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, categoriesTable, categoryAttributesTable, listingsTable } from '../db/schema';
+import {
+  createCategory,
+  updateCategory,
+  mergeCategories,
+  archiveCategory,
+  createCategoryAttribute,
+  updateCategoryAttribute,
+  deleteCategoryAttribute
+} from '../handlers/categories';
+import { upsertListing } from '../handlers/seller';
+import { getListing, searchListings, getCategoryAttributes } from '../handlers/catalog';
+import { createCategoryInputSchema, createCategoryAttributeInputSchema } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const testAdmin = {
+  id: '11111111-1111-1111-1111-111111111111',
+  email: 'admin@test.com',
+  password_hash: 'hashed_password',
+  role: 'admin' as const
+};
+
+const testSeller = {
+  id: '22222222-2222-2222-2222-222222222222',
+  email: 'seller@test.com',
+  password_hash: 'hashed_password',
+  role: 'seller' as const
+};
+
+describe('category admin handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(usersTable).values([testAdmin, testSeller]).execute();
+  });
+
+  const listingFor = (categoryId: string, title = 'Game account') => ({
+    title,
+    description: 'Account for sale',
+    category_id: categoryId,
+    price_cents: 1500
+  });
+
+  describe('createCategory', () => {
+    it('should create top-level and child categories', async () => {
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+      const steam = await createCategory({ name: 'Steam', slug: 'steam', parent_id: games.id }, testAdmin.id);
+
+      expect(games.parent_id).toBeNull();
+      expect(games.archived_at).toBeNull();
+      expect(steam.parent_id).toBe(games.id);
+      expect(steam.slug).toBe('steam');
+    });
+
+    it('should check the slug format', () => {
+      for (const slug of ['Games', 'steam accounts', '-games', 'games--pc', 'games_pc', '']) {
+        expect(createCategoryInputSchema.safeParse({ name: 'Games', slug }).success).toBe(false);
+      }
+      expect(createCategoryInputSchema.safeParse({ name: 'Games', slug: 'pc-games-2' }).success).toBe(true);
+    });
+
+    it('should reject duplicate slugs and names', async () => {
+      await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+
+      await expect(createCategory({ name: 'Other games', slug: 'games' }, testAdmin.id))
+        .rejects.toThrow(/slug already exists/i);
+      await expect(createCategory({ name: 'Games', slug: 'other-games' }, testAdmin.id))
+        .rejects.toThrow(/name already exists/i);
+    });
+
+    it('should reject a missing or archived parent', async () => {
+      await expect(createCategory({
+        name: 'Steam',
+        slug: 'steam',
+        parent_id: '00000000-0000-0000-0000-000000000000'
+      }, testAdmin.id)).rejects.toThrow(/parent category not found/i);
+
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+      await archiveCategory({ category_id: games.id }, testAdmin.id);
+
+      await expect(createCategory({ name: 'Steam', slug: 'steam', parent_id: games.id }, testAdmin.id))
+        .rejects.toThrow(/parent category is archived/i);
+    });
+
+    it('should reject non-admins', async () => {
+      await expect(createCategory({ name: 'Games', slug: 'games' }, testSeller.id))
+        .rejects.toThrow(/admin access required/i);
+
+      const categories = await db.select().from(categoriesTable).execute();
+      expect(categories).toHaveLength(0);
+    });
+  });
+
+  describe('updateCategory', () => {
+    it('should rename and move a category', async () => {
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+      const steam = await createCategory({ name: 'Steam', slug: 'steam' }, testAdmin.id);
+
+      const updated = await updateCategory({
+        category_id: steam.id,
+        name: 'Steam accounts',
+        slug: 'steam-accounts',
+        parent_id: games.id
+      }, testAdmin.id);
+
+      expect(updated.name).toBe('Steam accounts');
+      expect(updated.slug).toBe('steam-accounts');
+      expect(updated.parent_id).toBe(games.id);
+
+      const topLevel = await updateCategory({ category_id: steam.id, parent_id: null }, testAdmin.id);
+      expect(topLevel.parent_id).toBeNull();
+      expect(topLevel.name).toBe('Steam accounts');
+    });
+
+    it('should allow keeping its own slug but not taking another one', async () => {
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+      await createCategory({ name: 'Social', slug: 'social' }, testAdmin.id);
+
+      await updateCategory({ category_id: games.id, name: 'Games', slug: 'games' }, testAdmin.id);
+      await expect(updateCategory({ category_id: games.id, slug: 'social' }, testAdmin.id))
+        .rejects.toThrow(/slug already exists/i);
+    });
+
+    it('should reject an update without changes', async () => {
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+
+      await expect(updateCategory({ category_id: games.id }, testAdmin.id))
+        .rejects.toThrow(/nothing to update/i);
+    });
+
+    it('should not move a category under itself or its subcategories', async () => {
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+      const steam = await createCategory({ name: 'Steam', slug: 'steam', parent_id: games.id }, testAdmin.id);
+
+      await expect(updateCategory({ category_id: games.id, parent_id: games.id }, testAdmin.id))
+        .rejects.toThrow(/cannot be moved under itself/i);
+      await expect(updateCategory({ category_id: games.id, parent_id: steam.id }, testAdmin.id))
+        .rejects.toThrow(/cannot be moved under itself/i);
+    });
+  });
+
+  describe('mergeCategories', () => {
+    it('should move listings and subcategories into the target and remove the source', async () => {
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+      const gaming = await createCategory({ name: 'Gaming', slug: 'gaming' }, testAdmin.id);
+      const steam = await createCategory({ name: 'Steam', slug: 'steam', parent_id: gaming.id }, testAdmin.id);
+      await db.insert(categoryAttributesTable)
+        .values({ category_id: gaming.id, key: 'level', label: 'Level', type: 'integer' })
+        .execute();
+
+      const first = await upsertListing(listingFor(gaming.id, 'First'), testSeller.id);
+      const second = await upsertListing(listingFor(gaming.id, 'Second'), testSeller.id);
+      const other = await upsertListing(listingFor(steam.id, 'Steam account'), testSeller.id);
+
+      const target = await mergeCategories({ source_id: gaming.id, target_id: games.id }, testAdmin.id);
+      expect(target.id).toBe(games.id);
+
+      const listings = await db.select().from(listingsTable).execute();
+      const categoryOf = (id: string) => listings.find(listing => listing.id === id)!.category_id;
+      expect(categoryOf(first.id)).toBe(games.id);
+      expect(categoryOf(second.id)).toBe(games.id);
+      expect(categoryOf(other.id)).toBe(steam.id);
+
+      const categories = await db.select().from(categoriesTable).execute();
+      expect(categories.map(category => category.slug).sort()).toEqual(['games', 'steam']);
+      expect(categories.find(category => category.id === steam.id)!.parent_id).toBe(games.id);
+
+      const attributes = await db.select().from(categoryAttributesTable).execute();
+      expect(attributes).toHaveLength(0);
+
+      const search = await searchListings({ category_slug: 'games', sort: 'newest', page: 1, page_size: 20 });
+      expect(search.total).toBe(3);
+    });
+
+    it('should reject merging into itself, a subcategory or an archived category', async () => {
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+      const steam = await createCategory({ name: 'Steam', slug: 'steam', parent_id: games.id }, testAdmin.id);
+      const old = await createCategory({ name: 'Old', slug: 'old' }, testAdmin.id);
+      await archiveCategory({ category_id: old.id }, testAdmin.id);
+
+      await expect(mergeCategories({ source_id: games.id, target_id: games.id }, testAdmin.id))
+        .rejects.toThrow(/into itself/i);
+      await expect(mergeCategories({ source_id: games.id, target_id: steam.id }, testAdmin.id))
+        .rejects.toThrow(/one of its subcategories/i);
+      await expect(mergeCategories({ source_id: steam.id, target_id: old.id }, testAdmin.id))
+        .rejects.toThrow(/target category is archived/i);
+
+      const categories = await db.select().from(categoriesTable).execute();
+      expect(categories).toHaveLength(3);
+    });
+
+    it('should reject non-admins', async () => {
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+      const gaming = await createCategory({ name: 'Gaming', slug: 'gaming' }, testAdmin.id);
+
+      await expect(mergeCategories({ source_id: gaming.id, target_id: games.id }, testSeller.id))
+        .rejects.toThrow(/admin access required/i);
+    });
+  });
+
+  describe('archiveCategory', () => {
+    it('should block new listings while keeping existing ones readable and editable', async () => {
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+      const social = await createCategory({ name: 'Social', slug: 'social' }, testAdmin.id);
+      const existing = await upsertListing(listingFor(games.id), testSeller.id);
+
+      const archived = await archiveCategory({ category_id: games.id }, testAdmin.id);
+      expect(archived.archived_at).toBeInstanceOf(Date);
+
+      await expect(upsertListing(listingFor(games.id, 'New account'), testSeller.id))
+        .rejects.toThrow(/category is archived/i);
+
+      const moved = await upsertListing(listingFor(social.id), testSeller.id);
+      await expect(upsertListing({ ...listingFor(games.id), id: moved.id }, testSeller.id))
+        .rejects.toThrow(/category is archived/i);
+
+      const edited = await upsertListing({ ...listingFor(games.id, 'Renamed account'), id: existing.id }, testSeller.id);
+      expect(edited.title).toBe('Renamed account');
+
+      expect(await getListing(existing.id)).not.toBeNull();
+      const search = await searchListings({ category_slug: 'games', sort: 'newest', page: 1, page_size: 20 });
+      expect(search.items.map(item => item.id)).toEqual([existing.id]);
+    });
+
+    it('should require subcategories to be archived first', async () => {
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+      const steam = await createCategory({ name: 'Steam', slug: 'steam', parent_id: games.id }, testAdmin.id);
+
+      await expect(archiveCategory({ category_id: games.id }, testAdmin.id))
+        .rejects.toThrow(/subcategories of this category first/i);
+
+      await archiveCategory({ category_id: steam.id }, testAdmin.id);
+      await archiveCategory({ category_id: games.id }, testAdmin.id);
+
+      const [stored] = await db.select()
+        .from(categoriesTable)
+        .where(eq(categoriesTable.id, games.id))
+        .execute();
+      expect(stored.archived_at).not.toBeNull();
+    });
+
+    it('should reject archiving twice', async () => {
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+      await archiveCategory({ category_id: games.id }, testAdmin.id);
+
+      await expect(archiveCategory({ category_id: games.id }, testAdmin.id))
+        .rejects.toThrow(/already archived/i);
+    });
+  });
+
+  describe('category attributes', () => {
+    const region = (categoryId: string) => ({
+      category_id: categoryId,
+      key: 'region',
+      label: 'Region',
+      type: 'enum' as const,
+      required: true,
+      enum_values: ['EU', 'NA']
+    });
+
+    it('should define attributes that listings are checked against', async () => {
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+      const attribute = await createCategoryAttribute(region(games.id), testAdmin.id);
+
+      expect(attribute.key).toBe('region');
+      expect(attribute.enum_values).toEqual(['EU', 'NA']);
+      expect(await getCategoryAttributes(games.id)).toEqual([attribute]);
+
+      await expect(upsertListing({ ...listingFor(games.id), attributes: { region: 'ASIA' } }, testSeller.id))
+        .rejects.toThrow(/must be one of/i);
+      const listing = await upsertListing({ ...listingFor(games.id), attributes: { region: 'EU' } }, testSeller.id);
+      expect(listing.attributes).toEqual({ region: 'EU' });
+    });
+
+    it('should check keys and allowed values', async () => {
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+
+      for (const key of ['Region', 'server region', '1st', 'region-code', '']) {
+        expect(createCategoryAttributeInputSchema.safeParse({ ...region(games.id), key }).success).toBe(false);
+      }
+
+      await expect(createCategoryAttribute({ ...region(games.id), enum_values: [] }, testAdmin.id))
+        .rejects.toThrow(/at least one allowed value/i);
+      await expect(createCategoryAttribute({ ...region(games.id), enum_values: ['EU', 'EU'] }, testAdmin.id))
+        .rejects.toThrow(/distinct/i);
+      await expect(createCategoryAttribute({ ...region(games.id), type: 'integer' }, testAdmin.id))
+        .rejects.toThrow(/only enum attributes/i);
+    });
+
+    it('should keep keys unique within a category but let subcategories override them', async () => {
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+      const steam = await createCategory({ name: 'Steam', slug: 'steam', parent_id: games.id }, testAdmin.id);
+      await createCategoryAttribute(region(games.id), testAdmin.id);
+
+      await expect(createCategoryAttribute(region(games.id), testAdmin.id))
+        .rejects.toThrow(/already has an attribute/i);
+
+      const override = await createCategoryAttribute({ ...region(steam.id), enum_values: ['EU', 'NA', 'ASIA'] }, testAdmin.id);
+      expect(await getCategoryAttributes(steam.id)).toEqual([override]);
+    });
+
+    it('should update a definition and keep its allowed values consistent', async () => {
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+      const attribute = await createCategoryAttribute(region(games.id), testAdmin.id);
+
+      const relabelled = await updateCategoryAttribute(
+        { attribute_id: attribute.id, label: 'Server region', required: false },
+        testAdmin.id
+      );
+      expect(relabelled).toMatchObject({ label: 'Server region', required: false, enum_values: ['EU', 'NA'] });
+
+      const asText = await updateCategoryAttribute({ attribute_id: attribute.id, type: 'text' }, testAdmin.id);
+      expect(asText).toMatchObject({ type: 'text', enum_values: [] });
+
+      await expect(updateCategoryAttribute({ attribute_id: attribute.id, type: 'enum' }, testAdmin.id))
+        .rejects.toThrow(/at least one allowed value/i);
+      await expect(updateCategoryAttribute({ attribute_id: attribute.id }, testAdmin.id))
+        .rejects.toThrow(/nothing to update/i);
+    });
+
+    it('should delete a definition', async () => {
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+      const attribute = await createCategoryAttribute(region(games.id), testAdmin.id);
+
+      await deleteCategoryAttribute({ attribute_id: attribute.id }, testAdmin.id);
+
+      expect(await db.select().from(categoryAttributesTable).execute()).toHaveLength(0);
+      await expect(deleteCategoryAttribute({ attribute_id: attribute.id }, testAdmin.id))
+        .rejects.toThrow(/attribute not found/i);
+    });
+
+    it('should reject non-admins and archived categories', async () => {
+      const games = await createCategory({ name: 'Games', slug: 'games' }, testAdmin.id);
+      const attribute = await createCategoryAttribute(region(games.id), testAdmin.id);
+
+      await expect(createCategoryAttribute({ ...region(games.id), key: 'level' }, testSeller.id))
+        .rejects.toThrow(/admin access required/i);
+      await expect(updateCategoryAttribute({ attribute_id: attribute.id, label: 'Zone' }, testSeller.id))
+        .rejects.toThrow(/admin access required/i);
+      await expect(deleteCategoryAttribute({ attribute_id: attribute.id }, testSeller.id))
+        .rejects.toThrow(/admin access required/i);
+
+      await archiveCategory({ category_id: games.id }, testAdmin.id);
+      await expect(createCategoryAttribute({ ...region(games.id), key: 'level' }, testAdmin.id))
+        .rejects.toThrow(/archived/i);
+    });
+  });
+});
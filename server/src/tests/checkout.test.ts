@@ -1,9 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, payOrder, TEST_STRIPE_WEBHOOK_SECRET } from '../helpers';
 import { db } from '../db';
 import { usersTable, categoriesTable, listingsTable, ordersTable, transactionsTable } from '../db/schema';
 import { type CreatePaymentIntentInput } from '../schema';
-import { createPaymentIntent } from '../handlers/checkout';
+import { createPaymentIntent, handleStripeWebhook } from '../handlers/checkout';
+import { addListingStock } from '../handlers/seller';
+import { signStripePayload } from '../lib/stripeSignature';
 import { eq } from 'drizzle-orm';
 
 describe('createPaymentIntent', () => {
@@ -57,7 +59,8 @@ describe('createPaymentIntent', () => {
         description: 'A test product for checkout',
         price_cents: 2999,
         currency: 'USD',
-        status: 'available'
+        status: 'available',
+        stock: 1
       })
       .returning()
       .execute();
@@ -174,6 +177,21 @@ describe('createPaymentIntent', () => {
     await expect(createPaymentIntent(input, buyerId)).rejects.toThrow(/listing is not available/i);
   });
 
+  it('should reject listing without stock', async () => {
+    await setupTestData();
+
+    await db.update(listingsTable)
+      .set({ stock: 0 })
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+
+    const input: CreatePaymentIntentInput = {
+      listing_id: listingId
+    };
+
+    await expect(createPaymentIntent(input, buyerId)).rejects.toThrow(/out of stock/i);
+  });
+
   it('should prevent seller from buying own listing', async () => {
     await setupTestData();
 
@@ -197,7 +215,8 @@ describe('createPaymentIntent', () => {
         description: 'A product priced in EUR',
         price_cents: 4999,
         currency: 'EUR',
-        status: 'available'
+        status: 'available',
+        stock: 1
       })
       .returning()
       .execute();
@@ -231,7 +250,8 @@ describe('createPaymentIntent', () => {
         description: 'A very expensive product',
         price_cents: 999999,
         currency: 'USD',
-        status: 'available'
+        status: 'available',
+        stock: 1
       })
       .returning()
       .execute();
@@ -260,4 +280,119 @@ describe('createPaymentIntent', () => {
     expect(transactions).toHaveLength(1);
     expect(transactions[0].amount_cents).toEqual(999999);
   });
+});
+
+describe('handleStripeWebhook', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let buyerId: string;
+  let orderId: string;
+  let paymentIntentId: string;
+
+  beforeEach(async () => {
+    process.env['STRIPE_WEBHOOK_SECRET'] = TEST_STRIPE_WEBHOOK_SECRET;
+
+    const [seller, buyer] = await db.insert(usersTable)
+      .values([
+        { email: 'seller@test.com', password_hash: 'hashed_password', role: 'seller' },
+        { email: 'buyer@test.com', password_hash: 'hashed_password', role: 'buyer' }
+      ])
+      .returning()
+      .execute();
+    buyerId = buyer.id;
+
+    const [category] = await db.insert(categoriesTable)
+      .values({ name: 'Test Category', slug: 'test-category' })
+      .returning()
+      .execute();
+
+    const [listing] = await db.insert(listingsTable)
+      .values({
+        seller_id: seller.id,
+        category_id: category.id,
+        title: 'Test Product',
+        description: 'A test product for checkout',
+        price_cents: 2999
+      })
+      .returning()
+      .execute();
+    await addListingStock({ listing_id: listing.id, credentials: ['user:secret'] }, seller.id);
+
+    orderId = (await createPaymentIntent({ listing_id: listing.id }, buyerId)).order_id;
+    const transactions = await db.select()
+      .from(transactionsTable)
+      .where(eq(transactionsTable.order_id, orderId))
+      .execute();
+    paymentIntentId = transactions[0].provider_ref;
+  });
+
+  const eventPayload = (type: string) => JSON.stringify({
+    id: 'evt_test',
+    type,
+    data: { object: { id: paymentIntentId } }
+  });
+
+  const paymentState = async () => {
+    const orders = await db.select().from(ordersTable).where(eq(ordersTable.id, orderId)).execute();
+    const transactions = await db.select().from(transactionsTable).where(eq(transactionsTable.order_id, orderId)).execute();
+    return [orders[0].status, transactions[0].status];
+  };
+
+  it('should mark the order paid when the payment succeeds', async () => {
+    await payOrder(orderId);
+
+    expect(await paymentState()).toEqual(['paid', 'succeeded']);
+  });
+
+  it('should refund a payment for an order that is no longer awaiting it', async () => {
+    await db.update(ordersTable)
+      .set({ status: 'complete' })
+      .where(eq(ordersTable.id, orderId))
+      .execute();
+
+    await payOrder(orderId);
+    await payOrder(orderId);
+
+    expect(await paymentState()).toEqual(['complete', 'refunded']);
+  });
+
+  it('should reject events without a valid signature', async () => {
+    const payload = eventPayload('payment_intent.succeeded');
+
+    await expect(handleStripeWebhook(payload, undefined)).rejects.toThrow(/invalid webhook signature/i);
+    await expect(handleStripeWebhook(payload, signStripePayload(payload, 'whsec_other')))
+      .rejects.toThrow(/invalid webhook signature/i);
+    await expect(handleStripeWebhook(payload.replace('evt_test', 'evt_forged'), signStripePayload(payload, TEST_STRIPE_WEBHOOK_SECRET)))
+      .rejects.toThrow(/invalid webhook signature/i);
+
+    const anHourAgo = Math.floor(Date.now() / 1000) - 3600;
+    await expect(handleStripeWebhook(payload, signStripePayload(payload, TEST_STRIPE_WEBHOOK_SECRET, anHourAgo)))
+      .rejects.toThrow(/expired/i);
+
+    expect(await paymentState()).toEqual(['pending', 'initiated']);
+  });
+
+  it('should ignore other events', async () => {
+    const payload = eventPayload('payment_intent.created');
+    await handleStripeWebhook(payload, signStripePayload(payload, TEST_STRIPE_WEBHOOK_SECRET));
+
+    expect(await paymentState()).toEqual(['pending', 'initiated']);
+  });
+
+  it('should reject payments it did not create', async () => {
+    paymentIntentId = 'pi_unknown';
+    const payload = eventPayload('payment_intent.succeeded');
+
+    await expect(handleStripeWebhook(payload, signStripePayload(payload, TEST_STRIPE_WEBHOOK_SECRET)))
+      .rejects.toThrow(/payment not found/i);
+  });
+
+  it('should refuse events while no webhook secret is configured', async () => {
+    delete process.env['STRIPE_WEBHOOK_SECRET'];
+    const payload = eventPayload('payment_intent.succeeded');
+
+    await expect(handleStripeWebhook(payload, signStripePayload(payload, TEST_STRIPE_WEBHOOK_SECRET)))
+      .rejects.toThrow(/not configured/i);
+  });
 });
\ No newline at end of file
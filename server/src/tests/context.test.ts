@@ -0,0 +1,245 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, twoFactorTable } from '../db/schema';
+import { createContext, extractToken, extractRequestMeta, AUTH_COOKIE_NAME } from '../context';
+import { signAccessToken } from '../handlers/auth';
+import { createApiKey, revokeApiKey } from '../handlers/apiKeys';
+import { eq } from 'drizzle-orm';
+
+const testSeller = {
+  id: '11111111-1111-1111-1111-111111111111',
+  email: 'seller@test.com',
+  password_hash: 'hashed_password',
+  role: 'seller' as const
+};
+
+const testSession = {
+  id: '44444444-4444-4444-4444-444444444444',
+  user_id: testSeller.id
+};
+
+const tokenFor = (userId: string, sessionId: string = testSession.id) =>
+  signAccessToken({ id: userId, email: testSeller.email, role: testSeller.role }, sessionId);
+
+describe('createContext', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(usersTable).values(testSeller).execute();
+    await db.insert(sessionsTable).values(testSession).execute();
+  });
+
+  it('should return an anonymous context without a token', async () => {
+    const ctx = await createContext({ req: { headers: {} } });
+
+    expect(ctx.userId).toBeNull();
+    expect(ctx.userRole).toBeNull();
+    expect(ctx.authError).toBeNull();
+  });
+
+  it('should resolve the user from a bearer token', async () => {
+    const ctx = await createContext({
+      req: { headers: { authorization: `Bearer ${tokenFor(testSeller.id)}` } }
+    });
+
+    expect(ctx.userId).toEqual(testSeller.id);
+    expect(ctx.userRole).toEqual('seller');
+    expect(ctx.sessionId).toEqual(testSession.id);
+    expect(ctx.emailVerified).toBe(false);
+    expect(ctx.twoFactorEnabled).toBe(false);
+    expect(ctx.twoFactorVerified).toBe(false);
+    expect(ctx.authError).toBeNull();
+  });
+
+  it('should report two-factor state for the user and session', async () => {
+    await db.insert(twoFactorTable)
+      .values({ user_id: testSeller.id, secret: 'JBSWY3DPEHPK3PXP', enabled_at: new Date() })
+      .execute();
+    await db.update(sessionsTable)
+      .set({ two_factor_verified_at: new Date() })
+      .where(eq(sessionsTable.id, testSession.id))
+      .execute();
+
+    const ctx = await createContext({
+      req: { headers: { authorization: `Bearer ${tokenFor(testSeller.id)}` } }
+    });
+
+    expect(ctx.twoFactorEnabled).toBe(true);
+    expect(ctx.twoFactorVerified).toBe(true);
+  });
+
+  it('should not treat an unconfirmed two-factor setup as enabled', async () => {
+    await db.insert(twoFactorTable)
+      .values({ user_id: testSeller.id, secret: 'JBSWY3DPEHPK3PXP' })
+      .execute();
+
+    const ctx = await createContext({
+      req: { headers: { authorization: `Bearer ${tokenFor(testSeller.id)}` } }
+    });
+
+    expect(ctx.twoFactorEnabled).toBe(false);
+  });
+
+  it('should resolve the user from the auth cookie', async () => {
+    const ctx = await createContext({
+      req: { headers: { cookie: `theme=dark; ${AUTH_COOKIE_NAME}=${tokenFor(testSeller.id)}` } }
+    });
+
+    expect(ctx.userId).toEqual(testSeller.id);
+  });
+
+  it('should take the role from the database rather than the token', async () => {
+    const token = tokenFor(testSeller.id);
+    await db.update(usersTable)
+      .set({ role: 'buyer' })
+      .where(eq(usersTable.id, testSeller.id))
+      .execute();
+
+    const ctx = await createContext({ req: { headers: { authorization: `Bearer ${token}` } } });
+
+    expect(ctx.userRole).toEqual('buyer');
+  });
+
+  it('should reject a tampered token', async () => {
+    const [header, , signature] = tokenFor(testSeller.id).split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({
+      userId: testSeller.id,
+      role: 'admin',
+      exp: Math.floor(Date.now() / 1000) + 3600
+    })).toString('base64url');
+
+    const ctx = await createContext({
+      req: { headers: { authorization: `Bearer ${header}.${forgedPayload}.${signature}` } }
+    });
+
+    expect(ctx.userId).toBeNull();
+    expect(ctx.authError).toMatch(/signature/i);
+  });
+
+  it('should reject an expired token', async () => {
+    // Sign the token as if it had been issued two days ago
+    const realNow = Date.now;
+    Date.now = () => realNow() - 48 * 60 * 60 * 1000;
+    const oldToken = tokenFor(testSeller.id);
+    Date.now = realNow;
+
+    const ctx = await createContext({ req: { headers: { authorization: `Bearer ${oldToken}` } } });
+
+    expect(ctx.userId).toBeNull();
+    expect(ctx.authError).toMatch(/expired/i);
+  });
+
+  it('should reject a token for an unknown session', async () => {
+    const ctx = await createContext({
+      req: { headers: { authorization: `Bearer ${tokenFor(testSeller.id, '99999999-9999-9999-9999-999999999999')}` } }
+    });
+
+    expect(ctx.userId).toBeNull();
+    expect(ctx.authError).toMatch(/session not found/i);
+  });
+
+  it('should reject a token whose session was revoked', async () => {
+    const token = tokenFor(testSeller.id);
+    await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(eq(sessionsTable.id, testSession.id))
+      .execute();
+
+    const ctx = await createContext({ req: { headers: { authorization: `Bearer ${token}` } } });
+
+    expect(ctx.userId).toBeNull();
+    expect(ctx.authError).toMatch(/revoked/i);
+  });
+
+  it('should reject a session that belongs to another user', async () => {
+    const ctx = await createContext({
+      req: { headers: { authorization: `Bearer ${tokenFor('99999999-9999-9999-9999-999999999999')}` } }
+    });
+
+    expect(ctx.userId).toBeNull();
+    expect(ctx.authError).toMatch(/session not found/i);
+  });
+
+  it('should resolve the owner and scopes from an API key', async () => {
+    const { api_key, key } = await createApiKey({ name: 'Sync script', scopes: ['listings:write'] }, testSeller.id);
+
+    const ctx = await createContext({ req: { headers: { authorization: `Bearer ${key}` } } });
+
+    expect(ctx.userId).toEqual(testSeller.id);
+    expect(ctx.userRole).toEqual('seller');
+    expect(ctx.sessionId).toBeNull();
+    expect(ctx.apiKeyId).toEqual(api_key.id);
+    expect(ctx.apiKeyScopes).toEqual(['listings:write']);
+    expect(ctx.twoFactorVerified).toBe(false);
+  });
+
+  it('should reject a revoked API key', async () => {
+    const { api_key, key } = await createApiKey({ name: 'Sync script', scopes: ['listings:write'] }, testSeller.id);
+    await revokeApiKey({ api_key_id: api_key.id }, testSeller.id);
+
+    const ctx = await createContext({ req: { headers: { authorization: `Bearer ${key}` } } });
+
+    expect(ctx.userId).toBeNull();
+    expect(ctx.apiKeyId).toBeNull();
+    expect(ctx.authError).toMatch(/revoked/i);
+  });
+
+  it('should reject an unknown API key', async () => {
+    const ctx = await createContext({ req: { headers: { authorization: 'Bearer ak_not-a-real-key' } } });
+
+    expect(ctx.userId).toBeNull();
+    expect(ctx.authError).toMatch(/invalid api key/i);
+  });
+});
+
+describe('extractToken', () => {
+  it('should prefer the authorization header over the cookie', () => {
+    const token = extractToken({
+      authorization: 'Bearer header-token',
+      cookie: `${AUTH_COOKIE_NAME}=cookie-token`
+    });
+
+    expect(token).toEqual('header-token');
+  });
+
+  it('should ignore non-bearer authorization schemes', () => {
+    expect(extractToken({ authorization: 'Basic abc' })).toBeNull();
+  });
+});
+
+describe('extractRequestMeta', () => {
+  it('should use the forwarded address from a trusted proxy', () => {
+    const meta = extractRequestMeta({
+      headers: { 'x-forwarded-for': '203.0.113.7', 'user-agent': 'Firefox' },
+      socket: { remoteAddress: '127.0.0.1' }
+    });
+
+    expect(meta).toEqual({ ip_address: '203.0.113.7', user_agent: 'Firefox' });
+  });
+
+  it('should ignore forwarded addresses from untrusted peers', () => {
+    const meta = extractRequestMeta({
+      headers: { 'x-forwarded-for': '203.0.113.7' },
+      socket: { remoteAddress: '198.51.100.20' }
+    });
+
+    expect(meta.ip_address).toBe('198.51.100.20');
+  });
+
+  it('should skip trusted hops and ignore addresses the client prepended', () => {
+    const meta = extractRequestMeta({
+      headers: { 'x-forwarded-for': '192.0.2.1, 203.0.113.7, 10.0.0.1' },
+      socket: { remoteAddress: '::ffff:10.0.0.2' }
+    }, ['10.0.0.1', '10.0.0.2']);
+
+    expect(meta.ip_address).toBe('203.0.113.7');
+  });
+
+  it('should fall back to the socket address', () => {
+    const meta = extractRequestMeta({ headers: {}, socket: { remoteAddress: '127.0.0.1' } });
+
+    expect(meta).toEqual({ ip_address: '127.0.0.1', user_agent: null });
+  });
+});
@@ -0,0 +1,300 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+  type KeyObject
+} from 'crypto';
+import { resetDB, createDB, payOrder } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  categoriesTable,
+  listingsTable,
+  listingSecurePayloadsTable,
+  ordersTable,
+  credentialAccessLogTable
+} from '../db/schema';
+import { setEncryptionKey, getEncryptionKey, listPendingHandoffs, submitHandoff } from '../handlers/handoff';
+import { createPaymentIntent } from '../handlers/checkout';
+import { revealCredentials } from '../handlers/orders';
+import { upsertListing, setListingPayload } from '../handlers/seller';
+import { encryptPayload } from '../lib/payloadEncryption';
+import { hashPassword } from '../lib/passwords';
+import { setEncryptionKeyInputSchema, type RequestMeta, type SealedPayload } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// The browser's sealing scheme, reproduced with Node's crypto: X25519 with an
+// ephemeral key, HKDF-SHA256 over both public keys, AES-256-GCM bound to the order
+const HANDOFF_INFO = 'accs-market credential handoff v1';
+
+const rawPublicKey = (key: KeyObject) => Buffer.from(key.export({ format: 'jwk' }).x!, 'base64url');
+
+const importPublicKey = (base64: string) => createPublicKey({
+  key: { kty: 'OKP', crv: 'X25519', x: Buffer.from(base64, 'base64').toString('base64url') },
+  format: 'jwk'
+});
+
+const handoffKey = (sharedSecret: Buffer, ephemeralPublicKey: Buffer, recipientPublicKey: Buffer) => Buffer.from(
+  hkdfSync('sha256', sharedSecret, Buffer.concat([ephemeralPublicKey, recipientPublicKey]), HANDOFF_INFO, 32)
+);
+
+function seal(plaintext: string, recipientPublicKey: string, orderId: string): SealedPayload {
+  const ephemeral = generateKeyPairSync('x25519');
+  const recipient = importPublicKey(recipientPublicKey);
+  const key = handoffKey(
+    diffieHellman({ privateKey: ephemeral.privateKey, publicKey: recipient }),
+    rawPublicKey(ephemeral.publicKey),
+    rawPublicKey(recipient)
+  );
+  const nonce = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, nonce).setAAD(Buffer.from(orderId));
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final(), cipher.getAuthTag()]);
+
+  return {
+    ephemeral_public_key: rawPublicKey(ephemeral.publicKey).toString('base64'),
+    nonce: nonce.toString('base64'),
+    cipher_text: encrypted.toString('base64')
+  };
+}
+
+function open(sealed: SealedPayload, recipient: { privateKey: KeyObject; publicKey: KeyObject }, orderId: string): string {
+  const ephemeral = importPublicKey(sealed.ephemeral_public_key);
+  const key = handoffKey(
+    diffieHellman({ privateKey: recipient.privateKey, publicKey: ephemeral }),
+    rawPublicKey(ephemeral),
+    rawPublicKey(recipient.publicKey)
+  );
+  const data = Buffer.from(sealed.cipher_text, 'base64');
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(sealed.nonce, 'base64')).setAAD(Buffer.from(orderId));
+  decipher.setAuthTag(data.subarray(-16));
+
+  return Buffer.concat([decipher.update(data.subarray(0, -16)), decipher.final()]).toString('utf8');
+}
+
+const testBuyerPassword = 'buyer-password';
+
+const testSeller = {
+  id: '11111111-1111-1111-1111-111111111111',
+  email: 'seller@test.com',
+  password_hash: 'hashed_password',
+  role: 'seller' as const
+};
+
+const otherSeller = {
+  id: '11111111-1111-1111-1111-111111111112',
+  email: 'other-seller@test.com',
+  password_hash: 'hashed_password',
+  role: 'seller' as const
+};
+
+const testBuyer = {
+  id: '22222222-2222-2222-2222-222222222222',
+  email: 'buyer@test.com',
+  password_hash: hashPassword(testBuyerPassword),
+  role: 'buyer' as const
+};
+
+const testCategory = {
+  id: '33333333-3333-3333-3333-333333333333',
+  name: 'Games',
+  slug: 'games'
+};
+
+const e2eListing = {
+  id: '44444444-4444-4444-4444-444444444441',
+  seller_id: testSeller.id,
+  category_id: testCategory.id,
+  title: 'End-to-end account',
+  description: 'Account for sale',
+  price_cents: 2500,
+  e2e_handoff: true
+};
+
+const serverListing = {
+  id: '44444444-4444-4444-4444-444444444442',
+  seller_id: testSeller.id,
+  category_id: testCategory.id,
+  title: 'Server-encrypted account',
+  description: 'Account for sale',
+  price_cents: 1500,
+  has_secure_payload: true,
+  stock: 1
+};
+
+const testMeta: RequestMeta = { ip_address: '203.0.113.7', user_agent: 'bun-test' };
+
+const testCredentials = 'username:hunter2';
+
+describe('end-to-end credential handoff', () => {
+  const buyerKeys = generateKeyPairSync('x25519');
+  const buyerPublicKey = rawPublicKey(buyerKeys.publicKey).toString('base64');
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(usersTable).values([testSeller, otherSeller, testBuyer]).execute();
+    await db.insert(categoriesTable).values(testCategory).execute();
+    await db.insert(listingsTable).values([e2eListing, serverListing]).execute();
+    await db.insert(listingSecurePayloadsTable).values({
+      listing_id: serverListing.id,
+      ...await encryptPayload(testCredentials, serverListing.id)
+    }).execute();
+  });
+
+  describe('encryption keys', () => {
+    it('should register and replace a buyer key', async () => {
+      expect(await getEncryptionKey(testBuyer.id)).toBeNull();
+
+      const first = await setEncryptionKey({ public_key: buyerPublicKey }, testBuyer.id);
+      expect(first.public_key).toBe(buyerPublicKey);
+
+      const replacement = rawPublicKey(generateKeyPairSync('x25519').publicKey).toString('base64');
+      await setEncryptionKey({ public_key: replacement }, testBuyer.id);
+
+      const current = await getEncryptionKey(testBuyer.id);
+      expect(current?.public_key).toBe(replacement);
+      expect(current?.created_at).toEqual(first.created_at);
+    });
+
+    it('should only accept raw 32-byte keys', () => {
+      expect(setEncryptionKeyInputSchema.safeParse({ public_key: buyerPublicKey }).success).toBe(true);
+      expect(setEncryptionKeyInputSchema.safeParse({ public_key: randomBytes(33).toString('base64') }).success).toBe(false);
+      expect(setEncryptionKeyInputSchema.safeParse({ public_key: 'not a key' }).success).toBe(false);
+    });
+  });
+
+  describe('checkout', () => {
+    it('should require a buyer key for end-to-end listings', async () => {
+      await expect(createPaymentIntent({ listing_id: e2eListing.id }, testBuyer.id))
+        .rejects.toThrow(/register an encryption key/i);
+    });
+
+    it('should pin the buyer key on the order', async () => {
+      await setEncryptionKey({ public_key: buyerPublicKey }, testBuyer.id);
+
+      const e2e = await createPaymentIntent({ listing_id: e2eListing.id }, testBuyer.id);
+      const server = await createPaymentIntent({ listing_id: serverListing.id }, testBuyer.id);
+
+      const orders = await db.select().from(ordersTable).execute();
+      expect(orders.find(order => order.id === e2e.order_id)?.buyer_public_key).toBe(buyerPublicKey);
+      expect(orders.find(order => order.id === server.order_id)?.buyer_public_key).toBeNull();
+    });
+  });
+
+  describe('handoff', () => {
+    let orderId: string;
+
+    beforeEach(async () => {
+      await setEncryptionKey({ public_key: buyerPublicKey }, testBuyer.id);
+      orderId = (await createPaymentIntent({ listing_id: e2eListing.id }, testBuyer.id)).order_id;
+    });
+
+    it('should list paid orders waiting for the seller', async () => {
+      expect(await listPendingHandoffs(testSeller.id)).toHaveLength(0);
+
+      await payOrder(orderId);
+
+      const pending = await listPendingHandoffs(testSeller.id);
+      expect(pending).toHaveLength(1);
+      expect(pending[0]).toMatchObject({
+        order_id: orderId,
+        listing_id: e2eListing.id,
+        listing_title: e2eListing.title,
+        buyer_public_key: buyerPublicKey,
+        status: 'paid'
+      });
+      expect(await listPendingHandoffs(otherSeller.id)).toHaveLength(0);
+    });
+
+    it('should hand the sealed payload to the buyer only', async () => {
+      await payOrder(orderId);
+      await submitHandoff({ order_id: orderId, ...seal(testCredentials, buyerPublicKey, orderId) }, testSeller.id);
+
+      expect(await listPendingHandoffs(testSeller.id)).toHaveLength(0);
+
+      const revealed = await revealCredentials({ order_id: orderId, password: testBuyerPassword }, testBuyer.id, testMeta);
+      if (revealed.encryption !== 'buyer_key') {
+        throw new Error('Expected a sealed payload');
+      }
+      expect(revealed.recipient_public_key).toBe(buyerPublicKey);
+      expect(open(revealed.sealed_payload, buyerKeys, orderId)).toBe(testCredentials);
+
+      const log = await db.select().from(credentialAccessLogTable).execute();
+      expect(log.map(entry => [entry.order_id, entry.result])).toEqual([[orderId, 'revealed']]);
+    });
+
+    it('should tell the buyer when the seller has not handed off yet', async () => {
+      await payOrder(orderId);
+
+      await expect(revealCredentials({ order_id: orderId, password: testBuyerPassword }, testBuyer.id, testMeta))
+        .rejects.toThrow(/not handed off/i);
+    });
+
+    it('should accept a single handoff from the listing seller once paid', async () => {
+      const sealed = seal(testCredentials, buyerPublicKey, orderId);
+
+      await expect(submitHandoff({ order_id: orderId, ...sealed }, testSeller.id))
+        .rejects.toThrow(/only be handed off for paid orders/i);
+
+      await payOrder(orderId);
+      await expect(submitHandoff({ order_id: orderId, ...sealed }, otherSeller.id))
+        .rejects.toThrow(/access denied/i);
+
+      await submitHandoff({ order_id: orderId, ...sealed }, testSeller.id);
+      await expect(submitHandoff({ order_id: orderId, ...sealed }, testSeller.id))
+        .rejects.toThrow(/already handed off/i);
+    });
+
+    it('should refuse handoffs for server-encrypted orders', async () => {
+      const serverOrder = await createPaymentIntent({ listing_id: serverListing.id }, testBuyer.id);
+      await payOrder(serverOrder.order_id);
+
+      await expect(submitHandoff({ order_id: serverOrder.order_id, ...seal(testCredentials, buyerPublicKey, serverOrder.order_id) }, testSeller.id))
+        .rejects.toThrow(/does not use end-to-end handoff/i);
+
+      const revealed = await revealCredentials({ order_id: serverOrder.order_id, password: testBuyerPassword }, testBuyer.id, testMeta);
+      expect(revealed).toEqual({ encryption: 'server', credentials: testCredentials });
+    });
+  });
+
+  describe('listing mode', () => {
+    it('should not store a server payload for end-to-end listings', async () => {
+      await expect(setListingPayload({ listing_id: e2eListing.id, plaintext_credentials: testCredentials }, testSeller.id))
+        .rejects.toThrow(/end-to-end handoff/i);
+    });
+
+    it('should drop the server payload when a listing opts in', async () => {
+      const listing = await upsertListing({
+        id: serverListing.id,
+        title: serverListing.title,
+        description: serverListing.description,
+        category_id: testCategory.id,
+        price_cents: serverListing.price_cents,
+        e2e_handoff: true
+      }, testSeller.id);
+
+      expect(listing.e2e_handoff).toBe(true);
+      expect(listing.has_secure_payload).toBe(false);
+      expect(await db.select().from(listingSecurePayloadsTable).execute()).toHaveLength(0);
+    });
+
+    it('should keep the mode fixed once a listing has orders', async () => {
+      await createPaymentIntent({ listing_id: serverListing.id }, testBuyer.id);
+
+      await expect(upsertListing({
+        id: serverListing.id,
+        title: serverListing.title,
+        description: serverListing.description,
+        category_id: testCategory.id,
+        price_cents: serverListing.price_cents,
+        e2e_handoff: true
+      }, testSeller.id)).rejects.toThrow(/already has orders/i);
+    });
+  });
+});
@@ -0,0 +1,323 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { randomBytes } from 'crypto';
+import { resetDB, createDB, payOrder } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  categoriesTable,
+  listingsTable,
+  listingSecurePayloadsTable,
+  ordersTable,
+  transactionsTable,
+  watchlistTable
+} from '../db/schema';
+import { addListingStock, setListingPayload, setListingStatus, backfillListingInventory } from '../handlers/seller';
+import { createPaymentIntent } from '../handlers/checkout';
+import { revealCredentials } from '../handlers/orders';
+import { encryptPayload } from '../lib/payloadEncryption';
+import { setEncryptionKey } from '../handlers/handoff';
+import { hashPassword } from '../lib/passwords';
+import { MemoryNotificationChannel, setNotificationChannel } from '../lib/notifications';
+import { addListingStockInputSchema, LISTING_STOCK_MAX_BATCH, type RequestMeta } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const testBuyerPassword = 'buyer-password';
+
+const testSeller = {
+  id: '11111111-1111-1111-1111-111111111111',
+  email: 'seller@test.com',
+  password_hash: 'hashed_password',
+  role: 'seller' as const
+};
+
+const otherSeller = {
+  id: '11111111-1111-1111-1111-111111111112',
+  email: 'other-seller@test.com',
+  password_hash: 'hashed_password',
+  role: 'seller' as const
+};
+
+const firstBuyer = {
+  id: '22222222-2222-2222-2222-222222222221',
+  email: 'first@test.com',
+  password_hash: hashPassword(testBuyerPassword),
+  role: 'buyer' as const
+};
+
+const secondBuyer = {
+  id: '22222222-2222-2222-2222-222222222222',
+  email: 'second@test.com',
+  password_hash: hashPassword(testBuyerPassword),
+  role: 'buyer' as const
+};
+
+const testCategory = {
+  id: '33333333-3333-3333-3333-333333333333',
+  name: 'Games',
+  slug: 'games'
+};
+
+const testListing = {
+  id: '44444444-4444-4444-4444-444444444441',
+  seller_id: testSeller.id,
+  category_id: testCategory.id,
+  title: 'Game account',
+  description: 'Account for sale',
+  price_cents: 1500
+};
+
+const e2eListing = {
+  id: '44444444-4444-4444-4444-444444444442',
+  seller_id: testSeller.id,
+  category_id: testCategory.id,
+  title: 'End-to-end account',
+  description: 'Account for sale',
+  price_cents: 2500,
+  e2e_handoff: true
+};
+
+const testMeta: RequestMeta = { ip_address: '203.0.113.7', user_agent: 'bun-test' };
+
+const getListing = async (listingId: string) => {
+  const listings = await db.select().from(listingsTable).where(eq(listingsTable.id, listingId)).execute();
+  return listings[0];
+};
+
+const orderStatus = async (orderId: string) => {
+  const orders = await db.select().from(ordersTable).where(eq(ordersTable.id, orderId)).execute();
+  return orders[0].status;
+};
+
+const buy = async (buyerId: string) => {
+  const { order_id } = await createPaymentIntent({ listing_id: testListing.id }, buyerId);
+  await payOrder(order_id);
+  return order_id;
+};
+
+describe('listing inventory', () => {
+  let notifications: MemoryNotificationChannel;
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    notifications = new MemoryNotificationChannel();
+    setNotificationChannel(notifications);
+    await db.insert(usersTable).values([testSeller, otherSeller, firstBuyer, secondBuyer]).execute();
+    await db.insert(categoriesTable).values(testCategory).execute();
+    await db.insert(listingsTable).values([testListing, e2eListing]).execute();
+  });
+
+  describe('addListingStock', () => {
+    it('should add one unit per credential', async () => {
+      const result = await addListingStock({ listing_id: testListing.id, credentials: ['a:1', 'b:2', 'c:3'] }, testSeller.id);
+
+      expect(result.stock).toBe(3);
+      expect(result.has_secure_payload).toBe(true);
+      expect(result.media).toEqual([]);
+
+      const payloads = await db.select().from(listingSecurePayloadsTable).execute();
+      expect(payloads).toHaveLength(3);
+      expect(payloads.every(payload => payload.order_id === null)).toBe(true);
+    });
+
+    it('should top up existing stock', async () => {
+      await setListingPayload({ listing_id: testListing.id, plaintext_credentials: 'a:1' }, testSeller.id);
+      const result = await addListingStock({ listing_id: testListing.id, credentials: ['b:2', 'c:3'] }, testSeller.id);
+
+      expect(result.stock).toBe(3);
+    });
+
+    it('should reject other sellers and end-to-end listings', async () => {
+      await expect(addListingStock({ listing_id: testListing.id, credentials: ['a:1'] }, otherSeller.id))
+        .rejects.toThrow(/not found or access denied/i);
+      await expect(addListingStock({ listing_id: e2eListing.id, credentials: ['a:1'] }, testSeller.id))
+        .rejects.toThrow(/end-to-end handoff/i);
+    });
+
+    it('should limit the batch size', () => {
+      const batch = (size: number) => ({
+        listing_id: testListing.id,
+        credentials: Array.from({ length: size }, (_, index) => `user${index}:secret`)
+      });
+
+      expect(addListingStockInputSchema.safeParse(batch(LISTING_STOCK_MAX_BATCH)).success).toBe(true);
+      expect(addListingStockInputSchema.safeParse(batch(LISTING_STOCK_MAX_BATCH + 1)).success).toBe(false);
+      expect(addListingStockInputSchema.safeParse(batch(0)).success).toBe(false);
+      expect(addListingStockInputSchema.safeParse({ listing_id: testListing.id, credentials: ['  '] }).success).toBe(false);
+    });
+  });
+
+  describe('sales', () => {
+    it('should claim a different unit for each order', async () => {
+      await addListingStock({ listing_id: testListing.id, credentials: ['first:1', 'second:2'] }, testSeller.id);
+
+      const firstOrder = await buy(firstBuyer.id);
+      expect((await getListing(testListing.id)).stock).toBe(1);
+      expect((await getListing(testListing.id)).status).toBe('available');
+
+      const secondOrder = await buy(secondBuyer.id);
+
+      const first = await revealCredentials({ order_id: firstOrder, password: testBuyerPassword }, firstBuyer.id, testMeta);
+      const second = await revealCredentials({ order_id: secondOrder, password: testBuyerPassword }, secondBuyer.id, testMeta);
+      if (first.encryption !== 'server' || second.encryption !== 'server') {
+        throw new Error('Expected server-encrypted credentials');
+      }
+      expect([first.credentials, second.credentials].sort()).toEqual(['first:1', 'second:2']);
+    });
+
+    it('should sell out once the pool is empty', async () => {
+      await addListingStock({ listing_id: testListing.id, credentials: ['only:1'] }, testSeller.id);
+      await buy(firstBuyer.id);
+
+      const listing = await getListing(testListing.id);
+      expect(listing.stock).toBe(0);
+      expect(listing.status).toBe('sold');
+
+      await expect(createPaymentIntent({ listing_id: testListing.id }, secondBuyer.id))
+        .rejects.toThrow(/not available/i);
+    });
+
+    it('should refund a payment when another order took the last unit', async () => {
+      await addListingStock({ listing_id: testListing.id, credentials: ['only:1'] }, testSeller.id);
+      const { order_id: firstOrder } = await createPaymentIntent({ listing_id: testListing.id }, firstBuyer.id);
+      const { order_id: secondOrder } = await createPaymentIntent({ listing_id: testListing.id }, secondBuyer.id);
+
+      await payOrder(firstOrder);
+      await payOrder(secondOrder);
+
+      expect(await orderStatus(firstOrder)).toBe('paid');
+      expect(await orderStatus(secondOrder)).toBe('refunded');
+
+      const transactions = await db.select().from(transactionsTable).where(eq(transactionsTable.order_id, secondOrder)).execute();
+      expect(transactions[0].status).toBe('refunded');
+    });
+
+    it('should claim a single unit when a payment event is delivered twice', async () => {
+      await addListingStock({ listing_id: testListing.id, credentials: ['a:1', 'b:2'] }, testSeller.id);
+      const orderId = await buy(firstBuyer.id);
+
+      await payOrder(orderId);
+      expect(await orderStatus(orderId)).toBe('paid');
+      expect((await getListing(testListing.id)).stock).toBe(1);
+    });
+
+    it('should sell end-to-end listings as a single unit', async () => {
+      await setEncryptionKey({ public_key: randomBytes(32).toString('base64') }, firstBuyer.id);
+      const { order_id } = await createPaymentIntent({ listing_id: e2eListing.id }, firstBuyer.id);
+      await payOrder(order_id);
+
+      const listing = await getListing(e2eListing.id);
+      expect(listing.stock).toBe(0);
+      expect(listing.status).toBe('sold');
+    });
+
+    it('should sell an end-to-end listing to one of two pending orders', async () => {
+      for (const buyer of [firstBuyer, secondBuyer]) {
+        await setEncryptionKey({ public_key: randomBytes(32).toString('base64') }, buyer.id);
+      }
+      const { order_id: firstOrder } = await createPaymentIntent({ listing_id: e2eListing.id }, firstBuyer.id);
+      const { order_id: secondOrder } = await createPaymentIntent({ listing_id: e2eListing.id }, secondBuyer.id);
+
+      await payOrder(firstOrder);
+      await payOrder(secondOrder);
+
+      expect(await orderStatus(firstOrder)).toBe('paid');
+      expect(await orderStatus(secondOrder)).toBe('refunded');
+    });
+  });
+
+  describe('restocking', () => {
+    it('should keep claimed units when the payload is replaced', async () => {
+      await setListingPayload({ listing_id: testListing.id, plaintext_credentials: 'sold:1' }, testSeller.id);
+      const orderId = await buy(firstBuyer.id);
+      await addListingStock({ listing_id: testListing.id, credentials: ['unsold:2'] }, testSeller.id);
+
+      await setListingPayload({ listing_id: testListing.id, plaintext_credentials: 'replacement:3' }, testSeller.id);
+
+      expect((await getListing(testListing.id)).stock).toBe(1);
+      const revealed = await revealCredentials({ order_id: orderId, password: testBuyerPassword }, firstBuyer.id, testMeta);
+      expect(revealed).toEqual({ encryption: 'server', credentials: 'sold:1' });
+    });
+
+    it('should not replace a pool of several units', async () => {
+      await addListingStock({ listing_id: testListing.id, credentials: ['a:1', 'b:2'] }, testSeller.id);
+
+      await expect(setListingPayload({ listing_id: testListing.id, plaintext_credentials: 'c:3' }, testSeller.id))
+        .rejects.toThrow(/add stock instead/i);
+      expect((await getListing(testListing.id)).stock).toBe(2);
+    });
+
+    it('should only put a sold-out listing back on sale with new stock', async () => {
+      await addListingStock({ listing_id: testListing.id, credentials: ['only:1'] }, testSeller.id);
+      await buy(firstBuyer.id);
+
+      await expect(setListingStatus({ listing_id: testListing.id, status: 'available' }, testSeller.id))
+        .rejects.toThrow(/out of stock/i);
+      expect((await getListing(testListing.id)).status).toBe('sold');
+    });
+
+    it('should put a sold-out listing back on sale and notify watchers', async () => {
+      await addListingStock({ listing_id: testListing.id, credentials: ['only:1'] }, testSeller.id);
+      await buy(firstBuyer.id);
+      await db.insert(watchlistTable).values({ user_id: secondBuyer.id, listing_id: testListing.id }).execute();
+
+      const result = await addListingStock({ listing_id: testListing.id, credentials: ['more:2', 'more:3'] }, testSeller.id);
+
+      expect(result.status).toBe('available');
+      expect(result.stock).toBe(2);
+      expect(notifications.sent).toHaveLength(1);
+      expect(notifications.sent[0].email).toBe(secondBuyer.email);
+      expect(notifications.sent[0].kind).toBe('back_in_stock');
+    });
+  });
+
+  describe('backfillListingInventory', () => {
+    const soldListing = {
+      id: '44444444-4444-4444-4444-444444444443',
+      seller_id: testSeller.id,
+      category_id: testCategory.id,
+      title: 'Sold account',
+      description: 'Account for sale',
+      price_cents: 1000,
+      status: 'sold' as const,
+      has_secure_payload: true
+    };
+
+    // Listings from before stock was tracked: one payload each and a stock of zero
+    beforeEach(async () => {
+      await db.insert(listingsTable).values(soldListing).execute();
+      for (const [listingId, credentials] of [[testListing.id, 'unsold:1'], [soldListing.id, 'sold:2']]) {
+        await db.insert(listingSecurePayloadsTable)
+          .values({ listing_id: listingId, ...await encryptPayload(credentials, listingId) })
+          .execute();
+      }
+      await db.insert(ordersTable).values({
+        id: '55555555-5555-5555-5555-555555555551',
+        buyer_id: firstBuyer.id,
+        listing_id: soldListing.id,
+        total_cents: soldListing.price_cents,
+        currency: 'USD',
+        status: 'delivered'
+      }).execute();
+    });
+
+    it('should hand sold payloads to their orders and recount stock', async () => {
+      await backfillListingInventory();
+      await backfillListingInventory();
+
+      expect((await getListing(testListing.id)).stock).toBe(1);
+      expect(await getListing(soldListing.id)).toMatchObject({ stock: 0, status: 'sold' });
+
+      const revealed = await revealCredentials(
+        { order_id: '55555555-5555-5555-5555-555555555551', password: testBuyerPassword },
+        firstBuyer.id,
+        testMeta
+      );
+      expect(revealed).toEqual({ encryption: 'server', credentials: 'sold:2' });
+
+      const restocked = await addListingStock({ listing_id: soldListing.id, credentials: ['more:3'] }, testSeller.id);
+      expect(restocked).toMatchObject({ stock: 1, status: 'available' });
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'bun:test';
+import { createHmac } from 'crypto';
+import { createJWT, verifyJWT, parseDuration, loadJWTKeyring, type JWTKeyring } from '../lib/jwt';
+
+const keyring: JWTKeyring = {
+  current: { kid: '2026-10', secret: 'current_secret' },
+  previous: [{ kid: '2026-04', secret: 'previous_secret' }]
+};
+
+const decodeHeader = (token: string) =>
+  JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString());
+
+describe('jwt', () => {
+  describe('parseDuration', () => {
+    it('should parse duration strings', () => {
+      expect(parseDuration('90s')).toEqual(90);
+      expect(parseDuration('15m')).toEqual(900);
+      expect(parseDuration('24h')).toEqual(86400);
+      expect(parseDuration('7d')).toEqual(604800);
+      expect(parseDuration('120')).toEqual(120);
+      expect(parseDuration(45)).toEqual(45);
+    });
+
+    it('should reject malformed durations', () => {
+      expect(() => parseDuration('soon')).toThrow(/invalid duration/i);
+      expect(() => parseDuration('-5m')).toThrow(/invalid duration/i);
+    });
+  });
+
+  describe('createJWT', () => {
+    it('should sign with HMAC-SHA256 over header and payload', () => {
+      const token = createJWT({ userId: 'abc' }, 'secret', '1h');
+      const [header, payload, signature] = token.split('.');
+
+      const expected = createHmac('sha256', 'secret')
+        .update(`${header}.${payload}`)
+        .digest('base64url');
+      expect(signature).toEqual(expected);
+    });
+
+    it('should honour the requested lifetime', () => {
+      const decoded = verifyJWT(createJWT({ userId: 'abc' }, 'secret', '15m'), 'secret');
+      expect(Number(decoded['exp']) - Number(decoded['iat'])).toEqual(900);
+    });
+
+    it('should add the current kid when signing with a keyring', () => {
+      const token = createJWT({ userId: 'abc' }, keyring, '1h');
+      expect(decodeHeader(token)).toEqual({ alg: 'HS256', typ: 'JWT', kid: '2026-10' });
+    });
+  });
+
+  describe('verifyJWT', () => {
+    it('should verify a token issued by another JWT library', () => {
+      // Reference token from jwt.io signed with 'your-256-bit-secret'
+      const token = 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9' +
+        '.eyJzdWIiOiIxMjM0NTY3ODkwIiwibmFtZSI6IkpvaG4gRG9lIiwiaWF0IjoxNTE2MjM5MDIyfQ' +
+        '.SflKxwRJSMeKKF2QT4fwpMeJf36POk6yJV_adQssw5c';
+
+      const decoded = verifyJWT(token, 'your-256-bit-secret');
+      expect(decoded['sub']).toEqual('1234567890');
+      expect(decoded['name']).toEqual('John Doe');
+    });
+
+    it('should reject a modified signature', () => {
+      const token = createJWT({ userId: 'abc' }, 'secret', '1h');
+      const tampered = token.slice(0, -2) + (token.endsWith('AA') ? 'BB' : 'AA');
+
+      expect(() => verifyJWT(tampered, 'secret')).toThrow(/signature/i);
+    });
+
+    it('should reject the none algorithm', () => {
+      const header = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+      const payload = Buffer.from(JSON.stringify({ userId: 'abc' })).toString('base64url');
+
+      expect(() => verifyJWT(`${header}.${payload}.sig`, 'secret')).toThrow(/algorithm/i);
+    });
+
+    it('should reject payloads that are not JSON objects', () => {
+      const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+      for (const claims of [['abc'], 'abc', null]) {
+        const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+        const signature = createHmac('sha256', 'secret').update(`${header}.${payload}`).digest('base64url');
+
+        expect(() => verifyJWT(`${header}.${payload}.${signature}`, 'secret')).toThrow(/invalid token format/i);
+      }
+    });
+
+    it('should reject expired tokens', () => {
+      const token = createJWT({ userId: 'abc' }, 'secret', 0);
+      expect(() => verifyJWT(token, 'secret')).toThrow(/expired/i);
+    });
+
+    it('should reject tokens before nbf', () => {
+      const token = createJWT({ userId: 'abc' }, 'secret', '1h', { notBefore: '10m' });
+      expect(() => verifyJWT(token, 'secret')).toThrow(/not yet valid/i);
+      expect(verifyJWT(token, 'secret', { clockToleranceSeconds: 900 })['userId']).toEqual('abc');
+    });
+
+    it('should check issuer and audience when requested', () => {
+      const token = createJWT({ userId: 'abc' }, 'secret', '1h', {
+        issuer: 'accsmarket',
+        audience: ['accsmarket-api', 'accsmarket-admin']
+      });
+
+      expect(verifyJWT(token, 'secret', { issuer: 'accsmarket', audience: 'accsmarket-api' })['userId'])
+        .toEqual('abc');
+      expect(() => verifyJWT(token, 'secret', { issuer: 'someone-else' })).toThrow(/issuer/i);
+      expect(() => verifyJWT(token, 'secret', { audience: 'other-api' })).toThrow(/audience/i);
+    });
+
+    it('should accept tokens signed with a previous key in the ring', () => {
+      const oldRing: JWTKeyring = { current: keyring.previous[0], previous: [] };
+      const token = createJWT({ userId: 'abc' }, oldRing, '1h');
+
+      expect(verifyJWT(token, keyring)['userId']).toEqual('abc');
+    });
+
+    it('should reject tokens signed with an unknown kid', () => {
+      const retiredRing: JWTKeyring = { current: { kid: '2025-01', secret: 'retired' }, previous: [] };
+      const token = createJWT({ userId: 'abc' }, retiredRing, '1h');
+
+      expect(() => verifyJWT(token, keyring)).toThrow(/unknown token key/i);
+    });
+
+    it('should try every key in the ring for tokens without a kid', () => {
+      const token = createJWT({ userId: 'abc' }, 'previous_secret', '1h');
+      expect(verifyJWT(token, keyring)['userId']).toEqual('abc');
+    });
+  });
+
+  describe('loadJWTKeyring', () => {
+    it('should read the current and previous keys from the environment', () => {
+      const ring = loadJWTKeyring({
+        JWT_SECRET: 'new_secret',
+        JWT_KEY_ID: 'k2',
+        JWT_PREVIOUS_KEYS: 'k1:old_secret, k0:older:secret'
+      });
+
+      expect(ring.current).toEqual({ kid: 'k2', secret: 'new_secret' });
+      expect(ring.previous).toEqual([
+        { kid: 'k1', secret: 'old_secret' },
+        { kid: 'k0', secret: 'older:secret' }
+      ]);
+    });
+
+    it('should reject malformed previous keys', () => {
+      expect(() => loadJWTKeyring({ JWT_PREVIOUS_KEYS: 'missing-separator' }))
+        .toThrow(/kid:secret/i);
+    });
+  });
+});
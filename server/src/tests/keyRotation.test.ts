@@ -0,0 +1,299 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { randomBytes } from 'crypto';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  categoriesTable,
+  listingsTable,
+  listingSecurePayloadsTable,
+  keyRotationJobsTable
+} from '../db/schema';
+import {
+  listMasterKeyVersions,
+  startKeyRotation,
+  resumeKeyRotation,
+  listKeyRotationJobs,
+  getKeyRotationJob,
+  runKeyRotationJob,
+  drainKeyRotationJobs
+} from '../handlers/keyRotation';
+import { encryptPayload, decryptPayload } from '../lib/payloadEncryption';
+import { LocalKeyProvider, getKeyProvider, setKeyProvider } from '../lib/keyProvider';
+import { asc, eq } from 'drizzle-orm';
+
+const testAdmin = {
+  id: '11111111-1111-1111-1111-111111111111',
+  email: 'admin@test.com',
+  password_hash: 'hashed_password',
+  role: 'admin' as const
+};
+
+const testSeller = {
+  id: '22222222-2222-2222-2222-222222222222',
+  email: 'seller@test.com',
+  password_hash: 'hashed_password',
+  role: 'seller' as const
+};
+
+const testCategory = {
+  id: '33333333-3333-3333-3333-333333333333',
+  name: 'Games',
+  slug: 'games'
+};
+
+const listingIds = [
+  '44444444-4444-4444-4444-444444444441',
+  '44444444-4444-4444-4444-444444444442',
+  '44444444-4444-4444-4444-444444444443'
+];
+
+const keyOne = randomBytes(32);
+const keyTwo = randomBytes(32);
+
+const storedPayloads = () => db.select()
+  .from(listingSecurePayloadsTable)
+  .orderBy(asc(listingSecurePayloadsTable.id))
+  .execute();
+
+const decryptStored = (payload: typeof listingSecurePayloadsTable.$inferSelect) => decryptPayload({
+  cipher_text: payload.cipher_text,
+  nonce: payload.nonce,
+  auth_tag: payload.auth_tag!,
+  wrapped_key: payload.wrapped_key!,
+  key_version: payload.key_version!
+}, payload.listing_id);
+
+let releaseRewraps = () => {};
+
+// Holds re-wraps until released, so a job that was started is still running
+const holdRewraps = () => {
+  const gate = new Promise<void>(resolve => {
+    releaseRewraps = resolve;
+  });
+  const provider = getKeyProvider();
+  setKeyProvider({
+    currentKeyVersion: () => provider.currentKeyVersion(),
+    wrapKey: dataKey => provider.wrapKey(dataKey),
+    unwrapKey: wrapped => provider.unwrapKey(wrapped),
+    rewrapKey: async wrapped => {
+      await gate;
+      return provider.rewrapKey(wrapped);
+    }
+  });
+};
+
+describe('master key rotation', () => {
+  const original = getKeyProvider();
+
+  beforeEach(createDB);
+
+  beforeEach(async () => {
+    setKeyProvider(new LocalKeyProvider(new Map([[1, keyOne]])));
+
+    await db.insert(usersTable).values([testAdmin, testSeller]).execute();
+    await db.insert(categoriesTable).values(testCategory).execute();
+    for (const [index, id] of listingIds.entries()) {
+      await db.insert(listingsTable).values({
+        id,
+        seller_id: testSeller.id,
+        category_id: testCategory.id,
+        title: `Account ${index}`,
+        description: 'Account for sale',
+        price_cents: 1000,
+        has_secure_payload: true
+      }).execute();
+      await db.insert(listingSecurePayloadsTable).values({
+        listing_id: id,
+        ...await encryptPayload(`user${index}:secret${index}`, id)
+      }).execute();
+    }
+
+    // The new master key is added next to the old one
+    setKeyProvider(new LocalKeyProvider(new Map([[1, keyOne], [2, keyTwo]])));
+  });
+
+  // Background runs must finish before their tables are dropped
+  afterEach(async () => {
+    releaseRewraps();
+    await drainKeyRotationJobs();
+    setKeyProvider(original);
+    await resetDB();
+  });
+
+  it('should keep decrypting payloads that are not re-wrapped yet', async () => {
+    const payloads = await storedPayloads();
+
+    expect(payloads.every(payload => payload.key_version === 1)).toBe(true);
+    expect(await decryptStored(payloads[0])).toMatch(/^user\d:secret\d$/);
+  });
+
+  it('should re-wrap every payload under the new version and retire the old one', async () => {
+    const job = await startKeyRotation(testAdmin.id);
+    expect(job.target_version).toBe(2);
+    expect(job.total_rows).toBe(3);
+
+    await runKeyRotationJob(job.id);
+
+    const detail = await getKeyRotationJob({ job_id: job.id }, testAdmin.id);
+    expect(detail.status).toBe('completed');
+    expect(detail.processed_rows).toBe(3);
+    expect(detail.failed_rows).toBe(0);
+    expect(detail.completed_at).toBeInstanceOf(Date);
+
+    // Only the wrapped keys moved, so the old master key is no longer needed
+    setKeyProvider(new LocalKeyProvider(new Map([[2, keyTwo]])));
+    const payloads = await storedPayloads();
+    expect(payloads.every(payload => payload.key_version === 2)).toBe(true);
+    expect(await Promise.all(payloads.map(decryptStored))).toEqual(
+      expect.arrayContaining(['user0:secret0', 'user1:secret1', 'user2:secret2'])
+    );
+
+    const versions = await listMasterKeyVersions(testAdmin.id);
+    expect(versions.map(v => [v.version, v.is_current, v.payload_count, v.retired_at !== null]))
+      .toEqual([[2, true, 3, false], [1, false, 0, true]]);
+  });
+
+  it('should record rows that cannot be re-wrapped and carry on', async () => {
+    const [broken] = await storedPayloads();
+    await db.update(listingSecurePayloadsTable)
+      .set({ wrapped_key: randomBytes(60).toString('base64') })
+      .where(eq(listingSecurePayloadsTable.id, broken.id))
+      .execute();
+
+    const job = await startKeyRotation(testAdmin.id);
+    await runKeyRotationJob(job.id);
+
+    const detail = await getKeyRotationJob({ job_id: job.id }, testAdmin.id);
+    expect(detail.status).toBe('completed');
+    expect(detail.processed_rows).toBe(3);
+    expect(detail.failed_rows).toBe(1);
+    expect(detail.failures.map(failure => failure.payload_id)).toEqual([broken.id]);
+
+    const versions = await listMasterKeyVersions(testAdmin.id);
+    expect(versions.find(v => v.version === 1)).toMatchObject({ payload_count: 1, retired_at: null });
+  });
+
+  it('should retry rows that could not be re-wrapped when the job resumes', async () => {
+    const [broken] = await storedPayloads();
+    await db.update(listingSecurePayloadsTable)
+      .set({ wrapped_key: randomBytes(60).toString('base64') })
+      .where(eq(listingSecurePayloadsTable.id, broken.id))
+      .execute();
+
+    const job = await startKeyRotation(testAdmin.id);
+    await runKeyRotationJob(job.id);
+
+    // The key provider outage is over
+    await db.update(listingSecurePayloadsTable)
+      .set({ wrapped_key: broken.wrapped_key })
+      .where(eq(listingSecurePayloadsTable.id, broken.id))
+      .execute();
+
+    await resumeKeyRotation({ job_id: job.id }, testAdmin.id);
+    await runKeyRotationJob(job.id);
+
+    const detail = await getKeyRotationJob({ job_id: job.id }, testAdmin.id);
+    expect(detail.status).toBe('completed');
+    expect(detail.failed_rows).toBe(0);
+    expect(detail.failures).toEqual([]);
+
+    const payloads = await storedPayloads();
+    expect(payloads.every(payload => payload.key_version === 2)).toBe(true);
+    expect(await decryptStored(payloads.find(payload => payload.id === broken.id)!)).toBe(await decryptStored(broken));
+
+    const versions = await listMasterKeyVersions(testAdmin.id);
+    expect(versions.find(v => v.version === 1)?.retired_at).not.toBeNull();
+  });
+
+  it('should resume a stopped job after the last re-wrapped row', async () => {
+    const payloads = await storedPayloads();
+    const rewrapped = await getKeyProvider().rewrapKey({
+      wrapped_key: payloads[0].wrapped_key!,
+      key_version: payloads[0].key_version!
+    });
+    await db.update(listingSecurePayloadsTable)
+      .set(rewrapped)
+      .where(eq(listingSecurePayloadsTable.id, payloads[0].id))
+      .execute();
+
+    await listMasterKeyVersions(testAdmin.id);
+    const [stopped] = await db.insert(keyRotationJobsTable)
+      .values({
+        target_version: 2,
+        status: 'failed',
+        total_rows: 3,
+        processed_rows: 1,
+        last_payload_id: payloads[0].id,
+        error: 'Connection terminated',
+        started_by: testAdmin.id
+      })
+      .returning()
+      .execute();
+
+    const resumed = await resumeKeyRotation({ job_id: stopped.id }, testAdmin.id);
+    expect(resumed.status).toBe('running');
+    expect(resumed.error).toBeNull();
+
+    await runKeyRotationJob(stopped.id);
+
+    const detail = await getKeyRotationJob({ job_id: stopped.id }, testAdmin.id);
+    expect(detail.status).toBe('completed');
+    expect(detail.processed_rows).toBe(3);
+    expect((await storedPayloads()).every(payload => payload.key_version === 2)).toBe(true);
+
+    await expect(resumeKeyRotation({ job_id: stopped.id }, testAdmin.id))
+      .rejects.toThrow(/already completed/i);
+  });
+
+  it('should allow one running job at a time', async () => {
+    holdRewraps();
+    const job = await startKeyRotation(testAdmin.id);
+
+    await expect(startKeyRotation(testAdmin.id)).rejects.toThrow(/already running/i);
+
+    releaseRewraps();
+    await runKeyRotationJob(job.id);
+    const jobs = await listKeyRotationJobs(testAdmin.id);
+    expect(jobs.map(j => [j.id, j.status])).toEqual([[job.id, 'completed']]);
+  });
+
+  it('should not resume a job while another one is running', async () => {
+    await listMasterKeyVersions(testAdmin.id);
+    const [stopped] = await db.insert(keyRotationJobsTable)
+      .values({ target_version: 2, status: 'failed', total_rows: 3, started_by: testAdmin.id })
+      .returning()
+      .execute();
+
+    holdRewraps();
+    await startKeyRotation(testAdmin.id);
+    await expect(resumeKeyRotation({ job_id: stopped.id }, testAdmin.id)).rejects.toThrow(/already running/i);
+  });
+
+  it('should start only one of two concurrent jobs', async () => {
+    holdRewraps();
+    const results = await Promise.allSettled([startKeyRotation(testAdmin.id), startKeyRotation(testAdmin.id)]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find(result => result.status === 'rejected')?.reason.message).toMatch(/already running/i);
+  });
+
+  it('should skip payloads stored before envelope encryption', async () => {
+    await db.update(listingSecurePayloadsTable)
+      .set({ auth_tag: null, wrapped_key: null, key_version: null })
+      .where(eq(listingSecurePayloadsTable.listing_id, listingIds[0]))
+      .execute();
+
+    const job = await startKeyRotation(testAdmin.id);
+    await runKeyRotationJob(job.id);
+
+    const detail = await getKeyRotationJob({ job_id: job.id }, testAdmin.id);
+    expect(detail.total_rows).toBe(2);
+    expect(detail.failed_rows).toBe(0);
+  });
+
+  it('should require an admin', async () => {
+    await expect(startKeyRotation(testSeller.id)).rejects.toThrow(/admin access required/i);
+    await expect(listMasterKeyVersions(testSeller.id)).rejects.toThrow(/admin access required/i);
+  });
+});
@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, profilesTable, kycDocumentsTable } from '../db/schema';
+import {
+  submitKycDocuments,
+  getMyVerification,
+  listKycSubmissions,
+  getKycDocument,
+  reviewKycSubmission
+} from '../handlers/kyc';
+import { MemoryBlobStore, setBlobStore } from '../lib/blobStorage';
+import { reviewKycSubmissionInputSchema, type KycDocumentUpload } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const testAdmin = {
+  id: '11111111-1111-1111-1111-111111111111',
+  email: 'admin@test.com',
+  password_hash: 'hashed_password',
+  role: 'admin' as const
+};
+
+const testSeller = {
+  id: '22222222-2222-2222-2222-222222222222',
+  email: 'seller@test.com',
+  password_hash: 'hashed_password',
+  role: 'seller' as const
+};
+
+const testBuyer = {
+  id: '33333333-3333-3333-3333-333333333333',
+  email: 'buyer@test.com',
+  password_hash: 'hashed_password',
+  role: 'buyer' as const
+};
+
+const pngBytes = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from('image data')]);
+
+const passportScan: KycDocumentUpload = {
+  document_type: 'passport',
+  file_name: 'passport.png',
+  content_type: 'image/png',
+  data_base64: pngBytes.toString('base64')
+};
+
+describe('kyc handlers', () => {
+  let blobs: MemoryBlobStore;
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    blobs = new MemoryBlobStore();
+    setBlobStore(blobs);
+    await db.insert(usersTable).values([testAdmin, testSeller, testBuyer]).execute();
+    await db.insert(profilesTable).values({ user_id: testSeller.id }).execute();
+  });
+
+  const getStatus = async () => {
+    const profiles = await db.select()
+      .from(profilesTable)
+      .where(eq(profilesTable.user_id, testSeller.id))
+      .execute();
+    return profiles[0].verification_status;
+  };
+
+  describe('submitKycDocuments', () => {
+    it('should store the files and mark the seller pending', async () => {
+      const submission = await submitKycDocuments({ documents: [passportScan] }, testSeller.id);
+
+      expect(submission.status).toEqual('pending');
+      expect(submission.documents).toHaveLength(1);
+      expect(submission.documents[0].size_bytes).toEqual(pngBytes.length);
+      expect(await getStatus()).toEqual('pending');
+
+      const rows = await db.select().from(kycDocumentsTable).execute();
+      expect(await blobs.get(rows[0].storage_key)).toEqual(pngBytes);
+    });
+
+    it('should record the status change', async () => {
+      await submitKycDocuments({ documents: [passportScan] }, testSeller.id);
+
+      const result = await getMyVerification(testSeller.id);
+      expect(result.status).toEqual('pending');
+      expect(result.history).toHaveLength(1);
+      expect(result.history[0].from_status).toEqual('none');
+      expect(result.history[0].to_status).toEqual('pending');
+    });
+
+    it('should reject a file whose contents do not match its type', async () => {
+      const renamed = { ...passportScan, content_type: 'application/pdf' as const };
+
+      await expect(submitKycDocuments({ documents: [renamed] }, testSeller.id))
+        .rejects.toThrow(/does not look like application\/pdf/i);
+      expect(await getStatus()).toEqual('none');
+    });
+
+    it('should not store anything when one file is invalid', async () => {
+      const broken = { ...passportScan, file_name: 'broken.png', data_base64: 'not base64!' };
+
+      await expect(submitKycDocuments({ documents: [passportScan, broken] }, testSeller.id))
+        .rejects.toThrow(/not valid base64/i);
+
+      const rows = await db.select().from(kycDocumentsTable).execute();
+      expect(rows).toHaveLength(0);
+    });
+
+    it('should allow only one submission under review', async () => {
+      await submitKycDocuments({ documents: [passportScan] }, testSeller.id);
+
+      await expect(submitKycDocuments({ documents: [passportScan] }, testSeller.id))
+        .rejects.toThrow(/already under review/i);
+    });
+
+    it('should only accept documents from sellers', async () => {
+      await expect(submitKycDocuments({ documents: [passportScan] }, testBuyer.id))
+        .rejects.toThrow(/only sellers/i);
+    });
+  });
+
+  describe('review', () => {
+    it('should list pending submissions for admins', async () => {
+      await submitKycDocuments({ documents: [passportScan] }, testSeller.id);
+
+      const result = await listKycSubmissions({ status: 'pending', page: 1 }, testAdmin.id);
+
+      expect(result.total).toEqual(1);
+      expect(result.items[0].user_id).toEqual(testSeller.id);
+      expect(result.items[0].documents[0].file_name).toEqual('passport.png');
+    });
+
+    it('should let admins download a document', async () => {
+      const submission = await submitKycDocuments({ documents: [passportScan] }, testSeller.id);
+
+      const document = await getKycDocument(submission.documents[0].id, testAdmin.id);
+
+      expect(document.content_type).toEqual('image/png');
+      expect(Buffer.from(document.data_base64, 'base64')).toEqual(pngBytes);
+    });
+
+    it('should verify the seller on approval', async () => {
+      const submission = await submitKycDocuments({ documents: [passportScan] }, testSeller.id);
+
+      const result = await reviewKycSubmission(
+        { submission_id: submission.id, decision: 'approve' },
+        testAdmin.id
+      );
+
+      expect(result.status).toEqual('approved');
+      expect(result.reviewed_by).toEqual(testAdmin.id);
+      expect(await getStatus()).toEqual('verified');
+    });
+
+    it('should reset the seller with a reason on rejection', async () => {
+      const submission = await submitKycDocuments({ documents: [passportScan] }, testSeller.id);
+
+      await reviewKycSubmission(
+        { submission_id: submission.id, decision: 'reject', reason: 'Photo is blurry' },
+        testAdmin.id
+      );
+
+      expect(await getStatus()).toEqual('none');
+
+      const verification = await getMyVerification(testSeller.id);
+      expect(verification.submission!.review_reason).toEqual('Photo is blurry');
+      expect(verification.history[0].to_status).toEqual('none');
+      expect(verification.history[0].reason).toEqual('Photo is blurry');
+      expect(verification.history[0].changed_by).toEqual(testAdmin.id);
+
+      // The seller can try again
+      await submitKycDocuments({ documents: [passportScan] }, testSeller.id);
+    });
+
+    it('should require a reason to reject', () => {
+      const result = reviewKycSubmissionInputSchema.safeParse({
+        submission_id: '44444444-4444-4444-4444-444444444444',
+        decision: 'reject'
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should not review a submission twice', async () => {
+      const submission = await submitKycDocuments({ documents: [passportScan] }, testSeller.id);
+      await reviewKycSubmission({ submission_id: submission.id, decision: 'approve' }, testAdmin.id);
+
+      await expect(reviewKycSubmission(
+        { submission_id: submission.id, decision: 'reject', reason: 'Changed my mind' },
+        testAdmin.id
+      )).rejects.toThrow(/already reviewed/i);
+      expect(await getStatus()).toEqual('verified');
+    });
+
+    it('should reject non-admin reviewers', async () => {
+      const submission = await submitKycDocuments({ documents: [passportScan] }, testSeller.id);
+
+      await expect(reviewKycSubmission({ submission_id: submission.id, decision: 'approve' }, testSeller.id))
+        .rejects.toThrow(/unauthorized.*admin/i);
+      await expect(getKycDocument(submission.documents[0].id, testSeller.id))
+        .rejects.toThrow(/unauthorized.*admin/i);
+    });
+  });
+});
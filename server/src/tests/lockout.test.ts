@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, loginAttemptsTable } from '../db/schema';
+import { login } from '../handlers/auth';
+import { hashPassword } from '../lib/passwords';
+import {
+  lockedUntil,
+  MemoryLockoutStore,
+  PostgresLockoutStore,
+  setLockoutStore,
+  ACCOUNT_LOCKOUT_POLICY,
+  IP_LOCKOUT_POLICY,
+  type LockoutStore
+} from '../lib/lockout';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  id: '11111111-1111-1111-1111-111111111111',
+  email: 'buyer@test.com',
+  password_hash: hashPassword('password123'),
+  role: 'buyer' as const
+};
+
+const meta = { ip_address: '203.0.113.7', user_agent: 'Firefox' };
+const wrongPassword = { email: testUser.email, password: 'wrong_password' };
+const rightPassword = { email: testUser.email, password: 'password123' };
+
+const failTimes = async (times: number, input = wrongPassword, requestMeta = meta) => {
+  for (let i = 0; i < times; i++) {
+    await expect(login(input, requestMeta)).rejects.toThrow(/invalid email or password/i);
+  }
+};
+
+describe('lockedUntil', () => {
+  const now = new Date('2026-01-01T12:00:00Z');
+
+  it('should not lock below the threshold', () => {
+    const state = { failures: ACCOUNT_LOCKOUT_POLICY.threshold - 1, last_failure_at: now };
+
+    expect(lockedUntil(state, ACCOUNT_LOCKOUT_POLICY, now)).toBeNull();
+  });
+
+  it('should double the lock for each failure past the threshold', () => {
+    const first = lockedUntil(
+      { failures: ACCOUNT_LOCKOUT_POLICY.threshold, last_failure_at: now },
+      ACCOUNT_LOCKOUT_POLICY,
+      now
+    );
+    const third = lockedUntil(
+      { failures: ACCOUNT_LOCKOUT_POLICY.threshold + 2, last_failure_at: now },
+      ACCOUNT_LOCKOUT_POLICY,
+      now
+    );
+
+    expect(first!.getTime() - now.getTime()).toEqual(ACCOUNT_LOCKOUT_POLICY.baseSeconds * 1000);
+    expect(third!.getTime() - now.getTime()).toEqual(ACCOUNT_LOCKOUT_POLICY.baseSeconds * 4000);
+  });
+
+  it('should cap the lock duration', () => {
+    const until = lockedUntil({ failures: 100, last_failure_at: now }, ACCOUNT_LOCKOUT_POLICY, now);
+
+    expect(until!.getTime() - now.getTime()).toEqual(ACCOUNT_LOCKOUT_POLICY.maxSeconds * 1000);
+  });
+
+  it('should release the lock once it has run out', () => {
+    const later = new Date(now.getTime() + ACCOUNT_LOCKOUT_POLICY.baseSeconds * 1000 + 1);
+    const state = { failures: ACCOUNT_LOCKOUT_POLICY.threshold, last_failure_at: now };
+
+    expect(lockedUntil(state, ACCOUNT_LOCKOUT_POLICY, later)).toBeNull();
+  });
+});
+
+const storeCases: Array<[string, () => LockoutStore]> = [
+  ['MemoryLockoutStore', () => new MemoryLockoutStore()],
+  ['PostgresLockoutStore', () => new PostgresLockoutStore()]
+];
+
+for (const [name, createStore] of storeCases) {
+  describe(name, () => {
+    let store: LockoutStore;
+
+    beforeEach(createDB);
+    afterEach(resetDB);
+
+    beforeEach(() => {
+      store = createStore();
+    });
+
+    it('should count failures per key', async () => {
+      const now = new Date();
+      await store.recordFailure('account:a', now, 3600);
+      const state = await store.recordFailure('account:a', now, 3600);
+      await store.recordFailure('account:b', now, 3600);
+
+      expect(state.failures).toEqual(2);
+      expect((await store.get('account:a'))!.failures).toEqual(2);
+      expect((await store.get('account:b'))!.failures).toEqual(1);
+    });
+
+    it('should restart the count after a quiet window', async () => {
+      const start = new Date(Date.now() - 2 * 3600 * 1000);
+      await store.recordFailure('account:a', start, 3600);
+      await store.recordFailure('account:a', start, 3600);
+
+      const state = await store.recordFailure('account:a', new Date(), 3600);
+
+      expect(state.failures).toEqual(1);
+    });
+
+    it('should forget a key on reset', async () => {
+      await store.recordFailure('account:a', new Date(), 3600);
+      await store.reset('account:a');
+
+      expect(await store.get('account:a')).toBeNull();
+    });
+  });
+}
+
+describe('login lockout', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    setLockoutStore(new MemoryLockoutStore());
+    await db.insert(usersTable).values(testUser).execute();
+  });
+
+  it('should lock the account after repeated failures', async () => {
+    await failTimes(ACCOUNT_LOCKOUT_POLICY.threshold);
+
+    // Even the right password is refused while locked
+    await expect(login(rightPassword, meta)).rejects.toThrow(/too many failed sign-in attempts/i);
+  });
+
+  it('should treat email case variants as the same account', async () => {
+    await failTimes(ACCOUNT_LOCKOUT_POLICY.threshold, { ...wrongPassword, email: 'BUYER@test.com' });
+
+    await expect(login(rightPassword, meta)).rejects.toThrow(/too many failed/i);
+  });
+
+  it('should clear the account counter after a successful login', async () => {
+    await failTimes(ACCOUNT_LOCKOUT_POLICY.threshold - 1);
+    await login(rightPassword, meta);
+    await failTimes(ACCOUNT_LOCKOUT_POLICY.threshold - 1);
+
+    const result = await login(rightPassword, meta);
+    expect(result.two_factor_required).toBe(false);
+  });
+
+  it('should lock an address that guesses across many accounts', async () => {
+    for (let i = 0; i < IP_LOCKOUT_POLICY.threshold; i++) {
+      await expect(login({ email: `user${i}@test.com`, password: 'guess' }, meta))
+        .rejects.toThrow(/invalid email or password/i);
+    }
+
+    await expect(login(rightPassword, meta)).rejects.toThrow(/too many failed/i);
+    // The account itself is fine from another address
+    await login(rightPassword, { ip_address: '198.51.100.1', user_agent: null });
+  });
+
+  it('should audit each attempt', async () => {
+    await failTimes(1);
+    await login(rightPassword, meta);
+    await failTimes(1, { email: 'nobody@test.com', password: 'guess' });
+
+    const attempts = await db.select()
+      .from(loginAttemptsTable)
+      .orderBy(loginAttemptsTable.created_at)
+      .execute();
+
+    expect(attempts.map(a => a.result)).toEqual(['invalid_credentials', 'success', 'invalid_credentials']);
+    expect(attempts[0].user_id).toEqual(testUser.id);
+    expect(attempts[0].ip_address).toEqual(meta.ip_address);
+    expect(attempts[0].user_agent).toEqual(meta.user_agent);
+    expect(attempts[2].user_id).toBeNull();
+  });
+
+  it('should audit refused attempts while locked', async () => {
+    await failTimes(ACCOUNT_LOCKOUT_POLICY.threshold);
+    await expect(login(rightPassword, meta)).rejects.toThrow(/too many failed/i);
+
+    const locked = await db.select()
+      .from(loginAttemptsTable)
+      .where(eq(loginAttemptsTable.result, 'locked'))
+      .execute();
+
+    expect(locked).toHaveLength(1);
+  });
+});
@@ -0,0 +1,239 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import sharp from 'sharp';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, categoriesTable, listingsTable, listingMediaTable } from '../db/schema';
+import {
+  uploadListingMedia,
+  reorderListingMedia,
+  deleteListingMedia,
+  getListingMediaFile
+} from '../handlers/media';
+import { getListing } from '../handlers/catalog';
+import { MemoryBlobStore, setBlobStore } from '../lib/blobStorage';
+import { LISTING_MEDIA_MAX_PER_LISTING, type UploadListingMediaInput } from '../schema';
+
+const testSeller = {
+  id: '11111111-1111-1111-1111-111111111111',
+  email: 'seller@test.com',
+  password_hash: 'hashed_password',
+  role: 'seller' as const
+};
+
+const otherSeller = {
+  id: '22222222-2222-2222-2222-222222222222',
+  email: 'other@test.com',
+  password_hash: 'hashed_password',
+  role: 'seller' as const
+};
+
+const testCategory = {
+  id: '33333333-3333-3333-3333-333333333333',
+  name: 'Games',
+  slug: 'games'
+};
+
+const testListing = {
+  id: '44444444-4444-4444-4444-444444444444',
+  seller_id: testSeller.id,
+  category_id: testCategory.id,
+  title: 'Game account',
+  description: 'Account for sale',
+  price_cents: 1500
+};
+
+// A 2000x1000 JPEG carrying EXIF data, including an orientation that turns it upright as 1000x2000
+const photoWithExif = () => sharp({
+  create: { width: 2000, height: 1000, channels: 3, background: { r: 200, g: 40, b: 40 } }
+})
+  .jpeg()
+  .withExif({ IFD0: { Artist: 'Jane Seller', Copyright: 'Jane Seller' } })
+  // sharp writes the orientation tag itself, so it cannot go through withExif
+  .withMetadata({ orientation: 6 })
+  .toBuffer();
+
+const smallPng = () => sharp({
+  create: { width: 64, height: 48, channels: 4, background: { r: 0, g: 0, b: 255, alpha: 1 } }
+})
+  .png()
+  .toBuffer();
+
+const upload = (data: Buffer, content_type: UploadListingMediaInput['content_type'] = 'image/jpeg'): UploadListingMediaInput => ({
+  listing_id: testListing.id,
+  content_type,
+  data_base64: data.toString('base64')
+});
+
+// Media URLs end with the blob key, after the configured base path
+const keyOf = (url: string) => url.slice(url.indexOf('listing-media/'));
+
+describe('listing media handlers', () => {
+  let blobs: MemoryBlobStore;
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    blobs = new MemoryBlobStore();
+    setBlobStore(blobs);
+    await db.insert(usersTable).values([testSeller, otherSeller]).execute();
+    await db.insert(categoriesTable).values(testCategory).execute();
+    await db.insert(listingsTable).values(testListing).execute();
+  });
+
+  describe('uploadListingMedia', () => {
+    it('should store a resized WebP image and thumbnail without EXIF data', async () => {
+      const media = await uploadListingMedia(upload(await photoWithExif()), testSeller.id);
+
+      // Orientation is applied before resizing into the 1600px box
+      expect(media.width).toBe(800);
+      expect(media.height).toBe(1600);
+      expect(media.position).toBe(0);
+
+      const image = await blobs.get(keyOf(media.url));
+      const thumbnail = await blobs.get(keyOf(media.thumbnail_url));
+      expect(image).not.toBeNull();
+      expect(thumbnail).not.toBeNull();
+
+      const imageMetadata = await sharp(image!).metadata();
+      expect(imageMetadata.format).toBe('webp');
+      expect(imageMetadata.exif).toBeUndefined();
+      expect(imageMetadata.orientation).toBeUndefined();
+
+      const thumbnailMetadata = await sharp(thumbnail!).metadata();
+      expect(thumbnailMetadata.width).toBe(400);
+      expect(thumbnailMetadata.height).toBe(300);
+      expect(thumbnailMetadata.exif).toBeUndefined();
+    });
+
+    it('should not enlarge small images', async () => {
+      const media = await uploadListingMedia(upload(await smallPng(), 'image/png'), testSeller.id);
+
+      expect(media.width).toBe(64);
+      expect(media.height).toBe(48);
+    });
+
+    it('should append uploads to the end of the gallery', async () => {
+      const first = await uploadListingMedia(upload(await smallPng(), 'image/png'), testSeller.id);
+      const second = await uploadListingMedia(upload(await smallPng(), 'image/png'), testSeller.id);
+
+      expect(first.position).toBe(0);
+      expect(second.position).toBe(1);
+
+      const listing = await getListing(testListing.id);
+      expect(listing!.media.map(item => item.id)).toEqual([first.id, second.id]);
+    });
+
+    it('should reject files that do not match their declared type', async () => {
+      await expect(uploadListingMedia(upload(await smallPng(), 'image/jpeg'), testSeller.id))
+        .rejects.toThrow(/does not look like image\/jpeg/i);
+      await expect(uploadListingMedia(upload(Buffer.from('not an image at all'), 'image/png'), testSeller.id))
+        .rejects.toThrow(/does not look like image\/png/i);
+      await expect(uploadListingMedia({ ...upload(await smallPng()), data_base64: '***' }, testSeller.id))
+        .rejects.toThrow(/not valid base64/i);
+    });
+
+    it('should reject images that cannot be decoded', async () => {
+      const truncated = (await photoWithExif()).subarray(0, 200);
+
+      await expect(uploadListingMedia(upload(truncated), testSeller.id))
+        .rejects.toThrow(/could not be processed/i);
+
+      const rows = await db.select().from(listingMediaTable).execute();
+      expect(rows).toHaveLength(0);
+    });
+
+    it('should reject uploads to another seller\'s listing', async () => {
+      await expect(uploadListingMedia(upload(await smallPng(), 'image/png'), otherSeller.id))
+        .rejects.toThrow(/not found or access denied/i);
+    });
+
+    it('should cap the number of images per listing', async () => {
+      const png = await smallPng();
+      for (let i = 0; i < LISTING_MEDIA_MAX_PER_LISTING; i++) {
+        await uploadListingMedia(upload(png, 'image/png'), testSeller.id);
+      }
+
+      await expect(uploadListingMedia(upload(png, 'image/png'), testSeller.id))
+        .rejects.toThrow(/at most/i);
+    });
+  });
+
+  describe('reorderListingMedia', () => {
+    it('should store the new order', async () => {
+      const png = await smallPng();
+      const a = await uploadListingMedia(upload(png, 'image/png'), testSeller.id);
+      const b = await uploadListingMedia(upload(png, 'image/png'), testSeller.id);
+      const c = await uploadListingMedia(upload(png, 'image/png'), testSeller.id);
+
+      const reordered = await reorderListingMedia({
+        listing_id: testListing.id,
+        media_ids: [c.id, a.id, b.id]
+      }, testSeller.id);
+
+      expect(reordered.map(item => [item.id, item.position])).toEqual([[c.id, 0], [a.id, 1], [b.id, 2]]);
+
+      const listing = await getListing(testListing.id);
+      expect(listing!.media.map(item => item.id)).toEqual([c.id, a.id, b.id]);
+    });
+
+    it('should require every image exactly once', async () => {
+      const png = await smallPng();
+      const a = await uploadListingMedia(upload(png, 'image/png'), testSeller.id);
+      const b = await uploadListingMedia(upload(png, 'image/png'), testSeller.id);
+
+      for (const media_ids of [[a.id], [a.id, a.id], [a.id, b.id, '55555555-5555-5555-5555-555555555555']]) {
+        await expect(reorderListingMedia({ listing_id: testListing.id, media_ids }, testSeller.id))
+          .rejects.toThrow(/every image of the listing exactly once/i);
+      }
+    });
+
+    it('should reject other sellers', async () => {
+      await expect(reorderListingMedia({ listing_id: testListing.id, media_ids: [] }, otherSeller.id))
+        .rejects.toThrow(/not found or access denied/i);
+    });
+  });
+
+  describe('deleteListingMedia', () => {
+    it('should remove the files and close the gap in the order', async () => {
+      const png = await smallPng();
+      const a = await uploadListingMedia(upload(png, 'image/png'), testSeller.id);
+      const b = await uploadListingMedia(upload(png, 'image/png'), testSeller.id);
+
+      await deleteListingMedia({ media_id: a.id }, testSeller.id);
+
+      expect(await blobs.get(keyOf(a.url))).toBeNull();
+      expect(await blobs.get(keyOf(a.thumbnail_url))).toBeNull();
+
+      const listing = await getListing(testListing.id);
+      expect(listing!.media.map(item => [item.id, item.position])).toEqual([[b.id, 0]]);
+    });
+
+    it('should reject other sellers', async () => {
+      const media = await uploadListingMedia(upload(await smallPng(), 'image/png'), testSeller.id);
+
+      await expect(deleteListingMedia({ media_id: media.id }, otherSeller.id))
+        .rejects.toThrow(/not found or access denied/i);
+      expect(await blobs.get(keyOf(media.url))).not.toBeNull();
+    });
+  });
+
+  describe('getListingMediaFile', () => {
+    it('should serve listing images and thumbnails', async () => {
+      const media = await uploadListingMedia(upload(await smallPng(), 'image/png'), testSeller.id);
+
+      const image = await getListingMediaFile(keyOf(media.url));
+      const thumbnail = await getListingMediaFile(keyOf(media.thumbnail_url));
+
+      expect(image!.content_type).toBe('image/webp');
+      expect(thumbnail!.data.length).toBeGreaterThan(0);
+    });
+
+    it('should not serve blobs that are not listing media', async () => {
+      await blobs.put('kyc/someone/passport', Buffer.from('secret'));
+
+      expect(await getListingMediaFile('kyc/someone/passport')).toBeNull();
+      expect(await getListingMediaFile('listing-media/missing.webp')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, twoFactorTable, recoveryCodesTable, loginAttemptsTable } from '../db/schema';
+import {
+  beginTwoFactorSetup,
+  confirmTwoFactorSetup,
+  verifyTwoFactorCode,
+  disableTwoFactor,
+  regenerateRecoveryCodes
+} from '../handlers/mfa';
+import { login, completeTwoFactorLogin, verifyAccessToken } from '../handlers/auth';
+import { type RequestMeta } from '../schema';
+import { hashPassword } from '../lib/passwords';
+import { MemoryLockoutStore, setLockoutStore } from '../lib/lockout';
+import { generateTotp, currentTotpStep } from '../lib/totp';
+import { eq } from 'drizzle-orm';
+
+const testSeller = {
+  id: '11111111-1111-1111-1111-111111111111',
+  email: 'seller@test.com',
+  password_hash: hashPassword('password123'),
+  role: 'seller' as const
+};
+
+const testSession = {
+  id: '22222222-2222-2222-2222-222222222222',
+  user_id: testSeller.id
+};
+
+const testMeta: RequestMeta = { ip_address: '203.0.113.7', user_agent: 'bun-test' };
+
+describe('two-factor handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    setLockoutStore(new MemoryLockoutStore());
+    await db.insert(usersTable).values(testSeller).execute();
+    await db.insert(sessionsTable).values(testSession).execute();
+  });
+
+  // Enrols the seller and returns the secret and recovery codes. The confirming
+  // code uses the previous step so tests can still spend the current one.
+  const enrol = async () => {
+    const { secret } = await beginTwoFactorSetup(testSeller.id);
+    const { recovery_codes } = await confirmTwoFactorSetup(
+      { code: generateTotp(secret, currentTotpStep() - 1) },
+      testSeller.id,
+      testSession.id
+    );
+    return { secret, recovery_codes };
+  };
+
+  describe('setup', () => {
+    it('should return a secret and provisioning URI', async () => {
+      const result = await beginTwoFactorSetup(testSeller.id);
+
+      expect(result.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(result.otpauth_uri).toContain(encodeURIComponent(testSeller.email));
+      expect(result.otpauth_uri).toContain(`secret=${result.secret}`);
+    });
+
+    it('should stay disabled until a code is confirmed', async () => {
+      await beginTwoFactorSetup(testSeller.id);
+
+      const rows = await db.select().from(twoFactorTable).execute();
+      expect(rows[0].enabled_at).toBeNull();
+    });
+
+    it('should reject a wrong confirmation code', async () => {
+      await beginTwoFactorSetup(testSeller.id);
+
+      await expect(confirmTwoFactorSetup({ code: '000000' }, testSeller.id, testSession.id))
+        .rejects.toThrow(/invalid two-factor code/i);
+    });
+
+    it('should enable 2FA, verify the session and issue hashed recovery codes', async () => {
+      const { recovery_codes } = await enrol();
+
+      expect(recovery_codes).toHaveLength(10);
+
+      const rows = await db.select().from(twoFactorTable).execute();
+      expect(rows[0].enabled_at).toBeInstanceOf(Date);
+
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions[0].two_factor_verified_at).toBeInstanceOf(Date);
+
+      const codes = await db.select().from(recoveryCodesTable).execute();
+      expect(codes).toHaveLength(10);
+      expect(codes.map(c => c.code_hash)).not.toContain(recovery_codes[0]);
+    });
+
+    it('should not restart setup once enabled', async () => {
+      await enrol();
+
+      await expect(beginTwoFactorSetup(testSeller.id)).rejects.toThrow(/already enabled/i);
+    });
+  });
+
+  describe('verifyTwoFactorCode', () => {
+    it('should accept a current code only once', async () => {
+      const { secret } = await enrol();
+      const code = generateTotp(secret);
+
+      expect(await verifyTwoFactorCode(testSeller.id, code)).toBe(true);
+      expect(await verifyTwoFactorCode(testSeller.id, code)).toBe(false);
+    });
+
+    it('should accept each recovery code once, ignoring case and dashes', async () => {
+      const { recovery_codes } = await enrol();
+      const code = recovery_codes[0].replace(/-/g, '').toUpperCase();
+
+      expect(await verifyTwoFactorCode(testSeller.id, code)).toBe(true);
+      expect(await verifyTwoFactorCode(testSeller.id, recovery_codes[0])).toBe(false);
+    });
+
+    it('should reject codes when 2FA is not enabled', async () => {
+      const { secret } = await beginTwoFactorSetup(testSeller.id);
+
+      expect(await verifyTwoFactorCode(testSeller.id, generateTotp(secret))).toBe(false);
+    });
+  });
+
+  describe('recovery codes and disabling', () => {
+    it('should replace the old recovery codes', async () => {
+      const { secret, recovery_codes } = await enrol();
+      const result = await regenerateRecoveryCodes({ code: generateTotp(secret) }, testSeller.id, testMeta);
+
+      expect(result.recovery_codes).toHaveLength(10);
+      expect(await verifyTwoFactorCode(testSeller.id, recovery_codes[0])).toBe(false);
+      expect(await verifyTwoFactorCode(testSeller.id, result.recovery_codes[0])).toBe(true);
+    });
+
+    it('should require a valid code to disable', async () => {
+      await enrol();
+
+      await expect(disableTwoFactor({ code: '000000' }, testSeller.id, testMeta))
+        .rejects.toThrow(/invalid two-factor code/i);
+    });
+
+    it('should remove the secret and recovery codes', async () => {
+      const { secret } = await enrol();
+      await disableTwoFactor({ code: generateTotp(secret) }, testSeller.id, testMeta);
+
+      expect(await db.select().from(twoFactorTable).execute()).toHaveLength(0);
+      expect(await db.select().from(recoveryCodesTable).execute()).toHaveLength(0);
+
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions[0].two_factor_verified_at).toBeNull();
+    });
+
+    it('should lock out repeated wrong codes', async () => {
+      const { secret } = await enrol();
+
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await expect(disableTwoFactor({ code: '000000' }, testSeller.id, testMeta))
+          .rejects.toThrow(/invalid two-factor code/i);
+      }
+
+      // Even the right code is refused while locked
+      await expect(regenerateRecoveryCodes({ code: generateTotp(secret) }, testSeller.id, testMeta))
+        .rejects.toThrow(/too many failed/i);
+
+      const attempts = await db.select().from(loginAttemptsTable).execute();
+      expect(attempts.filter(attempt => attempt.result === 'invalid_two_factor')).toHaveLength(5);
+      expect(await db.select().from(twoFactorTable).execute()).toHaveLength(1);
+    });
+  });
+
+  describe('login', () => {
+    const credentials = { email: testSeller.email, password: 'password123' };
+
+    it('should return a challenge instead of tokens when 2FA is on', async () => {
+      await enrol();
+      const result = await login(credentials);
+
+      expect(result.two_factor_required).toBe(true);
+      expect('token' in result).toBe(false);
+    });
+
+    it('should not accept the challenge as an access token', async () => {
+      await enrol();
+      const result = await login(credentials);
+      if (!result.two_factor_required) throw new Error('Expected a challenge');
+
+      expect(() => verifyAccessToken(result.challenge_token)).toThrow();
+    });
+
+    it('should open a verified session once the code is given', async () => {
+      const { secret } = await enrol();
+      const challenge = await login({ ...credentials, device_label: 'Phone' });
+      if (!challenge.two_factor_required) throw new Error('Expected a challenge');
+
+      const result = await completeTwoFactorLogin({
+        challenge_token: challenge.challenge_token,
+        code: generateTotp(secret)
+      });
+      if (result.two_factor_required) throw new Error('Expected tokens');
+
+      expect(result.user.id).toEqual(testSeller.id);
+      expect(verifyAccessToken(result.token).sid).toEqual(result.session_id);
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.id, result.session_id))
+        .execute();
+      expect(sessions[0].device_label).toEqual('Phone');
+      expect(sessions[0].two_factor_verified_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject a wrong code', async () => {
+      await enrol();
+      const challenge = await login(credentials);
+      if (!challenge.two_factor_required) throw new Error('Expected a challenge');
+
+      await expect(completeTwoFactorLogin({
+        challenge_token: challenge.challenge_token,
+        code: '000000'
+      })).rejects.toThrow(/invalid two-factor code/i);
+    });
+
+    it('should reject a forged challenge', async () => {
+      await expect(completeTwoFactorLogin({
+        challenge_token: 'not.a.token',
+        code: '123456'
+      })).rejects.toThrow(/invalid or has expired/i);
+    });
+
+    it('should sign in directly when 2FA is off', async () => {
+      const result = await login(credentials);
+
+      expect(result.two_factor_required).toBe(false);
+    });
+  });
+});
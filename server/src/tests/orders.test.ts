@@ -1,26 +1,35 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, payOrder } from '../helpers';
 import { db } from '../db';
 import { 
   usersTable, 
   categoriesTable, 
   listingsTable, 
   ordersTable,
-  listingSecurePayloadsTable 
+  listingSecurePayloadsTable,
+  credentialAccessLogTable,
+  transactionsTable
 } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { 
   getMyOrders, 
   getOrder, 
-  acknowledgeDelivery 
+  acknowledgeDelivery,
+  revealCredentials,
+  listCredentialAccessLog,
+  CREDENTIAL_REVEAL_LIMIT
 } from '../handlers/orders';
-import { type AcknowledgeDeliveryInput } from '../schema';
+import { type AcknowledgeDeliveryInput, type RequestMeta } from '../schema';
+import { encryptPayload } from '../lib/payloadEncryption';
+import { hashPassword } from '../lib/passwords';
+
+const testBuyerPassword = 'buyer-password';
 
 // Test data
 const testUser = {
   id: '00000000-0000-0000-0000-000000000001',
   email: 'buyer@test.com',
-  password_hash: 'hashed_password',
+  password_hash: hashPassword(testBuyerPassword),
   role: 'buyer' as const
 };
 
@@ -65,13 +74,18 @@ const testOrder = {
   status: 'pending' as const
 };
 
-const testSecurePayload = {
-  id: '00000000-0000-0000-0000-000000000001',
-  listing_id: testListing.id,
-  cipher_text: 'encrypted_content',
-  nonce: 'random_nonce'
+const testTransaction = {
+  order_id: testOrder.id,
+  provider: 'stripe' as const,
+  provider_ref: 'pi_test',
+  amount_cents: testOrder.total_cents,
+  status: 'initiated' as const
 };
 
+const testCredentials = 'username:password123';
+
+const testMeta: RequestMeta = { ip_address: '203.0.113.7', user_agent: 'bun-test' };
+
 describe('Orders handlers', () => {
   beforeEach(async () => {
     await createDB();
@@ -80,7 +94,10 @@ describe('Orders handlers', () => {
     await db.insert(usersTable).values([testUser, testSeller, testAdmin]).execute();
     await db.insert(categoriesTable).values(testCategory).execute();
     await db.insert(listingsTable).values(testListing).execute();
-    await db.insert(listingSecurePayloadsTable).values(testSecurePayload).execute();
+    await db.insert(listingSecurePayloadsTable).values({
+      listing_id: testListing.id,
+      ...await encryptPayload(testCredentials, testListing.id)
+    }).execute();
   });
 
   afterEach(resetDB);
@@ -160,6 +177,24 @@ describe('Orders handlers', () => {
       expect(page2.total_pages).toBe(2);
     });
 
+    it('should continue from a cursor', async () => {
+      const orders = Array.from({ length: 25 }, (_, i) => ({
+        ...testOrder,
+        id: `00000000-0000-0000-0000-${(100 + i).toString().padStart(12, '0')}`,
+        created_at: new Date(Date.UTC(2024, 0, 1, 0, i))
+      }));
+      
+      await db.insert(ordersTable).values(orders).execute();
+
+      const page1 = await getMyOrders({ page: 1 }, testUser.id);
+      expect(page1.items[0].id).toBe(orders[24].id);
+
+      const page2 = await getMyOrders({ page: 1, cursor: page1.next_cursor!, include_total: false }, testUser.id);
+      expect(page2.items.map(order => order.id)).toEqual(orders.slice(0, 5).map(order => order.id).reverse());
+      expect(page2.total).toBeNull();
+      expect(page2.next_cursor).toBeNull();
+    });
+
     it('should order results by created_at descending', async () => {
       const now = new Date();
       const earlier = new Date(now.getTime() - 60000); // 1 minute earlier
@@ -231,8 +266,7 @@ describe('Orders handlers', () => {
         .rejects.toThrow(/order not found/i);
     });
 
-    it('should include decrypted credentials for buyer with paid order', async () => {
-      // Update order to paid status
+    it('should not include credentials for buyer with paid order', async () => {
       await db.update(ordersTable)
         .set({ status: 'paid' })
         .where(eq(ordersTable.id, testOrder.id))
@@ -240,26 +274,131 @@ describe('Orders handlers', () => {
 
       const result = await getOrder(testOrder.id, testUser.id, 'buyer');
 
-      expect(result.decryptedCredentials).toBeDefined();
-      expect(result.decryptedCredentials).toContain('ENCRYPTED_CREDENTIALS');
+      expect(result).not.toHaveProperty('decryptedCredentials');
+      expect(JSON.stringify(result)).not.toContain(testCredentials);
     });
+  });
 
-    it('should not include credentials for pending order', async () => {
-      const result = await getOrder(testOrder.id, testUser.id, 'buyer');
+  describe('revealCredentials', () => {
+    const markPaid = () => payOrder(testOrder.id);
+
+    const accessLog = () => db.select()
+      .from(credentialAccessLogTable)
+      .execute();
+
+    beforeEach(async () => {
+      await db.insert(ordersTable).values(testOrder).execute();
+      await db.insert(transactionsTable).values(testTransaction).execute();
+    });
 
-      expect(result.decryptedCredentials).toBeUndefined();
+    it('should decrypt credentials for the buyer and log the access', async () => {
+      await markPaid();
+
+      const result = await revealCredentials(
+        { order_id: testOrder.id, password: testBuyerPassword },
+        testUser.id,
+        testMeta
+      );
+
+      expect(result).toEqual({ encryption: 'server', credentials: testCredentials });
+
+      const log = await accessLog();
+      expect(log).toHaveLength(1);
+      expect(log[0]).toMatchObject({
+        order_id: testOrder.id,
+        user_id: testUser.id,
+        result: 'revealed',
+        ip_address: testMeta.ip_address,
+        user_agent: testMeta.user_agent
+      });
+      expect(log[0].created_at).toBeInstanceOf(Date);
     });
 
-    it('should not include credentials for seller', async () => {
-      // Update order to paid status
-      await db.update(ordersTable)
-        .set({ status: 'paid' })
-        .where(eq(ordersTable.id, testOrder.id))
+    it('should require the buyer password', async () => {
+      await markPaid();
+
+      await expect(revealCredentials({ order_id: testOrder.id }, testUser.id, testMeta))
+        .rejects.toThrow(/password confirmation required/i);
+      await expect(revealCredentials({ order_id: testOrder.id, password: 'wrong-password' }, testUser.id, testMeta))
+        .rejects.toThrow(/invalid password/i);
+
+      const log = await accessLog();
+      expect(log.map(entry => entry.result)).toEqual(['password_rejected']);
+    });
+
+    it('should stop reveals past the rate limit', async () => {
+      await markPaid();
+
+      for (let i = 0; i < CREDENTIAL_REVEAL_LIMIT - 1; i++) {
+        await revealCredentials({ order_id: testOrder.id, password: testBuyerPassword }, testUser.id, testMeta);
+      }
+      // Wrong passwords count against the limit too
+      await expect(revealCredentials({ order_id: testOrder.id, password: 'wrong-password' }, testUser.id, testMeta))
+        .rejects.toThrow(/invalid password/i);
+
+      await expect(revealCredentials({ order_id: testOrder.id, password: testBuyerPassword }, testUser.id, testMeta))
+        .rejects.toThrow(/too many credential requests/i);
+      expect(await accessLog()).toHaveLength(CREDENTIAL_REVEAL_LIMIT);
+    });
+
+    it('should only reveal credentials of paid orders', async () => {
+      await expect(revealCredentials({ order_id: testOrder.id, password: testBuyerPassword }, testUser.id, testMeta))
+        .rejects.toThrow(/only available for paid orders/i);
+      expect(await accessLog()).toHaveLength(0);
+    });
+
+    it('should refuse anyone but the buyer', async () => {
+      await markPaid();
+
+      await expect(revealCredentials({ order_id: testOrder.id, password: testBuyerPassword }, testSeller.id, testMeta))
+        .rejects.toThrow(/access denied/i);
+      await expect(revealCredentials({ order_id: testOrder.id, password: testBuyerPassword }, testAdmin.id, testMeta))
+        .rejects.toThrow(/access denied/i);
+    });
+
+    it('should report payloads stored before envelope encryption as unavailable', async () => {
+      await markPaid();
+      await db.update(listingSecurePayloadsTable)
+        .set({ auth_tag: null, wrapped_key: null, key_version: null })
         .execute();
 
-      const result = await getOrder(testOrder.id, testSeller.id, 'seller');
+      await expect(revealCredentials({ order_id: testOrder.id, password: testBuyerPassword }, testUser.id, testMeta))
+        .rejects.toThrow(/not available/i);
+      expect(await accessLog()).toHaveLength(0);
+    });
+
+    it('should refuse a payload that was tampered with without logging a reveal', async () => {
+      await markPaid();
+      await db.update(listingSecurePayloadsTable)
+        .set({ cipher_text: Buffer.from('username:password999').toString('base64') })
+        .execute();
+
+      await expect(revealCredentials({ order_id: testOrder.id, password: testBuyerPassword }, testUser.id, testMeta))
+        .rejects.toThrow(/could not be decrypted/i);
+      expect(await accessLog()).toHaveLength(0);
+    });
+  });
+
+  describe('listCredentialAccessLog', () => {
+    beforeEach(async () => {
+      await db.insert(ordersTable).values(testOrder).execute();
+      await db.insert(transactionsTable).values(testTransaction).execute();
+      await payOrder(testOrder.id);
+      await revealCredentials({ order_id: testOrder.id, password: testBuyerPassword }, testUser.id, testMeta);
+    });
+
+    it('should show the log to the seller and admins', async () => {
+      const forSeller = await listCredentialAccessLog({ order_id: testOrder.id }, testSeller.id, 'seller');
+      const forAdmin = await listCredentialAccessLog({ order_id: testOrder.id }, testAdmin.id, 'admin');
 
-      expect(result.decryptedCredentials).toBeUndefined();
+      expect(forSeller).toHaveLength(1);
+      expect(forSeller[0]).toMatchObject({ user_id: testUser.id, result: 'revealed', ip_address: '203.0.113.7' });
+      expect(forAdmin).toEqual(forSeller);
+    });
+
+    it('should hide the log from anyone else', async () => {
+      await expect(listCredentialAccessLog({ order_id: testOrder.id }, testUser.id, 'buyer'))
+        .rejects.toThrow(/access denied/i);
     });
   });
 
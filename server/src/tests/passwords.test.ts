@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'bun:test';
+import { pbkdf2Sync, randomBytes, scryptSync } from 'crypto';
+import { hashPassword, verifyPassword, needsRehash, SCRYPT_PARAMS } from '../lib/passwords';
+
+const legacyHash = (password: string) => {
+  const salt = randomBytes(32).toString('hex');
+  return `${salt}:${pbkdf2Sync(password, salt, 100000, 64, 'sha256').toString('hex')}`;
+};
+
+describe('passwords', () => {
+  it('should record the algorithm and parameters in the hash', () => {
+    const hash = hashPassword('password123');
+    const { N, r, p } = SCRYPT_PARAMS;
+
+    expect(hash).toStartWith(`$scrypt$N=${N},r=${r},p=${p}$`);
+    expect(hash.split('$')).toHaveLength(5);
+  });
+
+  it('should salt each hash', () => {
+    expect(hashPassword('password123')).not.toEqual(hashPassword('password123'));
+  });
+
+  it('should verify scrypt hashes', () => {
+    const hash = hashPassword('password123');
+
+    expect(verifyPassword('password123', hash)).toBe(true);
+    expect(verifyPassword('password124', hash)).toBe(false);
+  });
+
+  it('should verify hashes made with other scrypt parameters', () => {
+    const salt = randomBytes(16);
+    const digest = scryptSync('password123', salt, 64, { N: 1024, r: 8, p: 1 });
+    const hash = `$scrypt$N=1024,r=8,p=1$${salt.toString('base64')}$${digest.toString('base64')}`;
+
+    expect(verifyPassword('password123', hash)).toBe(true);
+    expect(needsRehash(hash)).toBe(true);
+  });
+
+  it('should still verify legacy PBKDF2 hashes', () => {
+    const hash = legacyHash('password123');
+
+    expect(verifyPassword('password123', hash)).toBe(true);
+    expect(verifyPassword('wrong_password', hash)).toBe(false);
+  });
+
+  it('should reject malformed hashes', () => {
+    expect(verifyPassword('password123', 'hashed_password')).toBe(false);
+    expect(verifyPassword('password123', 'abc:')).toBe(false);
+    expect(verifyPassword('password123', '$scrypt$N=16384$bad')).toBe(false);
+  });
+
+  it('should flag legacy and outdated hashes for rehashing', () => {
+    const current = hashPassword('password123');
+
+    expect(needsRehash(current)).toBe(false);
+    expect(needsRehash(legacyHash('password123'))).toBe(true);
+    expect(needsRehash(current.replace(/N=\d+/, 'N=1024'))).toBe(true);
+  });
+});
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { randomBytes } from 'crypto';
+import { mkdtemp, readFile, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { encryptPayload, decryptPayload } from '../lib/payloadEncryption';
+import {
+  LocalKeyProvider,
+  FileKeyProvider,
+  parseMasterKeys,
+  createKeyProviderFromEnv,
+  getKeyProvider,
+  setKeyProvider
+} from '../lib/keyProvider';
+
+const listingId = '11111111-1111-1111-1111-111111111111';
+const otherListingId = '22222222-2222-2222-2222-222222222222';
+
+const keyOne = randomBytes(32);
+const keyTwo = randomBytes(32);
+
+describe('payload encryption', () => {
+  const original = getKeyProvider();
+
+  beforeEach(() => {
+    setKeyProvider(new LocalKeyProvider(new Map([[1, keyOne]])));
+  });
+
+  afterEach(() => {
+    setKeyProvider(original);
+  });
+
+  describe('encryptPayload', () => {
+    it('should round-trip credentials through a wrapped data key', async () => {
+      const payload = await encryptPayload('username:hunter2', listingId);
+
+      expect(payload.key_version).toBe(1);
+      expect(Buffer.from(payload.nonce, 'base64')).toHaveLength(12);
+      expect(Buffer.from(payload.auth_tag, 'base64')).toHaveLength(16);
+      expect(await decryptPayload(payload, listingId)).toBe('username:hunter2');
+    });
+
+    it('should use a fresh data key and nonce for every payload', async () => {
+      const first = await encryptPayload('username:hunter2', listingId);
+      const second = await encryptPayload('username:hunter2', listingId);
+
+      expect(first.wrapped_key).not.toBe(second.wrapped_key);
+      expect(first.nonce).not.toBe(second.nonce);
+      expect(first.cipher_text).not.toBe(second.cipher_text);
+    });
+  });
+
+  describe('decryptPayload', () => {
+    it('should refuse a payload moved to another listing', async () => {
+      const payload = await encryptPayload('username:hunter2', listingId);
+
+      await expect(decryptPayload(payload, otherListingId)).rejects.toThrow(/could not be decrypted/i);
+    });
+
+    it('should refuse a modified cipher text or auth tag', async () => {
+      const payload = await encryptPayload('username:hunter2', listingId);
+      const flipped = (value: string) => {
+        const data = Buffer.from(value, 'base64');
+        data[0] ^= 1;
+        return data.toString('base64');
+      };
+
+      await expect(decryptPayload({ ...payload, cipher_text: flipped(payload.cipher_text) }, listingId))
+        .rejects.toThrow(/could not be decrypted/i);
+      await expect(decryptPayload({ ...payload, auth_tag: flipped(payload.auth_tag) }, listingId))
+        .rejects.toThrow(/could not be decrypted/i);
+    });
+
+    it('should refuse a payload without its master key', async () => {
+      const payload = await encryptPayload('username:hunter2', listingId);
+      setKeyProvider(new LocalKeyProvider(new Map([[2, keyTwo]])));
+
+      await expect(decryptPayload(payload, listingId)).rejects.toThrow(/could not be decrypted/i);
+    });
+  });
+
+  describe('LocalKeyProvider', () => {
+    it('should wrap with the newest master key and unwrap older versions', async () => {
+      const old = await encryptPayload('username:hunter2', listingId);
+      setKeyProvider(new LocalKeyProvider(new Map([[1, keyOne], [2, keyTwo]])));
+
+      const fresh = await encryptPayload('username:hunter3', listingId);
+
+      expect(fresh.key_version).toBe(2);
+      expect(await decryptPayload(old, listingId)).toBe('username:hunter2');
+      expect(await decryptPayload(fresh, listingId)).toBe('username:hunter3');
+    });
+
+    it('should reject master keys of the wrong size', () => {
+      expect(() => new LocalKeyProvider(new Map([[1, randomBytes(16)]]))).toThrow(/32 bytes/);
+      expect(() => new LocalKeyProvider(new Map())).toThrow(/at least one master key/i);
+    });
+  });
+
+  describe('parseMasterKeys', () => {
+    it('should read versioned keys', () => {
+      const keys = parseMasterKeys(`1:${keyOne.toString('base64')}, 2:${keyTwo.toString('base64')}`);
+
+      expect([...keys.keys()]).toEqual([1, 2]);
+      expect(keys.get(2)!.equals(keyTwo)).toBe(true);
+    });
+
+    it('should reject malformed entries', () => {
+      expect(() => parseMasterKeys(keyOne.toString('base64'))).toThrow(/version:base64key/);
+      expect(() => parseMasterKeys(`x:${keyOne.toString('base64')}`)).toThrow(/invalid master key version/i);
+    });
+  });
+
+  describe('createKeyProviderFromEnv', () => {
+    it('should build an env provider from PAYLOAD_MASTER_KEYS', async () => {
+      const provider = createKeyProviderFromEnv({
+        KEY_PROVIDER: 'env',
+        PAYLOAD_MASTER_KEYS: `3:${keyTwo.toString('base64')}`
+      });
+
+      expect((await provider.wrapKey(randomBytes(32))).key_version).toBe(3);
+    });
+
+    it('should reject unknown providers', () => {
+      expect(() => createKeyProviderFromEnv({ KEY_PROVIDER: 'vault' })).toThrow(/Unknown KEY_PROVIDER/);
+    });
+  });
+
+  describe('FileKeyProvider', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(path.join(tmpdir(), 'payload-keys-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should create a key file on first use and keep using it', async () => {
+      const filePath = path.join(directory, 'keys.json');
+      const dataKey = randomBytes(32);
+
+      const wrapped = await new FileKeyProvider(filePath).wrapKey(dataKey);
+      const unwrapped = await new FileKeyProvider(filePath).unwrapKey(wrapped);
+
+      expect(unwrapped.equals(dataKey)).toBe(true);
+      expect(Object.keys(JSON.parse(await readFile(filePath, 'utf8')).keys)).toEqual(['1']);
+      expect((await stat(filePath)).mode & 0o777).toBe(0o600);
+    });
+  });
+});
@@ -7,7 +7,8 @@ import {
   ordersTable, 
   transactionsTable,
   listingsTable,
-  categoriesTable
+  categoriesTable,
+  profilesTable
 } from '../db/schema';
 import { 
   type RequestPayoutInput, 
@@ -40,6 +41,13 @@ const testCategory = {
   slug: 'electronics'
 };
 
+// Payouts are only open to sellers who passed verification
+const verifySeller = async (sellerId: string) => {
+  await db.insert(profilesTable)
+    .values({ user_id: sellerId, verification_status: 'verified' })
+    .execute();
+};
+
 describe('requestPayout', () => {
   beforeEach(createDB);
   afterEach(resetDB);
@@ -52,6 +60,7 @@ describe('requestPayout', () => {
       .execute();
 
     const sellerId = seller[0].id;
+    await verifySeller(sellerId);
 
     const input: RequestPayoutInput = {
       amount_cents: 10000 // $100
@@ -77,6 +86,7 @@ describe('requestPayout', () => {
       .execute();
 
     const sellerId = seller[0].id;
+    await verifySeller(sellerId);
 
     const input: RequestPayoutInput = {
       amount_cents: 5000 // $50
@@ -110,6 +120,20 @@ describe('requestPayout', () => {
       .toThrow(/seller not found/i);
   });
 
+  it('should reject payout requests from unverified sellers', async () => {
+    const seller = await db.insert(usersTable)
+      .values(testSeller)
+      .returning()
+      .execute();
+
+    await expect(requestPayout({ amount_cents: 10000 }, seller[0].id))
+      .rejects
+      .toThrow(/verification is required/i);
+
+    const payouts = await db.select().from(payoutsTable).execute();
+    expect(payouts).toHaveLength(0);
+  });
+
   it('should handle payout with completed order scenario', async () => {
     // Create all prerequisite data
     const seller = await db.insert(usersTable)
@@ -117,6 +141,8 @@ describe('requestPayout', () => {
       .returning()
       .execute();
 
+    await verifySeller(seller[0].id);
+
     const buyer = await db.insert(usersTable)
       .values(testBuyer)
       .returning()
@@ -183,6 +209,7 @@ describe('requestPayout', () => {
       .execute();
 
     const sellerId = seller[0].id;
+    await verifySeller(sellerId);
 
     // First payout request
     const input1: RequestPayoutInput = {
@@ -380,6 +380,48 @@ describe('getSellerReviews', () => {
     expect(page2Result.total_pages).toEqual(2);
   });
 
+  it('should page with cursors without counting', async () => {
+    for (let i = 0; i < 25; i++) {
+      const orderResult = await db.insert(ordersTable)
+        .values({
+          buyer_id: testBuyer.id,
+          listing_id: testListing.id,
+          total_cents: 1000,
+          currency: 'USD',
+          status: 'complete'
+        })
+        .returning()
+        .execute();
+
+      await createReview({ order_id: orderResult[0].id, rating: 5, comment: `Review ${i + 1}` }, testBuyer.id);
+    }
+
+    // Identical timestamps leave only the id to order by
+    await db.update(reviewsTable)
+      .set({ created_at: new Date('2024-01-01T00:00:00Z') })
+      .execute();
+
+    const page1 = await getSellerReviews({ seller_id: testSeller.id, page: 1, include_total: false });
+
+    expect(page1.items).toHaveLength(20);
+    expect(page1.total).toBeNull();
+    expect(page1.total_pages).toBeNull();
+    expect(page1.next_cursor).not.toBeNull();
+
+    const page2 = await getSellerReviews({
+      seller_id: testSeller.id,
+      page: 1,
+      cursor: page1.next_cursor!,
+      include_total: false
+    });
+
+    expect(page2.items).toHaveLength(5);
+    expect(page2.next_cursor).toBeNull();
+
+    const ids = [...page1.items, ...page2.items].map(review => review.id);
+    expect(new Set(ids).size).toEqual(25);
+  });
+
   it('should return empty results for non-existent seller', async () => {
     const input: GetSellerReviewsInput = {
       seller_id: '12345678-1234-1234-1234-123456789012',
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, profilesTable, roleChangesTable } from '../db/schema';
+import { setUserRole, listRoleChanges, bootstrapAdmin } from '../handlers/roles';
+import { verifyPassword } from '../lib/passwords';
+import { eq } from 'drizzle-orm';
+
+const testAdmin = {
+  id: '11111111-1111-1111-1111-111111111111',
+  email: 'admin@test.com',
+  password_hash: 'hashed_password',
+  role: 'admin' as const
+};
+
+const testBuyer = {
+  id: '22222222-2222-2222-2222-222222222222',
+  email: 'buyer@test.com',
+  password_hash: 'hashed_password',
+  role: 'buyer' as const
+};
+
+const getRole = async (userId: string) => {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+  return users[0].role;
+};
+
+describe('role handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('setUserRole', () => {
+    beforeEach(async () => {
+      await db.insert(usersTable).values([testAdmin, testBuyer]).execute();
+    });
+
+    it('should change the role and audit it', async () => {
+      await setUserRole({ user_id: testBuyer.id, role: 'seller', reason: 'Trusted trader' }, testAdmin.id);
+
+      expect(await getRole(testBuyer.id)).toEqual('seller');
+
+      const changes = await listRoleChanges(testBuyer.id, testAdmin.id);
+      expect(changes).toHaveLength(1);
+      expect(changes[0].from_role).toEqual('buyer');
+      expect(changes[0].to_role).toEqual('seller');
+      expect(changes[0].changed_by).toEqual(testAdmin.id);
+      expect(changes[0].reason).toEqual('Trusted trader');
+    });
+
+    it('should demote as well as promote', async () => {
+      await setUserRole({ user_id: testBuyer.id, role: 'admin' }, testAdmin.id);
+      await setUserRole({ user_id: testBuyer.id, role: 'buyer' }, testAdmin.id);
+
+      expect(await getRole(testBuyer.id)).toEqual('buyer');
+      expect(await listRoleChanges(testBuyer.id, testAdmin.id)).toHaveLength(2);
+    });
+
+    it('should reject a no-op change', async () => {
+      await expect(setUserRole({ user_id: testBuyer.id, role: 'buyer' }, testAdmin.id))
+        .rejects.toThrow(/already a buyer/i);
+    });
+
+    it('should not let an admin change their own role', async () => {
+      await expect(setUserRole({ user_id: testAdmin.id, role: 'buyer' }, testAdmin.id))
+        .rejects.toThrow(/own role/i);
+    });
+
+    it('should reject non-admin callers', async () => {
+      await expect(setUserRole({ user_id: testBuyer.id, role: 'admin' }, testBuyer.id))
+        .rejects.toThrow(/unauthorized.*admin/i);
+
+      expect(await getRole(testBuyer.id)).toEqual('buyer');
+    });
+
+    it('should reject unknown users', async () => {
+      await expect(setUserRole({ user_id: '99999999-9999-9999-9999-999999999999', role: 'seller' }, testAdmin.id))
+        .rejects.toThrow(/user not found/i);
+    });
+  });
+
+  describe('bootstrapAdmin', () => {
+    const input = { email: 'owner@test.com', password: 'a_long_enough_password' };
+
+    it('should create a verified admin with a profile', async () => {
+      const admin = await bootstrapAdmin(input);
+
+      expect(admin.role).toEqual('admin');
+      expect(admin.email_verified_at).toBeInstanceOf(Date);
+
+      const users = await db.select().from(usersTable).execute();
+      expect(verifyPassword(input.password, users[0].password_hash)).toBe(true);
+
+      const profiles = await db.select().from(profilesTable).execute();
+      expect(profiles).toHaveLength(1);
+
+      const changes = await db.select().from(roleChangesTable).execute();
+      expect(changes[0].to_role).toEqual('admin');
+      expect(changes[0].changed_by).toBeNull();
+    });
+
+    it('should promote an existing account without touching its password', async () => {
+      await db.insert(usersTable).values({ ...testBuyer, email: input.email }).execute();
+
+      const admin = await bootstrapAdmin(input);
+
+      expect(admin.id).toEqual(testBuyer.id);
+      expect(admin.role).toEqual('admin');
+
+      const users = await db.select().from(usersTable).execute();
+      expect(users[0].password_hash).toEqual(testBuyer.password_hash);
+    });
+
+    it('should refuse once an admin exists', async () => {
+      await db.insert(usersTable).values(testAdmin).execute();
+
+      await expect(bootstrapAdmin(input)).rejects.toThrow(/admin already exists/i);
+
+      const users = await db.select().from(usersTable).execute();
+      expect(users).toHaveLength(1);
+    });
+
+    it('should create only one admin when run concurrently', async () => {
+      const results = await Promise.allSettled([
+        bootstrapAdmin(input),
+        bootstrapAdmin({ ...input, email: 'second-owner@test.com' })
+      ]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+      const admins = await db.select().from(usersTable).where(eq(usersTable.role, 'admin')).execute();
+      expect(admins).toHaveLength(1);
+    });
+  });
+});
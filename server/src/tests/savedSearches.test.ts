@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, categoriesTable, listingsTable, savedSearchesTable } from '../db/schema';
+import {
+  createSavedSearch,
+  listSavedSearches,
+  deleteSavedSearch,
+  runSavedSearchDigests
+} from '../handlers/savedSearches';
+import { MemoryNotificationChannel, setNotificationChannel } from '../lib/notifications';
+import { type SearchListingsInput } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const testSeller = {
+  id: '11111111-1111-1111-1111-111111111111',
+  email: 'seller@test.com',
+  password_hash: 'hashed_password',
+  role: 'seller' as const
+};
+
+const buyer = {
+  id: '22222222-2222-2222-2222-222222222222',
+  email: 'buyer@test.com',
+  password_hash: 'hashed_password',
+  role: 'buyer' as const
+};
+
+const otherBuyer = {
+  id: '33333333-3333-3333-3333-333333333333',
+  email: 'other@test.com',
+  password_hash: 'hashed_password',
+  role: 'buyer' as const
+};
+
+const games = { id: '44444444-4444-4444-4444-444444444444', name: 'Games', slug: 'games' };
+const social = { id: '55555555-5555-5555-5555-555555555555', name: 'Social', slug: 'social' };
+
+const search = (filters: Partial<SearchListingsInput> = {}): SearchListingsInput => ({
+  sort: 'newest',
+  page: 1,
+  page_size: 20,
+  category_slug: 'games',
+  max_price: 5000,
+  ...filters
+});
+
+const createListing = async (title: string, overrides: Partial<typeof listingsTable.$inferInsert> = {}) => {
+  const result = await db.insert(listingsTable)
+    .values({
+      seller_id: testSeller.id,
+      category_id: games.id,
+      title,
+      description: 'Account for sale',
+      price_cents: 2000,
+      ...overrides
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+describe('saved searches', () => {
+  let notifications: MemoryNotificationChannel;
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    notifications = new MemoryNotificationChannel();
+    setNotificationChannel(notifications);
+    await db.insert(usersTable).values([testSeller, buyer, otherBuyer]).execute();
+    await db.insert(categoriesTable).values([games, social]).execute();
+  });
+
+  describe('create, list and delete', () => {
+    it('should keep the filters and sort but not the paging', async () => {
+      const saved = await createSavedSearch({
+        name: 'Cheap games',
+        query: search({ q: 'rare skins', cursor: 'abc', page: 3, include_total: false })
+      }, buyer.id);
+
+      expect(saved.query).toEqual({ q: 'rare skins', category_slug: 'games', max_price: 5000, sort: 'newest' });
+      expect(saved.last_run_at).toBeNull();
+
+      const list = await listSavedSearches(buyer.id);
+      expect(list.map(item => item.id)).toEqual([saved.id]);
+      expect(await listSavedSearches(otherBuyer.id)).toEqual([]);
+    });
+
+    it('should reject duplicate names for the same user only', async () => {
+      await createSavedSearch({ name: 'Cheap games', query: search() }, buyer.id);
+
+      await expect(createSavedSearch({ name: 'Cheap games', query: search() }, buyer.id))
+        .rejects.toThrow(/already exists/i);
+      await createSavedSearch({ name: 'Cheap games', query: search() }, otherBuyer.id);
+    });
+
+    it('should cap the number of saved searches', async () => {
+      for (let i = 0; i < 20; i++) {
+        await createSavedSearch({ name: `Search ${i}`, query: search() }, buyer.id);
+      }
+
+      await expect(createSavedSearch({ name: 'One too many', query: search() }, buyer.id))
+        .rejects.toThrow(/at most 20/i);
+    });
+
+    it('should only delete the owner\'s searches', async () => {
+      const saved = await createSavedSearch({ name: 'Cheap games', query: search() }, buyer.id);
+
+      await expect(deleteSavedSearch({ saved_search_id: saved.id }, otherBuyer.id))
+        .rejects.toThrow(/not found/i);
+
+      await deleteSavedSearch({ saved_search_id: saved.id }, buyer.id);
+      expect(await listSavedSearches(buyer.id)).toEqual([]);
+    });
+  });
+
+  describe('runSavedSearchDigests', () => {
+    it('should only send listings created after the search was saved', async () => {
+      await createListing('Old account');
+      await createSavedSearch({ name: 'Cheap games', query: search() }, buyer.id);
+      const fresh = await createListing('Fresh account');
+
+      const result = await runSavedSearchDigests();
+
+      expect(result).toEqual({ evaluated: 1, digests_sent: 1 });
+      expect(notifications.sent).toHaveLength(1);
+      expect(notifications.sent[0]).toMatchObject({
+        user_id: buyer.id,
+        email: buyer.email,
+        kind: 'saved_search_digest',
+        listing_ids: [fresh.id]
+      });
+      expect(notifications.sent[0].text).toContain('Fresh account: 20.00 USD');
+    });
+
+    it('should never send the same listing twice', async () => {
+      await createSavedSearch({ name: 'Cheap games', query: search() }, buyer.id);
+      const first = await createListing('First account');
+
+      await runSavedSearchDigests();
+      await runSavedSearchDigests();
+
+      const second = await createListing('Second account');
+      await runSavedSearchDigests();
+
+      expect(notifications.sent.map(n => n.listing_ids)).toEqual([[first.id], [second.id]]);
+    });
+
+    it('should tell listings created in the same instant apart', async () => {
+      const saved = await createSavedSearch({ name: 'Cheap games', query: search() }, buyer.id);
+      const createdAt = new Date(Date.now() + 1000);
+      const [a, b] = [
+        '66666666-6666-6666-6666-666666666666',
+        '77777777-7777-7777-7777-777777777777'
+      ];
+      await createListing('Account A', { id: a, created_at: createdAt });
+
+      await runSavedSearchDigests();
+      await createListing('Account B', { id: b, created_at: createdAt });
+      await runSavedSearchDigests();
+
+      expect(notifications.sent.map(n => n.listing_ids)).toEqual([[a], [b]]);
+
+      const row = await db.select().from(savedSearchesTable).where(eq(savedSearchesTable.id, saved.id)).execute();
+      expect(row[0].high_water_listing_id).toBe(b);
+      expect(row[0].last_run_at).toBeInstanceOf(Date);
+    });
+
+    it('should apply the saved filters', async () => {
+      await createSavedSearch({ name: 'Cheap games', query: search() }, buyer.id);
+      const match = await createListing('Cheap game account');
+      await createListing('Expensive game account', { price_cents: 9000 });
+      await createListing('Social account', { category_id: social.id });
+      await createListing('Delisted game account', { status: 'delisted' });
+
+      await runSavedSearchDigests();
+
+      expect(notifications.sent[0].listing_ids).toEqual([match.id]);
+    });
+
+    it('should not alert users about their own listings', async () => {
+      await createSavedSearch({ name: 'Cheap games', query: search() }, testSeller.id);
+      await createListing('My own account');
+
+      const result = await runSavedSearchDigests();
+
+      expect(result.digests_sent).toBe(0);
+      expect(notifications.sent).toHaveLength(0);
+    });
+
+    it('should list the newest matches and count the rest', async () => {
+      await createSavedSearch({ name: 'Cheap games', query: search() }, buyer.id);
+      for (let i = 0; i < 12; i++) {
+        await createListing(`Account ${i}`);
+      }
+
+      await runSavedSearchDigests();
+      await runSavedSearchDigests();
+
+      expect(notifications.sent).toHaveLength(1);
+      expect(notifications.sent[0].listing_ids).toHaveLength(10);
+      expect(notifications.sent[0].text).toContain('Account 11');
+      expect(notifications.sent[0].text).not.toContain('Account 0:');
+      expect(notifications.sent[0].text).toContain('2 more');
+    });
+
+    it('should retry a digest that could not be delivered', async () => {
+      await createSavedSearch({ name: 'Cheap games', query: search() }, buyer.id);
+      const listing = await createListing('Fresh account');
+
+      setNotificationChannel({
+        send: async () => {
+          throw new Error('Channel unavailable');
+        }
+      });
+      expect((await runSavedSearchDigests()).digests_sent).toBe(0);
+
+      setNotificationChannel(notifications);
+      await runSavedSearchDigests();
+
+      expect(notifications.sent.map(n => n.listing_ids)).toEqual([[listing.id]]);
+    });
+  });
+});
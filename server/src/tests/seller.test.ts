@@ -4,9 +4,11 @@ import { db } from '../db';
 import { 
   usersTable, 
   categoriesTable, 
+  categoryAttributesTable,
   listingsTable,
   listingSecurePayloadsTable,
-  ordersTable
+  ordersTable,
+  profilesTable
 } from '../db/schema';
 import { 
   upsertListing,
@@ -15,6 +17,8 @@ import {
   getMyListings,
   getMyBalance
 } from '../handlers/seller';
+import { UNVERIFIED_LISTING_LIMIT } from '../handlers/kyc';
+import { decryptPayload } from '../lib/payloadEncryption';
 import { eq, and } from 'drizzle-orm';
 import type { 
   UpsertListingInput, 
@@ -150,6 +154,89 @@ describe('seller handlers', () => {
     });
   });
 
+  describe('listing attributes', () => {
+    const subcategory = {
+      id: '44444444-4444-4444-4444-444444444444',
+      parent_id: testCategory.id,
+      name: 'Consoles',
+      slug: 'consoles'
+    };
+
+    beforeEach(async () => {
+      await db.insert(categoriesTable).values(subcategory).execute();
+      await db.insert(categoryAttributesTable)
+        .values([
+          { category_id: testCategory.id, key: 'region', label: 'Region', type: 'enum', required: true, enum_values: ['EU', 'NA'] },
+          { category_id: subcategory.id, key: 'level', label: 'Level', type: 'integer' },
+          { category_id: subcategory.id, key: 'verified_email', label: 'Email verified', type: 'boolean' }
+        ])
+        .execute();
+    });
+
+    const input = (attributes: UpsertListingInput['attributes']): UpsertListingInput => ({
+      ...testListingInput,
+      category_id: subcategory.id,
+      attributes
+    });
+
+    it('should store validated attributes, including inherited ones', async () => {
+      const result = await upsertListing(input({ region: 'EU', level: 42, verified_email: true }), testSeller.id);
+
+      expect(result.attributes).toEqual({ region: 'EU', level: 42, verified_email: true });
+
+      const stored = await db.select()
+        .from(listingsTable)
+        .where(eq(listingsTable.id, result.id))
+        .execute();
+      expect(stored[0].attributes).toEqual({ region: 'EU', level: 42, verified_email: true });
+    });
+
+    it('should default to no attributes when the category defines none', async () => {
+      const [plain] = await db.insert(categoriesTable)
+        .values({ name: 'Books', slug: 'books' })
+        .returning()
+        .execute();
+
+      const result = await upsertListing({ ...testListingInput, category_id: plain.id }, testSeller.id);
+
+      expect(result.attributes).toEqual({});
+    });
+
+    it('should reject a missing required attribute', async () => {
+      await expect(upsertListing(input({ level: 42 }), testSeller.id))
+        .rejects.toThrow(/missing required attribute: region/i);
+      await expect(upsertListing(input({ region: ' ' }), testSeller.id))
+        .rejects.toThrow(/missing required attribute: region/i);
+    });
+
+    it('should reject unknown attributes', async () => {
+      await expect(upsertListing(input({ region: 'EU', followers: 1000 }), testSeller.id))
+        .rejects.toThrow(/unknown attribute: followers/i);
+    });
+
+    it('should reject values of the wrong type', async () => {
+      await expect(upsertListing(input({ region: 'EU', level: 4.5 }), testSeller.id))
+        .rejects.toThrow(/level must be a whole number/i);
+      await expect(upsertListing(input({ region: 'EU', verified_email: 'yes' }), testSeller.id))
+        .rejects.toThrow(/verified_email must be true or false/i);
+      await expect(upsertListing(input({ region: 'ASIA' }), testSeller.id))
+        .rejects.toThrow(/region must be one of: EU, NA/i);
+
+      const listings = await db.select().from(listingsTable).execute();
+      expect(listings).toHaveLength(0);
+    });
+
+    it('should revalidate attributes on update', async () => {
+      const created = await upsertListing(input({ region: 'EU' }), testSeller.id);
+
+      await expect(upsertListing({ ...input({}), id: created.id }, testSeller.id))
+        .rejects.toThrow(/missing required attribute: region/i);
+
+      const updated = await upsertListing({ ...input({ region: 'NA', level: 7 }), id: created.id }, testSeller.id);
+      expect(updated.attributes).toEqual({ region: 'NA', level: 7 });
+    });
+  });
+
   describe('setListingPayload', () => {
     it('should set secure payload for owned listing', async () => {
       // Create listing first
@@ -171,6 +258,15 @@ describe('seller handlers', () => {
       expect(payloads).toHaveLength(1);
       expect(payloads[0].cipher_text).toBeDefined();
       expect(payloads[0].nonce).toBeDefined();
+      expect(payloads[0].key_version).toBe(1);
+      expect(Buffer.from(payloads[0].cipher_text, 'base64').toString()).not.toContain('password123');
+
+      // The stored envelope decrypts back to the credentials
+      const { cipher_text, nonce, auth_tag, wrapped_key, key_version } = payloads[0];
+      expect(await decryptPayload(
+        { cipher_text, nonce, auth_tag: auth_tag!, wrapped_key: wrapped_key!, key_version: key_version! },
+        listing.id
+      )).toBe('username:password123');
 
       // Verify listing was updated
       const updatedListing = await db.select()
@@ -258,6 +354,51 @@ describe('seller handlers', () => {
     });
   });
 
+  describe('unverified listing cap', () => {
+    const fillToLimit = async () => {
+      const listings = [];
+      for (let i = 0; i < UNVERIFIED_LISTING_LIMIT; i++) {
+        listings.push(await upsertListing({ ...testListingInput, title: `Product ${i}` }, testSeller.id));
+      }
+      return listings;
+    };
+
+    it('should stop unverified sellers from creating more live listings', async () => {
+      await fillToLimit();
+
+      await expect(upsertListing(testListingInput, testSeller.id))
+        .rejects.toThrow(/at most \d+ live listings/i);
+    });
+
+    it('should not count delisted listings', async () => {
+      const listings = await fillToLimit();
+      await setListingStatus({ listing_id: listings[0].id, status: 'delisted' }, testSeller.id);
+
+      await upsertListing(testListingInput, testSeller.id);
+
+      // Relisting would go over the cap again
+      await expect(setListingStatus({ listing_id: listings[0].id, status: 'available' }, testSeller.id))
+        .rejects.toThrow(/at most \d+ live listings/i);
+    });
+
+    it('should still allow editing listings at the cap', async () => {
+      const listings = await fillToLimit();
+
+      const result = await upsertListing({ ...testListingInput, id: listings[0].id, title: 'Renamed' }, testSeller.id);
+      expect(result.title).toEqual('Renamed');
+    });
+
+    it('should not apply to verified sellers', async () => {
+      await db.insert(profilesTable)
+        .values({ user_id: testSeller.id, verification_status: 'verified' })
+        .execute();
+      await fillToLimit();
+
+      const result = await upsertListing(testListingInput, testSeller.id);
+      expect(result.status).toEqual('available');
+    });
+  });
+
   describe('getMyListings', () => {
     it('should return seller listings with pagination', async () => {
       // Create multiple listings
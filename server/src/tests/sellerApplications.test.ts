@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, roleChangesTable } from '../db/schema';
+import {
+  submitSellerApplication,
+  getMySellerApplication,
+  listSellerApplications,
+  reviewSellerApplication
+} from '../handlers/sellerApplications';
+import { eq } from 'drizzle-orm';
+
+const testAdmin = {
+  id: '11111111-1111-1111-1111-111111111111',
+  email: 'admin@test.com',
+  password_hash: 'hashed_password',
+  role: 'admin' as const
+};
+
+const testBuyer = {
+  id: '22222222-2222-2222-2222-222222222222',
+  email: 'buyer@test.com',
+  password_hash: 'hashed_password',
+  role: 'buyer' as const
+};
+
+const testApplication = {
+  display_name: 'Rare Accounts Co',
+  description: 'Aged gaming accounts with full email access and recovery details.',
+  contact: '@rareaccounts'
+};
+
+describe('seller application handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(usersTable).values([testAdmin, testBuyer]).execute();
+  });
+
+  const getRole = async () => {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, testBuyer.id))
+      .execute();
+    return users[0].role;
+  };
+
+  describe('submitSellerApplication', () => {
+    it('should create a pending application', async () => {
+      const result = await submitSellerApplication(testApplication, testBuyer.id);
+
+      expect(result.status).toEqual('pending');
+      expect(result.display_name).toEqual(testApplication.display_name);
+      expect(result.reviewed_by).toBeNull();
+      expect(await getMySellerApplication(testBuyer.id)).toEqual(result);
+    });
+
+    it('should allow only one pending application', async () => {
+      await submitSellerApplication(testApplication, testBuyer.id);
+
+      await expect(submitSellerApplication(testApplication, testBuyer.id))
+        .rejects.toThrow(/already have a pending/i);
+    });
+
+    it('should reject users who are not buyers', async () => {
+      await expect(submitSellerApplication(testApplication, testAdmin.id))
+        .rejects.toThrow(/only buyers/i);
+    });
+
+    it('should return null when the user never applied', async () => {
+      expect(await getMySellerApplication(testBuyer.id)).toBeNull();
+    });
+  });
+
+  describe('listSellerApplications', () => {
+    it('should list applications by status for admins', async () => {
+      await submitSellerApplication(testApplication, testBuyer.id);
+
+      const pending = await listSellerApplications({ status: 'pending', page: 1 }, testAdmin.id);
+      const approved = await listSellerApplications({ status: 'approved', page: 1 }, testAdmin.id);
+
+      expect(pending.items).toHaveLength(1);
+      expect(pending.total).toEqual(1);
+      expect(approved.items).toHaveLength(0);
+    });
+
+    it('should reject non-admin users', async () => {
+      await expect(listSellerApplications({ page: 1 }, testBuyer.id))
+        .rejects.toThrow(/unauthorized.*admin/i);
+    });
+  });
+
+  describe('reviewSellerApplication', () => {
+    it('should make the applicant a seller on approval and audit the change', async () => {
+      const application = await submitSellerApplication(testApplication, testBuyer.id);
+
+      const result = await reviewSellerApplication(
+        { application_id: application.id, decision: 'approve' },
+        testAdmin.id
+      );
+
+      expect(result.status).toEqual('approved');
+      expect(result.reviewed_by).toEqual(testAdmin.id);
+      expect(result.reviewed_at).toBeInstanceOf(Date);
+      expect(await getRole()).toEqual('seller');
+
+      const changes = await db.select().from(roleChangesTable).execute();
+      expect(changes).toHaveLength(1);
+      expect(changes[0].from_role).toEqual('buyer');
+      expect(changes[0].to_role).toEqual('seller');
+      expect(changes[0].changed_by).toEqual(testAdmin.id);
+    });
+
+    it('should keep the buyer role on rejection', async () => {
+      const application = await submitSellerApplication(testApplication, testBuyer.id);
+
+      const result = await reviewSellerApplication(
+        { application_id: application.id, decision: 'reject', note: 'Please describe your sourcing' },
+        testAdmin.id
+      );
+
+      expect(result.status).toEqual('rejected');
+      expect(result.review_note).toEqual('Please describe your sourcing');
+      expect(await getRole()).toEqual('buyer');
+
+      // A rejected applicant may apply again
+      await submitSellerApplication(testApplication, testBuyer.id);
+    });
+
+    it('should not review the same application twice', async () => {
+      const application = await submitSellerApplication(testApplication, testBuyer.id);
+      await reviewSellerApplication({ application_id: application.id, decision: 'reject' }, testAdmin.id);
+
+      await expect(reviewSellerApplication({ application_id: application.id, decision: 'approve' }, testAdmin.id))
+        .rejects.toThrow(/already reviewed/i);
+      expect(await getRole()).toEqual('buyer');
+    });
+
+    it('should approve without a role change when the applicant is already a seller', async () => {
+      const application = await submitSellerApplication(testApplication, testBuyer.id);
+      // Promoted by other means while the application waited
+      await db.update(usersTable)
+        .set({ role: 'seller' })
+        .where(eq(usersTable.id, testBuyer.id))
+        .execute();
+
+      const result = await reviewSellerApplication({ application_id: application.id, decision: 'approve' }, testAdmin.id);
+
+      expect(result.status).toEqual('approved');
+      expect(await getRole()).toEqual('seller');
+      expect(await db.select().from(roleChangesTable).execute()).toHaveLength(0);
+    });
+
+    it('should reject non-admin reviewers', async () => {
+      const application = await submitSellerApplication(testApplication, testBuyer.id);
+
+      await expect(reviewSellerApplication({ application_id: application.id, decision: 'approve' }, testBuyer.id))
+        .rejects.toThrow(/unauthorized.*admin/i);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, refreshTokensTable } from '../db/schema';
+import { issueSessionTokens, verifyAccessToken } from '../handlers/auth';
+import { refreshSession, logout, listSessions, revokeSession } from '../handlers/sessions';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  id: '11111111-1111-1111-1111-111111111111',
+  email: 'buyer@test.com',
+  password_hash: 'hashed_password',
+  role: 'buyer' as const
+};
+
+const otherUser = {
+  id: '22222222-2222-2222-2222-222222222222',
+  email: 'other@test.com',
+  password_hash: 'hashed_password',
+  role: 'buyer' as const
+};
+
+const testSession = {
+  id: '33333333-3333-3333-3333-333333333333',
+  user_id: testUser.id,
+  device_label: 'Laptop',
+  ip_address: '203.0.113.7'
+};
+
+const secondSession = {
+  id: '44444444-4444-4444-4444-444444444444',
+  user_id: testUser.id,
+  device_label: 'Phone',
+  ip_address: '198.51.100.2'
+};
+
+describe('session handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(usersTable).values([testUser, otherUser]).execute();
+    await db.insert(sessionsTable).values([testSession, secondSession]).execute();
+  });
+
+  describe('refreshSession', () => {
+    it('should issue a new token pair for the same session', async () => {
+      const initial = await issueSessionTokens(testUser, testSession.id);
+
+      const result = await refreshSession(
+        { refresh_token: initial.refresh_token },
+        { ip_address: '192.0.2.44', user_agent: null }
+      );
+
+      expect(result.session_id).toEqual(testSession.id);
+      expect(result.refresh_token).not.toEqual(initial.refresh_token);
+
+      const payload = verifyAccessToken(result.token);
+      expect(payload.userId).toEqual(testUser.id);
+      expect(payload.sid).toEqual(testSession.id);
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.id, testSession.id))
+        .execute();
+      expect(sessions[0].ip_address).toEqual('192.0.2.44');
+    });
+
+    it('should mark the used refresh token as rotated', async () => {
+      const initial = await issueSessionTokens(testUser, testSession.id);
+      await refreshSession({ refresh_token: initial.refresh_token });
+
+      const tokens = await db.select()
+        .from(refreshTokensTable)
+        .where(eq(refreshTokensTable.session_id, testSession.id))
+        .execute();
+
+      expect(tokens).toHaveLength(2);
+      expect(tokens.filter(t => t.rotated_at !== null)).toHaveLength(1);
+    });
+
+    it('should revoke the session when a rotated token is reused', async () => {
+      const initial = await issueSessionTokens(testUser, testSession.id);
+      const rotated = await refreshSession({ refresh_token: initial.refresh_token });
+
+      await expect(refreshSession({ refresh_token: initial.refresh_token }))
+        .rejects.toThrow(/reuse detected/i);
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.id, testSession.id))
+        .execute();
+      expect(sessions[0].revoked_at).toBeInstanceOf(Date);
+
+      // The legitimate successor token dies with the session
+      await expect(refreshSession({ refresh_token: rotated.refresh_token }))
+        .rejects.toThrow(/revoked/i);
+    });
+
+    it('should reject unknown refresh tokens', async () => {
+      await expect(refreshSession({ refresh_token: 'not-a-real-token' }))
+        .rejects.toThrow(/invalid refresh token/i);
+    });
+
+    it('should reject expired refresh tokens', async () => {
+      const initial = await issueSessionTokens(testUser, testSession.id);
+      await db.update(refreshTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(refreshTokensTable.session_id, testSession.id))
+        .execute();
+
+      await expect(refreshSession({ refresh_token: initial.refresh_token }))
+        .rejects.toThrow(/expired/i);
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the current session only', async () => {
+      await logout(testSession.id, testUser.id);
+
+      const sessions = await db.select().from(sessionsTable).execute();
+      const current = sessions.find(s => s.id === testSession.id);
+      const other = sessions.find(s => s.id === secondSession.id);
+
+      expect(current!.revoked_at).toBeInstanceOf(Date);
+      expect(other!.revoked_at).toBeNull();
+    });
+
+    it('should prevent refreshing after logout', async () => {
+      const initial = await issueSessionTokens(testUser, testSession.id);
+      await logout(testSession.id, testUser.id);
+
+      await expect(refreshSession({ refresh_token: initial.refresh_token }))
+        .rejects.toThrow(/revoked/i);
+    });
+  });
+
+  describe('listSessions', () => {
+    it('should list active sessions and flag the current one', async () => {
+      const result = await listSessions(testUser.id, secondSession.id);
+
+      expect(result).toHaveLength(2);
+      expect(result.find(s => s.id === secondSession.id)!.is_current).toBe(true);
+      expect(result.find(s => s.id === testSession.id)!.is_current).toBe(false);
+      expect(result[0].device_label).toBeDefined();
+    });
+
+    it('should exclude revoked sessions', async () => {
+      await revokeSession({ session_id: testSession.id }, testUser.id);
+
+      const result = await listSessions(testUser.id, secondSession.id);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].id).toEqual(secondSession.id);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should not allow revoking another user\'s session', async () => {
+      await expect(revokeSession({ session_id: testSession.id }, otherUser.id))
+        .rejects.toThrow(/not found or access denied/i);
+    });
+  });
+});
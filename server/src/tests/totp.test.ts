@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotp,
+  verifyTotp,
+  currentTotpStep,
+  generateTotpSecret,
+  buildOtpAuthUri
+} from '../lib/totp';
+
+// RFC 6238 test secret "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from('12345678901234567890');
+
+      expect(base32Encode(bytes)).toEqual(RFC_SECRET);
+      expect(base32Decode(RFC_SECRET).toString()).toEqual('12345678901234567890');
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base32Decode('ABC1')).toThrow(/invalid base32/i);
+    });
+  });
+
+  describe('generateTotp', () => {
+    it('should match the RFC 6238 reference values', () => {
+      expect(generateTotp(RFC_SECRET, currentTotpStep(59 * 1000))).toEqual('287082');
+      expect(generateTotp(RFC_SECRET, currentTotpStep(1111111109 * 1000))).toEqual('081804');
+    });
+
+    it('should create 160-bit secrets', () => {
+      expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1111111109 * 1000;
+
+    it('should return the matching step', () => {
+      expect(verifyTotp(RFC_SECRET, '081804', 1, now)).toEqual(currentTotpStep(now));
+    });
+
+    it('should tolerate one step of clock drift', () => {
+      const previous = generateTotp(RFC_SECRET, currentTotpStep(now) - 1);
+
+      expect(verifyTotp(RFC_SECRET, previous, 1, now)).toEqual(currentTotpStep(now) - 1);
+      expect(verifyTotp(RFC_SECRET, previous, 0, now)).toBeNull();
+    });
+
+    it('should reject wrong or malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '000000', 1, now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '08180', 1, now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef', 1, now)).toBeNull();
+    });
+  });
+
+  describe('buildOtpAuthUri', () => {
+    it('should build a provisioning URI for authenticator apps', () => {
+      const uri = buildOtpAuthUri(RFC_SECRET, 'seller@test.com', 'AccsMarket');
+
+      expect(uri).toStartWith('otpauth://totp/AccsMarket%3Aseller%40test.com?');
+      expect(uri).toContain(`secret=${RFC_SECRET}`);
+      expect(uri).toContain('issuer=AccsMarket');
+    });
+  });
+});
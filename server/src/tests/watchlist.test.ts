@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, categoriesTable, listingsTable, watchlistTable } from '../db/schema';
+import { addToWatchlist, removeFromWatchlist, getWatchlist } from '../handlers/watchlist';
+import { upsertListing, setListingStatus, addListingStock } from '../handlers/seller';
+import { MemoryNotificationChannel, setNotificationChannel } from '../lib/notifications';
+import { eq } from 'drizzle-orm';
+
+const testSeller = {
+  id: '11111111-1111-1111-1111-111111111111',
+  email: 'seller@test.com',
+  password_hash: 'hashed_password',
+  role: 'seller' as const
+};
+
+const watcher = {
+  id: '22222222-2222-2222-2222-222222222222',
+  email: 'watcher@test.com',
+  password_hash: 'hashed_password',
+  role: 'buyer' as const
+};
+
+const otherWatcher = {
+  id: '33333333-3333-3333-3333-333333333333',
+  email: 'other@test.com',
+  password_hash: 'hashed_password',
+  role: 'buyer' as const
+};
+
+const testCategory = {
+  id: '44444444-4444-4444-4444-444444444444',
+  name: 'Games',
+  slug: 'games'
+};
+
+const testListing = {
+  id: '55555555-5555-5555-5555-555555555555',
+  seller_id: testSeller.id,
+  category_id: testCategory.id,
+  title: 'Game account',
+  description: 'Account for sale',
+  price_cents: 2000,
+  stock: 1
+};
+
+const listingUpdate = (price_cents: number) => ({
+  id: testListing.id,
+  title: testListing.title,
+  description: testListing.description,
+  category_id: testCategory.id,
+  price_cents
+});
+
+describe('watchlist handlers', () => {
+  let notifications: MemoryNotificationChannel;
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    notifications = new MemoryNotificationChannel();
+    setNotificationChannel(notifications);
+    await db.insert(usersTable).values([testSeller, watcher, otherWatcher]).execute();
+    await db.insert(categoriesTable).values(testCategory).execute();
+    await db.insert(listingsTable).values(testListing).execute();
+  });
+
+  describe('add, remove and list', () => {
+    it('should list watched listings with their media', async () => {
+      await addToWatchlist({ listing_id: testListing.id }, watcher.id);
+
+      const items = await getWatchlist(watcher.id);
+
+      expect(items).toHaveLength(1);
+      expect(items[0].listing.id).toBe(testListing.id);
+      expect(items[0].listing.media).toEqual([]);
+      expect(items[0].watched_since).toBeInstanceOf(Date);
+      expect(await getWatchlist(otherWatcher.id)).toEqual([]);
+    });
+
+    it('should ignore watching the same listing twice', async () => {
+      await addToWatchlist({ listing_id: testListing.id }, watcher.id);
+      await addToWatchlist({ listing_id: testListing.id }, watcher.id);
+
+      const rows = await db.select().from(watchlistTable).execute();
+      expect(rows).toHaveLength(1);
+    });
+
+    it('should remove a listing and ignore listings that were not watched', async () => {
+      await addToWatchlist({ listing_id: testListing.id }, watcher.id);
+
+      await removeFromWatchlist({ listing_id: testListing.id }, watcher.id);
+      await removeFromWatchlist({ listing_id: testListing.id }, watcher.id);
+
+      expect(await getWatchlist(watcher.id)).toEqual([]);
+    });
+
+    it('should keep delisted listings on the list', async () => {
+      await addToWatchlist({ listing_id: testListing.id }, watcher.id);
+      await setListingStatus({ listing_id: testListing.id, status: 'delisted' }, testSeller.id);
+
+      const items = await getWatchlist(watcher.id);
+      expect(items[0].listing.status).toBe('delisted');
+    });
+
+    it('should reject missing, own and sold listings', async () => {
+      await expect(addToWatchlist({ listing_id: '66666666-6666-6666-6666-666666666666' }, watcher.id))
+        .rejects.toThrow(/listing not found/i);
+      await expect(addToWatchlist({ listing_id: testListing.id }, testSeller.id))
+        .rejects.toThrow(/own listing/i);
+
+      await db.update(listingsTable).set({ status: 'sold' }).execute();
+      await expect(addToWatchlist({ listing_id: testListing.id }, watcher.id))
+        .rejects.toThrow(/already been sold/i);
+    });
+  });
+
+  describe('notifications', () => {
+    beforeEach(async () => {
+      await addToWatchlist({ listing_id: testListing.id }, watcher.id);
+      await addToWatchlist({ listing_id: testListing.id }, otherWatcher.id);
+    });
+
+    it('should notify every watcher when the price drops', async () => {
+      await upsertListing(listingUpdate(1500), testSeller.id);
+
+      expect(notifications.sent.map(n => n.email).sort()).toEqual([otherWatcher.email, watcher.email]);
+      expect(notifications.sent[0].kind).toBe('price_drop');
+      expect(notifications.sent[0].listing_ids).toEqual([testListing.id]);
+      expect(notifications.sent[0].text).toContain('20.00 USD');
+      expect(notifications.sent[0].text).toContain('15.00 USD');
+    });
+
+    it('should stay quiet when the price rises or stays the same', async () => {
+      await upsertListing(listingUpdate(2000), testSeller.id);
+      await upsertListing(listingUpdate(2500), testSeller.id);
+
+      expect(notifications.sent).toHaveLength(0);
+    });
+
+    it('should not announce price drops on delisted listings', async () => {
+      await setListingStatus({ listing_id: testListing.id, status: 'delisted' }, testSeller.id);
+      await upsertListing(listingUpdate(1000), testSeller.id);
+
+      expect(notifications.sent).toHaveLength(0);
+    });
+
+    it('should notify watchers when a delisted listing is back on sale', async () => {
+      await setListingStatus({ listing_id: testListing.id, status: 'delisted' }, testSeller.id);
+      expect(notifications.sent).toHaveLength(0);
+
+      await setListingStatus({ listing_id: testListing.id, status: 'available' }, testSeller.id);
+
+      expect(notifications.sent).toHaveLength(2);
+      expect(notifications.sent.every(n => n.kind === 'back_in_stock')).toBe(true);
+    });
+
+    it('should notify watchers when an available listing without stock is restocked', async () => {
+      await db.update(listingsTable).set({ stock: 0 }).where(eq(listingsTable.id, testListing.id)).execute();
+
+      await addListingStock({ listing_id: testListing.id, credentials: ['user:secret'] }, testSeller.id);
+      expect(notifications.sent).toHaveLength(2);
+      expect(notifications.sent.every(n => n.kind === 'back_in_stock')).toBe(true);
+
+      // Topping up stock that never ran out is not news
+      await addListingStock({ listing_id: testListing.id, credentials: ['other:secret'] }, testSeller.id);
+      expect(notifications.sent).toHaveLength(2);
+    });
+
+    it('should stop notifying watchers who removed the listing', async () => {
+      await removeFromWatchlist({ listing_id: testListing.id }, otherWatcher.id);
+
+      await upsertListing(listingUpdate(1500), testSeller.id);
+
+      expect(notifications.sent.map(n => n.user_id)).toEqual([watcher.id]);
+    });
+
+    it('should save the listing even when a notification cannot be delivered', async () => {
+      setNotificationChannel({
+        send: async () => {
+          throw new Error('Channel unavailable');
+        }
+      });
+
+      const listing = await upsertListing(listingUpdate(1500), testSeller.id);
+
+      expect(listing.price_cents).toBe(1500);
+    });
+  });
+});